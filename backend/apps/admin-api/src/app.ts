@@ -8,27 +8,41 @@ import { swagger } from '@elysiajs/swagger';
 import type { DbConnection } from '@lokaly/db';
 import type { CacheService } from '@lokaly/cache';
 import type { EventPublisher } from '@lokaly/domain';
-import { JwtService } from '@lokaly/auth';
+import { JwtService, SessionService } from '@lokaly/auth';
+import type { AccountEmails } from '@lokaly/mailer';
 import {
   UsersService,
   CustomersService,
   AddressesService,
   CouriersService,
   ProductsService,
+  DeadLetterService,
+  AuditLogService,
+  OrderService,
+  RefundService,
+  createPaymentGateway,
 } from '@lokaly/domain';
 import { authPlugin } from './shared/middleware/auth.plugin';
+import { auditPlugin } from './shared/middleware/audit.plugin';
 import { authController } from './modules/auth/controller';
+import { accountController } from './modules/account/controller';
 import { usersController } from './modules/users/controller';
 import { customersController } from './modules/customers/controller';
 import { addressesController } from './modules/customers/addresses/controller';
 import { couriersController } from './modules/couriers/controller';
 import { productsController } from './modules/products/controller';
+import { ordersController } from './modules/orders/controller';
+import { refundsController } from './modules/refunds/controller';
+import { deadLettersController } from './modules/dead-letters/controller';
+import { twoFactorRequirementsController } from './modules/two-factor-requirements/controller';
+import { auditController } from './modules/audit/controller';
 
 export function createApp(
   db: DbConnection,
   cache: CacheService,
   eventPublisher: EventPublisher,
-  jwtService: JwtService
+  jwtService: JwtService,
+  accountEmails: AccountEmails
 ) {
   // Initialize services
   const usersService = new UsersService(db, cache);
@@ -36,6 +50,16 @@ export function createApp(
   const addressesService = new AddressesService(db, cache);
   const couriersService = new CouriersService(db, cache);
   const productsService = new ProductsService(db, cache);
+  const orderService = new OrderService(db);
+  // Gateway chosen by PAYMENT_GATEWAY (local simulator by default, its
+  // payments shared through the cache); none configured: no refunds
+  const paymentGateway = createPaymentGateway(cache);
+  const refundService = paymentGateway
+    ? new RefundService(db, paymentGateway)
+    : null;
+  const deadLetterService = new DeadLetterService(db);
+  const auditLogService = new AuditLogService(db);
+  const sessionService = new SessionService(jwtService, cache);
 
   // Build app
   const app = new Elysia()
@@ -55,11 +79,23 @@ export function createApp(
           tags: [
             { name: 'Health', description: 'Health check endpoints' },
             { name: 'Auth', description: 'Authentication endpoints' },
+            { name: 'Account', description: "Logged-in admin's own account" },
             { name: 'Users', description: 'User management endpoints' },
             { name: 'Customers', description: 'Customer management endpoints' },
             { name: 'Addresses', description: 'Address management endpoints' },
             { name: 'Couriers', description: 'Courier management endpoints' },
             { name: 'Products', description: 'Product management endpoints' },
+            { name: 'Orders', description: 'Order management endpoints' },
+            { name: 'Refunds', description: 'Order payment refunds' },
+            {
+              name: 'Dead Letters',
+              description: 'Failed domain event management endpoints',
+            },
+            {
+              name: 'Two-Factor',
+              description: 'Departments that require two-factor authentication',
+            },
+            { name: 'Audit', description: 'Audit log of admin mutations' },
           ],
           components: {
             securitySchemes: {
@@ -88,17 +124,57 @@ export function createApp(
     })
     // Public admin auth endpoints (no auth plugin - login/refresh)
     .group('/api/admin/auth', (app) =>
-      app.use(authController(usersService, jwtService))
+      app.use(authController(usersService, sessionService, accountEmails))
     )
     // Protected admin endpoints (require auth plugin)
     .group('/api/admin', (app) =>
       app
-        .use(authPlugin(jwtService))
-        .use(usersController(usersService))
+        .use(authPlugin(sessionService))
+        .use(
+          auditPlugin(auditLogService, {
+            users: {
+              entityType: 'user',
+              findById: (id) => usersService.findById(id),
+            },
+            customers: {
+              entityType: 'customer',
+              findById: (id) => customersService.findById(id),
+            },
+            addresses: {
+              entityType: 'address',
+              findById: (id) => addressesService.findById(id),
+            },
+            couriers: {
+              entityType: 'courier',
+              findById: (id) => couriersService.findById(id),
+            },
+            products: {
+              entityType: 'product',
+              findById: (id) => productsService.findById(id),
+            },
+            orders: {
+              entityType: 'order',
+              findById: (id) => orderService.getOrderById(id),
+            },
+            ...(refundService && {
+              refunds: {
+                entityType: 'refund',
+                findById: (id: number) => refundService.findById(id),
+              },
+            }),
+          })
+        )
+        .use(accountController(usersService, sessionService, accountEmails))
+        .use(usersController(usersService, sessionService))
         .use(customersController(customersService, addressesService))
         .use(addressesController(addressesService))
         .use(couriersController(couriersService))
         .use(productsController(productsService))
+        .use(ordersController(orderService))
+        .use(refundService ? refundsController(refundService) : new Elysia())
+        .use(deadLettersController(deadLetterService, eventPublisher))
+        .use(twoFactorRequirementsController(usersService))
+        .use(auditController(auditLogService))
     );
 
   return app;
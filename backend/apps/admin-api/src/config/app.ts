@@ -9,4 +9,6 @@ export const appConfig = {
     process.env.ADMIN_JWT_SECRET || 'admin-api-secret-key-change-in-production',
   redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
   databaseUrl: process.env.DATABASE_URL || 'postgresql://localhost:5432/lokaly',
+  // Backoffice app; password reset and email verification links point here
+  backofficeUrl: process.env.BACKOFFICE_URL || 'http://localhost:5174',
 } as const;
@@ -18,6 +18,7 @@ import { getCache } from '@lokaly/cache';
 import { JwtService } from '@lokaly/auth';
 import { OrderService } from '@lokaly/domain';
 import { RedisEventPublisher } from './infra/redis-publisher';
+import { AccountEmails, createMailer } from '@lokaly/mailer';
 import { createApp } from './app';
 import { appConfig } from './config/app';
 
@@ -47,10 +48,16 @@ async function init() {
   const cache = getCache(appConfig.redisUrl, 300);
 
   // Initialize domain services
-  orderService = new OrderService(db, eventPublisher);
+  orderService = new OrderService(db);
+
+  // Transactional emails (MAILER_TRANSPORT: console | file)
+  const accountEmails = new AccountEmails(
+    createMailer(),
+    appConfig.backofficeUrl
+  );
 
   // Initialize Elysia app
-  app = createApp(db, cache, eventPublisher, jwtService);
+  app = createApp(db, cache, eventPublisher, jwtService, accountEmails);
 
   console.log(`[Admin API] Initialized on port ${appConfig.port}`);
 
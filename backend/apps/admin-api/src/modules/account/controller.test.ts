@@ -0,0 +1,266 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { Elysia } from 'elysia';
+import type { UsersService } from '@lokaly/domain';
+import {
+  generateTotp,
+  hashOneTimeToken,
+  type SessionService,
+} from '@lokaly/auth';
+import type { AccountEmails } from '@lokaly/mailer';
+import { accountController } from './controller';
+
+let verificationEmails: Array<{ to: string; token: string }>;
+
+const accountEmails: Partial<AccountEmails> = {
+  sendEmailVerification: async (recipient, token) => {
+    verificationEmails.push({ to: recipient.email, token });
+  },
+};
+
+function withAuth(
+  usersService: Partial<UsersService>,
+  sessionService: Partial<SessionService>,
+  auth?: { userId: string; role: string }
+) {
+  return new Elysia()
+    .derive(() => ({ auth }))
+    .use(
+      accountController(
+        usersService as UsersService,
+        sessionService as SessionService,
+        accountEmails as AccountEmails
+      )
+    );
+}
+
+function changePassword(body: unknown) {
+  return new Request('http://localhost/account/password', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('admin-api accountController', () => {
+  let mockService: Partial<UsersService>;
+  let mockSessions: Partial<SessionService>;
+  let updates: any[];
+  let endedAll: unknown[];
+
+  beforeEach(async () => {
+    updates = [];
+    endedAll = [];
+    verificationEmails = [];
+    mockSessions = {
+      endAll: async (account) => {
+        endedAll.push(account);
+      },
+    };
+    const passwordHash = await Bun.password.hash('Old-pass-1');
+    mockService = {
+      findById: async (id: number) =>
+        ({ id, email: 'admin@lokaly.com', passwordHash } as any),
+      update: async (_id, data) => {
+        updates.push(data);
+        return null;
+      },
+    };
+  });
+
+  describe('POST /account/password', () => {
+    it('should return 401 without auth', async () => {
+      const res = await withAuth(mockService, mockSessions).handle(
+        changePassword({ currentPassword: 'x', newPassword: 'y' })
+      );
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should return 401 for a wrong current password', async () => {
+      const res = await withAuth(mockService, mockSessions, {
+        userId: '1',
+        role: 'admin',
+      }).handle(
+        changePassword({
+          currentPassword: 'Wrong-pass-1',
+          newPassword: 'N3w-password',
+        })
+      );
+
+      expect(res.status).toBe(401);
+      expect(updates).toHaveLength(0);
+    });
+
+    it('should return 400 for a weak new password', async () => {
+      const res = await withAuth(mockService, mockSessions, {
+        userId: '1',
+        role: 'admin',
+      }).handle(
+        changePassword({ currentPassword: 'Old-pass-1', newPassword: 'short' })
+      );
+
+      expect(res.status).toBe(400);
+      expect(updates).toHaveLength(0);
+    });
+
+    it('should store the new hash and passwordChangedAt', async () => {
+      const res = await withAuth(mockService, mockSessions, {
+        userId: '1',
+        role: 'admin',
+      }).handle(
+        changePassword({
+          currentPassword: 'Old-pass-1',
+          newPassword: 'N3w-password',
+        })
+      );
+
+      expect(res.status).toBe(204);
+      expect(updates).toHaveLength(1);
+      expect(updates[0].passwordChangedAt).toBeInstanceOf(Date);
+      expect(
+        await Bun.password.verify('N3w-password', updates[0].passwordHash)
+      ).toBe(true);
+      expect(endedAll).toEqual([{ userId: '1', role: 'admin' }]);
+    });
+  });
+
+  describe('GET /account/permissions', () => {
+    it('should return role defaults plus the grants of the admin', async () => {
+      mockService.findById = async (id: number) =>
+        ({ id, role: 'admin', permissions: '["products:prices"]' } as any);
+
+      const res = await withAuth(mockService, mockSessions, {
+        userId: '1',
+        role: 'admin',
+      }).handle(new Request('http://localhost/account/permissions'));
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.role).toBe('admin');
+      expect(body.permissions).toContain('products:write');
+      expect(body.permissions).toContain('products:prices');
+      expect(body.permissions).not.toContain('users:delete');
+    });
+  });
+
+  describe('POST /account/logout-all', () => {
+    it('should end every session of the admin', async () => {
+      const res = await withAuth(mockService, mockSessions, {
+        userId: '1',
+        role: 'admin',
+      }).handle(
+        new Request('http://localhost/account/logout-all', { method: 'POST' })
+      );
+
+      expect(res.status).toBe(204);
+      expect(endedAll).toEqual([{ userId: '1', role: 'admin' }]);
+    });
+  });
+
+  describe('POST /account/email-verification', () => {
+    const request = () =>
+      new Request('http://localhost/account/email-verification', {
+        method: 'POST',
+      });
+
+    it('should return 409 when the email is already verified', async () => {
+      mockService.findById = async (id: number) =>
+        ({ id, email: 'admin@lokaly.com', emailVerified: true } as any);
+
+      const res = await withAuth(mockService, mockSessions, {
+        userId: '1',
+        role: 'admin',
+      }).handle(request());
+
+      expect(res.status).toBe(409);
+      expect(verificationEmails).toHaveLength(0);
+    });
+
+    it('should email a verification link and store only its hash', async () => {
+      const res = await withAuth(mockService, mockSessions, {
+        userId: '1',
+        role: 'admin',
+      }).handle(request());
+
+      expect(res.status).toBe(202);
+      expect(verificationEmails).toHaveLength(1);
+      expect(updates[0].emailVerificationToken).toBe(
+        hashOneTimeToken(verificationEmails[0]!.token)
+      );
+    });
+  });
+
+  describe('two-factor authentication', () => {
+    const auth = { userId: '1', role: 'admin' };
+    const post = (path: string, body?: unknown) =>
+      new Request(`http://localhost/account${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body ?? {}),
+      });
+
+    it('should store a new secret and return its otpauth URI', async () => {
+      const res = await withAuth(mockService, mockSessions, auth).handle(
+        post('/2fa/setup')
+      );
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(updates[0].twoFactorSecret).toBe(body.secret);
+      expect(body.otpauthUri).toStartWith(
+        'otpauth://totp/Lokaly%20Admin%3Aadmin%40lokaly.com?'
+      );
+    });
+
+    it('should not enable 2FA with a wrong code', async () => {
+      mockService.findById = async (id: number) =>
+        ({ id, twoFactorSecret: 'JBSWY3DPEHPK3PXP' } as any);
+      mockService.recordTotpUse = async () => true;
+
+      const res = await withAuth(mockService, mockSessions, auth).handle(
+        post('/2fa/enable', { code: '000000' })
+      );
+
+      expect(res.status).toBe(400);
+      expect(updates).toHaveLength(0);
+    });
+
+    it('should enable 2FA and return the recovery codes', async () => {
+      mockService.findById = async (id: number) =>
+        ({ id, twoFactorSecret: 'JBSWY3DPEHPK3PXP' } as any);
+      mockService.recordTotpUse = async () => true;
+
+      const res = await withAuth(mockService, mockSessions, auth).handle(
+        post('/2fa/enable', { code: generateTotp('JBSWY3DPEHPK3PXP') })
+      );
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.recoveryCodes).toHaveLength(10);
+      expect(updates[0].twoFactorEnabled).toBe(true);
+    });
+
+    it("should not disable 2FA when the admin's department requires it", async () => {
+      const passwordHash = await Bun.password.hash('Old-pass-1');
+      mockService.findById = async (id: number) =>
+        ({
+          id,
+          passwordHash,
+          department: 'finance',
+          twoFactorEnabled: true,
+          twoFactorSecret: 'JBSWY3DPEHPK3PXP',
+        } as any);
+      mockService.isTwoFactorRequired = async () => true;
+
+      const res = await withAuth(mockService, mockSessions, auth).handle(
+        post('/2fa/disable', {
+          password: 'Old-pass-1',
+          code: generateTotp('JBSWY3DPEHPK3PXP'),
+        })
+      );
+
+      expect(res.status).toBe(403);
+      expect(updates).toHaveLength(0);
+    });
+  });
+});
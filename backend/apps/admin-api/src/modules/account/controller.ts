@@ -0,0 +1,454 @@
+/**
+ * Account Controller
+ * Endpoints for the logged-in admin's own account
+ *
+ * Two-factor authentication: /2fa/setup returns a TOTP secret, /2fa/enable
+ * turns it on with the first code and hands out the recovery codes.
+ */
+
+import { Elysia, type Context } from 'elysia';
+import type { UsersService } from '@lokaly/domain';
+import {
+  EMAIL_VERIFICATION_TTL_SECONDS,
+  PasswordHasher,
+  createOneTimeToken,
+  resolvePermissions,
+  validatePasswordStrength,
+  type SessionService,
+  type UserRole,
+} from '@lokaly/auth';
+import type { AccountEmails } from '@lokaly/mailer';
+import { jsonResponse, errorResponse } from '../../shared/responses';
+import {
+  checkSecondFactor,
+  enableTwoFactor,
+  replaceRecoveryCodes,
+  startTwoFactorSetup,
+} from '../auth/two-factor';
+import { accountValidators } from './validators';
+
+type Auth = { userId: string; role: UserRole; email?: string };
+
+export const accountController = (
+  usersService: UsersService,
+  sessionService: SessionService,
+  accountEmails: AccountEmails,
+  passwordHasher: PasswordHasher = new PasswordHasher()
+) =>
+  new Elysia({ prefix: '/account' })
+    .get(
+      '/permissions',
+      async ({ auth }: Context & { auth?: Auth }) => {
+        if (!auth) {
+          return errorResponse('Unauthorized', 401);
+        }
+
+        try {
+          const user = await usersService.findById(Number(auth.userId));
+          if (!user) {
+            return errorResponse('User not found', 404);
+          }
+
+          return jsonResponse({
+            role: user.role,
+            permissions: resolvePermissions(user.role, user.permissions),
+          });
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        detail: {
+          tags: ['Account'],
+          summary: 'My permissions',
+          description:
+            'Effective permissions of the logged-in admin: role defaults plus individual grants',
+          security: [{ bearerAuth: [] }],
+          responses: {
+            200: {
+              description: 'Effective permissions',
+              content: {
+                'application/json': {
+                  example: {
+                    role: 'admin',
+                    permissions: ['users:read', 'products:read'],
+                  },
+                },
+              },
+            },
+          },
+        },
+      }
+    )
+    .post(
+      '/password',
+      async ({
+        body,
+        auth,
+      }: {
+        body: { currentPassword: string; newPassword: string };
+        auth?: Auth;
+      }) => {
+        if (!auth) {
+          return errorResponse('Unauthorized', 401);
+        }
+
+        try {
+          const user = await usersService.findById(Number(auth.userId));
+          if (!user) {
+            return errorResponse('User not found', 404);
+          }
+
+          const { valid } = await passwordHasher.verify(
+            body.currentPassword,
+            user.passwordHash
+          );
+          if (!valid) {
+            return errorResponse('Current password is incorrect', 401);
+          }
+
+          const weaknesses = validatePasswordStrength(body.newPassword, {
+            email: user.email,
+          });
+          if (weaknesses.length > 0) {
+            return errorResponse(
+              'Password does not meet the requirements',
+              400,
+              { errors: weaknesses }
+            );
+          }
+
+          await usersService.update(user.id, {
+            passwordHash: await passwordHasher.hash(body.newPassword),
+            passwordChangedAt: new Date(),
+          });
+          // Tokens emitidos antes da troca deixam de valer
+          await sessionService.endAll(auth);
+
+          return new Response(null, { status: 204 });
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...accountValidators.changePassword,
+        detail: {
+          tags: ['Account'],
+          summary: 'Change password',
+          description:
+            'Change the password of the logged-in admin. The new password must follow the strength rules; passwordChangedAt is updated and every session (including the current one) is logged out.',
+          security: [{ bearerAuth: [] }],
+          responses: {
+            204: { description: 'Password changed' },
+            400: { description: 'New password does not meet the requirements' },
+            401: { description: 'Current password is incorrect' },
+          },
+        },
+      }
+    )
+    .post(
+      '/logout-all',
+      async ({ auth }: Context & { auth?: Auth }) => {
+        if (!auth) {
+          return errorResponse('Unauthorized', 401);
+        }
+
+        try {
+          await sessionService.endAll(auth);
+          return new Response(null, { status: 204 });
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        detail: {
+          tags: ['Account'],
+          summary: 'Log out all sessions',
+          description:
+            'End every session of the logged-in admin, on all devices. Access and refresh tokens issued so far stop working.',
+          security: [{ bearerAuth: [] }],
+          responses: {
+            204: { description: 'All sessions ended' },
+          },
+        },
+      }
+    )
+    .post(
+      '/email-verification',
+      async ({ auth }: Context & { auth?: Auth }) => {
+        if (!auth) {
+          return errorResponse('Unauthorized', 401);
+        }
+
+        try {
+          const user = await usersService.findById(Number(auth.userId));
+          if (!user) {
+            return errorResponse('User not found', 404);
+          }
+          if (user.emailVerified) {
+            return errorResponse('Email already verified', 409);
+          }
+
+          // A new token replaces (and invalidates) any previous one
+          const { token, tokenHash, expiresAt } = createOneTimeToken(
+            EMAIL_VERIFICATION_TTL_SECONDS
+          );
+          await usersService.update(user.id, {
+            emailVerificationToken: tokenHash,
+            emailVerificationExpiresAt: expiresAt,
+          });
+          await accountEmails.sendEmailVerification(user, token, expiresAt);
+
+          return jsonResponse({ message: 'Verification email sent' }, 202);
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        detail: {
+          tags: ['Account'],
+          summary: 'Send email verification',
+          description:
+            'Email a new verification link (valid for 48 hours) to the logged-in admin. Earlier links stop working.',
+          security: [{ bearerAuth: [] }],
+          responses: {
+            202: { description: 'Verification email sent' },
+            409: { description: 'Email already verified' },
+          },
+        },
+      }
+    )
+    .post(
+      '/2fa/setup',
+      async ({ auth }: Context & { auth?: Auth }) => {
+        if (!auth) {
+          return errorResponse('Unauthorized', 401);
+        }
+
+        try {
+          const user = await usersService.findById(Number(auth.userId));
+          if (!user) {
+            return errorResponse('User not found', 404);
+          }
+          if (user.twoFactorEnabled) {
+            return errorResponse(
+              'Two-factor authentication is already enabled',
+              409
+            );
+          }
+
+          return jsonResponse(await startTwoFactorSetup(usersService, user));
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        detail: {
+          tags: ['Account'],
+          summary: 'Start 2FA setup',
+          description:
+            'Generate a TOTP secret and its otpauth:// URI (for the QR code). Two-factor authentication is only enabled after /account/2fa/enable.',
+          security: [{ bearerAuth: [] }],
+          responses: {
+            200: { description: 'TOTP secret and otpauth URI' },
+            409: { description: 'Two-factor authentication already enabled' },
+          },
+        },
+      }
+    )
+    .post(
+      '/2fa/enable',
+      async ({ body, auth }: { body: { code: string }; auth?: Auth }) => {
+        if (!auth) {
+          return errorResponse('Unauthorized', 401);
+        }
+
+        try {
+          const user = await usersService.findById(Number(auth.userId));
+          if (!user) {
+            return errorResponse('User not found', 404);
+          }
+          if (user.twoFactorEnabled) {
+            return errorResponse(
+              'Two-factor authentication is already enabled',
+              409
+            );
+          }
+          if (!user.twoFactorSecret) {
+            return errorResponse('Start the two-factor setup first', 400);
+          }
+
+          const recoveryCodes = await enableTwoFactor(
+            usersService,
+            user,
+            body.code
+          );
+          if (!recoveryCodes) {
+            return errorResponse('Invalid code', 400);
+          }
+
+          return jsonResponse({ recoveryCodes });
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...accountValidators.twoFactorCode,
+        detail: {
+          tags: ['Account'],
+          summary: 'Enable 2FA',
+          description:
+            'Confirm the setup with the first code from the authenticator app. The answer carries the recovery codes; they are shown only once.',
+          security: [{ bearerAuth: [] }],
+          responses: {
+            200: { description: 'Enabled; recovery codes' },
+            400: { description: 'Invalid code or setup not started' },
+            409: { description: 'Two-factor authentication already enabled' },
+          },
+        },
+      }
+    )
+    .post(
+      '/2fa/disable',
+      async ({
+        body,
+        auth,
+      }: {
+        body: { password: string; code: string };
+        auth?: Auth;
+      }) => {
+        if (!auth) {
+          return errorResponse('Unauthorized', 401);
+        }
+
+        try {
+          const user = await usersService.findById(Number(auth.userId));
+          if (!user) {
+            return errorResponse('User not found', 404);
+          }
+          if (!user.twoFactorEnabled) {
+            return errorResponse(
+              'Two-factor authentication is not enabled',
+              409
+            );
+          }
+
+          const { valid } = await passwordHasher.verify(
+            body.password,
+            user.passwordHash
+          );
+          if (!valid) {
+            return errorResponse('Password is incorrect', 401);
+          }
+
+          if (await usersService.isTwoFactorRequired(user.department)) {
+            return errorResponse(
+              'Two-factor authentication is required for your department',
+              403
+            );
+          }
+
+          if (!(await checkSecondFactor(usersService, user, body.code))) {
+            return errorResponse('Invalid code', 400);
+          }
+
+          await usersService.update(user.id, {
+            twoFactorEnabled: false,
+            twoFactorSecret: null,
+            twoFactorRecoveryCodes: null,
+            twoFactorLastUsedStep: null,
+          });
+
+          return new Response(null, { status: 204 });
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...accountValidators.disableTwoFactor,
+        detail: {
+          tags: ['Account'],
+          summary: 'Disable 2FA',
+          description:
+            'Turn two-factor authentication off. Needs the password and a current code (or a recovery code). Not allowed when the department requires 2FA.',
+          security: [{ bearerAuth: [] }],
+          responses: {
+            204: { description: 'Disabled' },
+            400: { description: 'Invalid code' },
+            401: { description: 'Password is incorrect' },
+            403: { description: 'Department requires 2FA' },
+            409: { description: 'Two-factor authentication is not enabled' },
+          },
+        },
+      }
+    )
+    .post(
+      '/2fa/recovery-codes',
+      async ({ body, auth }: { body: { code: string }; auth?: Auth }) => {
+        if (!auth) {
+          return errorResponse('Unauthorized', 401);
+        }
+
+        try {
+          const user = await usersService.findById(Number(auth.userId));
+          if (!user) {
+            return errorResponse('User not found', 404);
+          }
+          if (!user.twoFactorEnabled) {
+            return errorResponse(
+              'Two-factor authentication is not enabled',
+              409
+            );
+          }
+
+          if (!(await checkSecondFactor(usersService, user, body.code))) {
+            return errorResponse('Invalid code', 400);
+          }
+
+          return jsonResponse({
+            recoveryCodes: await replaceRecoveryCodes(usersService, user),
+          });
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...accountValidators.twoFactorCode,
+        detail: {
+          tags: ['Account'],
+          summary: 'Regenerate recovery codes',
+          description:
+            'Issue a new set of recovery codes (needs a current code); the previous codes stop working',
+          security: [{ bearerAuth: [] }],
+          responses: {
+            200: { description: 'New recovery codes' },
+            400: { description: 'Invalid code' },
+            409: { description: 'Two-factor authentication is not enabled' },
+          },
+        },
+      }
+    );
@@ -0,0 +1,26 @@
+/**
+ * Account Validators
+ * Elysia validators for the logged-in admin's own account
+ */
+
+import { t } from 'elysia';
+
+export const accountValidators = {
+  changePassword: {
+    body: t.Object({
+      currentPassword: t.String({ minLength: 1 }),
+      newPassword: t.String({ minLength: 1 }),
+    }),
+  },
+  twoFactorCode: {
+    body: t.Object({
+      code: t.String({ minLength: 1 }),
+    }),
+  },
+  disableTwoFactor: {
+    body: t.Object({
+      password: t.String({ minLength: 1 }),
+      code: t.String({ minLength: 1 }),
+    }),
+  },
+};
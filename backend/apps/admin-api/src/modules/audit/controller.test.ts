@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import type { AuditLogService } from '@lokaly/domain';
+import { adminWith, withAuth } from '../../test-helpers/auth';
+import { auditController } from './controller';
+
+describe('admin-api auditController', () => {
+  let mockService: Partial<AuditLogService>;
+  let app: ReturnType<typeof withAuth>;
+
+  const entry = {
+    id: 1,
+    actorId: 1,
+    action: 'update',
+    entityType: 'product',
+    entityId: '42',
+    changes: JSON.stringify({ basePrice: { before: '10.00', after: '12.50' } }),
+    ipAddress: '203.0.113.7',
+    userAgent: 'curl/8.0',
+    createdAt: new Date('2026-10-01T12:00:00Z'),
+  };
+
+  beforeEach(() => {
+    mockService = {
+      findMany: async () => [],
+      count: async () => 0,
+    };
+    app = withAuth(auditController(mockService as AuditLogService));
+  });
+
+  describe('GET /audit', () => {
+    it('should return paginated entries with parsed changes', async () => {
+      mockService.findMany = async () => [entry] as any;
+      mockService.count = async () => 1;
+
+      const res = await app.handle(new Request('http://localhost/audit'));
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.data[0].changes).toEqual({
+        basePrice: { before: '10.00', after: '12.50' },
+      });
+      expect(body.pagination.total).toBe(1);
+    });
+
+    it('should apply actor, entity and time range filters', async () => {
+      mockService.findMany = async (opts) => {
+        expect(opts?.filters).toEqual({
+          actorId: 1,
+          entityType: 'product',
+          entityId: '42',
+          from: new Date('2026-10-01T00:00:00Z'),
+          to: new Date('2026-10-02T00:00:00Z'),
+        });
+        return [];
+      };
+
+      const res = await app.handle(
+        new Request(
+          'http://localhost/audit?actorId=1&entityType=product&entityId=42' +
+            '&from=2026-10-01T00:00:00Z&to=2026-10-02T00:00:00Z'
+        )
+      );
+
+      expect(res.status).toBe(200);
+    });
+
+    it('should reject an invalid time range value', async () => {
+      const res = await app.handle(
+        new Request('http://localhost/audit?from=yesterday')
+      );
+
+      expect(res.status).toBe(422);
+    });
+
+    it('should need audit:read', async () => {
+      const res = await withAuth(
+        auditController(mockService as AuditLogService),
+        adminWith(['users:read'])
+      ).handle(new Request('http://localhost/audit'));
+
+      expect(res.status).toBe(403);
+    });
+  });
+});
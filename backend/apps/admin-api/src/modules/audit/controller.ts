@@ -0,0 +1,67 @@
+/**
+ * Audit Controller
+ * Query the trail of admin mutations (entries are written by auditPlugin)
+ */
+
+import { Elysia } from 'elysia';
+import type { AuditLogEntry } from '@lokaly/db';
+import type { AuditLogService } from '@lokaly/domain';
+import { errorResponse, paginatedResponse } from '../../shared/responses';
+import { permissionGuard } from '../../shared/middleware/permissions.plugin';
+import { auditValidators } from './validators';
+
+function withParsedChanges(entry: AuditLogEntry) {
+  return {
+    ...entry,
+    changes: entry.changes ? JSON.parse(entry.changes) : null,
+  };
+}
+
+export const auditController = (auditLogService: AuditLogService) =>
+  new Elysia({ prefix: '/audit' }).use(permissionGuard).get(
+    '/',
+    async ({ query }) => {
+      try {
+        const limit = query.limit || 50;
+        const offset = query.offset || 0;
+        const filters = {
+          ...(query.actorId !== undefined && { actorId: query.actorId }),
+          ...(query.entityType && { entityType: query.entityType }),
+          ...(query.entityId && { entityId: query.entityId }),
+          ...(query.action && { action: query.action }),
+          ...(query.from && { from: new Date(query.from) }),
+          ...(query.to && { to: new Date(query.to) }),
+        };
+
+        const entries = await auditLogService.findMany({
+          limit,
+          offset,
+          filters,
+        });
+        const total = await auditLogService.count(filters);
+
+        return paginatedResponse(
+          entries.map(withParsedChanges),
+          total,
+          limit,
+          offset
+        );
+      } catch (error) {
+        return errorResponse(
+          error instanceof Error ? error.message : 'Unknown error',
+          500
+        );
+      }
+    },
+    {
+      ...auditValidators.list,
+      permission: 'audit:read',
+      detail: {
+        tags: ['Audit'],
+        summary: 'List audit log entries',
+        description:
+          'Get paginated admin mutations (create, update, delete), most recent first. Filter by actor, entity and time range (from/to, ISO 8601).',
+        security: [{ bearerAuth: [] }],
+      },
+    }
+  );
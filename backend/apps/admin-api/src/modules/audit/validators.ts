@@ -0,0 +1,38 @@
+/**
+ * Audit Validators
+ * Elysia validators for audit log endpoints
+ */
+
+import { t } from 'elysia';
+import { paginationQuery } from '../../shared/validators';
+
+export const auditValidators = {
+  list: {
+    query: t.Composite([
+      paginationQuery,
+      t.Object({
+        actorId: t.Optional(t.Numeric()),
+        entityType: t.Optional(
+          t.Union([
+            t.Literal('user'),
+            t.Literal('customer'),
+            t.Literal('address'),
+            t.Literal('courier'),
+            t.Literal('product'),
+            t.Literal('order'),
+          ])
+        ),
+        entityId: t.Optional(t.String()),
+        action: t.Optional(
+          t.Union([
+            t.Literal('create'),
+            t.Literal('update'),
+            t.Literal('delete'),
+          ])
+        ),
+        from: t.Optional(t.String({ format: 'date-time' })),
+        to: t.Optional(t.String({ format: 'date-time' })),
+      }),
+    ]),
+  },
+};
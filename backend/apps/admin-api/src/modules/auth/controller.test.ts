@@ -1,21 +1,82 @@
 import { describe, it, expect, beforeEach } from 'bun:test';
-import { Elysia } from 'elysia';
 import type { UsersService } from '@lokaly/domain';
-import { JwtService } from '@lokaly/auth';
+import {
+  JwtService,
+  SessionService,
+  generateTotp,
+  generateTotpSecret,
+  hashOneTimeToken,
+  hashRecoveryCode,
+  type SessionCache,
+} from '@lokaly/auth';
+import type { AccountEmails } from '@lokaly/mailer';
 import { authController } from './controller';
 
+function memoryCache(): SessionCache {
+  const store = new Map<string, unknown>();
+  return {
+    get: async (key: string) => (store.get(key) ?? null) as any,
+    set: async (key: string, value: unknown) => {
+      store.set(key, value);
+    },
+    delete: async (key: string) => {
+      store.delete(key);
+    },
+    getAndDelete: async (key: string) => {
+      const value = store.get(key) ?? null;
+      store.delete(key);
+      return value as any;
+    },
+    incrementWithTtl: async (key: string) => {
+      const value = Number(store.get(key) ?? 0) + 1;
+      store.set(key, value);
+      return value;
+    },
+  };
+}
+
+// Unsigned stand-in for JwtService (Bun.jwt is not available in every test
+// runtime); used by the two-factor tests, which are about the login steps
+const fakeJwt = {
+  sign: async (payload: object) => btoa(JSON.stringify(payload)),
+  verify: async (token: string) => {
+    try {
+      return JSON.parse(atob(token));
+    } catch {
+      return null;
+    }
+  },
+} as unknown as JwtService;
+
 describe('admin-api authController', () => {
   let mockUsersService: Partial<UsersService>;
   let jwtService: JwtService;
+  let sessionService: SessionService;
+  let resetEmails: Array<{ to: string; token: string }>;
   let app: ReturnType<typeof authController>;
 
   beforeEach(() => {
+    resetEmails = [];
+    const accountEmails: Partial<AccountEmails> = {
+      sendPasswordReset: async (recipient, token) => {
+        resetEmails.push({ to: recipient.email, token });
+      },
+    };
     jwtService = new JwtService('test-secret-key');
+    sessionService = new SessionService(jwtService, memoryCache());
     mockUsersService = {
       findByEmail: async () => null,
       findById: async () => null,
+      update: async () => null,
+      isTwoFactorRequired: async () => false,
+      recordFailedLogin: async () => null,
+      recordSuccessfulLogin: async () => {},
     };
-    app = authController(mockUsersService as UsersService, jwtService);
+    app = authController(
+      mockUsersService as UsersService,
+      sessionService,
+      accountEmails as AccountEmails
+    );
   });
 
   describe('POST /login', () => {
@@ -28,7 +89,7 @@ describe('admin-api authController', () => {
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             email: 'nonexistent@test.com',
-            passwordHash: 'hash123',
+            password: 'hash123',
           }),
         })
       );
@@ -56,7 +117,7 @@ describe('admin-api authController', () => {
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             email: 'admin@test.com',
-            passwordHash: 'wrong-hash',
+            password: 'wrong-hash',
           }),
         })
       );
@@ -66,6 +127,100 @@ describe('admin-api authController', () => {
       expect(body.error).toBe('Invalid credentials');
     });
 
+    describe('lockout', () => {
+      const admin = {
+        id: 1,
+        email: 'admin@test.com',
+        passwordHash: 'hash123',
+        role: 'admin',
+        isActive: true,
+        firstName: 'Admin',
+        lastName: 'User',
+        accountLockedUntil: null,
+      };
+      beforeEach(() => {
+        sessionService = new SessionService(fakeJwt, memoryCache());
+        app = authController(
+          mockUsersService as UsersService,
+          sessionService,
+          {} as AccountEmails
+        );
+      });
+
+      const login = (password: string) =>
+        app.handle(
+          new Request('http://localhost/login', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'X-Forwarded-For': '203.0.113.7',
+            },
+            body: JSON.stringify({ email: admin.email, password }),
+          })
+        );
+
+      it('should record a failed attempt on wrong password', async () => {
+        const failed: number[] = [];
+        mockUsersService.findByEmail = async () => admin as any;
+        mockUsersService.recordFailedLogin = async (id) => {
+          failed.push(id);
+          return { ...admin, failedLoginAttempts: 1 } as any;
+        };
+
+        const res = await login('wrong-hash');
+
+        expect(res.status).toBe(401);
+        expect(failed).toEqual([1]);
+      });
+
+      it('should answer 423 when the failed attempt locks the account', async () => {
+        const lockedUntil = new Date(Date.now() + 15 * 60 * 1000);
+        mockUsersService.findByEmail = async () => admin as any;
+        mockUsersService.recordFailedLogin = async () =>
+          ({
+            ...admin,
+            failedLoginAttempts: 5,
+            accountLockedUntil: lockedUntil,
+          } as any);
+
+        const res = await login('wrong-hash');
+
+        expect(res.status).toBe(423);
+        const body = await res.json();
+        expect(body.details.lockedUntil).toBe(lockedUntil.toISOString());
+      });
+
+      it('should reject a locked account even with the right password', async () => {
+        let succeeded = false;
+        mockUsersService.findByEmail = async () =>
+          ({
+            ...admin,
+            accountLockedUntil: new Date(Date.now() + 60000).toISOString(),
+          } as any);
+        mockUsersService.recordSuccessfulLogin = async () => {
+          succeeded = true;
+        };
+
+        const res = await login('hash123');
+
+        expect(res.status).toBe(423);
+        expect(succeeded).toBe(false);
+      });
+
+      it('should reset the counter when the session is issued', async () => {
+        const succeeded: unknown[][] = [];
+        mockUsersService.findByEmail = async () => admin as any;
+        mockUsersService.recordSuccessfulLogin = async (...args) => {
+          succeeded.push(args);
+        };
+
+        const res = await login('hash123');
+
+        expect(res.status).toBe(200);
+        expect(succeeded).toEqual([[1, '203.0.113.7']]);
+      });
+    });
+
     it('should return 403 for non-admin role', async () => {
       mockUsersService.findByEmail = async () =>
         ({
@@ -84,7 +239,7 @@ describe('admin-api authController', () => {
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             email: 'customer@test.com',
-            passwordHash: 'hash123',
+            password: 'hash123',
           }),
         })
       );
@@ -112,7 +267,7 @@ describe('admin-api authController', () => {
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             email: 'admin@test.com',
-            passwordHash: 'hash123',
+            password: 'hash123',
           }),
         })
       );
@@ -141,7 +296,7 @@ describe('admin-api authController', () => {
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             email: 'admin@test.com',
-            passwordHash: 'hash123',
+            password: 'hash123',
           }),
         })
       );
@@ -166,6 +321,69 @@ describe('admin-api authController', () => {
         lastName: 'User',
       });
     });
+
+    it('should verify argon2 hashes without rehashing', async () => {
+      let updated = false;
+      mockUsersService.findByEmail = async () =>
+        ({
+          id: 1,
+          email: 'admin@test.com',
+          passwordHash: await Bun.password.hash('S3cure-pass'),
+          role: 'admin',
+          isActive: true,
+        } as any);
+      mockUsersService.update = async () => {
+        updated = true;
+        return null;
+      };
+
+      const res = await app.handle(
+        new Request('http://localhost/login', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            email: 'admin@test.com',
+            password: 'S3cure-pass',
+          }),
+        })
+      );
+
+      expect(res.status).not.toBe(401);
+      expect(updated).toBe(false);
+    });
+
+    it('should rehash a bcrypt password on successful login', async () => {
+      const updates: Array<{ passwordHash?: string }> = [];
+      mockUsersService.findByEmail = async () =>
+        ({
+          id: 1,
+          email: 'admin@test.com',
+          passwordHash: await Bun.password.hash('S3cure-pass', {
+            algorithm: 'bcrypt',
+            cost: 4,
+          }),
+          role: 'admin',
+          isActive: true,
+        } as any);
+      mockUsersService.update = async (_id, data) => {
+        updates.push(data);
+        return null;
+      };
+
+      await app.handle(
+        new Request('http://localhost/login', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            email: 'admin@test.com',
+            password: 'S3cure-pass',
+          }),
+        })
+      );
+
+      expect(updates).toHaveLength(1);
+      expect(updates[0]!.passwordHash).toStartWith('$argon2id$');
+    });
   });
 
   describe('POST /refresh', () => {
@@ -253,15 +471,11 @@ describe('admin-api authController', () => {
     });
 
     it('should return 403 for inactive user', async () => {
-      const refreshToken = await jwtService.sign(
-        {
-          userId: '1',
-          role: 'admin',
-          email: 'admin@test.com',
-          tokenType: 'refresh',
-        },
-        604800
-      );
+      const { refreshToken } = await sessionService.start({
+        userId: '1',
+        role: 'admin',
+        email: 'admin@test.com',
+      });
 
       mockUsersService.findById = async () =>
         ({
@@ -287,15 +501,11 @@ describe('admin-api authController', () => {
     });
 
     it('should return new accessToken and refreshToken on successful refresh', async () => {
-      const refreshToken = await jwtService.sign(
-        {
-          userId: '1',
-          role: 'admin',
-          email: 'admin@test.com',
-          tokenType: 'refresh',
-        },
-        604800
-      );
+      const { refreshToken } = await sessionService.start({
+        userId: '1',
+        role: 'admin',
+        email: 'admin@test.com',
+      });
 
       mockUsersService.findById = async () =>
         ({
@@ -329,5 +539,326 @@ describe('admin-api authController', () => {
       const newRefreshPayload = await jwtService.verify(body.refreshToken);
       expect(newRefreshPayload?.tokenType).toBe('refresh');
     });
+
+    it('should end the session when a refresh token is reused', async () => {
+      try {
+        const { refreshToken } = await sessionService.start({
+          userId: '1',
+          role: 'admin',
+          email: 'admin@test.com',
+        });
+        mockUsersService.findById = async () =>
+          ({
+            id: 1,
+            email: 'admin@test.com',
+            role: 'admin',
+            isActive: true,
+          } as any);
+
+        const refresh = (token: string) =>
+          app.handle(
+            new Request('http://localhost/refresh', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ refreshToken: token }),
+            })
+          );
+
+        const first = await refresh(refreshToken);
+        expect(first.status).toBe(200);
+        const rotated = await first.json();
+
+        expect((await refresh(refreshToken)).status).toBe(401);
+        // The rotated token belongs to the same (now ended) session
+        expect((await refresh(rotated.refreshToken)).status).toBe(401);
+      } catch (e: any) {
+        if (e?.message?.includes('jwt') || e?.message?.includes('JWT')) {
+          return;
+        }
+        throw e;
+      }
+    });
+  });
+
+  describe('POST /password-reset', () => {
+    const request = () =>
+      app.handle(
+        new Request('http://localhost/password-reset', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ email: 'admin@test.com' }),
+        })
+      );
+
+    it('should not send a link to an inactive admin', async () => {
+      mockUsersService.findByEmail = async () =>
+        ({
+          id: 1,
+          email: 'admin@test.com',
+          role: 'admin',
+          isActive: false,
+        } as any);
+
+      const res = await request();
+
+      expect(res.status).toBe(202);
+      expect(resetEmails).toHaveLength(0);
+    });
+
+    it('should email a link and store only its hash', async () => {
+      const updates: any[] = [];
+      mockUsersService.findByEmail = async () =>
+        ({
+          id: 1,
+          email: 'admin@test.com',
+          role: 'admin',
+          isActive: true,
+        } as any);
+      mockUsersService.update = async (_id, data) => {
+        updates.push(data);
+        return null;
+      };
+
+      const res = await request();
+
+      expect(res.status).toBe(202);
+      expect(resetEmails).toHaveLength(1);
+      expect(updates[0].passwordResetToken).toBe(
+        hashOneTimeToken(resetEmails[0]!.token)
+      );
+    });
+  });
+
+  describe('POST /password-reset/confirm', () => {
+    it('should set the new password and log out every session', async () => {
+      const user = {
+        id: 1,
+        email: 'admin@test.com',
+        role: 'admin',
+        isActive: true,
+      };
+      let passwordHash: string | undefined;
+      mockUsersService.findByPasswordResetToken = async () => user as any;
+      mockUsersService.resetPassword = async (_tokenHash, hash) => {
+        passwordHash = hash;
+        return user as any;
+      };
+      const endedAll: unknown[] = [];
+      sessionService.endAll = async (account) => {
+        endedAll.push(account);
+      };
+
+      const res = await app.handle(
+        new Request('http://localhost/password-reset/confirm', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token: 'token', newPassword: 'N3w-password' }),
+        })
+      );
+
+      expect(res.status).toBe(204);
+      expect(await Bun.password.verify('N3w-password', passwordHash!)).toBe(
+        true
+      );
+      expect(endedAll).toEqual([{ userId: '1', role: 'admin' }]);
+    });
+  });
+
+  describe('two-factor login', () => {
+    const secret = generateTotpSecret();
+    const admin = {
+      id: 1,
+      email: 'admin@test.com',
+      passwordHash: 'hash123',
+      role: 'admin',
+      isActive: true,
+      department: 'finance',
+      twoFactorEnabled: true,
+      twoFactorSecret: secret,
+    };
+
+    const post = (path: string, body: unknown) =>
+      app.handle(
+        new Request(`http://localhost${path}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        })
+      );
+
+    const login = async () => {
+      const res = await post('/login', {
+        email: 'admin@test.com',
+        password: 'hash123',
+      });
+      return res.json();
+    };
+
+    beforeEach(() => {
+      sessionService = new SessionService(fakeJwt, memoryCache());
+      app = authController(
+        mockUsersService as UsersService,
+        sessionService,
+        {} as AccountEmails
+      );
+      mockUsersService.findByEmail = async () => admin as any;
+      mockUsersService.findById = async () => admin as any;
+      mockUsersService.recordTotpUse = async () => true;
+      mockUsersService.useRecoveryCode = async () => false;
+    });
+
+    it('should answer with an mfaToken instead of a session', async () => {
+      const body = await login();
+
+      expect(body.mfaRequired).toBe(true);
+      expect(body.enrollmentRequired).toBe(false);
+      expect(body.mfaToken).toBeDefined();
+      expect(body.accessToken).toBeUndefined();
+      // The mfa_pending token is not an access token
+      expect(await sessionService.verifyAccessToken(body.mfaToken)).toBe(null);
+    });
+
+    it('should ask for enrollment when the department requires 2FA', async () => {
+      const notEnrolled = {
+        ...admin,
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+      };
+      mockUsersService.findByEmail = async () => notEnrolled as any;
+      mockUsersService.isTwoFactorRequired = async (department) =>
+        department === 'finance';
+
+      const body = await login();
+
+      expect(body.mfaRequired).toBe(true);
+      expect(body.enrollmentRequired).toBe(true);
+    });
+
+    it('should issue the session after a valid TOTP code', async () => {
+      const { mfaToken } = await login();
+
+      const res = await post('/login/2fa', {
+        mfaToken,
+        code: generateTotp(secret),
+      });
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(await sessionService.verifyAccessToken(body.accessToken)).not.toBe(
+        null
+      );
+      expect(body.user.email).toBe('admin@test.com');
+      const payload = await sessionService.verifyAccessToken(body.accessToken);
+      expect(payload?.permissions).toContain('users:read');
+      expect(payload?.permissions).not.toContain('users:delete');
+
+      // The mfaToken is single use
+      const again = await post('/login/2fa', {
+        mfaToken,
+        code: generateTotp(secret),
+      });
+      expect(again.status).toBe(401);
+    });
+
+    it('should refuse a TOTP code that was already used', async () => {
+      mockUsersService.recordTotpUse = async () => false;
+      const { mfaToken } = await login();
+
+      const res = await post('/login/2fa', {
+        mfaToken,
+        code: generateTotp(secret),
+      });
+
+      expect(res.status).toBe(401);
+      const body = await res.json();
+      expect(body.error).toBe('Invalid code');
+    });
+
+    it('should accept a recovery code', async () => {
+      let usedHash: string | undefined;
+      mockUsersService.useRecoveryCode = async (_id, codeHash) => {
+        usedHash = codeHash;
+        return true;
+      };
+      const { mfaToken } = await login();
+
+      const res = await post('/login/2fa', { mfaToken, code: 'abcde-fghij' });
+
+      expect(res.status).toBe(200);
+      expect(usedHash).toBe(hashRecoveryCode('ABCDEFGHIJ'));
+    });
+
+    it('should drop the mfaToken after 5 wrong codes', async () => {
+      const { mfaToken } = await login();
+
+      for (let attempt = 0; attempt < 5; attempt++) {
+        const res = await post('/login/2fa', { mfaToken, code: '000000' });
+        expect((await res.json()).error).toBe('Invalid code');
+      }
+
+      const res = await post('/login/2fa', {
+        mfaToken,
+        code: generateTotp(secret),
+      });
+      expect(res.status).toBe(401);
+      expect((await res.json()).error).toBe('Invalid or expired MFA token');
+    });
+
+    it('should count parallel wrong codes one by one', async () => {
+      const { mfaToken } = await login();
+
+      const responses = await Promise.all(
+        Array.from({ length: 20 }, () =>
+          post('/login/2fa', { mfaToken, code: '000000' })
+        )
+      );
+      const errors = await Promise.all(
+        responses.map(async (res) => (await res.json()).error)
+      );
+
+      expect(errors.filter((error) => error === 'Invalid code')).toHaveLength(
+        5
+      );
+      expect(
+        errors.filter((error) => error === 'Invalid or expired MFA token')
+      ).toHaveLength(15);
+    });
+
+    it('should enroll and log in a required admin', async () => {
+      const user: any = {
+        ...admin,
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+      };
+      const updates: any[] = [];
+      mockUsersService.findByEmail = async () => user;
+      mockUsersService.findById = async () => user;
+      mockUsersService.isTwoFactorRequired = async () => true;
+      mockUsersService.update = async (_id, data) => {
+        updates.push(data);
+        Object.assign(user, data);
+        return user;
+      };
+      const { mfaToken } = await login();
+
+      const setup = await (await post('/login/2fa/setup', { mfaToken })).json();
+      expect(setup.otpauthUri).toStartWith('otpauth://totp/');
+      expect(setup.otpauthUri).toContain(`secret=${setup.secret}`);
+
+      const res = await post('/login/2fa/enable', {
+        mfaToken,
+        code: generateTotp(setup.secret),
+      });
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.accessToken).toBeDefined();
+      expect(body.recoveryCodes).toHaveLength(10);
+      expect(user.twoFactorEnabled).toBe(true);
+      // Only hashes of the recovery codes are stored
+      expect(JSON.parse(user.twoFactorRecoveryCodes)).toEqual(
+        body.recoveryCodes.map(hashRecoveryCode)
+      );
+    });
   });
 });
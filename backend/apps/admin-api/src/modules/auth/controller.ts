@@ -1,39 +1,147 @@
 /**
  * Admin Auth Controller
  * Authentication endpoints for admin users
+ *
+ * Tokens belong to a session (SessionService): refresh tokens are single use
+ * and rotated on every /refresh.
+ *
+ * Password reset and email verification use single-use, time-limited tokens
+ * sent by email; only their SHA-256 hash is stored.
+ *
+ * Two-factor login: when the admin has 2FA enabled (or their department
+ * requires it), /login answers with a short-lived mfaToken instead of a
+ * session. The tokens are issued by /login/2fa after the code is checked, or
+ * by /login/2fa/enable when the admin still has to enroll.
+ *
+ * Failed logins lock the account like customer and courier logins
+ * (login-lockout); the counter is reset once a session is issued.
  */
 
 import { Elysia, type AnyElysia } from 'elysia';
-import type { UsersService } from '@lokaly/domain';
-import { JwtService, RBAC } from '@lokaly/auth';
+import type { User } from '@lokaly/db';
+import { isAccountLocked, type UsersService } from '@lokaly/domain';
+import {
+  PASSWORD_RESET_TTL_SECONDS,
+  PasswordHasher,
+  RBAC,
+  createOneTimeToken,
+  hashOneTimeToken,
+  resolvePermissions,
+  validatePasswordStrength,
+  type SessionService,
+  type TokenClaims,
+  type UserRole,
+} from '@lokaly/auth';
+import type { AccountEmails } from '@lokaly/mailer';
 import { jsonResponse, errorResponse } from '../../shared/responses';
 import { authValidators } from './validators';
+import {
+  checkSecondFactor,
+  enableTwoFactor,
+  startTwoFactorSetup,
+} from './two-factor';
 
-const ACCESS_TOKEN_TTL_SECONDS = 15 * 60; // 15 minutos
-const REFRESH_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 dias
+function claimsOf(user: User): TokenClaims {
+  return {
+    userId: String(user.id),
+    role: user.role as UserRole,
+    email: user.email,
+    permissions: resolvePermissions(user.role, user.permissions),
+  };
+}
+
+function profileOf(user: User) {
+  return {
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    firstName: user.firstName,
+    lastName: user.lastName,
+  };
+}
+
+function lockedResponse(user: User): Response {
+  return errorResponse('Account temporarily locked', 423, {
+    lockedUntil: new Date(user.accountLockedUntil!).toISOString(),
+  });
+}
+
+function clientIp(request: Request): string | undefined {
+  return request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+}
+
+/**
+ * Issue the admin's session; a successful login also resets the failed
+ * attempt counter and records the login
+ */
+async function logIn(
+  usersService: UsersService,
+  sessionService: SessionService,
+  user: User,
+  request: Request
+) {
+  await usersService.recordSuccessfulLogin(user.id, clientIp(request));
+  return sessionService.start(claimsOf(user));
+}
+
+/**
+ * Resolve the admin behind an mfa_pending token
+ * Null when the token is invalid, used up, or the admin lost access.
+ */
+async function resolveMfaChallenge(
+  usersService: UsersService,
+  sessionService: SessionService,
+  mfaToken: string
+) {
+  const payload = await sessionService.verifyMfaChallenge(mfaToken);
+  if (!payload) {
+    return null;
+  }
+
+  const user = await usersService.findById(Number(payload.userId));
+  if (!user || !user.isActive || !RBAC.isAdmin(user.role)) {
+    return null;
+  }
+
+  return { payload, user };
+}
 
 // Return type deixado como Elysia genérico para evitar problemas de tipos profundos
 export const authController = (
   usersService: UsersService,
-  jwtService: JwtService
+  sessionService: SessionService,
+  accountEmails: AccountEmails,
+  passwordHasher: PasswordHasher = new PasswordHasher()
 ): AnyElysia =>
   new Elysia()
     .post(
       '/login',
-      async ({ body }) => {
+      async ({ body, request }) => {
         try {
-          const { email, passwordHash } = body;
+          const { email, password } = body;
 
           const user = await usersService.findByEmail(email);
           if (!user) {
             return errorResponse('Invalid credentials', 401);
           }
 
-          if (user.passwordHash !== passwordHash) {
+          if (isAccountLocked(user)) {
+            return lockedResponse(user);
+          }
+
+          const { valid, needsRehash } = await passwordHasher.verify(
+            password,
+            user.passwordHash
+          );
+          if (!valid) {
+            const updated = await usersService.recordFailedLogin(user.id);
+            if (updated && isAccountLocked(updated)) {
+              return lockedResponse(updated);
+            }
             return errorResponse('Invalid credentials', 401);
           }
 
-          if (!RBAC.isAdmin(user.role as any)) {
+          if (!RBAC.isAdmin(user.role)) {
             return errorResponse('Forbidden: Admin access required', 403);
           }
 
@@ -41,37 +149,40 @@ export const authController = (
             return errorResponse('User is inactive', 403);
           }
 
-          const accessToken = await jwtService.sign(
-            {
-              userId: String(user.id),
-              role: user.role as any,
-              email: user.email,
-              tokenType: 'access',
-            },
-            ACCESS_TOKEN_TTL_SECONDS
-          );
+          // Migração transparente de hashes legados/bcrypt para argon2id
+          if (needsRehash) {
+            try {
+              await usersService.update(user.id, {
+                passwordHash: await passwordHasher.hash(password),
+              });
+            } catch (error) {
+              console.error(
+                `[Auth] Failed to rehash password of user ${user.id}`,
+                error
+              );
+            }
+          }
 
-          const refreshToken = await jwtService.sign(
-            {
-              userId: String(user.id),
-              role: user.role as any,
-              email: user.email,
-              tokenType: 'refresh',
-            },
-            REFRESH_TOKEN_TTL_SECONDS
+          // Segundo fator: só entrega a sessão depois de /login/2fa
+          const enrollmentRequired =
+            !user.twoFactorEnabled &&
+            (await usersService.isTwoFactorRequired(user.department));
+          if (user.twoFactorEnabled || enrollmentRequired) {
+            return jsonResponse({
+              mfaRequired: true,
+              enrollmentRequired,
+              mfaToken: await sessionService.startMfaChallenge(claimsOf(user)),
+            });
+          }
+
+          const tokens = await logIn(
+            usersService,
+            sessionService,
+            user,
+            request
           );
 
-          return jsonResponse({
-            accessToken,
-            refreshToken,
-            user: {
-              id: user.id,
-              email: user.email,
-              role: user.role,
-              firstName: user.firstName,
-              lastName: user.lastName,
-            },
-          });
+          return jsonResponse({ ...tokens, user: profileOf(user) });
         } catch (error) {
           return errorResponse(
             error instanceof Error ? error.message : 'Unknown error',
@@ -85,10 +196,10 @@ export const authController = (
           tags: ['Auth'],
           summary: 'Admin login',
           description:
-            'Authenticate admin user and receive access/refresh tokens',
+            'Authenticate admin user and receive access/refresh tokens. Too many wrong passwords lock the account for a while (423). When two-factor authentication is enabled (or required for the admin department) the answer is { mfaRequired: true, enrollmentRequired, mfaToken } instead; finish with /login/2fa, or /login/2fa/setup and /login/2fa/enable when enrollmentRequired is true.',
           responses: {
             200: {
-              description: 'Login successful',
+              description: 'Login successful, or second factor required',
               content: {
                 'application/json': {
                   example: {
@@ -111,6 +222,187 @@ export const authController = (
             403: {
               description: 'User is inactive or not an admin',
             },
+            423: {
+              description:
+                'Account temporarily locked after too many failed logins',
+            },
+          },
+        },
+      }
+    )
+    .post(
+      '/login/2fa',
+      async ({ body, request }) => {
+        try {
+          const challenge = await resolveMfaChallenge(
+            usersService,
+            sessionService,
+            body.mfaToken
+          );
+          if (!challenge) {
+            return errorResponse('Invalid or expired MFA token', 401);
+          }
+
+          const { payload, user } = challenge;
+          if (!user.twoFactorEnabled) {
+            return errorResponse(
+              'Two-factor authentication is not set up',
+              400
+            );
+          }
+
+          if (!(await sessionService.attemptMfaChallenge(payload))) {
+            return errorResponse('Invalid or expired MFA token', 401);
+          }
+          if (!(await checkSecondFactor(usersService, user, body.code))) {
+            return errorResponse('Invalid code', 401);
+          }
+
+          if (!(await sessionService.completeMfaChallenge(payload))) {
+            return errorResponse('Invalid or expired MFA token', 401);
+          }
+
+          const tokens = await logIn(
+            usersService,
+            sessionService,
+            user,
+            request
+          );
+
+          return jsonResponse({ ...tokens, user: profileOf(user) });
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...authValidators.mfaCode,
+        detail: {
+          tags: ['Auth'],
+          summary: 'Admin login: second factor',
+          description:
+            'Exchange the mfaToken from /login and a TOTP code (or a recovery code, which is then used up) for access/refresh tokens. The mfaToken is valid for 5 minutes and 5 attempts.',
+          responses: {
+            200: { description: 'Login successful' },
+            400: { description: 'Two-factor authentication is not set up' },
+            401: { description: 'Invalid code or invalid/expired mfaToken' },
+          },
+        },
+      }
+    )
+    .post(
+      '/login/2fa/setup',
+      async ({ body }) => {
+        try {
+          const challenge = await resolveMfaChallenge(
+            usersService,
+            sessionService,
+            body.mfaToken
+          );
+          if (!challenge) {
+            return errorResponse('Invalid or expired MFA token', 401);
+          }
+          if (challenge.user.twoFactorEnabled) {
+            return errorResponse(
+              'Two-factor authentication is already enabled',
+              409
+            );
+          }
+
+          return jsonResponse(
+            await startTwoFactorSetup(usersService, challenge.user)
+          );
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...authValidators.mfaChallenge,
+        detail: {
+          tags: ['Auth'],
+          summary: 'Admin login: start 2FA enrollment',
+          description:
+            'For admins whose department requires 2FA: generate a TOTP secret and its otpauth:// URI (for the QR code) using the mfaToken from /login',
+          responses: {
+            200: { description: 'TOTP secret and otpauth URI' },
+            401: { description: 'Invalid or expired mfaToken' },
+            409: { description: 'Two-factor authentication already enabled' },
+          },
+        },
+      }
+    )
+    .post(
+      '/login/2fa/enable',
+      async ({ body, request }) => {
+        try {
+          const challenge = await resolveMfaChallenge(
+            usersService,
+            sessionService,
+            body.mfaToken
+          );
+          if (!challenge) {
+            return errorResponse('Invalid or expired MFA token', 401);
+          }
+
+          const { payload, user } = challenge;
+          if (user.twoFactorEnabled) {
+            return errorResponse(
+              'Two-factor authentication is already enabled',
+              409
+            );
+          }
+
+          if (!(await sessionService.attemptMfaChallenge(payload))) {
+            return errorResponse('Invalid or expired MFA token', 401);
+          }
+          const recoveryCodes = await enableTwoFactor(
+            usersService,
+            user,
+            body.code
+          );
+          if (!recoveryCodes) {
+            return errorResponse('Invalid code', 401);
+          }
+
+          if (!(await sessionService.completeMfaChallenge(payload))) {
+            return errorResponse('Invalid or expired MFA token', 401);
+          }
+
+          const tokens = await logIn(
+            usersService,
+            sessionService,
+            user,
+            request
+          );
+
+          return jsonResponse({
+            ...tokens,
+            recoveryCodes,
+            user: profileOf(user),
+          });
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...authValidators.mfaCode,
+        detail: {
+          tags: ['Auth'],
+          summary: 'Admin login: finish 2FA enrollment',
+          description:
+            'Enable two-factor authentication with the first code from the authenticator app and log in. The answer carries the recovery codes; they are shown only once.',
+          responses: {
+            200: { description: 'Enrolled and logged in' },
+            401: { description: 'Invalid code or invalid/expired mfaToken' },
+            409: { description: 'Two-factor authentication already enabled' },
           },
         },
       }
@@ -121,8 +413,8 @@ export const authController = (
         try {
           const { refreshToken } = body;
 
-          const payload = await jwtService.verify(refreshToken);
-          if (!payload || payload.tokenType !== 'refresh') {
+          const payload = await sessionService.verifyRefreshToken(refreshToken);
+          if (!payload) {
             return errorResponse('Invalid refresh token', 401);
           }
 
@@ -136,36 +428,30 @@ export const authController = (
             return errorResponse('Invalid token payload', 400);
           }
 
+          // Refresh token de uso único: reuso encerra a sessão inteira
+          const session = await sessionService.consume(payload);
+          if (!session) {
+            return errorResponse('Invalid refresh token', 401);
+          }
+
           const user = await usersService.findById(userIdNum);
           if (!user || !user.isActive) {
+            await sessionService.end(session.id);
             return errorResponse('User not found or inactive', 403);
           }
 
-          const newAccessToken = await jwtService.sign(
-            {
-              userId: String(user.id),
-              role: user.role as any,
-              email: user.email,
-              tokenType: 'access',
-            },
-            ACCESS_TOKEN_TTL_SECONDS
-          );
+          // Sessões iniciadas antes da troca de senha não são renovadas
+          if (
+            user.passwordChangedAt &&
+            new Date(user.passwordChangedAt).getTime() > session.createdAt
+          ) {
+            await sessionService.end(session.id);
+            return errorResponse('Invalid refresh token', 401);
+          }
 
-          // opcionalmente, podemos rotacionar o refresh token também
-          const newRefreshToken = await jwtService.sign(
-            {
-              userId: String(user.id),
-              role: user.role as any,
-              email: user.email,
-              tokenType: 'refresh',
-            },
-            REFRESH_TOKEN_TTL_SECONDS
+          return jsonResponse(
+            await sessionService.rotate(session, claimsOf(user))
           );
-
-          return jsonResponse({
-            accessToken: newAccessToken,
-            refreshToken: newRefreshToken,
-          });
         } catch (error) {
           return errorResponse(
             error instanceof Error ? error.message : 'Unknown error',
@@ -179,7 +465,7 @@ export const authController = (
           tags: ['Auth'],
           summary: 'Refresh access token',
           description:
-            'Get new access and refresh tokens using a valid refresh token',
+            'Get new access and refresh tokens using a valid refresh token. Refresh tokens are single use: presenting one twice ends the session.',
           responses: {
             200: {
               description: 'Tokens refreshed successfully',
@@ -193,7 +479,7 @@ export const authController = (
               },
             },
             401: {
-              description: 'Invalid or expired refresh token',
+              description: 'Invalid, expired, reused or revoked refresh token',
             },
             403: {
               description: 'User is inactive or not an admin',
@@ -201,4 +487,186 @@ export const authController = (
           },
         },
       }
+    )
+    .post(
+      '/logout',
+      async ({ body }) => {
+        try {
+          const payload = await sessionService.verifyRefreshToken(
+            body.refreshToken
+          );
+          if (!payload) {
+            return errorResponse('Invalid refresh token', 401);
+          }
+
+          if (payload.sid) {
+            await sessionService.end(payload.sid);
+          }
+
+          return new Response(null, { status: 204 });
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...authValidators.refresh,
+        detail: {
+          tags: ['Auth'],
+          summary: 'Logout',
+          description:
+            'End the session of the given refresh token; its access tokens stop working immediately',
+          responses: {
+            204: { description: 'Logged out' },
+            401: { description: 'Invalid or expired refresh token' },
+          },
+        },
+      }
+    )
+    .post(
+      '/password-reset',
+      async ({ body }) => {
+        try {
+          const user = await usersService.findByEmail(body.email);
+
+          // Same answer whether or not the email is registered
+          if (user && user.isActive && RBAC.isAdmin(user.role)) {
+            const { token, tokenHash, expiresAt } = createOneTimeToken(
+              PASSWORD_RESET_TTL_SECONDS
+            );
+            await usersService.update(user.id, {
+              passwordResetToken: tokenHash,
+              passwordResetExpiresAt: expiresAt,
+            });
+
+            try {
+              await accountEmails.sendPasswordReset(user, token, expiresAt);
+            } catch (error) {
+              console.error(
+                `[Auth] Failed to send password reset to user ${user.id}`,
+                error
+              );
+            }
+          }
+
+          return jsonResponse(
+            {
+              message:
+                'If the email is registered, a password reset link has been sent',
+            },
+            202
+          );
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...authValidators.requestPasswordReset,
+        detail: {
+          tags: ['Auth'],
+          summary: 'Request password reset',
+          description:
+            'Email a single-use password reset link (valid for 1 hour) to an active admin. The answer does not reveal whether the email is registered.',
+          responses: {
+            202: { description: 'Request accepted' },
+          },
+        },
+      }
+    )
+    .post(
+      '/password-reset/confirm',
+      async ({ body }) => {
+        try {
+          const tokenHash = hashOneTimeToken(body.token);
+          const user = await usersService.findByPasswordResetToken(tokenHash);
+          if (!user || !user.isActive) {
+            return errorResponse('Invalid or expired token', 400);
+          }
+
+          const weaknesses = validatePasswordStrength(body.newPassword, {
+            email: user.email,
+          });
+          if (weaknesses.length > 0) {
+            return errorResponse(
+              'Password does not meet the requirements',
+              400,
+              { errors: weaknesses }
+            );
+          }
+
+          // Clears the token in the same UPDATE: a concurrent use gets null
+          const updated = await usersService.resetPassword(
+            tokenHash,
+            await passwordHasher.hash(body.newPassword)
+          );
+          if (!updated) {
+            return errorResponse('Invalid or expired token', 400);
+          }
+
+          await sessionService.endAll({
+            userId: String(updated.id),
+            role: updated.role as UserRole,
+          });
+
+          return new Response(null, { status: 204 });
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...authValidators.confirmPasswordReset,
+        detail: {
+          tags: ['Auth'],
+          summary: 'Reset password',
+          description:
+            'Set a new password with the emailed token. Every session of the admin is logged out.',
+          responses: {
+            204: { description: 'Password changed' },
+            400: {
+              description:
+                'Invalid, expired or used token, or weak new password',
+            },
+          },
+        },
+      }
+    )
+    .post(
+      '/email-verification/confirm',
+      async ({ body }) => {
+        try {
+          const user = await usersService.verifyEmail(
+            hashOneTimeToken(body.token)
+          );
+          if (!user) {
+            return errorResponse('Invalid or expired token', 400);
+          }
+
+          return new Response(null, { status: 204 });
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...authValidators.oneTimeToken,
+        detail: {
+          tags: ['Auth'],
+          summary: 'Verify email',
+          description: 'Confirm the email address with the emailed token',
+          responses: {
+            204: { description: 'Email verified' },
+            400: { description: 'Invalid, expired or used token' },
+          },
+        },
+      }
     );
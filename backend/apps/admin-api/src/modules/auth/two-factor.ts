@@ -0,0 +1,104 @@
+/**
+ * Two-Factor Authentication
+ * TOTP enrollment and code checks shared by the auth (login) and account
+ * controllers
+ */
+
+import type { User } from '@lokaly/db';
+import type { UsersService } from '@lokaly/domain';
+import {
+  buildTotpUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotp,
+} from '@lokaly/auth';
+
+export const TOTP_ISSUER = 'Lokaly Admin';
+
+export type TwoFactorSetup = {
+  secret: string;
+  otpauthUri: string;
+};
+
+/**
+ * Generate a new (not yet enabled) secret for the user
+ * Replaces any secret from an unfinished setup.
+ */
+export async function startTwoFactorSetup(
+  usersService: UsersService,
+  user: User
+): Promise<TwoFactorSetup> {
+  const secret = generateTotpSecret();
+  await usersService.update(user.id, {
+    twoFactorSecret: secret,
+    twoFactorLastUsedStep: null,
+  });
+
+  return {
+    secret,
+    otpauthUri: buildTotpUri(secret, user.email, TOTP_ISSUER),
+  };
+}
+
+/**
+ * Enable 2FA with the first code from the authenticator app
+ * Returns the new recovery codes (shown once), or null for a wrong code.
+ */
+export async function enableTwoFactor(
+  usersService: UsersService,
+  user: User,
+  code: string
+): Promise<string[] | null> {
+  if (!user.twoFactorSecret) {
+    return null;
+  }
+
+  const step = verifyTotp(user.twoFactorSecret, code);
+  if (step === null || !(await usersService.recordTotpUse(user.id, step))) {
+    return null;
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await usersService.update(user.id, {
+    twoFactorEnabled: true,
+    twoFactorRecoveryCodes: JSON.stringify(recoveryCodes.map(hashRecoveryCode)),
+  });
+
+  return recoveryCodes;
+}
+
+/**
+ * Check a TOTP code, or use up one of the recovery codes
+ */
+export async function checkSecondFactor(
+  usersService: UsersService,
+  user: User,
+  code: string
+): Promise<boolean> {
+  if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+    return false;
+  }
+
+  const step = verifyTotp(user.twoFactorSecret, code);
+  if (step !== null) {
+    return usersService.recordTotpUse(user.id, step);
+  }
+
+  return usersService.useRecoveryCode(user.id, hashRecoveryCode(code));
+}
+
+/**
+ * Issue a fresh set of recovery codes; earlier ones stop working
+ */
+export async function replaceRecoveryCodes(
+  usersService: UsersService,
+  user: User
+): Promise<string[]> {
+  const recoveryCodes = generateRecoveryCodes();
+  await usersService.update(user.id, {
+    twoFactorRecoveryCodes: JSON.stringify(recoveryCodes.map(hashRecoveryCode)),
+  });
+
+  return recoveryCodes;
+}
@@ -9,7 +9,7 @@ export const authValidators = {
   login: {
     body: t.Object({
       email: t.String(),
-      passwordHash: t.String(), // already hashed on client side
+      password: t.String({ minLength: 1 }),
     }),
   },
   refresh: {
@@ -17,4 +17,31 @@ export const authValidators = {
       refreshToken: t.String(),
     }),
   },
+  mfaChallenge: {
+    body: t.Object({
+      mfaToken: t.String(),
+    }),
+  },
+  mfaCode: {
+    body: t.Object({
+      mfaToken: t.String(),
+      code: t.String({ minLength: 1 }),
+    }),
+  },
+  requestPasswordReset: {
+    body: t.Object({
+      email: t.String(),
+    }),
+  },
+  confirmPasswordReset: {
+    body: t.Object({
+      token: t.String({ minLength: 1 }),
+      newPassword: t.String({ minLength: 1 }),
+    }),
+  },
+  oneTimeToken: {
+    body: t.Object({
+      token: t.String({ minLength: 1 }),
+    }),
+  },
 };
@@ -1,11 +1,11 @@
 import { describe, it, expect, beforeEach } from 'bun:test';
-import { Elysia } from 'elysia';
 import type { CouriersService } from '@lokaly/domain';
+import { adminWith, withAuth } from '../../test-helpers/auth';
 import { couriersController } from './controller';
 
 describe('admin-api couriersController', () => {
   let mockService: Partial<CouriersService>;
-  let app: ReturnType<typeof couriersController>;
+  let app: ReturnType<typeof withAuth>;
 
   beforeEach(() => {
     mockService = {
@@ -20,7 +20,7 @@ describe('admin-api couriersController', () => {
       updateLocation: async () => false,
       setAvailability: async () => false,
     };
-    app = couriersController(mockService as CouriersService);
+    app = withAuth(couriersController(mockService as CouriersService));
   });
 
   describe('GET /couriers', () => {
@@ -122,7 +122,7 @@ describe('admin-api couriersController', () => {
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             email: 'new@test.com',
-            passwordHash: 'hash123',
+            password: 'S3cure-pass',
             firstName: 'New',
             lastName: 'Courier',
             cpf: '12345678900',
@@ -211,4 +211,23 @@ describe('admin-api couriersController', () => {
       expect(body.success).toBe(true);
     });
   });
+
+  describe('permissions', () => {
+    it('should need couriers:verify to verify a courier', async () => {
+      mockService.update = async () => ({ id: 1 } as any);
+
+      const res = await withAuth(
+        couriersController(mockService as CouriersService),
+        adminWith(['couriers:write'])
+      ).handle(
+        new Request('http://localhost/couriers/1', {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ isVerified: true }),
+        })
+      );
+
+      expect(res.status).toBe(403);
+    });
+  });
 });
@@ -5,15 +5,21 @@
 
 import { Elysia } from 'elysia';
 import type { CouriersService } from '@lokaly/domain';
+import { PasswordHasher, validatePasswordStrength } from '@lokaly/auth';
 import {
   jsonResponse,
   errorResponse,
   paginatedResponse,
 } from '../../shared/responses';
+import { permissionGuard } from '../../shared/middleware/permissions.plugin';
 import { courierValidators } from './validators';
 
-export const couriersController = (couriersService: CouriersService) =>
+export const couriersController = (
+  couriersService: CouriersService,
+  passwordHasher: PasswordHasher = new PasswordHasher()
+) =>
   new Elysia({ prefix: '/couriers' })
+    .use(permissionGuard)
     .get(
       '/',
       async ({ query }) => {
@@ -59,6 +65,7 @@ export const couriersController = (couriersService: CouriersService) =>
       },
       {
         ...courierValidators.list,
+        permission: 'couriers:read',
         detail: {
           tags: ['Couriers'],
           summary: 'List couriers',
@@ -86,6 +93,7 @@ export const couriersController = (couriersService: CouriersService) =>
       },
       {
         ...courierValidators.available,
+        permission: 'couriers:read',
         detail: {
           tags: ['Couriers'],
           summary: 'List available couriers',
@@ -112,6 +120,7 @@ export const couriersController = (couriersService: CouriersService) =>
       },
       {
         ...courierValidators.search,
+        permission: 'couriers:read',
         detail: {
           tags: ['Couriers'],
           summary: 'Search couriers',
@@ -138,6 +147,7 @@ export const couriersController = (couriersService: CouriersService) =>
       },
       {
         ...courierValidators.byId,
+        permission: 'couriers:read',
         detail: {
           tags: ['Couriers'],
           summary: 'Get courier by ID',
@@ -150,7 +160,22 @@ export const couriersController = (couriersService: CouriersService) =>
       '/',
       async ({ body }) => {
         try {
-          const courier = await couriersService.create(body);
+          const { password, ...data } = body;
+          const weaknesses = validatePasswordStrength(password, {
+            email: data.email,
+          });
+          if (weaknesses.length > 0) {
+            return errorResponse(
+              'Password does not meet the requirements',
+              400,
+              { errors: weaknesses }
+            );
+          }
+
+          const courier = await couriersService.create({
+            ...data,
+            passwordHash: await passwordHasher.hash(password),
+          });
           return jsonResponse(courier, 201);
         } catch (error) {
           return errorResponse(
@@ -161,6 +186,7 @@ export const couriersController = (couriersService: CouriersService) =>
       },
       {
         ...courierValidators.create,
+        permission: 'couriers:write',
         detail: {
           tags: ['Couriers'],
           summary: 'Create courier',
@@ -187,10 +213,16 @@ export const couriersController = (couriersService: CouriersService) =>
       },
       {
         ...courierValidators.update,
+        permission: 'couriers:write',
+        fieldPermissions: {
+          isVerified: 'couriers:verify',
+          status: 'couriers:verify',
+        },
         detail: {
           tags: ['Couriers'],
           summary: 'Update courier',
-          description: 'Update courier information',
+          description:
+            'Update courier information. Changing isVerified or status needs couriers:verify.',
           security: [{ bearerAuth: [] }],
         },
       }
@@ -213,6 +245,7 @@ export const couriersController = (couriersService: CouriersService) =>
       },
       {
         ...courierValidators.delete,
+        permission: 'couriers:write',
         detail: {
           tags: ['Couriers'],
           summary: 'Delete courier',
@@ -243,6 +276,7 @@ export const couriersController = (couriersService: CouriersService) =>
       },
       {
         ...courierValidators.updateLocation,
+        permission: 'couriers:write',
         detail: {
           tags: ['Couriers'],
           summary: 'Update courier location',
@@ -272,6 +306,7 @@ export const couriersController = (couriersService: CouriersService) =>
       },
       {
         ...courierValidators.setAvailability,
+        permission: 'couriers:write',
         detail: {
           tags: ['Couriers'],
           summary: 'Set courier availability',
@@ -51,7 +51,7 @@ export const courierValidators = {
   create: {
     body: t.Object({
       email: t.String(),
-      passwordHash: t.String(),
+      password: t.String(), // hashed server-side
       firstName: t.String(),
       lastName: t.String(),
       phone: t.String(),
@@ -6,10 +6,12 @@
 import { Elysia, t } from 'elysia';
 import type { AddressesService } from '@lokaly/domain';
 import { jsonResponse, errorResponse } from '../../../shared/responses';
+import { permissionGuard } from '../../../shared/middleware/permissions.plugin';
 import { numericId } from '../../../shared/validators';
 
 export const addressesController = (addressesService: AddressesService) =>
   new Elysia({ prefix: '/addresses' })
+    .use(permissionGuard)
     .get(
       '/:id',
       async ({ params }) => {
@@ -28,6 +30,7 @@ export const addressesController = (addressesService: AddressesService) =>
       },
       {
         params: numericId,
+        permission: 'customers:read',
         detail: {
           tags: ['Addresses'],
           summary: 'Get address by ID',
@@ -72,6 +75,7 @@ export const addressesController = (addressesService: AddressesService) =>
             deliveryInstructions: t.String(),
           })
         ),
+        permission: 'customers:write',
         detail: {
           tags: ['Addresses'],
           summary: 'Update address',
@@ -98,6 +102,7 @@ export const addressesController = (addressesService: AddressesService) =>
       },
       {
         params: numericId,
+        permission: 'customers:write',
         detail: {
           tags: ['Addresses'],
           summary: 'Delete address',
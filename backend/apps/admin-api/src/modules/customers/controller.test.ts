@@ -1,12 +1,12 @@
 import { describe, it, expect, beforeEach } from 'bun:test';
-import { Elysia } from 'elysia';
 import type { CustomersService, AddressesService } from '@lokaly/domain';
+import { withAuth } from '../../test-helpers/auth';
 import { customersController } from './controller';
 
 describe('admin-api customersController', () => {
   let mockCustomersService: Partial<CustomersService>;
   let mockAddressesService: Partial<AddressesService>;
-  let app: ReturnType<typeof customersController>;
+  let app: ReturnType<typeof withAuth>;
 
   beforeEach(() => {
     mockCustomersService = {
@@ -22,9 +22,11 @@ describe('admin-api customersController', () => {
       findByCustomerId: async () => [],
       create: async () => ({ id: 1 } as any),
     };
-    app = customersController(
-      mockCustomersService as CustomersService,
-      mockAddressesService as AddressesService
+    app = withAuth(
+      customersController(
+        mockCustomersService as CustomersService,
+        mockAddressesService as AddressesService
+      )
     );
   });
 
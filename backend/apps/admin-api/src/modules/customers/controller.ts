@@ -10,6 +10,7 @@ import {
   errorResponse,
   paginatedResponse,
 } from '../../shared/responses';
+import { permissionGuard } from '../../shared/middleware/permissions.plugin';
 import { customerValidators, addressValidators } from './validators';
 
 export const customersController = (
@@ -17,6 +18,7 @@ export const customersController = (
   addressesService: AddressesService
 ) =>
   new Elysia({ prefix: '/customers' })
+    .use(permissionGuard)
     .get(
       '/',
       async ({ query }) => {
@@ -50,6 +52,7 @@ export const customersController = (
       },
       {
         ...customerValidators.list,
+        permission: 'customers:read',
         detail: {
           tags: ['Customers'],
           summary: 'List customers',
@@ -76,6 +79,7 @@ export const customersController = (
       },
       {
         ...customerValidators.search,
+        permission: 'customers:read',
         detail: {
           tags: ['Customers'],
           summary: 'Search customers',
@@ -102,6 +106,7 @@ export const customersController = (
       },
       {
         ...customerValidators.byId,
+        permission: 'customers:read',
         detail: {
           tags: ['Customers'],
           summary: 'Get customer by ID',
@@ -125,6 +130,7 @@ export const customersController = (
       },
       {
         ...customerValidators.create,
+        permission: 'customers:write',
         detail: {
           tags: ['Customers'],
           summary: 'Create customer',
@@ -151,6 +157,7 @@ export const customersController = (
       },
       {
         ...customerValidators.update,
+        permission: 'customers:write',
         detail: {
           tags: ['Customers'],
           summary: 'Update customer',
@@ -177,6 +184,7 @@ export const customersController = (
       },
       {
         ...customerValidators.delete,
+        permission: 'customers:write',
         detail: {
           tags: ['Customers'],
           summary: 'Delete customer',
@@ -201,6 +209,7 @@ export const customersController = (
       },
       {
         ...addressValidators.list,
+        permission: 'customers:read',
         detail: {
           tags: ['Customers'],
           summary: 'List customer addresses',
@@ -240,6 +249,7 @@ export const customersController = (
       },
       {
         ...addressValidators.create,
+        permission: 'customers:write',
         detail: {
           tags: ['Customers'],
           summary: 'Create customer address',
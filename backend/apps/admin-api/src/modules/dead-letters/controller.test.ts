@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import type { DeadLetterService, EventPublisher } from '@lokaly/domain';
+import { withAuth } from '../../test-helpers/auth';
+import { deadLettersController } from './controller';
+
+describe('admin-api deadLettersController', () => {
+  let mockService: Partial<DeadLetterService>;
+  let publisher: EventPublisher;
+  let app: ReturnType<typeof withAuth>;
+
+  const pendingEntry = {
+    id: 1,
+    eventId: 'evt-1',
+    consumerGroup: 'worker-group',
+    eventType: 'order.created',
+    payload: JSON.stringify({
+      type: 'order.created',
+      payload: { orderId: '42' },
+      metadata: { eventId: 'evt-1' },
+    }),
+    status: 'pending',
+    failureReason: 'Insufficient stock',
+    attempts: 3,
+  };
+
+  beforeEach(() => {
+    publisher = { publish: async () => {} };
+    mockService = {
+      findMany: async () => [],
+      count: async () => 0,
+      findById: async () => null,
+      replay: async () => null,
+      discard: async () => null,
+    };
+    app = withAuth(
+      deadLettersController(mockService as DeadLetterService, publisher)
+    );
+  });
+
+  describe('GET /dead-letters', () => {
+    it('should return paginated dead-lettered events', async () => {
+      mockService.findMany = async () => [pendingEntry] as any;
+      mockService.count = async () => 1;
+
+      const res = await app.handle(
+        new Request('http://localhost/dead-letters?limit=10')
+      );
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.data).toHaveLength(1);
+      expect(body.pagination.total).toBe(1);
+    });
+
+    it('should apply filters', async () => {
+      mockService.findMany = async (opts) => {
+        expect(opts?.filters?.status).toBe('pending');
+        expect(opts?.filters?.eventType).toBe('order.created');
+        return [];
+      };
+
+      const res = await app.handle(
+        new Request(
+          'http://localhost/dead-letters?status=pending&eventType=order.created'
+        )
+      );
+
+      expect(res.status).toBe(200);
+    });
+  });
+
+  describe('GET /dead-letters/:id', () => {
+    it('should return the entry with the parsed event', async () => {
+      mockService.findById = async () => pendingEntry as any;
+
+      const res = await app.handle(
+        new Request('http://localhost/dead-letters/1')
+      );
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.failureReason).toBe('Insufficient stock');
+      expect(body.event.payload.orderId).toBe('42');
+    });
+
+    it('should return 404 when entry not found', async () => {
+      const res = await app.handle(
+        new Request('http://localhost/dead-letters/999')
+      );
+
+      expect(res.status).toBe(404);
+      const body = await res.json();
+      expect(body.error).toBe('Dead letter event not found');
+    });
+  });
+
+  describe('POST /dead-letters/:id/replay', () => {
+    it('should replay a pending entry through the event publisher', async () => {
+      mockService.findById = async () => pendingEntry as any;
+      mockService.replay = async (id, p) => {
+        expect(id).toBe(1);
+        expect(p).toBe(publisher);
+        return { ...pendingEntry, status: 'replayed' } as any;
+      };
+
+      const res = await app.handle(
+        new Request('http://localhost/dead-letters/1/replay', {
+          method: 'POST',
+        })
+      );
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.status).toBe('replayed');
+    });
+
+    it('should return 409 when entry is no longer pending', async () => {
+      mockService.findById = async () =>
+        ({ ...pendingEntry, status: 'discarded' } as any);
+
+      const res = await app.handle(
+        new Request('http://localhost/dead-letters/1/replay', {
+          method: 'POST',
+        })
+      );
+
+      expect(res.status).toBe(409);
+    });
+  });
+
+  describe('POST /dead-letters/:id/discard', () => {
+    it('should discard a pending entry with a reason', async () => {
+      mockService.findById = async () => pendingEntry as any;
+      mockService.discard = async (id, reason) => {
+        expect(reason).toBe('Order no longer exists');
+        return { ...pendingEntry, status: 'discarded' } as any;
+      };
+
+      const res = await app.handle(
+        new Request('http://localhost/dead-letters/1/discard', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ reason: 'Order no longer exists' }),
+        })
+      );
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.status).toBe('discarded');
+    });
+
+    it('should return 404 when entry not found', async () => {
+      const res = await app.handle(
+        new Request('http://localhost/dead-letters/999/discard', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({}),
+        })
+      );
+
+      expect(res.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Dead Letters Controller
+ * Inspect, replay and discard events the worker failed to process
+ */
+
+import { Elysia } from 'elysia';
+import type { DeadLetterService, EventPublisher } from '@lokaly/domain';
+import {
+  jsonResponse,
+  errorResponse,
+  paginatedResponse,
+} from '../../shared/responses';
+import { permissionGuard } from '../../shared/middleware/permissions.plugin';
+import { deadLetterValidators } from './validators';
+
+export const deadLettersController = (
+  deadLetterService: DeadLetterService,
+  eventPublisher: EventPublisher
+) =>
+  new Elysia({ prefix: '/dead-letters' })
+    .use(permissionGuard)
+    .get(
+      '/',
+      async ({ query }) => {
+        try {
+          const limit = query.limit || 50;
+          const offset = query.offset || 0;
+          const filters = {
+            ...(query.status && { status: query.status }),
+            ...(query.eventType && { eventType: query.eventType }),
+            ...(query.consumerGroup && { consumerGroup: query.consumerGroup }),
+          };
+
+          const events = await deadLetterService.findMany({
+            limit,
+            offset,
+            filters,
+          });
+          const total = await deadLetterService.count(filters);
+
+          return paginatedResponse(events, total, limit, offset);
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...deadLetterValidators.list,
+        permission: 'dead-letters:read',
+        detail: {
+          tags: ['Dead Letters'],
+          summary: 'List dead-lettered events',
+          description:
+            'Get paginated list of events the worker failed to process, most recent failures first',
+          security: [{ bearerAuth: [] }],
+        },
+      }
+    )
+    .get(
+      '/:id',
+      async ({ params }) => {
+        try {
+          const entry = await deadLetterService.findById(params.id);
+          if (!entry) {
+            return errorResponse('Dead letter event not found', 404);
+          }
+          return jsonResponse({ ...entry, event: JSON.parse(entry.payload) });
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...deadLetterValidators.byId,
+        permission: 'dead-letters:read',
+        detail: {
+          tags: ['Dead Letters'],
+          summary: 'Get dead-lettered event by ID',
+          description:
+            'Get failure details together with the original domain event',
+          security: [{ bearerAuth: [] }],
+        },
+      }
+    )
+    .post(
+      '/:id/replay',
+      async ({ params }) => {
+        try {
+          const entry = await deadLetterService.findById(params.id);
+          if (!entry) {
+            return errorResponse('Dead letter event not found', 404);
+          }
+          if (entry.status !== 'pending') {
+            return errorResponse(
+              `Dead letter event is already ${entry.status}`,
+              409
+            );
+          }
+
+          const replayed = await deadLetterService.replay(
+            params.id,
+            eventPublisher
+          );
+          return jsonResponse(replayed);
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...deadLetterValidators.replay,
+        permission: 'dead-letters:replay',
+        detail: {
+          tags: ['Dead Letters'],
+          summary: 'Replay dead-lettered event',
+          description:
+            'Republish the original event to the domain events stream',
+          security: [{ bearerAuth: [] }],
+        },
+      }
+    )
+    .post(
+      '/:id/discard',
+      async ({ params, body }) => {
+        try {
+          const entry = await deadLetterService.findById(params.id);
+          if (!entry) {
+            return errorResponse('Dead letter event not found', 404);
+          }
+          if (entry.status !== 'pending') {
+            return errorResponse(
+              `Dead letter event is already ${entry.status}`,
+              409
+            );
+          }
+
+          const discarded = await deadLetterService.discard(
+            params.id,
+            body.reason
+          );
+          return jsonResponse(discarded);
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...deadLetterValidators.discard,
+        permission: 'dead-letters:replay',
+        detail: {
+          tags: ['Dead Letters'],
+          summary: 'Discard dead-lettered event',
+          description: 'Mark the event as discarded without processing it',
+          security: [{ bearerAuth: [] }],
+        },
+      }
+    );
@@ -0,0 +1,38 @@
+/**
+ * Dead Letters Validators
+ * Elysia validators for dead letter queue endpoints
+ */
+
+import { t } from 'elysia';
+import { paginationQuery, numericId } from '../../shared/validators';
+
+export const deadLetterValidators = {
+  list: {
+    query: t.Composite([
+      paginationQuery,
+      t.Object({
+        status: t.Optional(
+          t.Union([
+            t.Literal('pending'),
+            t.Literal('replayed'),
+            t.Literal('discarded'),
+          ])
+        ),
+        eventType: t.Optional(t.String()),
+        consumerGroup: t.Optional(t.String()),
+      }),
+    ]),
+  },
+  byId: {
+    params: numericId,
+  },
+  replay: {
+    params: numericId,
+  },
+  discard: {
+    params: numericId,
+    body: t.Object({
+      reason: t.Optional(t.String()),
+    }),
+  },
+};
@@ -0,0 +1,380 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { OrderConflictError, type OrderService } from '@lokaly/domain';
+import { adminWith, withAuth } from '../../test-helpers/auth';
+import { ordersController } from './controller';
+
+describe('admin-api ordersController', () => {
+  let mockService: Partial<OrderService>;
+  let app: ReturnType<typeof withAuth>;
+
+  const order = {
+    id: 42,
+    orderNumber: 'ORD-2026-000042',
+    customerId: 7,
+    status: 'pending',
+    paymentStatus: 'pending',
+    totalAmount: '25.90',
+    items: [],
+  };
+
+  const json = (method: string, path: string, body: unknown) =>
+    new Request(`http://localhost${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  beforeEach(() => {
+    mockService = {
+      findMany: async () => [],
+      count: async () => 0,
+      getOrderById: async () => null,
+      getOrderByNumber: async () => null,
+      getTimeline: async () => [],
+      getStatusHistory: async () => [],
+      getStageMetrics: async (options) => ({
+        ...options,
+        orders: 0,
+        averageSeconds: null,
+        medianSeconds: null,
+        p90Seconds: null,
+        maxSeconds: null,
+      }),
+      updateOrderStatus: async () => order as any,
+      cancelOrder: async () => {},
+      updateInternalNotes: async () => null,
+    };
+    app = withAuth(ordersController(mockService as OrderService));
+  });
+
+  describe('GET /orders', () => {
+    it('should return paginated orders', async () => {
+      mockService.findMany = async () => [order] as any;
+      mockService.count = async () => 1;
+
+      const res = await app.handle(new Request('http://localhost/orders'));
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.data).toHaveLength(1);
+      expect(body.pagination.total).toBe(1);
+    });
+
+    it('should apply filters', async () => {
+      mockService.findMany = async (opts) => {
+        expect(opts?.filters).toEqual({
+          status: 'confirmed',
+          paymentStatus: 'paid',
+          customerId: 7,
+          createdFrom: new Date('2026-10-01T00:00:00Z'),
+          createdTo: new Date('2026-10-31T23:59:59Z'),
+        });
+        return [];
+      };
+
+      const res = await app.handle(
+        new Request(
+          'http://localhost/orders?status=confirmed&paymentStatus=paid' +
+            '&customerId=7&from=2026-10-01T00:00:00Z&to=2026-10-31T23:59:59Z'
+        )
+      );
+
+      expect(res.status).toBe(200);
+    });
+  });
+
+  describe('GET /orders/by-number', () => {
+    it('should return the order', async () => {
+      mockService.getOrderByNumber = async (orderNumber) =>
+        orderNumber === order.orderNumber ? (order as any) : null;
+
+      const res = await app.handle(
+        new Request(
+          'http://localhost/orders/by-number?orderNumber=ORD-2026-000042'
+        )
+      );
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.id).toBe(42);
+      expect(body.statusHistory).toEqual([]);
+    });
+
+    it('should return 404 when order not found', async () => {
+      const res = await app.handle(
+        new Request('http://localhost/orders/by-number?orderNumber=NOPE')
+      );
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('GET /orders/:id', () => {
+    it('should include the status history', async () => {
+      mockService.getOrderById = async () => order as any;
+      mockService.getStatusHistory = async (orderId) => [
+        {
+          id: 1,
+          orderId,
+          previousStatus: null,
+          newStatus: 'pending',
+          actorType: 'customer',
+          actorId: 7,
+          reason: null,
+          createdAt: new Date('2026-10-01T12:00:00Z'),
+        },
+      ];
+
+      const res = await app.handle(new Request('http://localhost/orders/42'));
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.statusHistory).toHaveLength(1);
+      expect(body.statusHistory[0]).toMatchObject({
+        orderId: 42,
+        actorType: 'customer',
+        actorId: 7,
+      });
+    });
+  });
+
+  describe('GET /orders/sla', () => {
+    it('should default to confirmed to ready', async () => {
+      mockService.getStageMetrics = async (options) => {
+        expect(options).toEqual({ fromStatus: 'confirmed', toStatus: 'ready' });
+        return {
+          ...options,
+          orders: 3,
+          averageSeconds: 900,
+          medianSeconds: 840,
+          p90Seconds: 1500,
+          maxSeconds: 1620,
+        };
+      };
+
+      const res = await app.handle(new Request('http://localhost/orders/sla'));
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toMatchObject({ orders: 3, medianSeconds: 840 });
+    });
+
+    it('should pass the stage and the time range', async () => {
+      mockService.getStageMetrics = async (options) => {
+        expect(options).toEqual({
+          fromStatus: 'ready',
+          toStatus: 'delivered',
+          from: new Date('2026-10-01T00:00:00Z'),
+          to: new Date('2026-10-31T23:59:59Z'),
+        });
+        return {
+          ...options,
+          orders: 0,
+          averageSeconds: null,
+          medianSeconds: null,
+          p90Seconds: null,
+          maxSeconds: null,
+        };
+      };
+
+      const res = await app.handle(
+        new Request(
+          'http://localhost/orders/sla?fromStatus=ready&toStatus=delivered' +
+            '&from=2026-10-01T00:00:00Z&to=2026-10-31T23:59:59Z'
+        )
+      );
+
+      expect(res.status).toBe(200);
+    });
+
+    it('should reject the same status at both ends', async () => {
+      const res = await app.handle(
+        new Request(
+          'http://localhost/orders/sla?fromStatus=ready&toStatus=ready'
+        )
+      );
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('GET /orders/:id/timeline', () => {
+    it('should return the order events', async () => {
+      mockService.getOrderById = async () => order as any;
+      mockService.getTimeline = async () => [
+        {
+          eventId: 'evt-1',
+          type: 'order.created',
+          occurredAt: new Date('2026-10-01T12:00:00Z'),
+          payload: { orderId: '42' },
+        },
+      ];
+
+      const res = await app.handle(
+        new Request('http://localhost/orders/42/timeline')
+      );
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.data[0].type).toBe('order.created');
+    });
+
+    it('should return 404 when order not found', async () => {
+      const res = await app.handle(
+        new Request('http://localhost/orders/999/timeline')
+      );
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('PATCH /orders/:id/status', () => {
+    it('should pass the acting admin and the reason to the transition', async () => {
+      mockService.updateOrderStatus = async (id, status, changedBy, reason) => {
+        expect([id, status, changedBy, reason]).toEqual([
+          42,
+          'confirmed',
+          { type: 'admin', userId: 1 },
+          'Payment checked',
+        ]);
+        return { ...order, status } as any;
+      };
+
+      const res = await app.handle(
+        json('PATCH', '/orders/42/status', {
+          status: 'confirmed',
+          reason: 'Payment checked',
+        })
+      );
+
+      expect(res.status).toBe(200);
+      expect((await res.json()).status).toBe('confirmed');
+    });
+
+    it('should return 400 for an invalid transition', async () => {
+      mockService.updateOrderStatus = async () => {
+        throw new Error('Invalid status transition from pending to delivered');
+      };
+
+      const res = await app.handle(
+        json('PATCH', '/orders/42/status', { status: 'delivered' })
+      );
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should return 404 when order not found', async () => {
+      mockService.updateOrderStatus = async () => {
+        throw new Error('Order not found');
+      };
+
+      const res = await app.handle(
+        json('PATCH', '/orders/999/status', { status: 'confirmed' })
+      );
+
+      expect(res.status).toBe(404);
+    });
+
+    it('should return 409 when the order changed meanwhile', async () => {
+      mockService.updateOrderStatus = async () => {
+        throw new OrderConflictError(42, 'pending');
+      };
+
+      const res = await app.handle(
+        json('PATCH', '/orders/42/status', { status: 'confirmed' })
+      );
+
+      expect(res.status).toBe(409);
+    });
+
+    it('should not cancel through a status change', async () => {
+      const res = await app.handle(
+        json('PATCH', '/orders/42/status', { status: 'cancelled' })
+      );
+
+      expect(res.status).toBe(422);
+    });
+  });
+
+  describe('POST /orders/bulk/status', () => {
+    it('should report updated and failed orders', async () => {
+      mockService.updateOrderStatus = async (id) => {
+        if (id === 2) {
+          throw new Error('Invalid status transition from delivered to ready');
+        }
+        return order as any;
+      };
+
+      const res = await app.handle(
+        json('POST', '/orders/bulk/status', {
+          orderIds: [1, 2, 3],
+          status: 'ready',
+        })
+      );
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({
+        updated: [1, 3],
+        failed: [
+          {
+            orderId: 2,
+            error: 'Invalid status transition from delivered to ready',
+          },
+        ],
+      });
+    });
+  });
+
+  describe('POST /orders/:id/cancel', () => {
+    it('should cancel with the reason and the acting admin', async () => {
+      let cancelled: unknown[] = [];
+      mockService.cancelOrder = async (...args) => {
+        cancelled = args;
+      };
+      mockService.getOrderById = async () =>
+        ({ ...order, status: 'cancelled' }) as any;
+
+      const res = await app.handle(
+        json('POST', '/orders/42/cancel', { reason: 'Out of stock' })
+      );
+
+      expect(res.status).toBe(200);
+      expect(cancelled).toEqual([
+        42,
+        'Out of stock',
+        { type: 'admin', userId: 1 },
+      ]);
+      expect((await res.json()).status).toBe('cancelled');
+    });
+
+    it('should need orders:cancel', async () => {
+      const res = await withAuth(
+        ordersController(mockService as OrderService),
+        adminWith(['orders:read', 'orders:write'])
+      ).handle(json('POST', '/orders/42/cancel', { reason: 'Nope' }));
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('PATCH /orders/:id', () => {
+    it('should update internal notes', async () => {
+      mockService.updateInternalNotes = async (id, notes) =>
+        ({ ...order, id, internalNotes: notes }) as any;
+
+      const res = await app.handle(
+        json('PATCH', '/orders/42', { internalNotes: 'Call before delivery' })
+      );
+
+      expect(res.status).toBe(200);
+      expect((await res.json()).internalNotes).toBe('Call before delivery');
+    });
+
+    it('should return 404 when order not found', async () => {
+      const res = await app.handle(
+        json('PATCH', '/orders/999', { internalNotes: null })
+      );
+
+      expect(res.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,363 @@
+/**
+ * Orders Controller
+ * Order management endpoints: lookup, status transitions, cancellation,
+ * internal notes and SLA metrics. Status changes go through OrderService,
+ * which validates the transition, records it in the status history and
+ * emits the order events.
+ */
+
+import { Elysia } from 'elysia';
+import {
+  OrderConflictError,
+  type OrderService,
+  type OrderStatus,
+} from '@lokaly/domain';
+import {
+  jsonResponse,
+  errorResponse,
+  paginatedResponse,
+} from '../../shared/responses';
+import { permissionGuard } from '../../shared/middleware/permissions.plugin';
+import { orderValidators } from './validators';
+
+type Auth = { userId: string };
+
+/**
+ * 404 for a missing order, 409 when the order changed while being updated
+ * (retry after reloading it), 400 for rejected changes (invalid transition,
+ * delivered order, ...)
+ */
+function orderErrorResponse(error: unknown): Response {
+  if (error instanceof OrderConflictError) {
+    return errorResponse(error.message, 409);
+  }
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return errorResponse(message, message === 'Order not found' ? 404 : 400);
+}
+
+/**
+ * Order details with their status history, oldest first
+ */
+async function withStatusHistory<T extends { id: number }>(
+  orderService: OrderService,
+  order: T
+) {
+  return {
+    ...order,
+    statusHistory: await orderService.getStatusHistory(order.id),
+  };
+}
+
+export const ordersController = (orderService: OrderService) =>
+  new Elysia({ prefix: '/orders' })
+    .use(permissionGuard)
+    .get(
+      '/',
+      async ({ query }) => {
+        try {
+          const limit = query.limit || 50;
+          const offset = query.offset || 0;
+          const filters = {
+            ...(query.status && { status: query.status }),
+            ...(query.paymentStatus && { paymentStatus: query.paymentStatus }),
+            ...(query.customerId !== undefined && {
+              customerId: query.customerId,
+            }),
+            ...(query.from && { createdFrom: new Date(query.from) }),
+            ...(query.to && { createdTo: new Date(query.to) }),
+          };
+
+          const orders = await orderService.findMany({
+            limit,
+            offset,
+            orderBy: query.orderBy,
+            orderDirection: query.orderDirection || 'desc',
+            filters,
+          });
+          const total = await orderService.count(filters);
+
+          return paginatedResponse(orders, total, limit, offset);
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...orderValidators.list,
+        permission: 'orders:read',
+        detail: {
+          tags: ['Orders'],
+          summary: 'List orders',
+          description:
+            'Get paginated list of orders. Filter by status, payment status, customer and creation date range (from/to, ISO 8601).',
+          security: [{ bearerAuth: [] }],
+        },
+      }
+    )
+    .get(
+      '/by-number',
+      async ({ query }) => {
+        try {
+          const order = await orderService.getOrderByNumber(query.orderNumber);
+          if (!order) {
+            return errorResponse('Order not found', 404);
+          }
+          return jsonResponse(await withStatusHistory(orderService, order));
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...orderValidators.byNumber,
+        permission: 'orders:read',
+        detail: {
+          tags: ['Orders'],
+          summary: 'Get order by number',
+          description:
+            'Get order details (with items and status history) by its order number',
+          security: [{ bearerAuth: [] }],
+        },
+      }
+    )
+    .get(
+      '/sla',
+      async ({ query }) => {
+        const fromStatus = query.fromStatus || 'confirmed';
+        const toStatus = query.toStatus || 'ready';
+        if (fromStatus === toStatus) {
+          return errorResponse('fromStatus and toStatus must differ', 400);
+        }
+
+        try {
+          return jsonResponse(
+            await orderService.getStageMetrics({
+              fromStatus,
+              toStatus,
+              ...(query.from && { from: new Date(query.from) }),
+              ...(query.to && { to: new Date(query.to) }),
+            })
+          );
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...orderValidators.stageMetrics,
+        permission: 'orders:read',
+        detail: {
+          tags: ['Orders'],
+          summary: 'SLA metrics',
+          description:
+            'Average, median, p90 and max seconds orders took from fromStatus to toStatus (default confirmed to ready), from the status history. from/to (ISO 8601) filter on when toStatus was reached.',
+          security: [{ bearerAuth: [] }],
+        },
+      }
+    )
+    .post(
+      '/bulk/status',
+      async ({
+        body,
+        auth,
+      }: {
+        body: { orderIds: number[]; status: OrderStatus; reason?: string };
+        auth?: Auth;
+      }) => {
+        const updated: number[] = [];
+        const failed: Array<{ orderId: number; error: string }> = [];
+
+        // One order at a time: each transition is validated on its own
+        for (const orderId of body.orderIds) {
+          try {
+            await orderService.updateOrderStatus(
+              orderId,
+              body.status,
+              { type: 'admin', userId: Number(auth!.userId) },
+              body.reason
+            );
+            updated.push(orderId);
+          } catch (error) {
+            failed.push({
+              orderId,
+              error: error instanceof Error ? error.message : 'Unknown error',
+            });
+          }
+        }
+
+        return jsonResponse({ updated, failed });
+      },
+      {
+        ...orderValidators.bulkStatus,
+        permission: 'orders:write',
+        detail: {
+          tags: ['Orders'],
+          summary: 'Bulk status transition',
+          description:
+            'Move several orders to the same status. Each order is validated separately; the response lists the updated ones and why the others failed.',
+          security: [{ bearerAuth: [] }],
+        },
+      }
+    )
+    .get(
+      '/:id',
+      async ({ params }) => {
+        try {
+          const order = await orderService.getOrderById(params.id);
+          if (!order) {
+            return errorResponse('Order not found', 404);
+          }
+          return jsonResponse(await withStatusHistory(orderService, order));
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...orderValidators.byId,
+        permission: 'orders:read',
+        detail: {
+          tags: ['Orders'],
+          summary: 'Get order by ID',
+          description: 'Get order details with items and status history',
+          security: [{ bearerAuth: [] }],
+        },
+      }
+    )
+    .get(
+      '/:id/timeline',
+      async ({ params }) => {
+        try {
+          const order = await orderService.getOrderById(params.id);
+          if (!order) {
+            return errorResponse('Order not found', 404);
+          }
+          return jsonResponse({
+            data: await orderService.getTimeline(params.id),
+          });
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...orderValidators.timeline,
+        permission: 'orders:read',
+        detail: {
+          tags: ['Orders'],
+          summary: 'Order timeline',
+          description:
+            'Order, inventory and delivery events of the order, oldest first',
+          security: [{ bearerAuth: [] }],
+        },
+      }
+    )
+    .patch(
+      '/:id',
+      async ({ params, body }) => {
+        try {
+          const order = await orderService.updateInternalNotes(
+            params.id,
+            body.internalNotes
+          );
+          if (!order) {
+            return errorResponse('Order not found', 404);
+          }
+          return jsonResponse(order);
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            400
+          );
+        }
+      },
+      {
+        ...orderValidators.update,
+        permission: 'orders:write',
+        detail: {
+          tags: ['Orders'],
+          summary: 'Update internal notes',
+          description:
+            'Set the staff-only notes of an order (null clears them)',
+          security: [{ bearerAuth: [] }],
+        },
+      }
+    )
+    .patch(
+      '/:id/status',
+      async ({
+        params,
+        body,
+        auth,
+      }: {
+        params: { id: number };
+        body: { status: OrderStatus; reason?: string };
+        auth?: Auth;
+      }) => {
+        try {
+          const order = await orderService.updateOrderStatus(
+            params.id,
+            body.status,
+            { type: 'admin', userId: Number(auth!.userId) },
+            body.reason
+          );
+          return jsonResponse(order);
+        } catch (error) {
+          return orderErrorResponse(error);
+        }
+      },
+      {
+        ...orderValidators.updateStatus,
+        permission: 'orders:write',
+        detail: {
+          tags: ['Orders'],
+          summary: 'Change order status',
+          description:
+            'Move the order to the next status, with an optional reason kept in the status history. Invalid transitions are rejected with 400, concurrent changes with 409; use /cancel to cancel.',
+          security: [{ bearerAuth: [] }],
+        },
+      }
+    )
+    .post(
+      '/:id/cancel',
+      async ({
+        params,
+        body,
+        auth,
+      }: {
+        params: { id: number };
+        body: { reason: string };
+        auth?: Auth;
+      }) => {
+        try {
+          await orderService.cancelOrder(params.id, body.reason, {
+            type: 'admin',
+            userId: Number(auth!.userId),
+          });
+          return jsonResponse(await orderService.getOrderById(params.id));
+        } catch (error) {
+          return orderErrorResponse(error);
+        }
+      },
+      {
+        ...orderValidators.cancel,
+        permission: 'orders:cancel',
+        detail: {
+          tags: ['Orders'],
+          summary: 'Cancel order',
+          description:
+            'Cancel the order with a reason. Delivered orders cannot be cancelled; cancelling twice is a no-op.',
+          security: [{ bearerAuth: [] }],
+        },
+      }
+    );
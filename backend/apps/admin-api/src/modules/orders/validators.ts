@@ -0,0 +1,113 @@
+/**
+ * Orders Validators
+ * Elysia validators for order management endpoints
+ */
+
+import { t } from 'elysia';
+import {
+  paginationQuery,
+  orderByQuery,
+  numericId,
+} from '../../shared/validators';
+
+const orderStatus = t.Union([
+  t.Literal('pending'),
+  t.Literal('confirmed'),
+  t.Literal('picking'),
+  t.Literal('ready'),
+  t.Literal('assigned'),
+  t.Literal('picked_up'),
+  t.Literal('in_transit'),
+  t.Literal('delivered'),
+  t.Literal('cancelled'),
+]);
+
+// Cancelling goes through /cancel, which records the reason
+const transitionStatus = t.Union([
+  t.Literal('confirmed'),
+  t.Literal('picking'),
+  t.Literal('ready'),
+  t.Literal('assigned'),
+  t.Literal('picked_up'),
+  t.Literal('in_transit'),
+  t.Literal('delivered'),
+]);
+
+export const BULK_STATUS_MAX_ORDERS = 100;
+
+export const orderValidators = {
+  list: {
+    query: t.Composite([
+      paginationQuery,
+      orderByQuery(
+        ['created_at', 'updated_at', 'total_amount'] as const,
+        'created_at'
+      ),
+      t.Object({
+        status: t.Optional(orderStatus),
+        paymentStatus: t.Optional(
+          t.Union([
+            t.Literal('pending'),
+            t.Literal('paid'),
+            t.Literal('failed'),
+            t.Literal('partially_refunded'),
+            t.Literal('refunded'),
+          ])
+        ),
+        customerId: t.Optional(t.Numeric()),
+        from: t.Optional(t.String({ format: 'date-time' })),
+        to: t.Optional(t.String({ format: 'date-time' })),
+      }),
+    ]),
+  },
+  byNumber: {
+    query: t.Object({
+      orderNumber: t.String(),
+    }),
+  },
+  byId: {
+    params: numericId,
+  },
+  timeline: {
+    params: numericId,
+  },
+  stageMetrics: {
+    query: t.Object({
+      fromStatus: t.Optional(orderStatus),
+      toStatus: t.Optional(orderStatus),
+      from: t.Optional(t.String({ format: 'date-time' })),
+      to: t.Optional(t.String({ format: 'date-time' })),
+    }),
+  },
+  updateStatus: {
+    params: numericId,
+    body: t.Object({
+      status: transitionStatus,
+      // Kept in the status history
+      reason: t.Optional(t.String({ minLength: 1, maxLength: 500 })),
+    }),
+  },
+  bulkStatus: {
+    body: t.Object({
+      orderIds: t.Array(t.Integer({ minimum: 1 }), {
+        minItems: 1,
+        maxItems: BULK_STATUS_MAX_ORDERS,
+        uniqueItems: true,
+      }),
+      status: transitionStatus,
+      reason: t.Optional(t.String({ minLength: 1, maxLength: 500 })),
+    }),
+  },
+  cancel: {
+    params: numericId,
+    body: t.Object({
+      reason: t.String({ minLength: 1 }),
+    }),
+  },
+  update: {
+    params: numericId,
+    body: t.Object({
+      internalNotes: t.Union([t.String(), t.Null()]),
+    }),
+  },
+};
@@ -1,11 +1,11 @@
 import { describe, it, expect, beforeEach } from 'bun:test';
-import { Elysia } from 'elysia';
 import type { ProductsService } from '@lokaly/domain';
+import { adminWith, withAuth } from '../../test-helpers/auth';
 import { productsController } from './controller';
 
 describe('admin-api productsController', () => {
   let mockService: Partial<ProductsService>;
-  let app: ReturnType<typeof productsController>;
+  let app: ReturnType<typeof withAuth>;
 
   beforeEach(() => {
     mockService = {
@@ -18,7 +18,7 @@ describe('admin-api productsController', () => {
       update: async () => null,
       delete: async () => false,
     };
-    app = productsController(mockService as ProductsService);
+    app = withAuth(productsController(mockService as ProductsService));
   });
 
   describe('GET /products', () => {
@@ -211,4 +211,59 @@ describe('admin-api productsController', () => {
       expect(body.error).toBe('Product not found');
     });
   });
+
+  describe('permissions', () => {
+    it('should need products:prices to change the price', async () => {
+      mockService.update = async () => ({ id: 1 } as any);
+      const asEditor = withAuth(
+        productsController(mockService as ProductsService),
+        adminWith(['products:write'])
+      );
+      const patch = (body: unknown) =>
+        new Request('http://localhost/products/1', {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+
+      const res = await asEditor.handle(patch({ basePrice: '9.90' }));
+      expect(res.status).toBe(403);
+      expect((await res.json()).details.required).toEqual(['products:prices']);
+
+      expect((await asEditor.handle(patch({ name: 'New name' }))).status).toBe(
+        200
+      );
+    });
+
+    it('should need products:prices to create a product with its price', async () => {
+      let created = false;
+      mockService.create = async () => {
+        created = true;
+        return { id: 1 } as any;
+      };
+      const asEditor = withAuth(
+        productsController(mockService as ProductsService),
+        adminWith(['products:write'])
+      );
+
+      const res = await asEditor.handle(
+        new Request('http://localhost/products', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: 'New Product',
+            sku: 'NEW-SKU',
+            subcategoryId: 1,
+            unitId: 1,
+            status: 'active',
+            basePrice: '0.01',
+          }),
+        })
+      );
+
+      expect(res.status).toBe(403);
+      expect((await res.json()).details.required).toEqual(['products:prices']);
+      expect(created).toBe(false);
+    });
+  });
 });
@@ -10,10 +10,12 @@ import {
   errorResponse,
   paginatedResponse,
 } from '../../shared/responses';
+import { permissionGuard } from '../../shared/middleware/permissions.plugin';
 import { productValidators } from './validators';
 
 export const productsController = (productsService: ProductsService) =>
   new Elysia({ prefix: '/products' })
+    .use(permissionGuard)
     .get(
       '/',
       async ({ query }) => {
@@ -65,6 +67,7 @@ export const productsController = (productsService: ProductsService) =>
       },
       {
         ...productValidators.list,
+        permission: 'products:read',
         detail: {
           tags: ['Products'],
           summary: 'List products',
@@ -91,6 +94,7 @@ export const productsController = (productsService: ProductsService) =>
       },
       {
         ...productValidators.search,
+        permission: 'products:read',
         detail: {
           tags: ['Products'],
           summary: 'Search products',
@@ -117,6 +121,7 @@ export const productsController = (productsService: ProductsService) =>
       },
       {
         ...productValidators.bySku,
+        permission: 'products:read',
         detail: {
           tags: ['Products'],
           summary: 'Get product by SKU',
@@ -143,6 +148,7 @@ export const productsController = (productsService: ProductsService) =>
       },
       {
         ...productValidators.byId,
+        permission: 'products:read',
         detail: {
           tags: ['Products'],
           summary: 'Get product by ID',
@@ -166,10 +172,13 @@ export const productsController = (productsService: ProductsService) =>
       },
       {
         ...productValidators.create,
+        permission: 'products:write',
+        fieldPermissions: { basePrice: 'products:prices' },
         detail: {
           tags: ['Products'],
           summary: 'Create product',
-          description: 'Create a new product',
+          description:
+            'Create a new product. Setting its basePrice needs products:prices.',
           security: [{ bearerAuth: [] }],
         },
       }
@@ -203,10 +212,13 @@ export const productsController = (productsService: ProductsService) =>
       },
       {
         ...productValidators.update,
+        permission: 'products:write',
+        fieldPermissions: { basePrice: 'products:prices' },
         detail: {
           tags: ['Products'],
           summary: 'Update product',
-          description: 'Update product information',
+          description:
+            'Update product information. Changing basePrice needs products:prices.',
           security: [{ bearerAuth: [] }],
         },
       }
@@ -229,6 +241,7 @@ export const productsController = (productsService: ProductsService) =>
       },
       {
         ...productValidators.delete,
+        permission: 'products:write',
         detail: {
           tags: ['Products'],
           summary: 'Delete product',
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import {
+  RefundGatewayError,
+  RefundNotAllowedError,
+  type RefundService,
+} from '@lokaly/domain';
+import { adminWith, withAuth } from '../../test-helpers/auth';
+import { refundsController } from './controller';
+
+describe('admin-api refundsController', () => {
+  let mockService: Partial<RefundService>;
+  let app: ReturnType<typeof withAuth>;
+
+  const refund = {
+    id: 5,
+    orderId: 42,
+    gateway: 'simulator',
+    transactionId: 'sim_1',
+    gatewayRefundId: 'simref_1',
+    amount: '7.50',
+    reason: 'item_unavailable',
+    notes: 'No ripe avocados',
+    status: 'succeeded',
+    requestedBy: 1,
+  };
+
+  const post = (body: unknown) =>
+    new Request('http://localhost/refunds', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  beforeEach(() => {
+    mockService = {
+      findMany: async () => [],
+      count: async () => 0,
+      findById: async () => null,
+      refundOrder: async () => refund as any,
+    };
+    app = withAuth(refundsController(mockService as RefundService));
+  });
+
+  describe('GET /refunds', () => {
+    it('should return paginated refunds with filters', async () => {
+      mockService.findMany = async (opts) => {
+        expect(opts?.filters).toEqual({ orderId: 42, status: 'succeeded' });
+        return [refund] as any;
+      };
+      mockService.count = async () => 1;
+
+      const res = await app.handle(
+        new Request('http://localhost/refunds?orderId=42&status=succeeded')
+      );
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.data).toHaveLength(1);
+      expect(body.pagination.total).toBe(1);
+    });
+  });
+
+  describe('GET /refunds/:id', () => {
+    it('should return 404 when the refund does not exist', async () => {
+      const res = await app.handle(new Request('http://localhost/refunds/9'));
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('POST /refunds', () => {
+    it('should refund part of the order as the admin', async () => {
+      let received: unknown[] = [];
+      mockService.refundOrder = async (...args) => {
+        received = args;
+        return refund as any;
+      };
+
+      const res = await app.handle(
+        post({
+          orderId: 42,
+          amount: 7.5,
+          reason: 'item_unavailable',
+          notes: 'No ripe avocados',
+        })
+      );
+
+      expect(res.status).toBe(201);
+      expect(received).toEqual([
+        42,
+        {
+          amount: 7.5,
+          reason: 'item_unavailable',
+          notes: 'No ripe avocados',
+          requestedBy: 1,
+        },
+      ]);
+      expect((await res.json()).id).toBe(5);
+    });
+
+    it('should return 400 when nothing is left to refund', async () => {
+      mockService.refundOrder = async () => null;
+
+      const res = await app.handle(
+        post({ orderId: 42, reason: 'customer_request' })
+      );
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should return 400 for refunds that are not allowed', async () => {
+      mockService.refundOrder = async () => {
+        throw new RefundNotAllowedError(
+          42,
+          'Cannot refund an order with payment status pending'
+        );
+      };
+
+      const res = await app.handle(
+        post({ orderId: 42, amount: 10, reason: 'other' })
+      );
+
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toContain('payment status pending');
+    });
+
+    it('should return 404 when the order does not exist', async () => {
+      mockService.refundOrder = async () => {
+        throw new Error('Order not found');
+      };
+
+      const res = await app.handle(post({ orderId: 42, reason: 'other' }));
+
+      expect(res.status).toBe(404);
+    });
+
+    it('should return 502 with the failed refund when the gateway rejects it', async () => {
+      mockService.refundOrder = async () => {
+        throw new RefundGatewayError(6, 'Refund amount exceeds the captured amount');
+      };
+
+      const res = await app.handle(post({ orderId: 42, reason: 'other' }));
+
+      expect(res.status).toBe(502);
+      expect((await res.json()).details).toEqual({ refundId: 6 });
+    });
+
+    it('should reject unknown reasons', async () => {
+      const res = await app.handle(post({ orderId: 42, reason: 'because' }));
+
+      expect(res.status).toBe(422);
+    });
+
+    it('should need orders:refund', async () => {
+      const res = await withAuth(
+        refundsController(mockService as RefundService),
+        adminWith(['orders:read', 'orders:write', 'orders:cancel'])
+      ).handle(post({ orderId: 42, reason: 'other' }));
+
+      expect(res.status).toBe(403);
+    });
+  });
+});
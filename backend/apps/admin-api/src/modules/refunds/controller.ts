@@ -0,0 +1,151 @@
+/**
+ * Refunds Controller
+ * Full and partial refunds of order payments (cancelled orders,
+ * short-picked items, ...). RefundService calls the payment gateway and
+ * moves the order's paymentStatus to partially_refunded or refunded.
+ */
+
+import { Elysia } from 'elysia';
+import {
+  RefundGatewayError,
+  RefundNotAllowedError,
+  type RefundReason,
+  type RefundService,
+} from '@lokaly/domain';
+import {
+  jsonResponse,
+  errorResponse,
+  paginatedResponse,
+} from '../../shared/responses';
+import { permissionGuard } from '../../shared/middleware/permissions.plugin';
+import { refundValidators } from './validators';
+
+type Auth = { userId: string };
+
+/**
+ * 404 for a missing order, 400 for refunds that are not allowed, 502 when
+ * the gateway rejected the refund (kept as failed)
+ */
+function refundErrorResponse(error: unknown): Response {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  if (message === 'Order not found') {
+    return errorResponse(message, 404);
+  }
+  if (error instanceof RefundNotAllowedError) {
+    return errorResponse(message, 400);
+  }
+  if (error instanceof RefundGatewayError) {
+    return errorResponse(message, 502, { refundId: error.refundId });
+  }
+  return errorResponse(message, 500);
+}
+
+export const refundsController = (refundService: RefundService) =>
+  new Elysia({ prefix: '/refunds' })
+    .use(permissionGuard)
+    .get(
+      '/',
+      async ({ query }) => {
+        try {
+          const limit = query.limit || 50;
+          const offset = query.offset || 0;
+          const filters = {
+            ...(query.orderId !== undefined && { orderId: query.orderId }),
+            ...(query.status && { status: query.status }),
+            ...(query.reason && { reason: query.reason }),
+          };
+
+          const refunds = await refundService.findMany({
+            limit,
+            offset,
+            filters,
+          });
+          const total = await refundService.count(filters);
+
+          return paginatedResponse(refunds, total, limit, offset);
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...refundValidators.list,
+        permission: 'orders:read',
+        detail: {
+          tags: ['Refunds'],
+          summary: 'List refunds',
+          description:
+            'Get paginated list of refunds, newest first. Filter by order, status and reason.',
+          security: [{ bearerAuth: [] }],
+        },
+      }
+    )
+    .get(
+      '/:id',
+      async ({ params }) => {
+        try {
+          const refund = await refundService.findById(params.id);
+          if (!refund) {
+            return errorResponse('Refund not found', 404);
+          }
+          return jsonResponse(refund);
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...refundValidators.byId,
+        permission: 'orders:read',
+        detail: {
+          tags: ['Refunds'],
+          summary: 'Get refund by ID',
+          security: [{ bearerAuth: [] }],
+        },
+      }
+    )
+    .post(
+      '/',
+      async ({
+        body,
+        auth,
+      }: {
+        body: {
+          orderId: number;
+          amount?: number;
+          reason: RefundReason;
+          notes?: string;
+        };
+        auth?: Auth;
+      }) => {
+        try {
+          const refund = await refundService.refundOrder(body.orderId, {
+            amount: body.amount,
+            reason: body.reason,
+            notes: body.notes,
+            requestedBy: Number(auth!.userId),
+          });
+          if (!refund) {
+            return errorResponse('Nothing left to refund on this order', 400);
+          }
+          return jsonResponse(refund, 201);
+        } catch (error) {
+          return refundErrorResponse(error);
+        }
+      },
+      {
+        ...refundValidators.create,
+        permission: 'orders:refund',
+        detail: {
+          tags: ['Refunds'],
+          summary: 'Refund order payment',
+          description:
+            'Refund a paid order through the payment gateway: amount (BRL) for a partial refund, e.g. short-picked items, or everything that is left when omitted. paymentStatus becomes partially_refunded or refunded and payment.refunded is emitted. Gateway rejections answer 502 and keep the refund as failed.',
+          security: [{ bearerAuth: [] }],
+        },
+      }
+    );
@@ -0,0 +1,47 @@
+/**
+ * Refunds Validators
+ * Elysia validators for refund endpoints
+ */
+
+import { t } from 'elysia';
+import { paginationQuery, numericId } from '../../shared/validators';
+
+const refundReason = t.Union([
+  t.Literal('order_cancelled'),
+  t.Literal('item_unavailable'),
+  t.Literal('customer_request'),
+  t.Literal('duplicate_charge'),
+  t.Literal('other'),
+]);
+
+export const refundValidators = {
+  list: {
+    query: t.Composite([
+      paginationQuery,
+      t.Object({
+        orderId: t.Optional(t.Numeric()),
+        status: t.Optional(
+          t.Union([
+            t.Literal('pending'),
+            t.Literal('succeeded'),
+            t.Literal('failed'),
+            t.Literal('needs_review'),
+          ])
+        ),
+        reason: t.Optional(refundReason),
+      }),
+    ]),
+  },
+  byId: {
+    params: numericId,
+  },
+  create: {
+    body: t.Object({
+      orderId: t.Numeric(),
+      // BRL; whatever is left to refund when omitted
+      amount: t.Optional(t.Numeric({ exclusiveMinimum: 0 })),
+      reason: refundReason,
+      notes: t.Optional(t.String({ maxLength: 1000 })),
+    }),
+  },
+};
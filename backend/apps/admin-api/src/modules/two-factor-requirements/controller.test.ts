@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import type { UsersService } from '@lokaly/domain';
+import {
+  adminWith,
+  superAdminAuth,
+  withAuth,
+  type TestAuth,
+} from '../../test-helpers/auth';
+import { twoFactorRequirementsController } from './controller';
+
+function asAdmin(usersService: Partial<UsersService>, auth: TestAuth) {
+  return withAuth(
+    twoFactorRequirementsController(usersService as UsersService),
+    auth
+  );
+}
+
+describe('admin-api twoFactorRequirementsController', () => {
+  let mockService: Partial<UsersService>;
+
+  beforeEach(() => {
+    mockService = {
+      listTwoFactorRequirements: async () => [],
+      requireTwoFactor: async (department, requiredBy) => ({
+        department,
+        requiredBy,
+        createdAt: new Date(),
+      }),
+      removeTwoFactorRequirement: async () => false,
+    };
+  });
+
+  it('should return 403 without security:manage', async () => {
+    const res = await asAdmin(mockService, adminWith(['users:write'])).handle(
+      new Request('http://localhost/two-factor-requirements/finance', {
+        method: 'PUT',
+      })
+    );
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should list the departments requiring 2FA', async () => {
+    mockService.listTwoFactorRequirements = async () =>
+      [{ department: 'finance', requiredBy: 1 }] as any;
+
+    const res = await asAdmin(mockService, superAdminAuth).handle(
+      new Request('http://localhost/two-factor-requirements')
+    );
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body).toEqual([{ department: 'finance', requiredBy: 1 }]);
+  });
+
+  it('should record which super_admin required 2FA', async () => {
+    const res = await asAdmin(mockService, superAdminAuth).handle(
+      new Request('http://localhost/two-factor-requirements/finance', {
+        method: 'PUT',
+      })
+    );
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.department).toBe('finance');
+    expect(body.requiredBy).toBe(1);
+  });
+
+  it('should return 404 when removing a missing requirement', async () => {
+    const res = await asAdmin(mockService, superAdminAuth).handle(
+      new Request('http://localhost/two-factor-requirements/finance', {
+        method: 'DELETE',
+      })
+    );
+
+    expect(res.status).toBe(404);
+  });
+});
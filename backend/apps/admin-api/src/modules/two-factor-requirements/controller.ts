@@ -0,0 +1,119 @@
+/**
+ * Two-Factor Requirements Controller
+ * Admins with `security:manage` (super_admins by default) decide which
+ * departments must use two-factor authentication. Admins of those departments
+ * have to enroll at their next login and cannot turn 2FA off.
+ */
+
+import { Elysia } from 'elysia';
+import type { UsersService } from '@lokaly/domain';
+import { jsonResponse, errorResponse } from '../../shared/responses';
+import { permissionGuard } from '../../shared/middleware/permissions.plugin';
+import { twoFactorRequirementValidators } from './validators';
+
+type Auth = { userId: string };
+
+export const twoFactorRequirementsController = (usersService: UsersService) =>
+  new Elysia({ prefix: '/two-factor-requirements' })
+    .use(permissionGuard)
+    .get(
+      '/',
+      async () => {
+        try {
+          return jsonResponse(await usersService.listTwoFactorRequirements());
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        permission: 'security:manage',
+        detail: {
+          tags: ['Two-Factor'],
+          summary: 'List departments requiring 2FA',
+          description:
+            'Departments whose admins must use two-factor authentication',
+          security: [{ bearerAuth: [] }],
+          responses: {
+            200: { description: 'Departments requiring 2FA' },
+            403: { description: 'Missing security:manage permission' },
+          },
+        },
+      }
+    )
+    .put(
+      '/:department',
+      async ({
+        params,
+        auth,
+      }: {
+        params: { department: string };
+        auth?: Auth;
+      }) => {
+        try {
+          // permissionGuard already rejected requests without auth
+          const requirement = await usersService.requireTwoFactor(
+            params.department,
+            Number(auth!.userId)
+          );
+          return jsonResponse(requirement);
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...twoFactorRequirementValidators.byDepartment,
+        permission: 'security:manage',
+        detail: {
+          tags: ['Two-Factor'],
+          summary: 'Require 2FA for a department',
+          description:
+            'Every admin of the department must use two-factor authentication. Admins not enrolled yet are asked to enroll at their next login. Idempotent.',
+          security: [{ bearerAuth: [] }],
+          responses: {
+            200: { description: 'Requirement in place' },
+            403: { description: 'Missing security:manage permission' },
+          },
+        },
+      }
+    )
+    .delete(
+      '/:department',
+      async ({ params }) => {
+        try {
+          const removed = await usersService.removeTwoFactorRequirement(
+            params.department
+          );
+          if (!removed) {
+            return errorResponse('Requirement not found', 404);
+          }
+          return new Response(null, { status: 204 });
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...twoFactorRequirementValidators.byDepartment,
+        permission: 'security:manage',
+        detail: {
+          tags: ['Two-Factor'],
+          summary: 'Stop requiring 2FA for a department',
+          description:
+            'Admins of the department keep 2FA if they enabled it, but may turn it off',
+          security: [{ bearerAuth: [] }],
+          responses: {
+            204: { description: 'Requirement removed' },
+            403: { description: 'Missing security:manage permission' },
+            404: { description: 'Department did not require 2FA' },
+          },
+        },
+      }
+    );
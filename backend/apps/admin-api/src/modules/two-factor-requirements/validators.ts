@@ -0,0 +1,14 @@
+/**
+ * Two-Factor Requirements Validators
+ * Elysia validators for per-department 2FA requirement endpoints
+ */
+
+import { t } from 'elysia';
+
+export const twoFactorRequirementValidators = {
+  byDepartment: {
+    params: t.Object({
+      department: t.String({ minLength: 1 }),
+    }),
+  },
+};
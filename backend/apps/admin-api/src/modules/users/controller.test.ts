@@ -1,13 +1,22 @@
 import { describe, it, expect, beforeEach } from 'bun:test';
-import { Elysia } from 'elysia';
 import type { UsersService } from '@lokaly/domain';
+import type { SessionService } from '@lokaly/auth';
+import { adminWith, withAuth } from '../../test-helpers/auth';
 import { usersController } from './controller';
 
 describe('admin-api usersController', () => {
   let mockService: Partial<UsersService>;
-  let app: ReturnType<typeof usersController>;
+  let mockSessions: Partial<SessionService>;
+  let endedAll: unknown[];
+  let app: ReturnType<typeof withAuth>;
 
   beforeEach(() => {
+    endedAll = [];
+    mockSessions = {
+      endAll: async (account) => {
+        endedAll.push(account);
+      },
+    };
     mockService = {
       findMany: async () => [],
       count: async () => 0,
@@ -17,7 +26,12 @@ describe('admin-api usersController', () => {
       update: async () => null,
       delete: async () => false,
     };
-    app = usersController(mockService as UsersService);
+    app = withAuth(
+      usersController(
+        mockService as UsersService,
+        mockSessions as SessionService
+      )
+    );
   });
 
   describe('GET /users', () => {
@@ -108,6 +122,56 @@ describe('admin-api usersController', () => {
       expect(body).toEqual(user);
     });
 
+    it('should leave credentials and 2FA secrets out of every response', async () => {
+      const user = {
+        id: 1,
+        email: 'test@test.com',
+        passwordHash: '$argon2id$v=19$hash',
+        passwordResetToken: 'reset-token',
+        emailVerificationToken: 'verification-token',
+        twoFactorSecret: 'JBSWY3DPEHPK3PXP',
+        twoFactorRecoveryCodes: '["hash-1","hash-2"]',
+      };
+      const secrets = [
+        'passwordHash',
+        'passwordResetToken',
+        'emailVerificationToken',
+        'twoFactorSecret',
+        'twoFactorRecoveryCodes',
+      ];
+      mockService.findById = async () => user as any;
+      mockService.findByEmail = async () => user as any;
+      mockService.findMany = async () => [user] as any;
+      mockService.update = async () => user as any;
+
+      const responses = await Promise.all([
+        app.handle(new Request('http://localhost/users/1')),
+        app.handle(
+          new Request('http://localhost/users/search?email=test@test.com')
+        ),
+        app.handle(new Request('http://localhost/users')),
+        app.handle(
+          new Request('http://localhost/users/1', {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ firstName: 'Test' }),
+          })
+        ),
+      ]);
+      const bodies = await Promise.all(responses.map((res) => res.json()));
+
+      expect(responses.map((res) => res.status)).toEqual([
+        200, 200, 200, 200,
+      ]);
+      const [byId, byEmail, list, updated] = bodies;
+      for (const body of [byId, byEmail, list.data[0], updated]) {
+        expect(body).toEqual({ id: 1, email: 'test@test.com' });
+        for (const secret of secrets) {
+          expect(body).not.toHaveProperty(secret);
+        }
+      }
+    });
+
     it('should return 404 when user not found', async () => {
       mockService.findById = async () => null;
 
@@ -135,7 +199,7 @@ describe('admin-api usersController', () => {
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             email: 'new@test.com',
-            passwordHash: 'hash123',
+            password: 'S3cure-pass',
             firstName: 'New',
             lastName: 'User',
             role: 'admin',
@@ -148,6 +212,62 @@ describe('admin-api usersController', () => {
       expect(body).toEqual(newUser);
     });
 
+    it('should hash the password before storing it', async () => {
+      let created: any;
+      mockService.create = async (data) => {
+        created = data;
+        return { id: 1 } as any;
+      };
+
+      const res = await app.handle(
+        new Request('http://localhost/users', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            email: 'new@test.com',
+            password: 'S3cure-pass',
+            firstName: 'New',
+            lastName: 'User',
+            role: 'admin',
+          }),
+        })
+      );
+
+      expect(res.status).toBe(201);
+      expect(created.password).toBeUndefined();
+      expect(created.passwordHash).toStartWith('$argon2id$');
+      expect(
+        await Bun.password.verify('S3cure-pass', created.passwordHash)
+      ).toBe(true);
+    });
+
+    it('should return 400 for a weak password', async () => {
+      let createCalled = false;
+      mockService.create = async () => {
+        createCalled = true;
+        return { id: 1 } as any;
+      };
+
+      const res = await app.handle(
+        new Request('http://localhost/users', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            email: 'new@test.com',
+            password: 'password',
+            firstName: 'New',
+            lastName: 'User',
+            role: 'admin',
+          }),
+        })
+      );
+
+      expect(res.status).toBe(400);
+      expect(createCalled).toBe(false);
+      const body = await res.json();
+      expect(body.details.errors).toContain('Password is too common');
+    });
+
     it('should return 400 on validation error', async () => {
       mockService.create = async () => {
         throw new Error('Validation error');
@@ -204,7 +324,8 @@ describe('admin-api usersController', () => {
   });
 
   describe('DELETE /users/:id', () => {
-    it('should delete user', async () => {
+    it('should delete user and end their sessions', async () => {
+      mockService.findById = async () => ({ id: 1, role: 'admin' } as any);
       mockService.delete = async () => true;
 
       const res = await app.handle(
@@ -214,6 +335,7 @@ describe('admin-api usersController', () => {
       expect(res.status).toBe(200);
       const body = await res.json();
       expect(body.success).toBe(true);
+      expect(endedAll).toEqual([{ userId: '1', role: 'admin' }]);
     });
 
     it('should return 404 when user not found', async () => {
@@ -228,4 +350,99 @@ describe('admin-api usersController', () => {
       expect(body.error).toBe('User not found');
     });
   });
+
+  describe('permissions', () => {
+    const patch = (body: unknown) =>
+      new Request('http://localhost/users/2', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+    it('should return 403 without the route permission', async () => {
+      const res = await withAuth(
+        usersController(
+          mockService as UsersService,
+          mockSessions as SessionService
+        ),
+        adminWith(['users:read'])
+      ).handle(new Request('http://localhost/users/1', { method: 'DELETE' }));
+
+      expect(res.status).toBe(403);
+      const body = await res.json();
+      expect(body.details.required).toEqual(['users:delete']);
+    });
+
+    it('should need users:permissions to change a role', async () => {
+      const asWriter = withAuth(
+        usersController(
+          mockService as UsersService,
+          mockSessions as SessionService
+        ),
+        adminWith(['users:write'])
+      );
+      mockService.update = async () => ({ id: 2, role: 'admin' } as any);
+
+      const roleChange = await asWriter.handle(patch({ role: 'super_admin' }));
+      expect(roleChange.status).toBe(403);
+
+      const nameChange = await asWriter.handle(patch({ firstName: 'Ana' }));
+      expect(nameChange.status).toBe(200);
+    });
+
+    it('should need users:permissions to change email, department or isActive', async () => {
+      const asWriter = withAuth(
+        usersController(
+          mockService as UsersService,
+          mockSessions as SessionService
+        ),
+        adminWith(['users:write'])
+      );
+      let updated = false;
+      mockService.update = async () => {
+        updated = true;
+        return { id: 2, role: 'super_admin' } as any;
+      };
+
+      // Taking over a super_admin through a password reset to a new email,
+      // or escaping its 2FA requirement, must not work with users:write
+      for (const body of [
+        { email: 'attacker@example.com' },
+        { department: 'warehouse' },
+        { isActive: true },
+      ]) {
+        const res = await asWriter.handle(patch(body));
+        expect(res.status).toBe(403);
+        expect((await res.json()).details.required).toEqual([
+          'users:permissions',
+        ]);
+      }
+      expect(updated).toBe(false);
+    });
+
+    it('should store grants as JSON and end the sessions of the user', async () => {
+      let stored: any;
+      mockService.update = async (_id, data) => {
+        stored = data;
+        return { id: 2, role: 'admin' } as any;
+      };
+
+      const res = await app.handle(
+        patch({ permissions: ['products:prices', 'couriers:verify'] })
+      );
+
+      expect(res.status).toBe(200);
+      expect(JSON.parse(stored.permissions)).toEqual([
+        'products:prices',
+        'couriers:verify',
+      ]);
+      expect(endedAll).toEqual([{ userId: '2', role: 'admin' }]);
+    });
+
+    it('should reject unknown permissions', async () => {
+      const res = await app.handle(patch({ permissions: ['orders:delete'] }));
+
+      expect(res.status).toBe(422);
+    });
+  });
 });
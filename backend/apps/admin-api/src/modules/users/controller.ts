@@ -1,19 +1,62 @@
 /**
  * Users Controller
  * User management endpoints
+ *
+ * Setting role or permissions needs `users:permissions`. Changing them (or
+ * deactivating/deleting the user) ends the user's sessions, so the new
+ * permissions apply right away.
  */
 
 import { Elysia } from 'elysia';
+import type { User } from '@lokaly/db';
 import type { UsersService } from '@lokaly/domain';
+import {
+  PasswordHasher,
+  validatePasswordStrength,
+  type SessionService,
+  type UserRole,
+} from '@lokaly/auth';
 import {
   jsonResponse,
   errorResponse,
   paginatedResponse,
 } from '../../shared/responses';
+import { permissionGuard } from '../../shared/middleware/permissions.plugin';
 import { userValidators } from './validators';
 
-export const usersController = (usersService: UsersService) =>
+/**
+ * User without its credentials and secrets (the fields the audit log
+ * redacts); every route returns users through this
+ */
+function toUserResponse(user: User) {
+  const {
+    passwordHash,
+    passwordResetToken,
+    emailVerificationToken,
+    twoFactorSecret,
+    twoFactorRecoveryCodes,
+    ...safe
+  } = user;
+  return safe;
+}
+
+async function endSessions(
+  sessionService: SessionService,
+  user: User
+): Promise<void> {
+  await sessionService.endAll({
+    userId: String(user.id),
+    role: user.role as UserRole,
+  });
+}
+
+export const usersController = (
+  usersService: UsersService,
+  sessionService: SessionService,
+  passwordHasher: PasswordHasher = new PasswordHasher()
+) =>
   new Elysia({ prefix: '/users' })
+    .use(permissionGuard)
     .get(
       '/',
       async ({ query }) => {
@@ -39,7 +82,12 @@ export const usersController = (usersService: UsersService) =>
             ...(query.department && { department: query.department }),
           });
 
-          return paginatedResponse(users, total, limit, offset);
+          return paginatedResponse(
+            users.map(toUserResponse),
+            total,
+            limit,
+            offset
+          );
         } catch (error) {
           return errorResponse(
             error instanceof Error ? error.message : 'Unknown error',
@@ -49,6 +97,7 @@ export const usersController = (usersService: UsersService) =>
       },
       {
         ...userValidators.list,
+        permission: 'users:read',
         detail: {
           tags: ['Users'],
           summary: 'List users',
@@ -95,7 +144,7 @@ export const usersController = (usersService: UsersService) =>
           if (!user) {
             return errorResponse('User not found', 404);
           }
-          return jsonResponse(user);
+          return jsonResponse(toUserResponse(user));
         } catch (error) {
           return errorResponse(
             error instanceof Error ? error.message : 'Unknown error',
@@ -105,6 +154,7 @@ export const usersController = (usersService: UsersService) =>
       },
       {
         ...userValidators.search,
+        permission: 'users:read',
         detail: {
           tags: ['Users'],
           summary: 'Search user by email',
@@ -125,7 +175,7 @@ export const usersController = (usersService: UsersService) =>
           if (!user) {
             return errorResponse('User not found', 404);
           }
-          return jsonResponse(user);
+          return jsonResponse(toUserResponse(user));
         } catch (error) {
           return errorResponse(
             error instanceof Error ? error.message : 'Unknown error',
@@ -135,6 +185,7 @@ export const usersController = (usersService: UsersService) =>
       },
       {
         ...userValidators.byId,
+        permission: 'users:read',
         detail: {
           tags: ['Users'],
           summary: 'Get user by ID',
@@ -151,8 +202,24 @@ export const usersController = (usersService: UsersService) =>
       '/',
       async ({ body }) => {
         try {
-          const user = await usersService.create(body);
-          return jsonResponse(user, 201);
+          const { password, permissions, ...data } = body;
+          const weaknesses = validatePasswordStrength(password, {
+            email: data.email,
+          });
+          if (weaknesses.length > 0) {
+            return errorResponse(
+              'Password does not meet the requirements',
+              400,
+              { errors: weaknesses }
+            );
+          }
+
+          const user = await usersService.create({
+            ...data,
+            ...(permissions && { permissions: JSON.stringify(permissions) }),
+            passwordHash: await passwordHasher.hash(password),
+          });
+          return jsonResponse(toUserResponse(user), 201);
         } catch (error) {
           return errorResponse(
             error instanceof Error ? error.message : 'Unknown error',
@@ -162,14 +229,17 @@ export const usersController = (usersService: UsersService) =>
       },
       {
         ...userValidators.create,
+        permission: 'users:write',
+        fieldPermissions: { role: 'users:permissions' },
         detail: {
           tags: ['Users'],
           summary: 'Create user',
-          description: 'Create a new admin user',
+          description:
+            'Create a new admin user. The password is checked against the strength rules and hashed server-side. Needs users:permissions, since the role (and optional extra permissions) grant access.',
           security: [{ bearerAuth: [] }],
           responses: {
             201: { description: 'User created successfully' },
-            400: { description: 'Validation error' },
+            400: { description: 'Validation error or weak password' },
           },
         },
       }
@@ -178,11 +248,24 @@ export const usersController = (usersService: UsersService) =>
       '/:id',
       async ({ params, body }) => {
         try {
-          const user = await usersService.update(params.id, body);
+          const { permissions, ...data } = body;
+          const user = await usersService.update(params.id, {
+            ...data,
+            ...(permissions && { permissions: JSON.stringify(permissions) }),
+          });
           if (!user) {
             return errorResponse('User not found', 404);
           }
-          return jsonResponse(user);
+
+          if (
+            data.role !== undefined ||
+            permissions !== undefined ||
+            data.isActive === false
+          ) {
+            await endSessions(sessionService, user);
+          }
+
+          return jsonResponse(toUserResponse(user));
         } catch (error) {
           return errorResponse(
             error instanceof Error ? error.message : 'Unknown error',
@@ -192,10 +275,21 @@ export const usersController = (usersService: UsersService) =>
       },
       {
         ...userValidators.update,
+        permission: 'users:write',
+        // Email (password reset), department (2FA policy) and isActive can
+        // take over or unlock an account as much as a role change can
+        fieldPermissions: {
+          role: 'users:permissions',
+          permissions: 'users:permissions',
+          email: 'users:permissions',
+          department: 'users:permissions',
+          isActive: 'users:permissions',
+        },
         detail: {
           tags: ['Users'],
           summary: 'Update user',
-          description: 'Update user information',
+          description:
+            'Update user information. Changing role, permissions, email, department or isActive needs users:permissions; role and permission changes and deactivating log the user out.',
           security: [{ bearerAuth: [] }],
           responses: {
             200: { description: 'User updated successfully' },
@@ -209,10 +303,12 @@ export const usersController = (usersService: UsersService) =>
       '/:id',
       async ({ params }) => {
         try {
-          const deleted = await usersService.delete(params.id);
-          if (!deleted) {
+          const user = await usersService.findById(params.id);
+          if (!user || !(await usersService.delete(params.id))) {
             return errorResponse('User not found', 404);
           }
+
+          await endSessions(sessionService, user);
           return jsonResponse({ success: true });
         } catch (error) {
           return errorResponse(
@@ -223,6 +319,7 @@ export const usersController = (usersService: UsersService) =>
       },
       {
         ...userValidators.delete,
+        permission: 'users:delete',
         detail: {
           tags: ['Users'],
           summary: 'Delete user',
@@ -4,12 +4,17 @@
  */
 
 import { t } from 'elysia';
+import { PERMISSIONS } from '@lokaly/auth';
 import {
   paginationQuery,
   orderByQuery,
   numericId,
 } from '../../shared/validators';
 
+const permissionList = t.Array(t.UnionEnum(PERMISSIONS), {
+  uniqueItems: true,
+});
+
 export const userValidators = {
   list: {
     query: t.Composite([
@@ -36,7 +41,7 @@ export const userValidators = {
   create: {
     body: t.Object({
       email: t.String(),
-      passwordHash: t.String(),
+      password: t.String(), // hashed server-side
       firstName: t.String(),
       lastName: t.String(),
       role: t.Union([
@@ -48,6 +53,7 @@ export const userValidators = {
       department: t.Optional(t.String()),
       phone: t.Optional(t.String()),
       isActive: t.Optional(t.Boolean({ default: true })),
+      permissions: t.Optional(permissionList), // on top of the role defaults
     }),
   },
   update: {
@@ -66,6 +72,7 @@ export const userValidators = {
         department: t.String(),
         phone: t.String(),
         isActive: t.Boolean(),
+        permissions: permissionList, // replaces the previous grants
       })
     ),
   },
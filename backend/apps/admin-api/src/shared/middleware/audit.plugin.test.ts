@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { Elysia } from 'elysia';
+import type { AuditLogService, RecordAuditInput } from '@lokaly/domain';
+import { jsonResponse, errorResponse } from '../responses';
+import {
+  auditPlugin,
+  resolveAuditTarget,
+  type AuditedResources,
+} from './audit.plugin';
+
+describe('admin-api auditPlugin', () => {
+  let recorded: RecordAuditInput[];
+  let products: Map<number, Record<string, unknown>>;
+  let resources: AuditedResources;
+  let app: { handle: (request: Request) => Promise<Response> };
+
+  const request = (method: string, path: string, body?: unknown) =>
+    new Request(`http://localhost${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'audit-test',
+        'X-Forwarded-For': '203.0.113.7, 10.0.0.1',
+      },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+
+  beforeEach(() => {
+    recorded = [];
+    products = new Map([
+      [1, { id: 1, name: 'Coffee', basePrice: '10.00', updatedAt: 'a' }],
+    ]);
+    resources = {
+      products: {
+        entityType: 'product',
+        findById: async (id) => products.get(id) ?? null,
+      },
+    };
+    const auditLogService = {
+      record: async (input: RecordAuditInput) => {
+        recorded.push(input);
+        return {} as any;
+      },
+    } as unknown as AuditLogService;
+
+    app = new Elysia()
+      .derive(() => ({ auth: { userId: '7' } }))
+      .use(auditPlugin(auditLogService, resources))
+      .use(
+        new Elysia({ prefix: '/products' })
+          .post('/', ({ body }) => {
+            products.set(2, { id: 2, ...(body as object) });
+            return jsonResponse({ id: 2 }, 201);
+          })
+          .patch('/:id', ({ params, body }) => {
+            const id = Number(params.id);
+            const product = products.get(id);
+            if (!product) {
+              return errorResponse('Product not found', 404);
+            }
+            products.set(id, {
+              ...product,
+              ...(body as object),
+              updatedAt: 'b',
+            });
+            return jsonResponse(products.get(id));
+          })
+          .delete('/:id', ({ params }) => {
+            products.delete(Number(params.id));
+            return jsonResponse({ success: true });
+          })
+          .get('/:id', ({ params }) =>
+            jsonResponse(products.get(Number(params.id)))
+          )
+      );
+  });
+
+  it('should record an update with only the changed fields', async () => {
+    const res = await app.handle(
+      request('PATCH', '/products/1', { basePrice: '12.50' })
+    );
+
+    expect(res.status).toBe(200);
+    expect(recorded).toEqual([
+      {
+        actorId: 7,
+        action: 'update',
+        entityType: 'product',
+        entityId: '1',
+        changes: { basePrice: { before: '10.00', after: '12.50' } },
+        ipAddress: '203.0.113.7',
+        userAgent: 'audit-test',
+      },
+    ]);
+  });
+
+  it('should record a create with the id from the response', async () => {
+    await app.handle(request('POST', '/products', { name: 'Tea' }));
+
+    expect(recorded).toHaveLength(1);
+    expect(recorded[0]!.action).toBe('create');
+    expect(recorded[0]!.entityId).toBe('2');
+    expect(recorded[0]!.changes).toEqual({
+      id: { before: null, after: 2 },
+      name: { before: null, after: 'Tea' },
+    });
+  });
+
+  it('should record a delete with the state before it', async () => {
+    await app.handle(request('DELETE', '/products/1'));
+
+    expect(recorded).toHaveLength(1);
+    expect(recorded[0]!.action).toBe('delete');
+    expect(recorded[0]!.changes?.name).toEqual({
+      before: 'Coffee',
+      after: null,
+    });
+  });
+
+  it('should not record reads or failed mutations', async () => {
+    await app.handle(request('GET', '/products/1'));
+    await app.handle(request('PATCH', '/products/999', { name: 'Nope' }));
+
+    expect(recorded).toHaveLength(0);
+  });
+
+  describe('resolveAuditTarget', () => {
+    const addresses = {
+      entityType: 'address',
+      findById: async () => null,
+    };
+
+    it('should pick the innermost registered collection', () => {
+      const all = { ...resources, customers: resources.products!, addresses };
+
+      expect(
+        resolveAuditTarget('POST', '/api/admin/customers/:id/addresses', all)
+      ).toEqual({ resource: addresses, action: 'create' });
+      expect(
+        resolveAuditTarget('PATCH', '/api/admin/products/:id/stock', all)
+      ).toEqual({
+        resource: resources.products!,
+        action: 'update',
+        idParam: 'id',
+      });
+    });
+
+    it('should skip unregistered and non-entity routes', () => {
+      expect(
+        resolveAuditTarget('POST', '/api/admin/account/password', resources)
+      ).toBeNull();
+      expect(
+        resolveAuditTarget('POST', '/api/admin/products/search', resources)
+      ).toBeNull();
+      expect(
+        resolveAuditTarget('GET', '/api/admin/products/:id', resources)
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Audit Plugin
+ * Records every admin create/update/delete in the audit log
+ *
+ * Mount it once after authPlugin (see app.ts). Mutating routes under a
+ * registered collection (`/users/:id`, `/customers/:id/addresses`, ...) are
+ * recorded when they succeed: the entity is loaded before and after the
+ * handler and the field-level diff is stored with the actor, IP and user
+ * agent. Routes outside the registered collections are not audited.
+ */
+
+import { Elysia } from 'elysia';
+import { diffChanges, type AuditLogService } from '@lokaly/domain';
+import type { AuditActionType } from '@lokaly/db';
+
+export type AuditedResource = {
+  entityType: string;
+  findById: (id: number) => Promise<object | null>;
+};
+
+/**
+ * Audited resources by collection path segment (`users`, `addresses`, ...)
+ */
+export type AuditedResources = Record<string, AuditedResource>;
+
+export type AuditTarget = {
+  resource: AuditedResource;
+  action: AuditActionType;
+  idParam?: string;
+};
+
+/**
+ * Resolve what a request mutates from its method and route pattern
+ * The innermost registered collection wins, so
+ * `POST /customers/:id/addresses` creates an address, while
+ * `PATCH /couriers/:id/location` updates a courier.
+ */
+export function resolveAuditTarget(
+  method: string,
+  route: string,
+  resources: AuditedResources
+): AuditTarget | null {
+  if (!['POST', 'PUT', 'PATCH', 'DELETE'].includes(method)) {
+    return null;
+  }
+
+  const segments = route.split('/').filter(Boolean);
+  for (let i = segments.length - 1; i >= 0; i--) {
+    const resource = resources[segments[i]!];
+    if (!resource) {
+      continue;
+    }
+
+    const next = segments[i + 1];
+    if (next !== undefined && !next.startsWith(':')) {
+      return null;
+    }
+
+    const idParam = next?.slice(1);
+    if (method === 'DELETE') {
+      return idParam ? { resource, action: 'delete', idParam } : null;
+    }
+    return idParam
+      ? { resource, action: 'update', idParam }
+      : { resource, action: 'create' };
+  }
+
+  return null;
+}
+
+function clientIp(request: Request): string | undefined {
+  return request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+}
+
+async function createdEntityId(response: Response): Promise<number | null> {
+  try {
+    const body = (await response.clone().json()) as { id?: unknown } | null;
+    return typeof body?.id === 'number' ? body.id : null;
+  } catch {
+    return null;
+  }
+}
+
+export const auditPlugin = (
+  auditLogService: AuditLogService,
+  resources: AuditedResources
+) => {
+  // Entity state before the handler ran, per request
+  const snapshots = new WeakMap<Request, object | null>();
+
+  // Scoped: applies to the controllers used after the plugin in the same group
+  return new Elysia({ name: 'audit' })
+    .onBeforeHandle(
+      { as: 'scoped' },
+      async ({
+        request,
+        route,
+        params,
+      }: {
+        request: Request;
+        route: string;
+        params: Record<string, unknown>;
+      }) => {
+        const target = resolveAuditTarget(request.method, route, resources);
+        if (!target?.idParam) {
+          return;
+        }
+
+        snapshots.set(
+          request,
+          await target.resource.findById(Number(params[target.idParam]))
+        );
+      }
+    )
+    .onAfterHandle({ as: 'scoped' }, async (context) => {
+      const { request, route, params, responseValue, auth } = context as {
+        request: Request;
+        route: string;
+        params: Record<string, unknown>;
+        responseValue: unknown;
+        auth?: { userId: string };
+      };
+      const target = resolveAuditTarget(request.method, route, resources);
+      if (
+        !target ||
+        !(responseValue instanceof Response) ||
+        !responseValue.ok
+      ) {
+        return;
+      }
+
+      try {
+        const entityId = target.idParam
+          ? Number(params[target.idParam])
+          : await createdEntityId(responseValue);
+        if (entityId === null) {
+          return;
+        }
+
+        const before = snapshots.get(request) ?? null;
+        const after = await target.resource.findById(entityId);
+
+        await auditLogService.record({
+          actorId: auth ? Number(auth.userId) : null,
+          action: target.action,
+          entityType: target.resource.entityType,
+          entityId: String(entityId),
+          changes: diffChanges(before, after),
+          ipAddress: clientIp(request),
+          userAgent: request.headers.get('user-agent') ?? undefined,
+        });
+      } catch (error) {
+        // The change itself succeeded; don't turn it into an error response
+        console.error(
+          `[Audit] Failed to record ${target.action} of ${target.resource.entityType}`,
+          error
+        );
+      }
+    });
+};
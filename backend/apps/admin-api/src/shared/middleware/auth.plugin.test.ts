@@ -1,16 +1,41 @@
 import { describe, it, expect, beforeEach } from 'bun:test';
 import { Elysia } from 'elysia';
-import { JwtService } from '@lokaly/auth';
+import { JwtService, SessionService, type SessionCache } from '@lokaly/auth';
 import { authPlugin } from './auth.plugin';
 
+function memoryCache(): SessionCache {
+  const store = new Map<string, unknown>();
+  return {
+    get: async (key: string) => (store.get(key) ?? null) as any,
+    set: async (key: string, value: unknown) => {
+      store.set(key, value);
+    },
+    delete: async (key: string) => {
+      store.delete(key);
+    },
+    getAndDelete: async (key: string) => {
+      const value = store.get(key) ?? null;
+      store.delete(key);
+      return value as any;
+    },
+    incrementWithTtl: async (key: string) => {
+      const value = Number(store.get(key) ?? 0) + 1;
+      store.set(key, value);
+      return value;
+    },
+  };
+}
+
 describe('admin-api authPlugin', () => {
   let jwtService: JwtService;
+  let sessionService: SessionService;
   let app: Elysia;
 
   beforeEach(() => {
     jwtService = new JwtService('test-secret-key');
+    sessionService = new SessionService(jwtService, memoryCache());
     app = new Elysia()
-      .use(authPlugin(jwtService))
+      .use(authPlugin(sessionService))
       .get('/protected', ({ auth }) => ({ userId: auth?.userId }));
   });
 
@@ -24,6 +49,16 @@ describe('admin-api authPlugin', () => {
     expect(body.error).toBe('Unauthorized');
   });
 
+  it('should guard controllers mounted after the plugin', async () => {
+    const guarded = new Elysia()
+      .use(authPlugin(sessionService))
+      .use(new Elysia({ prefix: '/users' }).get('/', () => []));
+
+    const res = await guarded.handle(new Request('http://localhost/users'));
+
+    expect(res.status).toBe(401);
+  });
+
   it('should return 401 when token is invalid', async () => {
     const res = await app.handle(
       new Request('http://localhost/protected', {
@@ -67,15 +102,11 @@ describe('admin-api authPlugin', () => {
 
   it('should return 403 when non-admin role tries to access', async () => {
     try {
-      const accessToken = await jwtService.sign(
-        {
-          userId: '1',
-          role: 'customer',
-          email: 'customer@test.com',
-          tokenType: 'access',
-        },
-        900
-      );
+      const { accessToken } = await sessionService.start({
+        userId: '1',
+        role: 'customer',
+        email: 'customer@test.com',
+      });
 
       const res = await app.handle(
         new Request('http://localhost/protected', {
@@ -96,15 +127,11 @@ describe('admin-api authPlugin', () => {
 
   it('should allow access with valid admin access token', async () => {
     try {
-      const accessToken = await jwtService.sign(
-        {
-          userId: '1',
-          role: 'admin',
-          email: 'admin@test.com',
-          tokenType: 'access',
-        },
-        900
-      );
+      const { accessToken } = await sessionService.start({
+        userId: '1',
+        role: 'admin',
+        email: 'admin@test.com',
+      });
 
       const res = await app.handle(
         new Request('http://localhost/protected', {
@@ -125,18 +152,14 @@ describe('admin-api authPlugin', () => {
 
   it('should inject auth context in derive', async () => {
     try {
-      const accessToken = await jwtService.sign(
-        {
-          userId: '1',
-          role: 'admin',
-          email: 'admin@test.com',
-          tokenType: 'access',
-        },
-        900
-      );
+      const { accessToken } = await sessionService.start({
+        userId: '1',
+        role: 'admin',
+        email: 'admin@test.com',
+      });
 
       const testApp = new Elysia()
-        .use(authPlugin(jwtService))
+        .use(authPlugin(sessionService))
         .get('/test', ({ auth }) => ({
           userId: auth?.userId,
           role: auth?.role,
@@ -161,4 +184,28 @@ describe('admin-api authPlugin', () => {
       throw e;
     }
   });
+
+  it('should return 401 once the session is logged out', async () => {
+    try {
+      const { accessToken } = await sessionService.start({
+        userId: '1',
+        role: 'admin',
+        email: 'admin@test.com',
+      });
+      await sessionService.endAll({ userId: '1', role: 'admin' });
+
+      const res = await app.handle(
+        new Request('http://localhost/protected', {
+          headers: { Authorization: `Bearer ${accessToken}` },
+        })
+      );
+
+      expect(res.status).toBe(401);
+    } catch (e: any) {
+      if (e?.message?.includes('jwt') || e?.message?.includes('JWT')) {
+        return;
+      }
+      throw e;
+    }
+  });
 });
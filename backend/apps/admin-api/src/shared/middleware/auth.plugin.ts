@@ -4,11 +4,17 @@
  */
 
 import { Elysia } from 'elysia';
-import { JwtService, RBAC } from '@lokaly/auth';
+import { RBAC, type SessionService } from '@lokaly/auth';
 import type { Context } from 'elysia';
 
-function createAuthGuard(jwtService: JwtService) {
-  return async ({ request, set }: Context) => {
+function createAuthGuard(sessionService: SessionService) {
+  return async ({
+    request,
+    set,
+  }: {
+    request: Request;
+    set: Context['set'];
+  }) => {
     const authHeader = request.headers.get('Authorization');
     const token = authHeader?.replace('Bearer ', '');
 
@@ -17,19 +23,14 @@ function createAuthGuard(jwtService: JwtService) {
       return { error: 'Unauthorized' };
     }
 
-    const payload = await jwtService.verify(token);
-    // Token inválido ou expirado
+    // Token inválido, expirado, refresh token usado como Bearer ou sessão
+    // encerrada (logout / troca de senha)
+    const payload = await sessionService.verifyAccessToken(token);
     if (!payload) {
       set.status = 401;
       return { error: 'Unauthorized' };
     }
 
-    // Não permitir uso de refresh token como Bearer
-    if (payload.tokenType && payload.tokenType !== 'access') {
-      set.status = 401;
-      return { error: 'Unauthorized' };
-    }
-
     // Only allow admin roles on admin API
     if (!RBAC.isAdmin(payload.role)) {
       set.status = 403;
@@ -40,8 +41,8 @@ function createAuthGuard(jwtService: JwtService) {
   };
 }
 
-function createAuthDerive(jwtService: JwtService) {
-  return async ({ request }: Context) => {
+function createAuthDerive(sessionService: SessionService) {
+  return async ({ request }: { request: Request }) => {
     const authHeader = request.headers.get('Authorization');
     const token = authHeader?.replace('Bearer ', '');
 
@@ -49,8 +50,8 @@ function createAuthDerive(jwtService: JwtService) {
       return {};
     }
 
-    const payload = await jwtService.verify(token);
-    if (!payload || (payload.tokenType && payload.tokenType !== 'access')) {
+    const payload = await sessionService.verifyAccessToken(token);
+    if (!payload) {
       return {};
     }
 
@@ -60,12 +61,15 @@ function createAuthDerive(jwtService: JwtService) {
         userId: payload.userId,
         role: payload.role,
         email: payload.email,
+        sessionId: payload.sid,
+        permissions: payload.permissions ?? [],
       },
     };
   };
 }
 
-export const authPlugin = (jwtService: JwtService) =>
+// Scoped: applies to the controllers used after the plugin in the same group
+export const authPlugin = (sessionService: SessionService) =>
   new Elysia({ name: 'auth' })
-    .derive(createAuthDerive(jwtService))
-    .onBeforeHandle(createAuthGuard(jwtService));
+    .derive({ as: 'scoped' }, createAuthDerive(sessionService))
+    .onBeforeHandle({ as: 'scoped' }, createAuthGuard(sessionService));
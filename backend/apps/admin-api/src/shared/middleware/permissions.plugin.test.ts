@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'bun:test';
+import { Elysia } from 'elysia';
+import { permissionGuard } from './permissions.plugin';
+
+function appFor(auth?: { userId: string; permissions: string[] }) {
+  return new Elysia().derive(() => ({ auth })).use(
+    new Elysia()
+      .use(permissionGuard)
+      .get('/prices', () => ({ ok: true }), {
+        permission: ['products:read', 'products:prices'],
+      })
+      .patch('/products', () => ({ ok: true }), {
+        permission: 'products:write',
+        fieldPermissions: { basePrice: 'products:prices' },
+      })
+  );
+}
+
+describe('admin-api permissionGuard', () => {
+  it('should return 401 without auth', async () => {
+    const res = await appFor().handle(new Request('http://localhost/prices'));
+
+    expect(res.status).toBe(401);
+  });
+
+  it('should return 403 listing the required permissions', async () => {
+    const res = await appFor({
+      userId: '1',
+      permissions: ['products:read'],
+    }).handle(new Request('http://localhost/prices'));
+
+    expect(res.status).toBe(403);
+    const body = await res.json();
+    expect(body.error).toBe('Forbidden: Missing permission');
+    expect(body.details.required).toEqual([
+      'products:read',
+      'products:prices',
+    ]);
+  });
+
+  it('should pass when every permission is granted', async () => {
+    const res = await appFor({
+      userId: '1',
+      permissions: ['products:read', 'products:prices'],
+    }).handle(new Request('http://localhost/prices'));
+
+    expect(res.status).toBe(200);
+  });
+
+  it('should check field permissions only for fields that are sent', async () => {
+    const app = appFor({ userId: '1', permissions: ['products:write'] });
+    const patch = (body: unknown) =>
+      new Request('http://localhost/products', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+    expect((await app.handle(patch({ name: 'Arroz' }))).status).toBe(200);
+    expect((await app.handle(patch({ basePrice: '9.90' }))).status).toBe(403);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Permissions Plugin
+ * Declarative permission guard for admin controllers
+ *
+ * Usage: `.use(permissionGuard)` in the controller, then
+ * `{ permission: 'products:write' }` (or a list) in the route options.
+ * `{ fieldPermissions: { basePrice: 'products:prices' } }` additionally
+ * requires a permission when the request body sets that field.
+ * The permissions come from the access token (see authPlugin).
+ */
+
+import { Elysia } from 'elysia';
+import { hasPermissions, type Permission } from '@lokaly/auth';
+import { errorResponse } from '../responses';
+
+export type PermissionAuth = {
+  userId: string;
+  permissions?: string[];
+};
+
+/**
+ * 401 without auth, 403 when a required permission is missing, else null
+ */
+export function checkPermission(
+  auth: PermissionAuth | undefined,
+  required: Permission | Permission[]
+): Response | null {
+  if (!auth) {
+    return errorResponse('Unauthorized', 401);
+  }
+  if (!hasPermissions(auth.permissions, required)) {
+    return errorResponse('Forbidden: Missing permission', 403, {
+      required: typeof required === 'string' ? [required] : required,
+    });
+  }
+  return null;
+}
+
+export const permissionGuard = new Elysia({ name: 'permission-guard' }).macro(
+  {
+    permission: (required: Permission | Permission[]) => ({
+      beforeHandle(context) {
+        const { auth } = context as { auth?: PermissionAuth };
+        const denied = checkPermission(auth, required);
+        if (denied) {
+          return denied;
+        }
+      },
+    }),
+    fieldPermissions: (fields: Partial<Record<string, Permission>>) => ({
+      beforeHandle(context) {
+        const { auth, body } = context as {
+          auth?: PermissionAuth;
+          body?: Record<string, unknown>;
+        };
+        const required = Object.entries(fields)
+          .filter(([field]) => body?.[field] !== undefined)
+          .map(([, permission]) => permission as Permission);
+        if (required.length === 0) {
+          return;
+        }
+
+        const denied = checkPermission(auth, required);
+        if (denied) {
+          return denied;
+        }
+      },
+    }),
+  }
+);
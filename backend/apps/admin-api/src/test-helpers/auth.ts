@@ -0,0 +1,31 @@
+/**
+ * Auth Helper for Tests
+ * Mounts a controller behind an authenticated admin, the way authPlugin does
+ * after verifying the access token
+ */
+
+import { Elysia, type AnyElysia } from 'elysia';
+import { PERMISSIONS, type Permission } from '@lokaly/auth';
+
+export type TestAuth = {
+  userId: string;
+  role: string;
+  permissions: string[];
+};
+
+export const superAdminAuth: TestAuth = {
+  userId: '1',
+  role: 'super_admin',
+  permissions: [...PERMISSIONS],
+};
+
+export function adminWith(permissions: Permission[]): TestAuth {
+  return { userId: '2', role: 'admin', permissions };
+}
+
+export function withAuth(
+  controller: AnyElysia,
+  auth: TestAuth | undefined = superAdminAuth
+) {
+  return new Elysia().derive(() => ({ auth })).use(controller);
+}
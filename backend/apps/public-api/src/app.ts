@@ -5,8 +5,10 @@
 import { Elysia } from 'elysia';
 import { swagger } from '@elysiajs/swagger';
 import type { DbConnection } from '@lokaly/db';
+import type { CacheService } from '@lokaly/cache';
 import type { EventPublisher } from '@lokaly/domain';
-import { JwtService } from '@lokaly/auth';
+import { JwtService, SessionService } from '@lokaly/auth';
+import type { AccountEmails } from '@lokaly/mailer';
 import {
   OrderService,
   DepartmentsService,
@@ -14,18 +16,36 @@ import {
   SubcategoriesService,
   BrandsService,
   ProductsService,
+  ProductPricesService,
+  DeliveryService,
+  CouriersService,
+  CustomersService,
+  PaymentService,
+  createPaymentGateway,
 } from '@lokaly/domain';
 import { publicAuthPlugin } from './shared/middleware/auth.plugin';
+import { authController } from './modules/auth/controller';
 import { catalogController } from './modules/catalog/controller';
 import { ordersController } from './modules/orders/controller';
+import { paymentsController } from './modules/payments/controller';
+import { courierController } from './modules/courier/controller';
 
 export function createApp(
   db: DbConnection,
+  cache: CacheService,
   eventPublisher: EventPublisher,
-  jwtService: JwtService
+  jwtService: JwtService,
+  accountEmails: AccountEmails
 ) {
   // Initialize domain services
-  const orderService = new OrderService(db, eventPublisher);
+  const productPricesService = new ProductPricesService(db, {
+    get: async () => null,
+    set: async () => {},
+    delete: async () => {},
+    invalidateList: async () => {},
+    invalidateEntity: async () => {},
+  } as any);
+  const orderService = new OrderService(db, productPricesService);
   const departmentsService = new DepartmentsService(db, {
     get: async () => null,
     set: async () => {},
@@ -61,6 +81,17 @@ export function createApp(
     invalidateList: async () => {},
     invalidateEntity: async () => {},
   } as any);
+  // Gateway chosen by PAYMENT_GATEWAY (local simulator by default, its
+  // payments shared through the cache); none configured: payments are off
+  const paymentGateway = createPaymentGateway(cache);
+  const paymentService = paymentGateway
+    ? new PaymentService(db, paymentGateway)
+    : null;
+  const deliveryService = new DeliveryService(db);
+  // Shared cache: availability changes must reach the worker's dispatcher
+  const couriersService = new CouriersService(db, cache);
+  const customersService = new CustomersService(db, cache);
+  const sessionService = new SessionService(jwtService, cache);
 
   const app = new Elysia()
     .use(
@@ -77,8 +108,11 @@ export function createApp(
             },
           },
           tags: [
+            { name: 'Auth', description: 'Customer and courier authentication' },
             { name: 'Catalog', description: 'Product catalog endpoints' },
             { name: 'Orders', description: 'Order management endpoints' },
+            { name: 'Payments', description: 'Payment gateway webhooks' },
+            { name: 'Courier', description: 'Courier delivery endpoints' },
             { name: 'Health', description: 'Health check endpoints' },
           ],
           components: {
@@ -88,7 +122,7 @@ export function createApp(
                 scheme: 'bearer',
                 bearerFormat: 'JWT',
                 description:
-                  'JWT token (optional for catalog endpoints, required for orders)',
+                  'JWT token from /api/auth/login or /api/auth/courier/login (optional for catalog endpoints, required for orders and courier endpoints)',
               },
             },
           },
@@ -105,7 +139,16 @@ export function createApp(
     .group('/api', (app) =>
       app
         // JWT opcional: deriva auth se presente e válido
-        .use(publicAuthPlugin(jwtService))
+        .use(publicAuthPlugin(sessionService))
+        // Signup/login/refresh/logout, reset de senha e verificação de email
+        .use(
+          authController(
+            customersService,
+            couriersService,
+            sessionService,
+            accountEmails
+          )
+        )
         // Catálogo público (read-only)
         .use(
           catalogController(
@@ -117,7 +160,14 @@ export function createApp(
           )
         )
         // Pedidos (requer auth dentro do controller)
-        .use(ordersController(orderService))
+        .use(ordersController(orderService, paymentService))
+        // Webhooks do gateway de pagamento (assinatura verificada, sem JWT);
+        // só com um gateway configurado
+        .use(
+          paymentService ? paymentsController(paymentService) : new Elysia()
+        )
+        // Entregas do entregador (requer role courier)
+        .use(courierController(deliveryService, couriersService))
     );
 
   return app;
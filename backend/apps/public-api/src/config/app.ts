@@ -9,4 +9,6 @@ export const appConfig = {
     process.env.JWT_SECRET || 'public-api-secret-key-change-in-production',
   databaseUrl: process.env.DATABASE_URL || 'postgresql://localhost:5432/lokaly',
   redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
+  // Customer web app; password reset and email verification links point here
+  webAppUrl: process.env.WEB_APP_URL || 'http://localhost:5173',
 } as const;
@@ -10,7 +10,9 @@
 
 import { initDb, getDb } from '@lokaly/db';
 import { JwtService } from '@lokaly/auth';
+import { getCache } from '@lokaly/cache';
 import { RedisEventPublisher } from './infra/redis-publisher';
+import { AccountEmails, createMailer } from '@lokaly/mailer';
 import { createApp } from './app';
 import { appConfig } from './config/app';
 
@@ -30,8 +32,14 @@ async function init() {
   eventPublisher = new RedisEventPublisher();
   await eventPublisher.connect(appConfig.redisUrl);
 
+  // Initialize cache
+  const cache = getCache(appConfig.redisUrl, 300);
+
   // Initialize Elysia app
-  const app = createApp(db, eventPublisher, jwtService);
+  // Transactional emails (MAILER_TRANSPORT: console | file)
+  const accountEmails = new AccountEmails(createMailer(), appConfig.webAppUrl);
+
+  const app = createApp(db, cache, eventPublisher, jwtService, accountEmails);
 
   console.log(`[Public API] Initialized on port ${appConfig.port}`);
 
@@ -1,45 +1,59 @@
 /**
  * Redis Event Publisher
- * 
+ *
  * Implements EventPublisher interface for Redis transport.
  * Can be replaced with RabbitMQ/SQS implementation without changing domain logic.
  */
 
+import { RedisClient } from "bun";
 import type { DomainEvent } from "@lokaly/events";
+import { DOMAIN_EVENTS_STREAM, serializeEvent } from "@lokaly/events";
 import type { EventPublisher } from "@lokaly/domain";
 
+/**
+ * Subset of Bun.RedisClient used by the publisher
+ * Tests can inject an in-process fake with the same shape
+ */
+export type RedisStreamClient = Pick<RedisClient, "send" | "close">;
+
 export class RedisEventPublisher implements EventPublisher {
-  private redis: any; // Bun.redis connection
+  private redis: RedisStreamClient | null;
+
+  constructor(redis?: RedisStreamClient) {
+    this.redis = redis ?? null;
+  }
 
   async connect(redisUrl: string): Promise<void> {
-    // Initialize Bun.redis connection
-    // Example: this.redis = await Bun.connect({ hostname: "localhost", port: 6379 });
     console.log(`[Redis Publisher] Connecting to ${redisUrl}`);
-    
-    // In production, use actual Bun.redis API:
-    // const url = new URL(redisUrl);
-    // this.redis = await Bun.connect({
-    //   hostname: url.hostname,
-    //   port: parseInt(url.port) || 6379,
-    // });
+
+    if (!this.redis) {
+      const client = new RedisClient(redisUrl);
+      await client.connect();
+      this.redis = client;
+    }
   }
 
   async publish(event: DomainEvent): Promise<void> {
-    // Publish to Redis stream for reliable event processing
-    const eventJson = JSON.stringify(event);
-    
+    if (!this.redis) {
+      throw new Error("Redis publisher is not connected");
+    }
+
     // Using Redis Streams for reliable delivery
-    // await this.redis.xadd("domain-events", "*", "event", eventJson);
-    
-    // Or using pub/sub for real-time delivery
-    // await this.redis.publish("domain-events", eventJson);
-    
-    console.log(`[Redis Publisher] Published event: ${event.type} (${event.metadata.eventId})`);
+    const messageId = await this.redis.send("XADD", [
+      DOMAIN_EVENTS_STREAM,
+      "*",
+      "event",
+      serializeEvent(event),
+    ]);
+
+    console.log(
+      `[Redis Publisher] Published event: ${event.type} (${event.metadata.eventId}) as ${messageId}`
+    );
   }
 
   async disconnect(): Promise<void> {
-    // await this.redis.quit();
+    this.redis?.close();
+    this.redis = null;
     console.log("[Redis Publisher] Disconnected");
   }
 }
-
@@ -0,0 +1,720 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { Elysia } from 'elysia';
+import type { CustomersService, CouriersService } from '@lokaly/domain';
+import {
+  JwtService,
+  SessionService,
+  hashOneTimeToken,
+  type SessionCache,
+} from '@lokaly/auth';
+import type { AccountEmails } from '@lokaly/mailer';
+import { authController } from './controller';
+
+function post(path: string, body: unknown) {
+  return new Request(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+// Unsigned stand-in for JwtService: Bun.jwt is not available in every test
+// runtime, and these tests are about the session rules, not the signature
+const fakeJwt = {
+  sign: async (payload: object) => btoa(JSON.stringify(payload)),
+  verify: async (token: string) => {
+    try {
+      return JSON.parse(atob(token));
+    } catch {
+      return null;
+    }
+  },
+} as unknown as JwtService;
+
+function memoryCache(): SessionCache {
+  const store = new Map<string, unknown>();
+  return {
+    get: async (key: string) => (store.get(key) ?? null) as any,
+    set: async (key: string, value: unknown) => {
+      store.set(key, value);
+    },
+    delete: async (key: string) => {
+      store.delete(key);
+    },
+    getAndDelete: async (key: string) => {
+      const value = store.get(key) ?? null;
+      store.delete(key);
+      return value as any;
+    },
+    incrementWithTtl: async (key: string) => {
+      const value = Number(store.get(key) ?? 0) + 1;
+      store.set(key, value);
+      return value;
+    },
+  };
+}
+
+const customer = {
+  id: 1,
+  email: 'customer@test.com',
+  passwordHash: 'correct-hash',
+  firstName: 'Maria',
+  lastName: 'Silva',
+  status: 'active',
+  failedLoginAttempts: 0,
+  accountLockedUntil: null,
+  referralCode: 'ABCD2345',
+};
+
+describe('public-api authController', () => {
+  let mockCustomers: Partial<CustomersService>;
+  let mockCouriers: Partial<CouriersService>;
+  let sessionService: SessionService;
+  let emails: Array<{ kind: string; to: string; token: string }>;
+  let app: ReturnType<typeof authController>;
+
+  beforeEach(() => {
+    emails = [];
+    const accountEmails: Partial<AccountEmails> = {
+      sendPasswordReset: async (recipient, token) => {
+        emails.push({ kind: 'password-reset', to: recipient.email, token });
+      },
+      sendEmailVerification: async (recipient, token) => {
+        emails.push({ kind: 'email-verification', to: recipient.email, token });
+      },
+    };
+    mockCustomers = {
+      findByEmail: async () => null,
+      findById: async () => null,
+      findByReferralCode: async () => null,
+      recordFailedLogin: async () => null,
+      recordSuccessfulLogin: async () => {},
+      update: async () => null,
+      findByPasswordResetToken: async () => null,
+    };
+    mockCouriers = {
+      findByEmail: async () => null,
+      findById: async () => null,
+      recordFailedLogin: async () => null,
+      recordSuccessfulLogin: async () => {},
+      update: async () => null,
+    };
+    sessionService = new SessionService(fakeJwt, memoryCache());
+    app = authController(
+      mockCustomers as CustomersService,
+      mockCouriers as CouriersService,
+      sessionService,
+      accountEmails as AccountEmails
+    );
+  });
+
+  describe('POST /auth/signup', () => {
+    const signup = {
+      email: 'new@test.com',
+      password: 'S3cure-pass',
+      firstName: 'Ana',
+      lastName: 'Souza',
+    };
+
+    it('should return 409 when the email is taken', async () => {
+      mockCustomers.findByEmail = async () => customer as any;
+
+      const res = await app.handle(post('/auth/signup', signup));
+
+      expect(res.status).toBe(409);
+    });
+
+    it('should return 400 for an unknown referral code', async () => {
+      const res = await app.handle(
+        post('/auth/signup', { ...signup, referralCode: 'NOPE' })
+      );
+
+      expect(res.status).toBe(400);
+      const body = await res.json();
+      expect(body.error).toBe('Invalid referral code');
+    });
+
+    it('should link the referrer and hand out a referral code', async () => {
+      let created: any;
+      mockCustomers.findByReferralCode = async () => customer as any;
+      mockCustomers.create = async (data) => {
+        created = data;
+        return { ...data, id: 2 } as any;
+      };
+
+      const res = await app.handle(
+        post('/auth/signup', { ...signup, referralCode: 'ABCD2345' })
+      );
+
+      expect(created.referredBy).toBe(1);
+      expect(created.status).toBe('active');
+      expect(created.referralCode).toMatch(/^[A-Z2-9]{8}$/);
+      expect(created.passwordHash).toStartWith('$argon2id$');
+      expect(res.status).toBe(201);
+    });
+
+    it('should email a verification link and store only its hash', async () => {
+      const updates: any[] = [];
+      mockCustomers.create = async (data) => ({ ...data, id: 2 } as any);
+      mockCustomers.update = async (_id, data) => {
+        updates.push(data);
+        return null;
+      };
+
+      const res = await app.handle(post('/auth/signup', signup));
+
+      expect(res.status).toBe(201);
+      expect(emails).toHaveLength(1);
+      expect(emails[0]!.kind).toBe('email-verification');
+      expect(emails[0]!.to).toBe('new@test.com');
+      expect(updates[0].emailVerificationToken).toBe(
+        hashOneTimeToken(emails[0]!.token)
+      );
+      expect(updates[0].emailVerificationExpiresAt).toBeInstanceOf(Date);
+    });
+
+    it('should return 400 for a weak password', async () => {
+      const res = await app.handle(
+        post('/auth/signup', { ...signup, password: 'new12345' })
+      );
+
+      expect(res.status).toBe(400);
+      const body = await res.json();
+      expect(body.details.errors).toEqual([
+        'Password must not contain the email address',
+      ]);
+    });
+  });
+
+  describe('POST /auth/login', () => {
+    it('should return 401 when the customer does not exist', async () => {
+      const res = await app.handle(
+        post('/auth/login', { email: 'x@test.com', password: 'hash' })
+      );
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should record a failed attempt on wrong password', async () => {
+      const failed: number[] = [];
+      mockCustomers.findByEmail = async () => customer as any;
+      mockCustomers.recordFailedLogin = async (id) => {
+        failed.push(id);
+        return { ...customer, failedLoginAttempts: 1 } as any;
+      };
+
+      const res = await app.handle(
+        post('/auth/login', {
+          email: customer.email,
+          password: 'wrong-hash',
+        })
+      );
+
+      expect(res.status).toBe(401);
+      expect(failed).toEqual([1]);
+    });
+
+    it('should answer 423 when the failed attempt locks the account', async () => {
+      const lockedUntil = new Date(Date.now() + 15 * 60 * 1000);
+      mockCustomers.findByEmail = async () => customer as any;
+      mockCustomers.recordFailedLogin = async () =>
+        ({
+          ...customer,
+          failedLoginAttempts: 5,
+          accountLockedUntil: lockedUntil,
+        } as any);
+
+      const res = await app.handle(
+        post('/auth/login', {
+          email: customer.email,
+          password: 'wrong-hash',
+        })
+      );
+
+      expect(res.status).toBe(423);
+      const body = await res.json();
+      expect(body.details.lockedUntil).toBe(lockedUntil.toISOString());
+    });
+
+    it('should reject a locked account even with the right password', async () => {
+      let succeeded = false;
+      mockCustomers.findByEmail = async () =>
+        ({
+          ...customer,
+          accountLockedUntil: new Date(Date.now() + 60000).toISOString(),
+        } as any);
+      mockCustomers.recordSuccessfulLogin = async () => {
+        succeeded = true;
+      };
+
+      const res = await app.handle(
+        post('/auth/login', {
+          email: customer.email,
+          password: 'correct-hash',
+        })
+      );
+
+      expect(res.status).toBe(423);
+      expect(succeeded).toBe(false);
+    });
+
+    it('should return 403 for a suspended customer', async () => {
+      mockCustomers.findByEmail = async () =>
+        ({ ...customer, status: 'suspended' } as any);
+
+      const res = await app.handle(
+        post('/auth/login', {
+          email: customer.email,
+          password: 'correct-hash',
+        })
+      );
+
+      expect(res.status).toBe(403);
+    });
+
+    it('should reset the lockout counter on success', async () => {
+      const succeeded: number[] = [];
+      mockCustomers.findByEmail = async () =>
+        ({ ...customer, failedLoginAttempts: 3 } as any);
+      mockCustomers.recordSuccessfulLogin = async (id) => {
+        succeeded.push(id);
+      };
+
+      const res = await app.handle(
+        post('/auth/login', {
+          email: customer.email,
+          password: 'correct-hash',
+        })
+      );
+
+      expect(succeeded).toEqual([1]);
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.accessToken).toBeDefined();
+      expect(body.refreshToken).toBeDefined();
+    });
+
+    it('should upgrade a legacy password hash on success', async () => {
+      const updates: Array<[number, { passwordHash?: string | null }]> = [];
+      mockCustomers.findByEmail = async () => customer as any;
+      mockCustomers.update = async (id, data) => {
+        updates.push([id, data]);
+        return null;
+      };
+
+      await app.handle(
+        post('/auth/login', {
+          email: customer.email,
+          password: 'correct-hash',
+        })
+      );
+
+      expect(updates).toHaveLength(1);
+      expect(updates[0]![0]).toBe(1);
+      expect(
+        await Bun.password.verify('correct-hash', updates[0]![1].passwordHash!)
+      ).toBe(true);
+    });
+
+    it('should not accept the stored hash as the password', async () => {
+      const passwordHash = await Bun.password.hash('S3cure-pass');
+      mockCustomers.findByEmail = async () =>
+        ({ ...customer, passwordHash } as any);
+
+      const res = await app.handle(
+        post('/auth/login', { email: customer.email, password: passwordHash })
+      );
+
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('POST /auth/courier/login', () => {
+    it('should use the courier lockout counter', async () => {
+      const failed: number[] = [];
+      mockCouriers.findByEmail = async () =>
+        ({
+          id: 7,
+          email: 'courier@test.com',
+          passwordHash: 'correct-hash',
+          status: 'active',
+          accountLockedUntil: null,
+        } as any);
+      mockCouriers.recordFailedLogin = async (id) => {
+        failed.push(id);
+        return null;
+      };
+
+      const res = await app.handle(
+        post('/auth/courier/login', {
+          email: 'courier@test.com',
+          password: 'wrong-hash',
+        })
+      );
+
+      expect(res.status).toBe(401);
+      expect(failed).toEqual([7]);
+    });
+  });
+
+  describe('POST /auth/refresh', () => {
+    const login = () =>
+      sessionService.start({
+        userId: '1',
+        role: 'customer',
+        email: customer.email,
+      });
+
+    beforeEach(() => {
+      mockCustomers.findById = async () => customer as any;
+    });
+
+    it('should return 401 for an invalid refresh token', async () => {
+      const res = await app.handle(
+        post('/auth/refresh', { refreshToken: 'invalid-token' })
+      );
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should rotate the refresh token', async () => {
+      const { refreshToken } = await login();
+
+      const res = await app.handle(post('/auth/refresh', { refreshToken }));
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.refreshToken).not.toBe(refreshToken);
+      expect(await sessionService.verifyAccessToken(body.accessToken)).not.toBe(
+        null
+      );
+    });
+
+    it('should end the whole session when a refresh token is reused', async () => {
+      const { refreshToken } = await login();
+      const first = await app.handle(post('/auth/refresh', { refreshToken }));
+      const rotated = await first.json();
+
+      const reused = await app.handle(post('/auth/refresh', { refreshToken }));
+
+      expect(reused.status).toBe(401);
+      const next = await app.handle(
+        post('/auth/refresh', { refreshToken: rotated.refreshToken })
+      );
+      expect(next.status).toBe(401);
+      expect(await sessionService.verifyAccessToken(rotated.accessToken)).toBe(
+        null
+      );
+    });
+
+    it('should reject sessions started before the password change', async () => {
+      const { refreshToken } = await login();
+      mockCustomers.findById = async () =>
+        ({
+          ...customer,
+          passwordChangedAt: new Date(Date.now() + 1000).toISOString(),
+        } as any);
+
+      const res = await app.handle(post('/auth/refresh', { refreshToken }));
+
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('POST /auth/change-password', () => {
+    const withAuth = (auth: { userId: string; role: string }) =>
+      new Elysia().derive(() => ({ auth })).use(app);
+
+    it('should return 401 without auth', async () => {
+      const res = await app.handle(
+        post('/auth/change-password', {
+          currentPassword: 'Old-pass-1',
+          newPassword: 'N3w-password',
+        })
+      );
+
+      expect(res.status).toBe(401);
+    });
+
+    it("should update the courier's password and passwordChangedAt", async () => {
+      const passwordHash = await Bun.password.hash('Old-pass-1');
+      const updates: Array<[number, any]> = [];
+      mockCouriers.findById = async (id) =>
+        ({ id, email: 'courier@test.com', passwordHash } as any);
+      mockCouriers.update = async (id, data) => {
+        updates.push([id, data]);
+        return null;
+      };
+
+      const res = await withAuth({ userId: '7', role: 'courier' }).handle(
+        post('/auth/change-password', {
+          currentPassword: 'Old-pass-1',
+          newPassword: 'N3w-password',
+        })
+      );
+
+      expect(res.status).toBe(204);
+      expect(updates).toHaveLength(1);
+      expect(updates[0]![0]).toBe(7);
+      expect(updates[0]![1].passwordChangedAt).toBeInstanceOf(Date);
+      expect(
+        await Bun.password.verify('N3w-password', updates[0]![1].passwordHash)
+      ).toBe(true);
+    });
+
+    it('should return 401 for a wrong current password', async () => {
+      const passwordHash = await Bun.password.hash('Old-pass-1');
+      mockCustomers.findById = async () => ({ ...customer, passwordHash } as any);
+
+      const res = await withAuth({ userId: '1', role: 'customer' }).handle(
+        post('/auth/change-password', {
+          currentPassword: 'Wrong-pass-1',
+          newPassword: 'N3w-password',
+        })
+      );
+
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('POST /auth/logout', () => {
+    it('should return 401 for an invalid refresh token', async () => {
+      const res = await app.handle(
+        post('/auth/logout', { refreshToken: 'invalid-token' })
+      );
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should end the session of the refresh token', async () => {
+      const tokens = await sessionService.start({
+        userId: '1',
+        role: 'customer',
+      });
+
+      const res = await app.handle(
+        post('/auth/logout', { refreshToken: tokens.refreshToken })
+      );
+
+      expect(res.status).toBe(204);
+      expect(await sessionService.verifyAccessToken(tokens.accessToken)).toBe(
+        null
+      );
+    });
+  });
+
+  describe('POST /auth/logout-all', () => {
+    it('should end every session of the courier only', async () => {
+      const courierA = await sessionService.start({
+        userId: '7',
+        role: 'courier',
+      });
+      const courierB = await sessionService.start({
+        userId: '7',
+        role: 'courier',
+      });
+      // Same id, different account type
+      const customerSession = await sessionService.start({
+        userId: '7',
+        role: 'customer',
+      });
+
+      const res = await new Elysia()
+        .derive(() => ({ auth: { userId: '7', role: 'courier' } }))
+        .use(app)
+        .handle(post('/auth/logout-all', {}));
+
+      expect(res.status).toBe(204);
+      for (const { accessToken } of [courierA, courierB]) {
+        expect(await sessionService.verifyAccessToken(accessToken)).toBe(null);
+      }
+      expect(
+        await sessionService.verifyAccessToken(customerSession.accessToken)
+      ).not.toBe(null);
+    });
+  });
+
+  describe('POST /auth/password-reset', () => {
+    it('should answer 202 without sending anything for an unknown email', async () => {
+      const res = await app.handle(
+        post('/auth/password-reset', { email: 'nobody@test.com' })
+      );
+
+      expect(res.status).toBe(202);
+      expect(emails).toHaveLength(0);
+    });
+
+    it('should not send a link to a blocked customer', async () => {
+      mockCustomers.findByEmail = async () =>
+        ({ ...customer, status: 'suspended' } as any);
+
+      const res = await app.handle(
+        post('/auth/password-reset', { email: customer.email })
+      );
+
+      expect(res.status).toBe(202);
+      expect(emails).toHaveLength(0);
+    });
+
+    it('should email a one-hour link and store only its hash', async () => {
+      const updates: any[] = [];
+      mockCustomers.findByEmail = async () => customer as any;
+      mockCustomers.update = async (_id, data) => {
+        updates.push(data);
+        return null;
+      };
+
+      const res = await app.handle(
+        post('/auth/password-reset', { email: customer.email })
+      );
+
+      expect(res.status).toBe(202);
+      expect(emails).toHaveLength(1);
+      expect(emails[0]!.kind).toBe('password-reset');
+      expect(updates[0].passwordResetToken).toBe(
+        hashOneTimeToken(emails[0]!.token)
+      );
+      expect(updates[0].passwordResetToken).not.toBe(emails[0]!.token);
+      const ttl = updates[0].passwordResetExpiresAt.getTime() - Date.now();
+      expect(ttl).toBeGreaterThan(59 * 60 * 1000);
+      expect(ttl).toBeLessThanOrEqual(60 * 60 * 1000);
+    });
+  });
+
+  describe('POST /auth/password-reset/confirm', () => {
+    it('should return 400 for an unknown or expired token', async () => {
+      const res = await app.handle(
+        post('/auth/password-reset/confirm', {
+          token: 'nope',
+          newPassword: 'N3w-password',
+        })
+      );
+
+      expect(res.status).toBe(400);
+      const body = await res.json();
+      expect(body.error).toBe('Invalid or expired token');
+    });
+
+    it('should return 400 for a weak new password', async () => {
+      mockCustomers.findByPasswordResetToken = async () => customer as any;
+
+      const res = await app.handle(
+        post('/auth/password-reset/confirm', {
+          token: 'token',
+          newPassword: 'password',
+        })
+      );
+
+      expect(res.status).toBe(400);
+      const body = await res.json();
+      expect(body.details.errors).toContain('Password is too common');
+    });
+
+    it('should return 400 when the token was used concurrently', async () => {
+      mockCustomers.findByPasswordResetToken = async () => customer as any;
+      mockCustomers.resetPassword = async () => null;
+
+      const res = await app.handle(
+        post('/auth/password-reset/confirm', {
+          token: 'token',
+          newPassword: 'N3w-password',
+        })
+      );
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should set the new password and log out every session', async () => {
+      const session = await sessionService.start({
+        userId: '1',
+        role: 'customer',
+      });
+      let reset: [string, string] | undefined;
+      mockCustomers.findByPasswordResetToken = async () => customer as any;
+      mockCustomers.resetPassword = async (tokenHash, passwordHash) => {
+        reset = [tokenHash, passwordHash];
+        return customer as any;
+      };
+
+      const res = await app.handle(
+        post('/auth/password-reset/confirm', {
+          token: 'token',
+          newPassword: 'N3w-password',
+        })
+      );
+
+      expect(res.status).toBe(204);
+      expect(reset![0]).toBe(hashOneTimeToken('token'));
+      expect(await Bun.password.verify('N3w-password', reset![1])).toBe(true);
+      expect(await sessionService.verifyAccessToken(session.accessToken)).toBe(
+        null
+      );
+    });
+  });
+
+  describe('POST /auth/email-verification', () => {
+    it('should return 401 for a courier', async () => {
+      const res = await new Elysia()
+        .derive(() => ({ auth: { userId: '7', role: 'courier' } }))
+        .use(app)
+        .handle(post('/auth/email-verification', {}));
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should return 409 when the email is already verified', async () => {
+      mockCustomers.findById = async () =>
+        ({ ...customer, emailVerified: true } as any);
+
+      const res = await new Elysia()
+        .derive(() => ({ auth: { userId: '1', role: 'customer' } }))
+        .use(app)
+        .handle(post('/auth/email-verification', {}));
+
+      expect(res.status).toBe(409);
+      expect(emails).toHaveLength(0);
+    });
+
+    it('should send a new verification link', async () => {
+      mockCustomers.findById = async () =>
+        ({ ...customer, emailVerified: false } as any);
+
+      const res = await new Elysia()
+        .derive(() => ({ auth: { userId: '1', role: 'customer' } }))
+        .use(app)
+        .handle(post('/auth/email-verification', {}));
+
+      expect(res.status).toBe(202);
+      expect(emails.map((email) => email.kind)).toEqual([
+        'email-verification',
+      ]);
+    });
+  });
+
+  describe('POST /auth/email-verification/confirm', () => {
+    it('should return 400 for an unknown or expired token', async () => {
+      mockCustomers.verifyEmail = async () => null;
+
+      const res = await app.handle(
+        post('/auth/email-verification/confirm', { token: 'nope' })
+      );
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should verify the email by the token hash', async () => {
+      let tokenHash: string | undefined;
+      mockCustomers.verifyEmail = async (hash) => {
+        tokenHash = hash;
+        return { ...customer, emailVerified: true } as any;
+      };
+
+      const res = await app.handle(
+        post('/auth/email-verification/confirm', { token: 'token' })
+      );
+
+      expect(res.status).toBe(204);
+      expect(tokenHash).toBe(hashOneTimeToken('token'));
+    });
+  });
+});
@@ -0,0 +1,780 @@
+/**
+ * Public Auth Controller
+ * Signup/login/refresh/logout for customers and login for couriers.
+ *
+ * Failed logins count towards the account lockout (failedLoginAttempts /
+ * accountLockedUntil); a locked account answers 423 even with the right
+ * password.
+ *
+ * Passwords are hashed server-side (PasswordHasher); legacy and bcrypt hashes
+ * are upgraded to argon2id on the next successful login.
+ *
+ * Tokens belong to a session (SessionService): refresh tokens are single use
+ * and rotated on every /refresh; changing the password ends every session.
+ *
+ * Password reset and email verification tokens are emailed (AccountEmails),
+ * stored only as SHA-256 hashes, expire and work once.
+ */
+
+import { Elysia, type Context } from 'elysia';
+import {
+  isAccountLocked,
+  type CustomersService,
+  type CouriersService,
+} from '@lokaly/domain';
+import {
+  EMAIL_VERIFICATION_TTL_SECONDS,
+  PASSWORD_RESET_TTL_SECONDS,
+  PasswordHasher,
+  RBAC,
+  createOneTimeToken,
+  hashOneTimeToken,
+  validatePasswordStrength,
+  type SessionService,
+  type UserRole,
+} from '@lokaly/auth';
+import type { AccountEmails } from '@lokaly/mailer';
+import { jsonResponse, errorResponse } from '../../shared/responses';
+import { authValidators } from './validators';
+
+// Accounts in these statuses cannot log in
+const BLOCKED_STATUSES = ['inactive', 'suspended'];
+
+type LoginAccount = {
+  id: number;
+  email: string;
+  passwordHash: string | null;
+  status: string;
+  accountLockedUntil: Date | string | null;
+};
+
+type Auth = { userId: string; role: UserRole; email?: string };
+
+function claimsOf(account: { id: number; email: string }, role: UserRole) {
+  return { userId: String(account.id), role, email: account.email };
+}
+
+function lockedResponse(account: LoginAccount): Response {
+  return errorResponse('Account temporarily locked', 423, {
+    lockedUntil: new Date(account.accountLockedUntil!).toISOString(),
+  });
+}
+
+function clientIp(request: Request): string | undefined {
+  return request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+}
+
+function weakPasswordResponse(errors: string[]): Response {
+  return errorResponse('Password does not meet the requirements', 400, {
+    errors,
+  });
+}
+
+/**
+ * Check credentials against a customer/courier row
+ * Returns an error response, or null when the login may proceed. An outdated
+ * hash is replaced on success; a failure to do so does not block the login.
+ */
+async function checkCredentials(
+  account: LoginAccount,
+  password: string,
+  passwordHasher: PasswordHasher,
+  store: {
+    recordFailedLogin: (id: number) => Promise<LoginAccount | null>;
+    updatePasswordHash: (id: number, passwordHash: string) => Promise<unknown>;
+  }
+): Promise<Response | null> {
+  if (!account.passwordHash) {
+    return errorResponse('Invalid credentials', 401); // Social login only
+  }
+
+  if (isAccountLocked(account)) {
+    return lockedResponse(account);
+  }
+
+  const { valid, needsRehash } = await passwordHasher.verify(
+    password,
+    account.passwordHash
+  );
+  if (!valid) {
+    const updated = await store.recordFailedLogin(account.id);
+    if (updated && isAccountLocked(updated)) {
+      return lockedResponse(updated);
+    }
+    return errorResponse('Invalid credentials', 401);
+  }
+
+  if (BLOCKED_STATUSES.includes(account.status)) {
+    return errorResponse('Account is inactive', 403);
+  }
+
+  if (needsRehash) {
+    try {
+      await store.updatePasswordHash(
+        account.id,
+        await passwordHasher.hash(password)
+      );
+    } catch (error) {
+      console.error(
+        `[Auth] Failed to rehash password of account ${account.id}`,
+        error
+      );
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Email a fresh verification link to the customer
+ * A new token replaces (and invalidates) any previous one.
+ */
+async function sendEmailVerification(
+  customersService: CustomersService,
+  accountEmails: AccountEmails,
+  customer: { id: number; email: string; firstName: string }
+): Promise<void> {
+  const { token, tokenHash, expiresAt } = createOneTimeToken(
+    EMAIL_VERIFICATION_TTL_SECONDS
+  );
+  await customersService.update(customer.id, {
+    emailVerificationToken: tokenHash,
+    emailVerificationExpiresAt: expiresAt,
+  });
+  await accountEmails.sendEmailVerification(customer, token, expiresAt);
+}
+
+/**
+ * Referral codes handed out at signup (e.g. "K7Q2M9XA")
+ */
+function generateReferralCode(): string {
+  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // no 0/O, 1/I
+  const bytes = crypto.getRandomValues(new Uint8Array(8));
+  return Array.from(bytes, (byte) => alphabet[byte % alphabet.length]).join(
+    ''
+  );
+}
+
+export const authController = (
+  customersService: CustomersService,
+  couriersService: CouriersService,
+  sessionService: SessionService,
+  accountEmails: AccountEmails,
+  passwordHasher: PasswordHasher = new PasswordHasher()
+) =>
+  new Elysia({ prefix: '/auth' })
+    .post(
+      '/signup',
+      async ({ body }) => {
+        try {
+          const existing = await customersService.findByEmail(body.email);
+          if (existing) {
+            return errorResponse('Email already registered', 409);
+          }
+
+          const weaknesses = validatePasswordStrength(body.password, {
+            email: body.email,
+          });
+          if (weaknesses.length > 0) {
+            return weakPasswordResponse(weaknesses);
+          }
+
+          let referredBy: number | undefined;
+          if (body.referralCode) {
+            const referrer = await customersService.findByReferralCode(
+              body.referralCode
+            );
+            if (!referrer) {
+              return errorResponse('Invalid referral code', 400);
+            }
+            referredBy = referrer.id;
+          }
+
+          const customer = await customersService.create({
+            email: body.email,
+            passwordHash: await passwordHasher.hash(body.password),
+            firstName: body.firstName,
+            lastName: body.lastName,
+            phone: body.phone,
+            cpf: body.cpf,
+            status: 'active',
+            marketingConsent: body.marketingConsent ?? false,
+            referralCode: generateReferralCode(),
+            referredBy,
+          });
+
+          try {
+            await sendEmailVerification(
+              customersService,
+              accountEmails,
+              customer
+            );
+          } catch (error) {
+            // The customer can ask for a new link later
+            console.error(
+              `[Auth] Failed to send email verification to customer ${customer.id}`,
+              error
+            );
+          }
+
+          const tokens = await sessionService.start(
+            claimsOf(customer, 'customer')
+          );
+
+          return jsonResponse(
+            {
+              ...tokens,
+              customer: {
+                id: customer.id,
+                email: customer.email,
+                firstName: customer.firstName,
+                lastName: customer.lastName,
+                referralCode: customer.referralCode,
+              },
+            },
+            201
+          );
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...authValidators.signup,
+        detail: {
+          tags: ['Auth'],
+          summary: 'Customer signup',
+          description:
+            'Create a customer account and receive access/refresh tokens. The password must follow the strength rules. An optional referralCode links the customer who invited this one. A verification link is emailed to the customer.',
+          responses: {
+            201: { description: 'Account created' },
+            400: { description: 'Weak password or invalid referral code' },
+            409: { description: 'Email already registered' },
+          },
+        },
+      }
+    )
+    .post(
+      '/login',
+      async ({ body, request }) => {
+        try {
+          const customer = await customersService.findByEmail(body.email);
+          if (!customer) {
+            return errorResponse('Invalid credentials', 401);
+          }
+
+          const failure = await checkCredentials(
+            customer,
+            body.password,
+            passwordHasher,
+            {
+              recordFailedLogin: (id) => customersService.recordFailedLogin(id),
+              updatePasswordHash: (id, passwordHash) =>
+                customersService.update(id, { passwordHash }),
+            }
+          );
+          if (failure) {
+            return failure;
+          }
+
+          await customersService.recordSuccessfulLogin(
+            customer.id,
+            clientIp(request)
+          );
+          const tokens = await sessionService.start(
+            claimsOf(customer, 'customer')
+          );
+
+          return jsonResponse({
+            ...tokens,
+            customer: {
+              id: customer.id,
+              email: customer.email,
+              firstName: customer.firstName,
+              lastName: customer.lastName,
+            },
+          });
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...authValidators.login,
+        detail: {
+          tags: ['Auth'],
+          summary: 'Customer login',
+          description: 'Authenticate a customer and receive access/refresh tokens',
+          responses: {
+            200: { description: 'Login successful' },
+            401: { description: 'Invalid credentials' },
+            403: { description: 'Account is inactive or suspended' },
+            423: { description: 'Too many failed attempts, account locked' },
+          },
+        },
+      }
+    )
+    .post(
+      '/courier/login',
+      async ({ body, request }) => {
+        try {
+          const courier = await couriersService.findByEmail(body.email);
+          if (!courier) {
+            return errorResponse('Invalid credentials', 401);
+          }
+
+          const failure = await checkCredentials(
+            courier,
+            body.password,
+            passwordHasher,
+            {
+              recordFailedLogin: (id) => couriersService.recordFailedLogin(id),
+              updatePasswordHash: (id, passwordHash) =>
+                couriersService.update(id, { passwordHash }),
+            }
+          );
+          if (failure) {
+            return failure;
+          }
+
+          await couriersService.recordSuccessfulLogin(
+            courier.id,
+            clientIp(request)
+          );
+          const tokens = await sessionService.start(
+            claimsOf(courier, 'courier')
+          );
+
+          return jsonResponse({
+            ...tokens,
+            courier: {
+              id: courier.id,
+              email: courier.email,
+              firstName: courier.firstName,
+              lastName: courier.lastName,
+              status: courier.status,
+            },
+          });
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...authValidators.login,
+        detail: {
+          tags: ['Auth'],
+          summary: 'Courier login',
+          description: 'Authenticate a courier and receive access/refresh tokens',
+          responses: {
+            200: { description: 'Login successful' },
+            401: { description: 'Invalid credentials' },
+            403: { description: 'Account is inactive or suspended' },
+            423: { description: 'Too many failed attempts, account locked' },
+          },
+        },
+      }
+    )
+    .post(
+      '/refresh',
+      async ({ body }) => {
+        try {
+          const payload = await sessionService.verifyRefreshToken(
+            body.refreshToken
+          );
+          if (!payload || !RBAC.isPublicUser(payload.role)) {
+            return errorResponse('Invalid refresh token', 401);
+          }
+
+          const id = Number(payload.userId);
+          if (!Number.isFinite(id)) {
+            return errorResponse('Invalid token payload', 400);
+          }
+
+          // Single use: presenting a rotated token ends the whole session
+          const session = await sessionService.consume(payload);
+          if (!session) {
+            return errorResponse('Invalid refresh token', 401);
+          }
+
+          const account =
+            payload.role === 'courier'
+              ? await couriersService.findById(id)
+              : await customersService.findById(id);
+          if (!account || BLOCKED_STATUSES.includes(account.status)) {
+            await sessionService.end(session.id);
+            return errorResponse('Account not found or inactive', 403);
+          }
+
+          // Sessions started before a password change are not renewed
+          if (
+            account.passwordChangedAt &&
+            new Date(account.passwordChangedAt).getTime() > session.createdAt
+          ) {
+            await sessionService.end(session.id);
+            return errorResponse('Invalid refresh token', 401);
+          }
+
+          return jsonResponse(
+            await sessionService.rotate(
+              session,
+              claimsOf(account, payload.role)
+            )
+          );
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...authValidators.refresh,
+        detail: {
+          tags: ['Auth'],
+          summary: 'Refresh access token',
+          description:
+            'Get new access and refresh tokens (customers and couriers). Refresh tokens are single use: presenting one twice ends the session.',
+          responses: {
+            200: { description: 'Tokens refreshed successfully' },
+            401: {
+              description: 'Invalid, expired, reused or revoked refresh token',
+            },
+            403: { description: 'Account not found or inactive' },
+          },
+        },
+      }
+    )
+    .post(
+      '/logout',
+      async ({ body }) => {
+        try {
+          const payload = await sessionService.verifyRefreshToken(
+            body.refreshToken
+          );
+          if (!payload) {
+            return errorResponse('Invalid refresh token', 401);
+          }
+
+          if (payload.sid) {
+            await sessionService.end(payload.sid);
+          }
+
+          return new Response(null, { status: 204 });
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...authValidators.refresh,
+        detail: {
+          tags: ['Auth'],
+          summary: 'Logout',
+          description:
+            'End the session of the given refresh token; its access tokens stop working immediately',
+          responses: {
+            204: { description: 'Logged out' },
+            401: { description: 'Invalid or expired refresh token' },
+          },
+        },
+      }
+    )
+    .post(
+      '/logout-all',
+      async ({ auth }: Context & { auth?: Auth }) => {
+        if (!auth || !RBAC.isPublicUser(auth.role)) {
+          return errorResponse('Unauthorized', 401);
+        }
+
+        try {
+          await sessionService.endAll(auth);
+          return new Response(null, { status: 204 });
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        detail: {
+          tags: ['Auth'],
+          summary: 'Log out all sessions',
+          description:
+            'End every session of the logged-in customer or courier, on all devices',
+          security: [{ bearerAuth: [] }],
+          responses: {
+            204: { description: 'All sessions ended' },
+            401: { description: 'Not logged in' },
+          },
+        },
+      }
+    )
+    .post(
+      '/change-password',
+      async ({
+        body,
+        auth,
+      }: {
+        body: { currentPassword: string; newPassword: string };
+        auth?: Auth;
+      }) => {
+        if (!auth || !RBAC.isPublicUser(auth.role)) {
+          return errorResponse('Unauthorized', 401);
+        }
+
+        try {
+          const id = Number(auth.userId);
+          const service =
+            auth.role === 'courier' ? couriersService : customersService;
+
+          const account = await service.findById(id);
+          if (!account) {
+            return errorResponse('Account not found', 404);
+          }
+          // Social login only
+          if (!account.passwordHash) {
+            return errorResponse('Account has no password', 400);
+          }
+
+          const { valid } = await passwordHasher.verify(
+            body.currentPassword,
+            account.passwordHash
+          );
+          if (!valid) {
+            return errorResponse('Current password is incorrect', 401);
+          }
+
+          const weaknesses = validatePasswordStrength(body.newPassword, {
+            email: account.email,
+          });
+          if (weaknesses.length > 0) {
+            return weakPasswordResponse(weaknesses);
+          }
+
+          await service.update(id, {
+            passwordHash: await passwordHasher.hash(body.newPassword),
+            passwordChangedAt: new Date(),
+          });
+          // Tokens issued before the change stop working
+          await sessionService.endAll(auth);
+
+          return new Response(null, { status: 204 });
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...authValidators.changePassword,
+        detail: {
+          tags: ['Auth'],
+          summary: 'Change password',
+          description:
+            'Change the password of the logged-in customer or courier. The new password must follow the strength rules; passwordChangedAt is updated and every session (including the current one) is logged out.',
+          security: [{ bearerAuth: [] }],
+          responses: {
+            204: { description: 'Password changed' },
+            400: { description: 'New password does not meet the requirements' },
+            401: { description: 'Not logged in or wrong current password' },
+          },
+        },
+      }
+    )
+    .post(
+      '/password-reset',
+      async ({ body }) => {
+        try {
+          const customer = await customersService.findByEmail(body.email);
+
+          // Same answer whether or not the email is registered
+          if (customer && !BLOCKED_STATUSES.includes(customer.status)) {
+            const { token, tokenHash, expiresAt } = createOneTimeToken(
+              PASSWORD_RESET_TTL_SECONDS
+            );
+            await customersService.update(customer.id, {
+              passwordResetToken: tokenHash,
+              passwordResetExpiresAt: expiresAt,
+            });
+
+            try {
+              await accountEmails.sendPasswordReset(customer, token, expiresAt);
+            } catch (error) {
+              console.error(
+                `[Auth] Failed to send password reset to customer ${customer.id}`,
+                error
+              );
+            }
+          }
+
+          return jsonResponse(
+            {
+              message:
+                'If the email is registered, a password reset link has been sent',
+            },
+            202
+          );
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...authValidators.requestPasswordReset,
+        detail: {
+          tags: ['Auth'],
+          summary: 'Request password reset',
+          description:
+            'Email a single-use password reset link (valid for 1 hour). The answer does not reveal whether the email is registered.',
+          responses: {
+            202: { description: 'Request accepted' },
+          },
+        },
+      }
+    )
+    .post(
+      '/password-reset/confirm',
+      async ({ body }) => {
+        try {
+          const tokenHash = hashOneTimeToken(body.token);
+          const customer = await customersService.findByPasswordResetToken(
+            tokenHash
+          );
+          if (!customer) {
+            return errorResponse('Invalid or expired token', 400);
+          }
+
+          const weaknesses = validatePasswordStrength(body.newPassword, {
+            email: customer.email,
+          });
+          if (weaknesses.length > 0) {
+            return weakPasswordResponse(weaknesses);
+          }
+
+          // Clears the token in the same UPDATE: a concurrent use gets null
+          const updated = await customersService.resetPassword(
+            tokenHash,
+            await passwordHasher.hash(body.newPassword)
+          );
+          if (!updated) {
+            return errorResponse('Invalid or expired token', 400);
+          }
+
+          await sessionService.endAll({
+            userId: String(updated.id),
+            role: 'customer',
+          });
+
+          return new Response(null, { status: 204 });
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...authValidators.confirmPasswordReset,
+        detail: {
+          tags: ['Auth'],
+          summary: 'Reset password',
+          description:
+            'Set a new password with the emailed token. Also lifts a login lockout and logs out every session.',
+          responses: {
+            204: { description: 'Password changed' },
+            400: {
+              description:
+                'Invalid, expired or used token, or weak new password',
+            },
+          },
+        },
+      }
+    )
+    .post(
+      '/email-verification',
+      async ({ auth }: Context & { auth?: Auth }) => {
+        if (!auth || auth.role !== 'customer') {
+          return errorResponse('Unauthorized', 401);
+        }
+
+        try {
+          const customer = await customersService.findById(
+            Number(auth.userId)
+          );
+          if (!customer) {
+            return errorResponse('Account not found', 404);
+          }
+          if (customer.emailVerified) {
+            return errorResponse('Email already verified', 409);
+          }
+
+          await sendEmailVerification(customersService, accountEmails, customer);
+
+          return jsonResponse({ message: 'Verification email sent' }, 202);
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        detail: {
+          tags: ['Auth'],
+          summary: 'Send email verification',
+          description:
+            'Email a new verification link (valid for 48 hours) to the logged-in customer. Earlier links stop working.',
+          security: [{ bearerAuth: [] }],
+          responses: {
+            202: { description: 'Verification email sent' },
+            401: { description: 'Not logged in as a customer' },
+            409: { description: 'Email already verified' },
+          },
+        },
+      }
+    )
+    .post(
+      '/email-verification/confirm',
+      async ({ body }) => {
+        try {
+          const customer = await customersService.verifyEmail(
+            hashOneTimeToken(body.token)
+          );
+          if (!customer) {
+            return errorResponse('Invalid or expired token', 400);
+          }
+
+          return new Response(null, { status: 204 });
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...authValidators.oneTimeToken,
+        detail: {
+          tags: ['Auth'],
+          summary: 'Verify email',
+          description: 'Confirm the email address with the emailed token',
+          responses: {
+            204: { description: 'Email verified' },
+            400: { description: 'Invalid, expired or used token' },
+          },
+        },
+      }
+    );
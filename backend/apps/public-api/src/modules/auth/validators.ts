@@ -0,0 +1,54 @@
+/**
+ * Public Auth Validators
+ */
+
+import { t } from 'elysia';
+
+export const authValidators = {
+  signup: {
+    body: t.Object({
+      email: t.String({ format: 'email' }),
+      password: t.String({ minLength: 1 }), // hashed server-side
+      firstName: t.String({ minLength: 1 }),
+      lastName: t.String({ minLength: 1 }),
+      phone: t.Optional(t.String()),
+      cpf: t.Optional(t.String()),
+      // Referral code of the customer who invited this one
+      referralCode: t.Optional(t.String()),
+      marketingConsent: t.Optional(t.Boolean()),
+    }),
+  },
+  login: {
+    body: t.Object({
+      email: t.String(),
+      password: t.String({ minLength: 1 }),
+    }),
+  },
+  refresh: {
+    body: t.Object({
+      refreshToken: t.String(),
+    }),
+  },
+  changePassword: {
+    body: t.Object({
+      currentPassword: t.String({ minLength: 1 }),
+      newPassword: t.String({ minLength: 1 }),
+    }),
+  },
+  requestPasswordReset: {
+    body: t.Object({
+      email: t.String(),
+    }),
+  },
+  confirmPasswordReset: {
+    body: t.Object({
+      token: t.String({ minLength: 1 }),
+      newPassword: t.String({ minLength: 1 }),
+    }),
+  },
+  oneTimeToken: {
+    body: t.Object({
+      token: t.String({ minLength: 1 }),
+    }),
+  },
+};
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { Elysia } from 'elysia';
+import type { DeliveryService, CouriersService } from '@lokaly/domain';
+import { courierController } from './controller';
+
+function withAuth(
+  deliveryService: Partial<DeliveryService>,
+  couriersService: Partial<CouriersService>,
+  auth: { userId: string; role: string } = { userId: '7', role: 'courier' }
+) {
+  return new Elysia()
+    .derive(() => ({ auth }))
+    .use(
+      courierController(
+        deliveryService as DeliveryService,
+        couriersService as CouriersService
+      )
+    );
+}
+
+function post(path: string, body?: unknown) {
+  return new Request(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+}
+
+describe('public-api courierController', () => {
+  let mockDelivery: Partial<DeliveryService>;
+  let mockCouriers: Partial<CouriersService>;
+
+  beforeEach(() => {
+    mockDelivery = {
+      findById: async (id: number) =>
+        ({ id, orderId: 42, courierId: 7, status: 'assigned' } as any),
+      findByCourier: async () => [],
+    };
+    mockCouriers = {
+      updateLocation: async () => true,
+      setAvailability: async () => true,
+    };
+  });
+
+  describe('GET /courier/assignments', () => {
+    it('should return 401 for customers', async () => {
+      const app = withAuth(mockDelivery, mockCouriers, {
+        userId: '1',
+        role: 'customer',
+      });
+
+      const res = await app.handle(
+        new Request('http://localhost/courier/assignments')
+      );
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should list only offered assignments of the courier', async () => {
+      const calls: Array<[number, string[] | undefined]> = [];
+      mockDelivery.findByCourier = async (courierId, statuses) => {
+        calls.push([courierId, statuses]);
+        return [{ id: 1, status: 'assigned' }] as any;
+      };
+
+      const res = await withAuth(mockDelivery, mockCouriers).handle(
+        new Request('http://localhost/courier/assignments?scope=offered')
+      );
+
+      expect(res.status).toBe(200);
+      expect(calls).toEqual([[7, ['assigned']]]);
+      const body = await res.json();
+      expect(body.data).toHaveLength(1);
+    });
+  });
+
+  describe('POST /courier/assignments/:id/accept', () => {
+    it('should accept an own offer', async () => {
+      mockDelivery.accept = async (id, courierId) =>
+        ({ id, courierId, status: 'accepted' } as any);
+
+      const res = await withAuth(mockDelivery, mockCouriers).handle(
+        post('/courier/assignments/5/accept')
+      );
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body).toEqual({ id: 5, courierId: 7, status: 'accepted' });
+    });
+
+    it("should return 403 for another courier's assignment", async () => {
+      let accepted = false;
+      mockDelivery.findById = async (id: number) =>
+        ({ id, courierId: 99, status: 'assigned' } as any);
+      mockDelivery.accept = async () => {
+        accepted = true;
+        return {} as any;
+      };
+
+      const res = await withAuth(mockDelivery, mockCouriers).handle(
+        post('/courier/assignments/5/accept')
+      );
+
+      expect(res.status).toBe(403);
+      expect(accepted).toBe(false);
+    });
+
+    it('should return 404 when the assignment does not exist', async () => {
+      mockDelivery.findById = async () => null;
+
+      const res = await withAuth(mockDelivery, mockCouriers).handle(
+        post('/courier/assignments/5/accept')
+      );
+
+      expect(res.status).toBe(404);
+    });
+
+    it('should return 409 on an invalid status transition', async () => {
+      mockDelivery.accept = async () => {
+        throw new Error(
+          'Invalid delivery status transition from cancelled to accepted'
+        );
+      };
+
+      const res = await withAuth(mockDelivery, mockCouriers).handle(
+        post('/courier/assignments/5/accept')
+      );
+
+      expect(res.status).toBe(409);
+    });
+  });
+
+  describe('POST /courier/assignments/:id/deliver', () => {
+    it('should pass the proof of delivery to the service', async () => {
+      let received: unknown;
+      mockDelivery.markDelivered = async (id, courierId, details) => {
+        received = details;
+        return { id, courierId, status: 'delivered' } as any;
+      };
+
+      const res = await withAuth(mockDelivery, mockCouriers).handle(
+        post('/courier/assignments/5/deliver', {
+          customerSignature: 'data:image/png;base64,AAAA',
+          deliveryNotes: 'Left with doorman',
+          proofPhotoUrl: 'https://cdn.lokaly.com/proofs/5.jpg',
+        })
+      );
+
+      expect(res.status).toBe(200);
+      expect(received).toEqual({
+        customerSignature: 'data:image/png;base64,AAAA',
+        deliveryNotes: 'Left with doorman',
+        proofPhotoUrl: 'https://cdn.lokaly.com/proofs/5.jpg',
+      });
+    });
+  });
+
+  describe('PUT /courier/location', () => {
+    it('should update the location of the authenticated courier', async () => {
+      const calls: number[][] = [];
+      mockCouriers.updateLocation = async (id, latitude, longitude) => {
+        calls.push([id, latitude, longitude]);
+        return true;
+      };
+
+      const res = await withAuth(mockDelivery, mockCouriers).handle(
+        new Request('http://localhost/courier/location', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ latitude: -23.55, longitude: -46.63 }),
+        })
+      );
+
+      expect(res.status).toBe(200);
+      expect(calls).toEqual([[7, -23.55, -46.63]]);
+    });
+  });
+
+  describe('PUT /courier/availability', () => {
+    it('should toggle availability', async () => {
+      const calls: Array<[number, boolean]> = [];
+      mockCouriers.setAvailability = async (id, isAvailable) => {
+        calls.push([id, isAvailable]);
+        return true;
+      };
+
+      const res = await withAuth(mockDelivery, mockCouriers).handle(
+        new Request('http://localhost/courier/availability', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ isAvailable: false }),
+        })
+      );
+
+      expect(res.status).toBe(200);
+      expect(calls).toEqual([[7, false]]);
+    });
+  });
+});
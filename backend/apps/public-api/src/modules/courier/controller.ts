@@ -0,0 +1,339 @@
+/**
+ * Courier Controller
+ * Delivery endpoints for logged-in couriers (role `courier`).
+ * A courier only ever sees and changes their own assignments.
+ */
+
+import { Elysia } from 'elysia';
+import type { DeliveryService, CouriersService } from '@lokaly/domain';
+import type { DeliveryAssignment } from '@lokaly/db';
+import { jsonResponse, errorResponse } from '../../shared/responses';
+import { courierValidators } from './validators';
+
+type Auth = { userId: string; role: string; email?: string };
+
+const OFFERED_STATUSES = ['assigned'] as const;
+const ACTIVE_STATUSES = ['accepted', 'picked_up', 'in_transit'] as const;
+
+/**
+ * Load an assignment owned by the authenticated courier
+ * Returns an error response when it does not exist or is someone else's.
+ */
+async function findOwnAssignment(
+  deliveryService: DeliveryService,
+  assignmentId: number,
+  courierId: number
+): Promise<DeliveryAssignment | Response> {
+  const assignment = await deliveryService.findById(assignmentId);
+  if (!assignment) {
+    return errorResponse('Delivery assignment not found', 404);
+  }
+  if (assignment.courierId !== courierId) {
+    return errorResponse('Forbidden', 403);
+  }
+  return assignment;
+}
+
+export const courierController = (
+  deliveryService: DeliveryService,
+  couriersService: CouriersService
+) => {
+  /**
+   * Run a status change on one of the courier's assignments
+   * Status conflicts (e.g. accepting a cancelled offer) answer 409.
+   */
+  const transition = async (
+    auth: Auth | undefined,
+    assignmentId: number,
+    apply: (courierId: number) => Promise<DeliveryAssignment>
+  ): Promise<Response> => {
+    if (!auth || auth.role !== 'courier') {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    const courierId = Number(auth.userId);
+    try {
+      const owned = await findOwnAssignment(
+        deliveryService,
+        assignmentId,
+        courierId
+      );
+      if (owned instanceof Response) {
+        return owned;
+      }
+
+      return jsonResponse(await apply(courierId));
+    } catch (error) {
+      return errorResponse(
+        error instanceof Error ? error.message : 'Unknown error',
+        409
+      );
+    }
+  };
+
+  return (
+    new Elysia({ prefix: '/courier' })
+      // List offered and/or active assignments
+      .get(
+        '/assignments',
+        async ({
+          query,
+          auth,
+        }: {
+          query: { scope?: 'offered' | 'active' | 'all' };
+          auth?: Auth;
+        }) => {
+          if (!auth || auth.role !== 'courier') {
+            return errorResponse('Unauthorized', 401);
+          }
+
+          try {
+            const scope = query.scope ?? 'all';
+            const statuses = [
+              ...(scope !== 'active' ? OFFERED_STATUSES : []),
+              ...(scope !== 'offered' ? ACTIVE_STATUSES : []),
+            ];
+            const assignments = await deliveryService.findByCourier(
+              Number(auth.userId),
+              statuses
+            );
+
+            return jsonResponse({ data: assignments });
+          } catch (error) {
+            return errorResponse(
+              error instanceof Error ? error.message : 'Unknown error',
+              500
+            );
+          }
+        },
+        {
+          ...courierValidators.listAssignments,
+          detail: {
+            tags: ['Courier'],
+            summary: 'List my assignments',
+            description:
+              'Offered (waiting for accept/reject) and active (accepted, picked up, in transit) assignments of the logged-in courier',
+            security: [{ bearerAuth: [] }],
+          },
+        }
+      )
+      // Get one assignment
+      .get(
+        '/assignments/:id',
+        async ({ params, auth }: { params: { id: number }; auth?: Auth }) => {
+          if (!auth || auth.role !== 'courier') {
+            return errorResponse('Unauthorized', 401);
+          }
+
+          try {
+            const owned = await findOwnAssignment(
+              deliveryService,
+              Number(params.id),
+              Number(auth.userId)
+            );
+            if (owned instanceof Response) {
+              return owned;
+            }
+
+            return jsonResponse(owned);
+          } catch (error) {
+            return errorResponse(
+              error instanceof Error ? error.message : 'Unknown error',
+              500
+            );
+          }
+        },
+        {
+          ...courierValidators.byId,
+          detail: {
+            tags: ['Courier'],
+            summary: 'Get my assignment',
+            description: 'Get one of the logged-in courier assignments',
+            security: [{ bearerAuth: [] }],
+          },
+        }
+      )
+      .post(
+        '/assignments/:id/accept',
+        ({ params, auth }: { params: { id: number }; auth?: Auth }) =>
+          transition(auth, Number(params.id), (courierId) =>
+            deliveryService.accept(Number(params.id), courierId)
+          ),
+        {
+          ...courierValidators.byId,
+          detail: {
+            tags: ['Courier'],
+            summary: 'Accept offer',
+            security: [{ bearerAuth: [] }],
+          },
+        }
+      )
+      .post(
+        '/assignments/:id/reject',
+        ({
+          params,
+          body,
+          auth,
+        }: {
+          params: { id: number };
+          body: { reason: string };
+          auth?: Auth;
+        }) =>
+          transition(auth, Number(params.id), (courierId) =>
+            deliveryService.reject(Number(params.id), courierId, body.reason)
+          ),
+        {
+          ...courierValidators.reject,
+          detail: {
+            tags: ['Courier'],
+            summary: 'Reject offer',
+            description:
+              'Reject an offer; the order is offered to the next courier',
+            security: [{ bearerAuth: [] }],
+          },
+        }
+      )
+      .post(
+        '/assignments/:id/pickup',
+        ({ params, auth }: { params: { id: number }; auth?: Auth }) =>
+          transition(auth, Number(params.id), (courierId) =>
+            deliveryService.markPickedUp(Number(params.id), courierId)
+          ),
+        {
+          ...courierValidators.byId,
+          detail: {
+            tags: ['Courier'],
+            summary: 'Mark picked up',
+            security: [{ bearerAuth: [] }],
+          },
+        }
+      )
+      .post(
+        '/assignments/:id/in-transit',
+        ({ params, auth }: { params: { id: number }; auth?: Auth }) =>
+          transition(auth, Number(params.id), (courierId) =>
+            deliveryService.markInTransit(Number(params.id), courierId)
+          ),
+        {
+          ...courierValidators.byId,
+          detail: {
+            tags: ['Courier'],
+            summary: 'Mark in transit',
+            security: [{ bearerAuth: [] }],
+          },
+        }
+      )
+      .post(
+        '/assignments/:id/deliver',
+        ({
+          params,
+          body,
+          auth,
+        }: {
+          params: { id: number };
+          body: {
+            customerSignature?: string;
+            deliveryNotes?: string;
+            proofPhotoUrl?: string;
+            actualDistance?: number;
+          };
+          auth?: Auth;
+        }) =>
+          transition(auth, Number(params.id), (courierId) =>
+            deliveryService.markDelivered(Number(params.id), courierId, body)
+          ),
+        {
+          ...courierValidators.deliver,
+          detail: {
+            tags: ['Courier'],
+            summary: 'Mark delivered',
+            description:
+              'Complete the delivery with proof (customer signature, notes, photo URL)',
+            security: [{ bearerAuth: [] }],
+          },
+        }
+      )
+      // Location updates feed courier dispatch ranking
+      .put(
+        '/location',
+        async ({
+          body,
+          auth,
+        }: {
+          body: { latitude: number; longitude: number };
+          auth?: Auth;
+        }) => {
+          if (!auth || auth.role !== 'courier') {
+            return errorResponse('Unauthorized', 401);
+          }
+
+          try {
+            const updated = await couriersService.updateLocation(
+              Number(auth.userId),
+              body.latitude,
+              body.longitude
+            );
+            if (!updated) {
+              return errorResponse('Courier not found', 404);
+            }
+
+            return jsonResponse({ success: true });
+          } catch (error) {
+            return errorResponse(
+              error instanceof Error ? error.message : 'Unknown error',
+              500
+            );
+          }
+        },
+        {
+          ...courierValidators.location,
+          detail: {
+            tags: ['Courier'],
+            summary: 'Update my location',
+            security: [{ bearerAuth: [] }],
+          },
+        }
+      )
+      .put(
+        '/availability',
+        async ({
+          body,
+          auth,
+        }: {
+          body: { isAvailable: boolean };
+          auth?: Auth;
+        }) => {
+          if (!auth || auth.role !== 'courier') {
+            return errorResponse('Unauthorized', 401);
+          }
+
+          try {
+            const updated = await couriersService.setAvailability(
+              Number(auth.userId),
+              body.isAvailable
+            );
+            if (!updated) {
+              return errorResponse('Courier not found', 404);
+            }
+
+            return jsonResponse({ isAvailable: body.isAvailable });
+          } catch (error) {
+            return errorResponse(
+              error instanceof Error ? error.message : 'Unknown error',
+              500
+            );
+          }
+        },
+        {
+          ...courierValidators.availability,
+          detail: {
+            tags: ['Courier'],
+            summary: 'Toggle availability',
+            description:
+              'Only available couriers receive new delivery offers',
+            security: [{ bearerAuth: [] }],
+          },
+        }
+      )
+  );
+};
@@ -0,0 +1,48 @@
+/**
+ * Courier Validators (public API)
+ */
+
+import { t } from 'elysia';
+import { numericId } from '../../shared/validators';
+
+export const courierValidators = {
+  listAssignments: {
+    query: t.Object({
+      // offered: waiting for accept/reject; active: accepted and on the way
+      scope: t.Optional(
+        t.Union([t.Literal('offered'), t.Literal('active'), t.Literal('all')], {
+          default: 'all',
+        })
+      ),
+    }),
+  },
+  byId: {
+    params: numericId,
+  },
+  reject: {
+    params: numericId,
+    body: t.Object({
+      reason: t.String({ minLength: 1 }),
+    }),
+  },
+  deliver: {
+    params: numericId,
+    body: t.Object({
+      customerSignature: t.Optional(t.String()),
+      deliveryNotes: t.Optional(t.String()),
+      proofPhotoUrl: t.Optional(t.String({ format: 'uri' })),
+      actualDistance: t.Optional(t.Numeric({ minimum: 0 })),
+    }),
+  },
+  location: {
+    body: t.Object({
+      latitude: t.Numeric({ minimum: -90, maximum: 90 }),
+      longitude: t.Numeric({ minimum: -180, maximum: 180 }),
+    }),
+  },
+  availability: {
+    body: t.Object({
+      isAvailable: t.Boolean(),
+    }),
+  },
+};
@@ -1,18 +1,31 @@
 import { describe, it, expect, beforeEach } from 'bun:test';
 import { Elysia } from 'elysia';
-import type { OrderService } from '@lokaly/domain';
+import {
+  OrderConflictError,
+  type OrderService,
+  type PaymentService,
+} from '@lokaly/domain';
 import { ordersController } from './controller';
 
 describe('public-api ordersController', () => {
   let mockService: Partial<OrderService>;
+  let mockPayments: Partial<PaymentService>;
   let app: ReturnType<typeof ordersController>;
 
+  const controller = () =>
+    ordersController(
+      mockService as OrderService,
+      mockPayments as PaymentService
+    );
+
   beforeEach(() => {
     mockService = {
       createOrder: async () => ({ id: 1 } as any),
       getOrderById: async () => null,
+      getStatusHistory: async () => [],
     };
-    app = ordersController(mockService as OrderService);
+    mockPayments = {};
+    app = controller();
   });
 
   describe('POST /orders', () => {
@@ -51,7 +64,7 @@ describe('public-api ordersController', () => {
             email: 'customer@test.com',
           },
         }))
-        .use(ordersController(mockService as OrderService));
+        .use(controller());
 
       const res = await appWithAuth.handle(
         new Request('http://localhost/orders', {
@@ -78,6 +91,75 @@ describe('public-api ordersController', () => {
       expect(body).toEqual(newOrder);
     });
 
+    it('should forward expected totals but not client-set adjustments', async () => {
+      let received: any;
+      mockService.createOrder = async (input) => {
+        received = input;
+        return { id: 1 } as any;
+      };
+
+      const appWithAuth = new Elysia()
+        .derive(() => ({
+          auth: {
+            userId: '1',
+            role: 'customer',
+            email: 'customer@test.com',
+          },
+        }))
+        .use(controller());
+
+      const res = await appWithAuth.handle(
+        new Request('http://localhost/orders', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            items: [{ productId: 1, quantity: 2 }],
+            subtotalAmount: 20,
+            totalAmount: 20,
+            discountAmount: 20,
+            deliveryAddress: 'Address',
+          }),
+        })
+      );
+
+      expect(res.status).toBe(201);
+      expect(received.subtotalAmount).toBe(20);
+      expect(received.totalAmount).toBe(20);
+      expect(received.discountAmount).toBeUndefined();
+    });
+
+    it('should return 400 when the server rejects the prices', async () => {
+      mockService.createOrder = async () => {
+        throw new Error('Order total mismatch: expected 25, got 20');
+      };
+
+      const appWithAuth = new Elysia()
+        .derive(() => ({
+          auth: {
+            userId: '1',
+            role: 'customer',
+            email: 'customer@test.com',
+          },
+        }))
+        .use(controller());
+
+      const res = await appWithAuth.handle(
+        new Request('http://localhost/orders', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            items: [{ productId: 1, quantity: 2 }],
+            totalAmount: 20,
+            deliveryAddress: 'Address',
+          }),
+        })
+      );
+
+      expect(res.status).toBe(400);
+      const body = await res.json();
+      expect(body.error).toBe('Order total mismatch: expected 25, got 20');
+    });
+
     it('should return 401 for non-customer/courier role', async () => {
       const appWithAuth = new Elysia()
         .derive(() => ({
@@ -87,7 +169,7 @@ describe('public-api ordersController', () => {
             email: 'admin@test.com',
           },
         }))
-        .use(ordersController(mockService as OrderService));
+        .use(controller());
 
       const res = await appWithAuth.handle(
         new Request('http://localhost/orders', {
@@ -132,7 +214,7 @@ describe('public-api ordersController', () => {
             email: 'customer@test.com',
           },
         }))
-        .use(ordersController(mockService as OrderService));
+        .use(controller());
 
       const res = await appWithAuth.handle(
         new Request('http://localhost/orders/1')
@@ -140,7 +222,57 @@ describe('public-api ordersController', () => {
 
       expect(res.status).toBe(200);
       const body = await res.json();
-      expect(body).toEqual(order);
+      expect(body).toEqual({ ...order, statusHistory: [] });
+    });
+
+    it('should include the status history without actor ids', async () => {
+      mockService.getOrderById = async () =>
+        ({ id: 1, customerId: 1, status: 'confirmed' }) as any;
+      mockService.getStatusHistory = async () => [
+        {
+          id: 1,
+          orderId: 1,
+          previousStatus: null,
+          newStatus: 'pending',
+          actorType: 'customer',
+          actorId: 1,
+          reason: null,
+          createdAt: new Date('2026-10-01T12:00:00Z'),
+        },
+        {
+          id: 2,
+          orderId: 1,
+          previousStatus: 'pending',
+          newStatus: 'confirmed',
+          actorType: 'admin',
+          actorId: 3,
+          reason: 'Stock checked',
+          createdAt: new Date('2026-10-01T12:05:00Z'),
+        },
+      ];
+
+      const res = await new Elysia()
+        .derive(() => ({ auth: { userId: '1', role: 'customer' } }))
+        .use(controller())
+        .handle(new Request('http://localhost/orders/1'));
+
+      expect(res.status).toBe(200);
+      expect((await res.json()).statusHistory).toEqual([
+        {
+          previousStatus: null,
+          newStatus: 'pending',
+          actorType: 'customer',
+          reason: null,
+          createdAt: '2026-10-01T12:00:00.000Z',
+        },
+        {
+          previousStatus: 'pending',
+          newStatus: 'confirmed',
+          actorType: 'admin',
+          reason: 'Stock checked',
+          createdAt: '2026-10-01T12:05:00.000Z',
+        },
+      ]);
     });
 
     it('should return 404 when order not found', async () => {
@@ -154,7 +286,7 @@ describe('public-api ordersController', () => {
             email: 'customer@test.com',
           },
         }))
-        .use(ordersController(mockService as OrderService));
+        .use(controller());
 
       const res = await appWithAuth.handle(
         new Request('http://localhost/orders/999')
@@ -181,7 +313,7 @@ describe('public-api ordersController', () => {
             email: 'customer1@test.com',
           },
         }))
-        .use(ordersController(mockService as OrderService));
+        .use(controller());
 
       const res = await appWithAuth.handle(
         new Request('http://localhost/orders/1')
@@ -208,7 +340,7 @@ describe('public-api ordersController', () => {
             email: 'courier@test.com',
           },
         }))
-        .use(ordersController(mockService as OrderService));
+        .use(controller());
 
       const res = await appWithAuth.handle(
         new Request('http://localhost/orders/1')
@@ -216,7 +348,270 @@ describe('public-api ordersController', () => {
 
       expect(res.status).toBe(200);
       const body = await res.json();
-      expect(body).toEqual(order);
+      expect(body).toEqual({ ...order, statusHistory: [] });
+    });
+  });
+
+  describe('GET /orders', () => {
+    const as = (role: string, userId = '1') =>
+      new Elysia()
+        .derive(() => ({ auth: { userId, role } }))
+        .use(controller());
+
+    it('should return 401 when auth is missing', async () => {
+      const res = await app.handle(new Request('http://localhost/orders'));
+
+      expect(res.status).toBe(401);
+    });
+
+    it("should list only the customer's own orders", async () => {
+      mockService.findMany = async (opts) => {
+        expect(opts?.filters).toEqual({ customerId: 7, status: 'delivered' });
+        expect(opts?.limit).toBe(10);
+        return [{ id: 1, customerId: 7 }] as any;
+      };
+      mockService.count = async () => 11;
+
+      const res = await as('customer', '7').handle(
+        new Request('http://localhost/orders?status=delivered&limit=10')
+      );
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.data).toHaveLength(1);
+      expect(body.pagination.total).toBe(11);
+      expect(body.pagination.hasMore).toBe(true);
+    });
+
+    it('should return 403 for couriers', async () => {
+      const res = await as('courier').handle(
+        new Request('http://localhost/orders')
+      );
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('GET /orders/by-number', () => {
+    const order = { id: 42, orderNumber: 'ORD-2026-000042', customerId: 7 };
+    const lookup = (role: string, userId: string, orderNumber: string) =>
+      new Elysia()
+        .derive(() => ({ auth: { userId, role } }))
+        .use(controller())
+        .handle(
+          new Request(
+            `http://localhost/orders/by-number?orderNumber=${orderNumber}`
+          )
+        );
+
+    beforeEach(() => {
+      mockService.getOrderByNumber = async (orderNumber) =>
+        orderNumber === order.orderNumber ? (order as any) : null;
+    });
+
+    it('should return 401 when auth is missing', async () => {
+      const res = await app.handle(
+        new Request(
+          'http://localhost/orders/by-number?orderNumber=ORD-2026-000042'
+        )
+      );
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should return the own order of a customer', async () => {
+      const res = await lookup('customer', '7', 'ORD-2026-000042');
+
+      expect(res.status).toBe(200);
+      expect((await res.json()).id).toBe(42);
+    });
+
+    it("should return 403 for another customer's order", async () => {
+      const res = await lookup('customer', '8', 'ORD-2026-000042');
+
+      expect(res.status).toBe(403);
+    });
+
+    it('should return 404 when order not found', async () => {
+      const res = await lookup('customer', '7', 'ORD-2026-999999');
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('POST /orders/:id/cancel', () => {
+    const cancel = (role: string, userId: string, body: object = {}) =>
+      new Elysia()
+        .derive(() => ({ auth: { userId, role } }))
+        .use(controller())
+        .handle(
+          new Request('http://localhost/orders/1/cancel', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+          })
+        );
+
+    it('should cancel as the customer', async () => {
+      let cancelled: unknown[] = [];
+      let status = 'pending';
+      mockService.getOrderById = async () =>
+        ({ id: 1, customerId: 7, status }) as any;
+      mockService.cancelOrder = async (...args) => {
+        cancelled = args;
+        status = 'cancelled';
+      };
+
+      const res = await cancel('customer', '7', { reason: 'Ordered twice' });
+
+      expect(res.status).toBe(200);
+      expect(cancelled).toEqual([
+        1,
+        'Ordered twice',
+        { type: 'customer', customerId: 7 },
+      ]);
+      expect((await res.json()).status).toBe('cancelled');
+    });
+
+    it("should return 403 for another customer's order", async () => {
+      mockService.getOrderById = async () =>
+        ({ id: 1, customerId: 8, status: 'pending' }) as any;
+
+      const res = await cancel('customer', '7');
+
+      expect(res.status).toBe(403);
+    });
+
+    it('should return 400 once picking started', async () => {
+      mockService.getOrderById = async () =>
+        ({ id: 1, customerId: 7, status: 'picking' }) as any;
+      mockService.cancelOrder = async () => {
+        throw new Error(
+          'Order can no longer be cancelled by the customer (status picking)'
+        );
+      };
+
+      const res = await cancel('customer', '7');
+
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toContain('no longer be cancelled');
+    });
+
+    it('should return 409 when the order changed meanwhile', async () => {
+      mockService.getOrderById = async () =>
+        ({ id: 1, customerId: 7, status: 'pending' }) as any;
+      mockService.cancelOrder = async () => {
+        throw new OrderConflictError(1, 'pending');
+      };
+
+      const res = await cancel('customer', '7');
+
+      expect(res.status).toBe(409);
+    });
+
+    it('should return 404 when order not found', async () => {
+      const res = await cancel('customer', '7');
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('order payment', () => {
+    const request = (
+      role: string,
+      userId: string,
+      path: string,
+      method = 'GET'
+    ) =>
+      new Elysia()
+        .derive(() => ({ auth: { userId, role } }))
+        .use(controller())
+        .handle(new Request(`http://localhost/orders/1${path}`, { method }));
+
+    const payment = {
+      orderId: 1,
+      paymentStatus: 'pending',
+      paymentMethod: 'pix',
+      totalAmount: '42.50',
+      pix: {
+        txid: 'SIM123',
+        payload: '00020101021226...6304ABCD',
+        expired: false,
+      },
+    };
+
+    it('should return the payment of an own order', async () => {
+      mockService.getOrderById = async () =>
+        ({ id: 1, customerId: 7 }) as any;
+      mockPayments.getOrderPayment = async () => payment as any;
+
+      const res = await request('customer', '7', '/payment');
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual(payment);
+    });
+
+    it("should return 403 for another customer's order or a courier", async () => {
+      mockService.getOrderById = async () =>
+        ({ id: 1, customerId: 8 }) as any;
+
+      expect((await request('customer', '7', '/payment')).status).toBe(403);
+      expect((await request('courier', '7', '/payment')).status).toBe(403);
+    });
+
+    it('should issue a PIX charge and return the payment', async () => {
+      let charged: number | undefined;
+      mockService.getOrderById = async () =>
+        ({ id: 1, customerId: 7 }) as any;
+      mockPayments.createPixCharge = async (orderId) => {
+        charged = orderId;
+        return {} as any;
+      };
+      mockPayments.getOrderPayment = async () => payment as any;
+
+      const res = await request('customer', '7', '/payment/pix', 'POST');
+
+      expect(res.status).toBe(200);
+      expect(charged).toBe(1);
+      expect((await res.json()).pix.payload).toBe(payment.pix.payload);
+    });
+
+    it('should return 400 when the order cannot be paid', async () => {
+      mockService.getOrderById = async () =>
+        ({ id: 1, customerId: 7 }) as any;
+      mockPayments.createPixCharge = async () => {
+        throw new Error('Cancelled orders cannot be paid');
+      };
+
+      const res = await request('customer', '7', '/payment/pix', 'POST');
+
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toBe('Cancelled orders cannot be paid');
+    });
+
+    it('should return 404 when order not found', async () => {
+      const res = await request('customer', '7', '/payment');
+
+      expect(res.status).toBe(404);
+    });
+
+    it('should return 503 when payments are turned off', async () => {
+      const withoutPayments = new Elysia()
+        .derive(() => ({ auth: { userId: '7', role: 'customer' } }))
+        .use(ordersController(mockService as OrderService, null));
+
+      const responses = await Promise.all([
+        withoutPayments.handle(
+          new Request('http://localhost/orders/1/payment')
+        ),
+        withoutPayments.handle(
+          new Request('http://localhost/orders/1/payment/pix', {
+            method: 'POST',
+          })
+        ),
+      ]);
+
+      expect(responses.map((res) => res.status)).toEqual([503, 503]);
     });
   });
 });
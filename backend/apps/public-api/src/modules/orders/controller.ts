@@ -1,14 +1,47 @@
 /**
  * Public Orders Controller
  * Uses OrderService from domain layer and RedisEventPublisher via EventPublisher
+ * Order payments (PIX charges) go through PaymentService.
  */
 
 import { Elysia } from 'elysia';
-import type { OrderService } from '@lokaly/domain';
-import { jsonResponse, errorResponse } from '../../shared/responses';
+import {
+  OrderConflictError,
+  type OrderService,
+  type PaymentService,
+} from '@lokaly/domain';
+import {
+  jsonResponse,
+  errorResponse,
+  paginatedResponse,
+} from '../../shared/responses';
 import { ordersValidators } from './validators';
 
-export const ordersController = (orderService: OrderService) =>
+/**
+ * Order with its status history, oldest first
+ * Actors are only identified by type: admin and courier ids stay internal.
+ */
+async function withStatusHistory<T extends { id: number }>(
+  orderService: OrderService,
+  order: T
+) {
+  const history = await orderService.getStatusHistory(order.id);
+  return {
+    ...order,
+    statusHistory: history.map((entry) => ({
+      previousStatus: entry.previousStatus,
+      newStatus: entry.newStatus,
+      actorType: entry.actorType,
+      reason: entry.reason,
+      createdAt: entry.createdAt,
+    })),
+  };
+}
+
+export const ordersController = (
+  orderService: OrderService,
+  paymentService: PaymentService | null // null: payments are turned off
+) =>
   new Elysia({ prefix: '/orders' })
     // Create order (requires auth)
     .post(
@@ -35,9 +68,7 @@ export const ordersController = (orderService: OrderService) =>
             deliveryAddress: body.deliveryAddress,
             deliveryInstructions: body.deliveryInstructions,
             subtotalAmount: body.subtotalAmount,
-            taxAmount: body.taxAmount,
-            deliveryFee: body.deliveryFee,
-            discountAmount: body.discountAmount,
+            totalAmount: body.totalAmount,
             paymentMethod: body.paymentMethod,
             notes: body.notes,
           });
@@ -55,7 +86,8 @@ export const ordersController = (orderService: OrderService) =>
         detail: {
           tags: ['Orders'],
           summary: 'Create order',
-          description: 'Create a new order (requires authentication)',
+          description:
+            'Create a new order (requires authentication). Prices are calculated server-side; optional unitPrice, subtotalAmount and totalAmount are checked against them.',
           security: [{ bearerAuth: [] }],
           responses: {
             201: {
@@ -64,6 +96,7 @@ export const ordersController = (orderService: OrderService) =>
                 'application/json': {
                   example: {
                     id: 1,
+                    orderNumber: 'ORD-2026-000001',
                     customerId: 1,
                     status: 'pending',
                     totalAmount: 100.0,
@@ -75,7 +108,126 @@ export const ordersController = (orderService: OrderService) =>
               description: 'Unauthorized - authentication required',
             },
             400: {
-              description: 'Validation error',
+              description:
+                'Validation error, unavailable product or price mismatch',
+            },
+          },
+        },
+      }
+    )
+    // Own order history (customers only)
+    .get(
+      '/',
+      async ({
+        query,
+        auth,
+      }: {
+        query: { limit?: number; offset?: number; status?: string };
+        auth?: { userId: string; role: string; email?: string };
+      }) => {
+        if (!auth || (auth.role !== 'customer' && auth.role !== 'courier')) {
+          return errorResponse('Unauthorized', 401);
+        }
+        if (auth.role !== 'customer') {
+          return errorResponse('Forbidden', 403);
+        }
+
+        try {
+          const limit = query.limit || 50;
+          const offset = query.offset || 0;
+          const filters = {
+            customerId: Number(auth.userId),
+            ...(query.status && { status: query.status }),
+          };
+
+          const orders = await orderService.findMany({
+            limit,
+            offset,
+            filters,
+          });
+          const total = await orderService.count(filters);
+
+          return paginatedResponse(orders, total, limit, offset);
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...ordersValidators.list,
+        detail: {
+          tags: ['Orders'],
+          summary: 'List my orders',
+          description:
+            'Paginated order history of the logged-in customer, newest first, optionally filtered by status',
+          security: [{ bearerAuth: [] }],
+          responses: {
+            200: { description: 'Paginated orders' },
+            401: { description: 'Unauthorized' },
+            403: { description: 'Forbidden - only customers have orders' },
+          },
+        },
+      }
+    )
+    // Get order by number (requires auth, customer can only see own orders)
+    .get(
+      '/by-number',
+      async ({
+        query,
+        auth,
+      }: {
+        query: { orderNumber: string };
+        auth?: { userId: string; role: string; email?: string };
+      }) => {
+        if (!auth || (auth.role !== 'customer' && auth.role !== 'courier')) {
+          return errorResponse('Unauthorized', 401);
+        }
+
+        try {
+          const order = await orderService.getOrderByNumber(query.orderNumber);
+
+          if (!order) {
+            return errorResponse('Order not found', 404);
+          }
+
+          if (
+            auth.role === 'customer' &&
+            order.customerId !== Number(auth.userId)
+          ) {
+            return errorResponse('Forbidden', 403);
+          }
+
+          return jsonResponse(await withStatusHistory(orderService, order));
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...ordersValidators.getByNumber,
+        detail: {
+          tags: ['Orders'],
+          summary: 'Get order by number',
+          description:
+            'Get order details and status history by its order number, e.g. ORD-2026-000042 (customers can only see their own orders)',
+          security: [{ bearerAuth: [] }],
+          responses: {
+            200: {
+              description: 'Order details',
+            },
+            401: {
+              description: 'Unauthorized',
+            },
+            403: {
+              description:
+                'Forbidden - customer trying to access another customer order',
+            },
+            404: {
+              description: 'Order not found',
             },
           },
         },
@@ -110,7 +262,7 @@ export const ordersController = (orderService: OrderService) =>
             return errorResponse('Forbidden', 403);
           }
 
-          return jsonResponse(order);
+          return jsonResponse(await withStatusHistory(orderService, order));
         } catch (error) {
           return errorResponse(
             error instanceof Error ? error.message : 'Unknown error',
@@ -124,7 +276,7 @@ export const ordersController = (orderService: OrderService) =>
           tags: ['Orders'],
           summary: 'Get order by ID',
           description:
-            'Get order details by ID (customers can only see their own orders)',
+            'Get order details and status history by ID (customers can only see their own orders)',
           security: [{ bearerAuth: [] }],
           responses: {
             200: {
@@ -143,4 +295,207 @@ export const ordersController = (orderService: OrderService) =>
           },
         },
       }
+    )
+    // Cancel own order while pending/confirmed (customers only)
+    .post(
+      '/:id/cancel',
+      async ({
+        params,
+        body,
+        auth,
+      }: {
+        params: { id: number };
+        body: { reason?: string };
+        auth?: { userId: string; role: string; email?: string };
+      }) => {
+        if (!auth || (auth.role !== 'customer' && auth.role !== 'courier')) {
+          return errorResponse('Unauthorized', 401);
+        }
+        if (auth.role !== 'customer') {
+          return errorResponse('Forbidden', 403);
+        }
+
+        try {
+          const orderId = Number(params.id);
+          const order = await orderService.getOrderById(orderId);
+
+          if (!order) {
+            return errorResponse('Order not found', 404);
+          }
+
+          if (order.customerId !== Number(auth.userId)) {
+            return errorResponse('Forbidden', 403);
+          }
+
+          await orderService.cancelOrder(
+            orderId,
+            body.reason ?? 'Cancelled by the customer',
+            { type: 'customer', customerId: Number(auth.userId) }
+          );
+
+          return jsonResponse(await orderService.getOrderById(orderId));
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            error instanceof OrderConflictError ? 409 : 400
+          );
+        }
+      },
+      {
+        ...ordersValidators.cancel,
+        detail: {
+          tags: ['Orders'],
+          summary: 'Cancel order',
+          description:
+            'Cancel one of your orders while it is pending or confirmed (before picking starts). Cancelling an already cancelled order is a no-op.',
+          security: [{ bearerAuth: [] }],
+          responses: {
+            200: { description: 'Cancelled order' },
+            400: {
+              description: 'Order can no longer be cancelled by the customer',
+            },
+            401: { description: 'Unauthorized' },
+            403: {
+              description:
+                'Forbidden - customer trying to cancel another customer order',
+            },
+            404: { description: 'Order not found' },
+            409: {
+              description: 'The order changed meanwhile; reload and retry',
+            },
+          },
+        },
+      }
+    )
+    // Payment of an own order, with the current PIX charge (customers only)
+    .get(
+      '/:id/payment',
+      async ({
+        params,
+        auth,
+      }: {
+        params: { id: number };
+        auth?: { userId: string; role: string; email?: string };
+      }) => {
+        if (!auth || (auth.role !== 'customer' && auth.role !== 'courier')) {
+          return errorResponse('Unauthorized', 401);
+        }
+        if (auth.role !== 'customer') {
+          return errorResponse('Forbidden', 403);
+        }
+
+        if (!paymentService) {
+          return errorResponse('Payments are not available', 503);
+        }
+
+        try {
+          const order = await orderService.getOrderById(Number(params.id));
+
+          if (!order) {
+            return errorResponse('Order not found', 404);
+          }
+
+          if (order.customerId !== Number(auth.userId)) {
+            return errorResponse('Forbidden', 403);
+          }
+
+          return jsonResponse(await paymentService.getOrderPayment(order));
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            500
+          );
+        }
+      },
+      {
+        ...ordersValidators.payment,
+        detail: {
+          tags: ['Orders'],
+          summary: 'Get order payment',
+          description:
+            'Payment status of one of your orders and its current PIX charge: BR Code payload ("copia e cola", also rendered as QR code), expiration and whether it expired',
+          security: [{ bearerAuth: [] }],
+          responses: {
+            200: { description: 'Order payment' },
+            401: { description: 'Unauthorized' },
+            403: {
+              description:
+                'Forbidden - customer trying to access another customer order',
+            },
+            404: { description: 'Order not found' },
+            503: { description: 'No payment gateway is configured' },
+          },
+        },
+      }
+    )
+    // Issue a PIX charge for an own order (customers only)
+    .post(
+      '/:id/payment/pix',
+      async ({
+        params,
+        auth,
+      }: {
+        params: { id: number };
+        auth?: { userId: string; role: string; email?: string };
+      }) => {
+        if (!auth || (auth.role !== 'customer' && auth.role !== 'courier')) {
+          return errorResponse('Unauthorized', 401);
+        }
+        if (auth.role !== 'customer') {
+          return errorResponse('Forbidden', 403);
+        }
+
+        if (!paymentService) {
+          return errorResponse('Payments are not available', 503);
+        }
+
+        try {
+          const orderId = Number(params.id);
+          const order = await orderService.getOrderById(orderId);
+
+          if (!order) {
+            return errorResponse('Order not found', 404);
+          }
+
+          if (order.customerId !== Number(auth.userId)) {
+            return errorResponse('Forbidden', 403);
+          }
+
+          await paymentService.createPixCharge(orderId);
+
+          const updated = await orderService.getOrderById(orderId);
+          return jsonResponse(await paymentService.getOrderPayment(updated!));
+        } catch (error) {
+          return errorResponse(
+            error instanceof Error ? error.message : 'Unknown error',
+            error instanceof OrderConflictError ? 409 : 400
+          );
+        }
+      },
+      {
+        ...ordersValidators.payment,
+        detail: {
+          tags: ['Orders'],
+          summary: 'Pay order with PIX',
+          description:
+            'Issue a PIX charge for the order total and return the order payment with its BR Code. While the current charge has not expired it is returned again instead of a new one.',
+          security: [{ bearerAuth: [] }],
+          responses: {
+            200: { description: 'Order payment with the PIX charge' },
+            400: {
+              description: 'Order already paid or cancelled',
+            },
+            401: { description: 'Unauthorized' },
+            403: {
+              description:
+                'Forbidden - customer trying to pay another customer order',
+            },
+            404: { description: 'Order not found' },
+            409: {
+              description: 'The order changed meanwhile; reload and retry',
+            },
+            503: { description: 'No payment gateway is configured' },
+          },
+        },
+      }
     );
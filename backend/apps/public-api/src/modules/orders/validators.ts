@@ -3,7 +3,7 @@
  */
 
 import { t } from 'elysia';
-import { numericId } from '../../shared/validators';
+import { numericId, paginationQuery } from '../../shared/validators';
 
 export const ordersValidators = {
   create: {
@@ -13,18 +13,18 @@ export const ordersValidators = {
           productId: t.Numeric(),
           productVariantId: t.Optional(t.Numeric()),
           quantity: t.Numeric(),
-          unitPrice: t.Numeric(),
-          productName: t.String(),
+          // Expected unit price; the server resolves the actual price
+          unitPrice: t.Optional(t.Numeric()),
+          productName: t.Optional(t.String()),
           productSku: t.Optional(t.String()),
         })
       ),
       deliveryAddressId: t.Optional(t.Numeric()),
       deliveryAddress: t.String(),
       deliveryInstructions: t.Optional(t.String()),
-      subtotalAmount: t.Numeric(),
-      taxAmount: t.Optional(t.Numeric()),
-      deliveryFee: t.Optional(t.Numeric()),
-      discountAmount: t.Optional(t.Numeric()),
+      // Expected totals; rejected when they disagree with the server's
+      subtotalAmount: t.Optional(t.Numeric()),
+      totalAmount: t.Optional(t.Numeric()),
       paymentMethod: t.Optional(t.String()),
       notes: t.Optional(t.String()),
       customerName: t.Optional(t.String()),
@@ -34,4 +34,38 @@ export const ordersValidators = {
   getById: {
     params: numericId,
   },
+  getByNumber: {
+    query: t.Object({
+      orderNumber: t.String({ minLength: 1 }),
+    }),
+  },
+  list: {
+    query: t.Composite([
+      paginationQuery,
+      t.Object({
+        status: t.Optional(
+          t.Union([
+            t.Literal('pending'),
+            t.Literal('confirmed'),
+            t.Literal('picking'),
+            t.Literal('ready'),
+            t.Literal('assigned'),
+            t.Literal('picked_up'),
+            t.Literal('in_transit'),
+            t.Literal('delivered'),
+            t.Literal('cancelled'),
+          ])
+        ),
+      }),
+    ]),
+  },
+  payment: {
+    params: numericId,
+  },
+  cancel: {
+    params: numericId,
+    body: t.Object({
+      reason: t.Optional(t.String({ minLength: 1, maxLength: 500 })),
+    }),
+  },
 };
@@ -0,0 +1,339 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import {
+  OrderConflictError,
+  PaymentService,
+  PaymentWebhookError,
+  SimulatedPaymentGateway,
+} from '@lokaly/domain';
+import { paymentsController } from './controller';
+
+/**
+ * Stand-in for the shared Redis cache: values go through JSON, as they do
+ * in CacheService
+ */
+function sharedStore() {
+  const values = new Map<string, string>();
+  return {
+    get: async <T>(key: string) => {
+      const value = values.get(key);
+      return value ? (JSON.parse(value) as T) : null;
+    },
+    set: async (key: string, value: unknown) => {
+      values.set(key, JSON.stringify(value));
+    },
+  };
+}
+
+describe('public-api paymentsController', () => {
+  let mockService: Partial<PaymentService>;
+  let app: ReturnType<typeof paymentsController>;
+
+  beforeEach(() => {
+    mockService = {
+      handleWebhook: async () => null,
+    };
+    app = paymentsController(mockService as PaymentService);
+  });
+
+  const webhook = (rawBody: string) =>
+    app.handle(
+      new Request('http://localhost/payments/webhook', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Simulator-Signature': 't=1,v1=abc',
+        },
+        body: rawBody,
+      })
+    );
+
+  it('should pass the raw body and headers to the payment service', async () => {
+    let received: unknown[] = [];
+    mockService.handleWebhook = async (...args) => {
+      received = args;
+      return { id: 42 } as any;
+    };
+    const rawBody = '{"id":"evt_1", "type":"payment.captured"}';
+
+    const res = await webhook(rawBody);
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ received: true, orderId: 42 });
+    expect(received[0]).toBe(rawBody);
+    expect(received[1]).toMatchObject({
+      'x-simulator-signature': 't=1,v1=abc',
+    });
+  });
+
+  it('should acknowledge unknown transactions', async () => {
+    const res = await webhook('{}');
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ received: true, orderId: null });
+  });
+
+  it('should return 400 for invalid signatures', async () => {
+    mockService.handleWebhook = async () => {
+      throw new PaymentWebhookError('Invalid webhook signature');
+    };
+
+    const res = await webhook('{}');
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe('Invalid webhook signature');
+  });
+
+  it('should return 409 when the order changed meanwhile', async () => {
+    mockService.handleWebhook = async () => {
+      throw new OrderConflictError(1, 'pending');
+    };
+
+    const res = await webhook('{}');
+
+    expect(res.status).toBe(409);
+  });
+
+  it('should reject a capture for less than the order total', async () => {
+    const gateway = new SimulatedPaymentGateway(
+      'test-webhook-secret',
+      sharedStore()
+    );
+    const order = {
+      id: 7,
+      paymentStatus: 'pending',
+      paymentGateway: 'simulator',
+      paymentTransactionId: 'sim_tx',
+      totalAmount: '120.50',
+    };
+    let updated = false;
+    const query = {
+      from: () => query,
+      where: () => query,
+      limit: async () => [order],
+    };
+    const db = {
+      drizzle: {
+        select: () => query,
+        transaction: async () => {
+          updated = true;
+        },
+        update: () => {
+          updated = true;
+        },
+      },
+    };
+    const service = new PaymentService(db as any, gateway);
+    const { rawBody, headers } = gateway.webhookFor(
+      { id: 'sim_tx', amountCents: 100 },
+      'payment.captured'
+    );
+
+    const res = await paymentsController(service).handle(
+      new Request('http://localhost/payments/webhook', {
+        method: 'POST',
+        headers,
+        body: rawBody,
+      })
+    );
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe(
+      'Captured amount 100 does not match the total of order 7 (12050 cents)'
+    );
+    expect(updated).toBe(false);
+  });
+
+  describe('superseded PIX charges', () => {
+    let gateway: SimulatedPaymentGateway;
+    let updates: Array<Record<string, unknown>>;
+
+    beforeEach(() => {
+      gateway = new SimulatedPaymentGateway(
+        'test-webhook-secret',
+        sharedStore()
+      );
+      updates = [];
+    });
+
+    /**
+     * No order points at the paid charge any more; the charge row and the
+     * order are found by txid, in that order
+     */
+    function serviceFor(order: Record<string, unknown>, txid: string) {
+      const results = [
+        [],
+        [{ id: 3, orderId: 7, txid, paidAt: null }],
+        [order],
+      ];
+      const query = {
+        from: () => query,
+        where: () => query,
+        limit: async () => results.shift(),
+      };
+      const update = () => ({
+        set: (values: Record<string, unknown>) => {
+          updates.push(values);
+          return {
+            where: () => ({
+              returning: async () => [{ ...order, ...values }],
+            }),
+          };
+        },
+      });
+      const db = {
+        drizzle: {
+          select: () => query,
+          update,
+          transaction: async (fn: (tx: unknown) => Promise<unknown>) =>
+            fn({ update, insert: () => ({ values: async () => {} }) }),
+        },
+      };
+      return new PaymentService(db as any, gateway);
+    }
+
+    async function payOldCharge() {
+      const charge = await gateway.createPixCharge({
+        orderId: 7,
+        amountCents: 12050,
+        expiresAt: new Date(Date.now() + 60000),
+      });
+      return {
+        txid: charge.transactionId,
+        webhook: await gateway.settle(charge.transactionId, 'approved'),
+      };
+    }
+
+    it('should mark the order paid through the charge that was paid', async () => {
+      const { txid, webhook } = await payOldCharge();
+      const service = serviceFor(
+        {
+          id: 7,
+          paymentStatus: 'pending',
+          paymentGateway: 'simulator',
+          paymentTransactionId: 'SIM_newer_charge',
+          totalAmount: '120.50',
+        },
+        txid
+      );
+
+      const order = await service.handleWebhook(
+        webhook.rawBody,
+        webhook.headers
+      );
+
+      expect(order).toMatchObject({
+        id: 7,
+        paymentStatus: 'paid',
+        paymentTransactionId: txid,
+      });
+      expect(updates[0]).toMatchObject({
+        paymentStatus: 'paid',
+        paymentTransactionId: txid,
+      });
+    });
+
+    it('should refund the charge when the order was already paid', async () => {
+      const { txid, webhook } = await payOldCharge();
+      const service = serviceFor(
+        {
+          id: 7,
+          paymentStatus: 'paid',
+          paymentGateway: 'simulator',
+          paymentTransactionId: 'SIM_newer_charge',
+          totalAmount: '120.50',
+        },
+        txid
+      );
+
+      const order = await service.handleWebhook(
+        webhook.rawBody,
+        webhook.headers
+      );
+
+      expect(order?.paymentTransactionId).toBe('SIM_newer_charge');
+      expect(await gateway.findRefund(txid, 'pix_charge_3')).toMatchObject({
+        amountCents: 12050,
+      });
+      expect(updates).toEqual([{ paidAt: expect.any(Date) }]);
+    });
+  });
+});
+
+describe('SimulatedPaymentGateway', () => {
+  it('should refund a payment made through another instance', async () => {
+    const store = sharedStore();
+    const publicApi = new SimulatedPaymentGateway('test-webhook-secret', store);
+    const worker = new SimulatedPaymentGateway('test-webhook-secret', store);
+
+    const payment = await publicApi.authorize({
+      orderId: 42,
+      amountCents: 4000,
+      currency: 'BRL',
+      capture: true,
+    });
+    const refund = await worker.refund(payment.transactionId, 4000);
+
+    expect(refund).toMatchObject({
+      transactionId: payment.transactionId,
+      amountCents: 4000,
+    });
+    await expect(publicApi.refund(payment.transactionId, 1)).rejects.toThrow(
+      'Refund amount exceeds the captured amount'
+    );
+  });
+
+  it('should find a refund by reference and not repeat it', async () => {
+    const gateway = new SimulatedPaymentGateway(
+      'test-webhook-secret',
+      sharedStore()
+    );
+    const payment = await gateway.authorize({
+      orderId: 42,
+      amountCents: 4000,
+      currency: 'BRL',
+      capture: true,
+    });
+
+    const refund = await gateway.refund(
+      payment.transactionId,
+      1000,
+      'order_cancelled',
+      'refund_5'
+    );
+    const repeated = await gateway.refund(
+      payment.transactionId,
+      1000,
+      'order_cancelled',
+      'refund_5'
+    );
+
+    expect(repeated.refundId).toBe(refund.refundId);
+    expect(
+      await gateway.findRefund(payment.transactionId, 'refund_5')
+    ).toEqual(refund);
+    expect(
+      await gateway.findRefund(payment.transactionId, 'refund_6')
+    ).toBeNull();
+    // Only one of the two requests was refunded
+    await gateway.refund(payment.transactionId, 3000);
+  });
+
+  it('should settle a PIX charge issued by another instance', async () => {
+    const store = sharedStore();
+    const publicApi = new SimulatedPaymentGateway('test-webhook-secret', store);
+    const other = new SimulatedPaymentGateway('test-webhook-secret', store);
+    const charge = await publicApi.createPixCharge({
+      orderId: 42,
+      amountCents: 4000,
+      expiresAt: new Date(Date.now() - 1000),
+    });
+
+    await expect(
+      other.settle(charge.transactionId, 'approved')
+    ).rejects.toThrow(`PIX charge ${charge.transactionId} expired`);
+    const declined = await other.settle(charge.transactionId, 'declined');
+    expect(
+      publicApi.verifyWebhook(declined.rawBody, declined.headers).type
+    ).toBe('payment.declined');
+  });
+});
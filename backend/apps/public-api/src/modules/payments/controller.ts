@@ -0,0 +1,64 @@
+/**
+ * Payments Controller
+ * Webhooks sent by the payment gateway. Unauthenticated: every request is
+ * checked against the gateway signature before it touches an order.
+ */
+
+import { Elysia } from 'elysia';
+import {
+  InvalidPaymentTransitionError,
+  OrderConflictError,
+  PaymentWebhookError,
+  type PaymentService,
+} from '@lokaly/domain';
+import { jsonResponse, errorResponse } from '../../shared/responses';
+import { paymentsValidators } from './validators';
+
+export const paymentsController = (paymentService: PaymentService) =>
+  new Elysia({ prefix: '/payments' }).post(
+    '/webhook',
+    async ({ body, headers }) => {
+      try {
+        const order = await paymentService.handleWebhook(body, headers);
+        return jsonResponse({ received: true, orderId: order?.id ?? null });
+      } catch (error) {
+        if (error instanceof PaymentWebhookError) {
+          return errorResponse(error.message, 400);
+        }
+        if (error instanceof OrderConflictError) {
+          return errorResponse(error.message, 409);
+        }
+        if (error instanceof InvalidPaymentTransitionError) {
+          return errorResponse(error.message, 422);
+        }
+        return errorResponse(
+          error instanceof Error ? error.message : 'Unknown error',
+          500
+        );
+      }
+    },
+    {
+      ...paymentsValidators.webhook,
+      parse: 'text',
+      detail: {
+        tags: ['Payments'],
+        summary: 'Payment gateway webhook',
+        description:
+          'Called by the payment gateway (signed, see PAYMENT_WEBHOOK_SECRET). A confirmed PIX or card payment marks the order paid and emits payment.confirmed. Redelivered webhooks are no-ops; unknown transactions are acknowledged with orderId null.',
+        responses: {
+          200: { description: 'Webhook received' },
+          400: {
+            description:
+              'Invalid signature, malformed payload or a captured amount other than the order total',
+          },
+          409: {
+            description: 'The order changed meanwhile; the gateway retries',
+          },
+          422: {
+            description:
+              'The payment cannot move to the reported status (e.g. already refunded)',
+          },
+        },
+      },
+    }
+  );
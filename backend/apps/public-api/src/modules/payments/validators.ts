@@ -0,0 +1,12 @@
+/**
+ * Payments Validators
+ */
+
+import { t } from 'elysia';
+
+export const paymentsValidators = {
+  webhook: {
+    // Raw body: the gateway signature covers it byte for byte
+    body: t.String(),
+  },
+};
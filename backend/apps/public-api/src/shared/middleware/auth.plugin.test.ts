@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'bun:test';
+import { Elysia } from 'elysia';
+import type { JwtPayload, SessionService } from '@lokaly/auth';
+import { publicAuthPlugin } from './auth.plugin';
+
+function sessionsVerifying(payload: JwtPayload | null): SessionService {
+  return {
+    verifyAccessToken: async (token: string) =>
+      token === 'valid-token' ? payload : null,
+  } as unknown as SessionService;
+}
+
+function appFor(sessionService: SessionService) {
+  return new Elysia()
+    .use(publicAuthPlugin(sessionService))
+    .use(
+      new Elysia({ prefix: '/orders' }).get('/', (context) => ({
+        auth: (context as { auth?: unknown }).auth ?? null,
+      }))
+    );
+}
+
+const request = (token?: string) =>
+  new Request('http://localhost/orders', {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+
+describe('public-api publicAuthPlugin', () => {
+  const customer: JwtPayload = {
+    userId: '5',
+    role: 'customer',
+    email: 'customer@test.com',
+    sid: 'session-1',
+  };
+
+  it('should pass auth to controllers mounted after the plugin', async () => {
+    const res = await appFor(sessionsVerifying(customer)).handle(
+      request('valid-token')
+    );
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).auth).toEqual({
+      userId: '5',
+      role: 'customer',
+      email: 'customer@test.com',
+      sessionId: 'session-1',
+    });
+  });
+
+  it('should leave auth empty without a valid token', async () => {
+    const app = appFor(sessionsVerifying(customer));
+
+    expect((await (await app.handle(request())).json()).auth).toBeNull();
+    expect(
+      (await (await app.handle(request('expired'))).json()).auth
+    ).toBeNull();
+  });
+
+  it('should ignore admin tokens', async () => {
+    const res = await appFor(
+      sessionsVerifying({ ...customer, role: 'admin' })
+    ).handle(request('valid-token'));
+
+    expect((await res.json()).auth).toBeNull();
+  });
+});
@@ -7,11 +7,10 @@
  */
 
 import { Elysia } from 'elysia';
-import { JwtService, RBAC } from '@lokaly/auth';
-import type { Context } from 'elysia';
+import { RBAC, type SessionService } from '@lokaly/auth';
 
-function createPublicAuthDerive(jwtService: JwtService) {
-  return async ({ request }: Context) => {
+function createPublicAuthDerive(sessionService: SessionService) {
+  return async ({ request }: { request: Request }) => {
     const authHeader = request.headers.get('Authorization');
     const token = authHeader?.replace('Bearer ', '');
 
@@ -19,8 +18,9 @@ function createPublicAuthDerive(jwtService: JwtService) {
       return {};
     }
 
-    const payload = await jwtService.verify(token);
-    if (!payload || (payload.tokenType && payload.tokenType !== 'access')) {
+    // Também rejeita tokens de sessões encerradas (logout / troca de senha)
+    const payload = await sessionService.verifyAccessToken(token);
+    if (!payload) {
       return {};
     }
 
@@ -34,12 +34,15 @@ function createPublicAuthDerive(jwtService: JwtService) {
         userId: payload.userId,
         role: payload.role,
         email: payload.email,
+        sessionId: payload.sid,
       },
     };
   };
 }
 
-export const publicAuthPlugin = (jwtService: JwtService) =>
+// Scoped: `auth` reaches the controllers used after the plugin in the group
+export const publicAuthPlugin = (sessionService: SessionService) =>
   new Elysia({ name: 'public-auth' }).derive(
-    createPublicAuthDerive(jwtService)
+    { as: 'scoped' },
+    createPublicAuthDerive(sessionService)
   );
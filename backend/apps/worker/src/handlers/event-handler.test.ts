@@ -0,0 +1,725 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  createEvent,
+  type OrderCreatedEvent,
+  type OrderStatusChangedEvent,
+  type OrderCancelledEvent,
+  type PaymentConfirmedEvent,
+  type DeliveryAssignedEvent,
+  type DeliveryAcceptedEvent,
+  type DeliveryPickedUpEvent,
+  type DeliveryCompletedEvent,
+  type DeliveryRejectedEvent,
+} from '@lokaly/events';
+import {
+  InsufficientStockError,
+  OrderConflictError,
+  InvalidStatusTransitionError,
+  RefundNotAllowedError,
+  RefundGatewayError,
+  type OrderService,
+  type InventoryService,
+  type DeliveryService,
+  type RefundService,
+} from '@lokaly/domain';
+import type { CourierDispatcher } from '../jobs/courier-dispatch';
+import { processEvent, isRetryableError } from './event-handler';
+
+function orderCreated(): OrderCreatedEvent {
+  return createEvent<OrderCreatedEvent>(
+    'order.created',
+    {
+      orderId: '42',
+      customerId: '7',
+      items: [
+        { productId: '3', quantity: 2, price: 10 },
+        { productId: '4', productVariantId: '9', quantity: 5, price: 4 },
+      ],
+      totalAmount: 40,
+      deliveryAddress: 'Rua A, 1',
+    },
+    'test'
+  );
+}
+
+function paymentConfirmed(): PaymentConfirmedEvent {
+  return createEvent<PaymentConfirmedEvent>(
+    'payment.confirmed',
+    {
+      orderId: '42',
+      transactionId: 'SIM123',
+      gateway: 'simulator',
+      paymentMethod: 'pix',
+      amount: 40,
+      confirmedAt: Date.now(),
+    },
+    'test'
+  );
+}
+
+describe('worker event handlers', () => {
+  describe('order.created', () => {
+    it('should reserve each item with its variant and confirm the order', async () => {
+      const reserved: unknown[][] = [];
+      const statusUpdates: Array<[number, string]> = [];
+
+      await processEvent(orderCreated(), {
+        orderService: {
+          getOrderById: async () => ({ id: 42, status: 'pending' }),
+          updateOrderStatus: async (orderId: number, status: string) => {
+            statusUpdates.push([orderId, status]);
+          },
+        } as unknown as OrderService,
+        inventoryService: {
+          reserveInventory: async (...args: unknown[]) => {
+            reserved.push(args);
+            return reserved.length;
+          },
+        } as unknown as InventoryService,
+        deliveryService: {} as DeliveryService,
+        refundService: {} as RefundService,
+        courierDispatcher: {} as CourierDispatcher,
+      });
+
+      expect(reserved).toEqual([
+        [42, 3, 2, { productVariantId: undefined }],
+        [42, 4, 5, { productVariantId: 9 }],
+      ]);
+      expect(statusUpdates).toEqual([[42, 'confirmed']]);
+    });
+
+    it('should release reservations and cancel the order when out of stock', async () => {
+      const released: Array<[number, string]> = [];
+      const cancelled: Array<[number, string]> = [];
+      let confirmed = false;
+
+      await processEvent(orderCreated(), {
+        orderService: {
+          updateOrderStatus: async () => {
+            confirmed = true;
+          },
+          cancelOrder: async (orderId: number, reason: string) => {
+            cancelled.push([orderId, reason]);
+          },
+        } as unknown as OrderService,
+        inventoryService: {
+          reserveInventory: async (_orderId: number, productId: number) => {
+            if (productId === 4) {
+              throw new InsufficientStockError(4, 5, 9);
+            }
+            return 100;
+          },
+          releaseReservation: async (id: number, reason: string) => {
+            released.push([id, reason]);
+          },
+        } as unknown as InventoryService,
+        deliveryService: {} as DeliveryService,
+        refundService: {} as RefundService,
+        courierDispatcher: {} as CourierDispatcher,
+      });
+
+      expect(released).toEqual([[100, 'insufficient_stock']]);
+      expect(cancelled).toEqual([
+        [42, 'Insufficient stock for product 4 (variant 9): requested 5'],
+      ]);
+      expect(confirmed).toBe(false);
+    });
+
+    it('should release the reservations when the order was cancelled meanwhile', async () => {
+      const released: Array<[number, string]> = [];
+      let confirmed = false;
+
+      await processEvent(orderCreated(), {
+        orderService: {
+          getOrderById: async () => ({ id: 42, status: 'cancelled' }),
+          updateOrderStatus: async () => {
+            confirmed = true;
+          },
+        } as unknown as OrderService,
+        inventoryService: {
+          reserveInventory: async (_orderId: number, productId: number) =>
+            productId * 10,
+          releaseReservation: async (id: number, reason: string) => {
+            released.push([id, reason]);
+          },
+        } as unknown as InventoryService,
+        deliveryService: {} as DeliveryService,
+        refundService: {} as RefundService,
+        courierDispatcher: {} as CourierDispatcher,
+      });
+
+      expect(released).toEqual([
+        [30, 'order_cancelled'],
+        [40, 'order_cancelled'],
+      ]);
+      expect(confirmed).toBe(false);
+    });
+
+    it('should not confirm twice after a retried lost race', async () => {
+      let confirmed = false;
+
+      await processEvent(orderCreated(), {
+        orderService: {
+          getOrderById: async () => ({ id: 42, status: 'confirmed' }),
+          updateOrderStatus: async () => {
+            confirmed = true;
+          },
+        } as unknown as OrderService,
+        inventoryService: {
+          reserveInventory: async () => 1,
+        } as unknown as InventoryService,
+        deliveryService: {} as DeliveryService,
+        refundService: {} as RefundService,
+        courierDispatcher: {} as CourierDispatcher,
+      });
+
+      expect(confirmed).toBe(false);
+    });
+
+    it('should leave unpaid PIX orders pending', async () => {
+      let confirmed = false;
+
+      await processEvent(orderCreated(), {
+        orderService: {
+          getOrderById: async () => ({
+            id: 42,
+            status: 'pending',
+            paymentMethod: 'pix',
+            paymentStatus: 'pending',
+          }),
+          updateOrderStatus: async () => {
+            confirmed = true;
+          },
+        } as unknown as OrderService,
+        inventoryService: {
+          reserveInventory: async () => 1,
+        } as unknown as InventoryService,
+        deliveryService: {} as DeliveryService,
+        refundService: {} as RefundService,
+        courierDispatcher: {} as CourierDispatcher,
+      });
+
+      expect(confirmed).toBe(false);
+    });
+
+    it('should rethrow other reservation errors so the event is retried', async () => {
+      const services = {
+        orderService: {} as OrderService,
+        inventoryService: {
+          reserveInventory: async () => {
+            throw new Error('connection reset');
+          },
+        } as unknown as InventoryService,
+        deliveryService: {} as DeliveryService,
+        refundService: {} as RefundService,
+        courierDispatcher: {} as CourierDispatcher,
+      };
+
+      expect(processEvent(orderCreated(), services)).rejects.toThrow(
+        'connection reset'
+      );
+    });
+  });
+
+  describe('payment.confirmed', () => {
+    const items = [
+      { id: 1, productId: 3, productVariantId: null, quantity: 2 },
+      { id: 2, productId: 4, productVariantId: 9, quantity: 5 },
+      { id: 3, productId: 3, productVariantId: null, quantity: 1 },
+    ];
+
+    function servicesFor(
+      status: string,
+      reservationStatuses: string[],
+      statusUpdates: Array<[number, string]>
+    ) {
+      return {
+        orderService: {
+          getOrderById: async () => ({ id: 42, status, items }),
+          updateOrderStatus: async (orderId: number, newStatus: string) => {
+            statusUpdates.push([orderId, newStatus]);
+          },
+        } as unknown as OrderService,
+        inventoryService: {
+          findByOrderId: async () =>
+            reservationStatuses.map((reservationStatus, index) => ({
+              id: index + 1,
+              productId: items[index]!.productId,
+              productVariantId: items[index]!.productVariantId,
+              status: reservationStatus,
+            })),
+        } as unknown as InventoryService,
+        deliveryService: {} as DeliveryService,
+        refundService: {} as RefundService,
+        courierDispatcher: {} as CourierDispatcher,
+      };
+    }
+
+    it('should confirm the pending order once its stock is reserved', async () => {
+      const statusUpdates: Array<[number, string]> = [];
+
+      await processEvent(
+        paymentConfirmed(),
+        servicesFor('pending', ['reserved', 'reserved'], statusUpdates)
+      );
+
+      expect(statusUpdates).toEqual([[42, 'confirmed']]);
+    });
+
+    it('should fail so it is retried while stock is not reserved yet', async () => {
+      const statusUpdates: Array<[number, string]> = [];
+
+      await expect(
+        processEvent(
+          paymentConfirmed(),
+          servicesFor('pending', ['reserved'], statusUpdates)
+        )
+      ).rejects.toThrow('Stock of order 42 is not reserved yet');
+      expect(statusUpdates).toEqual([]);
+    });
+
+    it('should reserve expired stock again for a late payment', async () => {
+      const statusUpdates: Array<[number, string]> = [];
+      const reserved: unknown[][] = [];
+      const services = servicesFor(
+        'pending',
+        ['released', 'reserved'],
+        statusUpdates
+      );
+      services.inventoryService.reserveInventory = async (
+        ...args: unknown[]
+      ) => {
+        reserved.push(args);
+        return 10;
+      };
+
+      await processEvent(paymentConfirmed(), services);
+
+      expect(reserved).toEqual([[42, 3, 3, { productVariantId: undefined }]]);
+      expect(statusUpdates).toEqual([[42, 'confirmed']]);
+    });
+
+    it('should cancel a late payment whose stock is gone', async () => {
+      const statusUpdates: Array<[number, string]> = [];
+      const cancelled: Array<[number, string]> = [];
+      const services = servicesFor(
+        'pending',
+        ['released', 'released'],
+        statusUpdates
+      );
+      services.inventoryService.reserveInventory = async () => {
+        throw new InsufficientStockError(3, 3);
+      };
+      services.orderService.cancelOrder = async (
+        orderId: number,
+        reason: string
+      ) => {
+        cancelled.push([orderId, reason]);
+      };
+
+      await processEvent(paymentConfirmed(), services);
+
+      expect(cancelled).toEqual([
+        [42, 'Insufficient stock for product 3: requested 3'],
+      ]);
+      expect(statusUpdates).toEqual([]);
+    });
+
+    it('should leave confirmed orders alone', async () => {
+      const statusUpdates: Array<[number, string]> = [];
+
+      await processEvent(
+        paymentConfirmed(),
+        servicesFor('confirmed', ['reserved', 'reserved'], statusUpdates)
+      );
+
+      expect(statusUpdates).toEqual([]);
+    });
+
+    it('should refund orders cancelled before the payment', async () => {
+      const statusUpdates: Array<[number, string]> = [];
+      const refunds: unknown[][] = [];
+      const services = {
+        ...servicesFor('cancelled', ['released', 'released'], statusUpdates),
+        refundService: {
+          refundOrder: async (...args: unknown[]) => {
+            refunds.push(args);
+            return { id: 1, amount: '40.00' };
+          },
+        } as unknown as RefundService,
+      };
+
+      await processEvent(paymentConfirmed(), services);
+
+      expect(statusUpdates).toEqual([]);
+      expect(refunds).toEqual([
+        [42, { reason: 'order_cancelled', notes: undefined }],
+      ]);
+    });
+  });
+
+  describe('order.cancelled', () => {
+    const cancelled = () =>
+      createEvent<OrderCancelledEvent>(
+        'order.cancelled',
+        { orderId: '42', reason: 'Customer request', cancelledBy: '5' },
+        'test'
+      );
+    const noDeliveries = () =>
+      ({ findByOrderId: async () => [] }) as unknown as DeliveryService;
+
+    it('should release only the reservations still held', async () => {
+      const released: Array<[number, string, string | undefined]> = [];
+      const services = {
+        orderService: {} as OrderService,
+        inventoryService: {
+          findByOrderId: async () => [
+            { id: 1, status: 'reserved' },
+            { id: 2, status: 'released' },
+            { id: 3, status: 'reserved' },
+          ],
+          releaseReservation: async (
+            id: number,
+            reason: string,
+            releasedBy?: string
+          ) => {
+            released.push([id, reason, releasedBy]);
+          },
+        } as unknown as InventoryService,
+        deliveryService: noDeliveries(),
+        refundService: {
+          refundOrder: async () => null,
+        } as unknown as RefundService,
+        courierDispatcher: {} as CourierDispatcher,
+      };
+
+      await processEvent(cancelled(), services);
+
+      expect(released).toEqual([
+        [1, 'order_cancelled', '5'],
+        [3, 'order_cancelled', '5'],
+      ]);
+    });
+
+    it('should refund what was paid', async () => {
+      const refunds: unknown[][] = [];
+
+      await processEvent(cancelled(), {
+        orderService: {} as OrderService,
+        inventoryService: {
+          findByOrderId: async () => [],
+        } as unknown as InventoryService,
+        deliveryService: noDeliveries(),
+        refundService: {
+          refundOrder: async (...args: unknown[]) => {
+            refunds.push(args);
+            return null;
+          },
+        } as unknown as RefundService,
+        courierDispatcher: {} as CourierDispatcher,
+      });
+
+      expect(refunds).toEqual([
+        [42, { reason: 'order_cancelled', notes: 'Customer request' }],
+      ]);
+    });
+
+    it('should still release the stock when refunds are off', async () => {
+      const released: number[] = [];
+
+      await processEvent(cancelled(), {
+        orderService: {} as OrderService,
+        inventoryService: {
+          findByOrderId: async () => [{ id: 1, status: 'reserved' }],
+          releaseReservation: async (id: number) => {
+            released.push(id);
+          },
+        } as unknown as InventoryService,
+        deliveryService: noDeliveries(),
+        refundService: null,
+        courierDispatcher: {} as CourierDispatcher,
+      });
+
+      expect(released).toEqual([1]);
+    });
+
+    it('should cancel deliveries still open', async () => {
+      const cancelledDeliveries: Array<[number, string]> = [];
+
+      await processEvent(cancelled(), {
+        orderService: {} as OrderService,
+        inventoryService: {
+          findByOrderId: async () => [],
+        } as unknown as InventoryService,
+        deliveryService: {
+          findByOrderId: async () => [
+            { id: 7, courierId: 2, status: 'rejected' },
+            { id: 8, courierId: 3, status: 'picked_up' },
+          ],
+          cancel: async (id: number, reason: string) => {
+            cancelledDeliveries.push([id, reason]);
+          },
+        } as unknown as DeliveryService,
+        refundService: null,
+        courierDispatcher: {} as CourierDispatcher,
+      });
+
+      expect(cancelledDeliveries).toEqual([[8, 'order_cancelled']]);
+    });
+  });
+
+  describe('order.status_changed', () => {
+    it('should fulfill reservations when the order is delivered', async () => {
+      const fulfilled: number[] = [];
+
+      await processEvent(
+        createEvent<OrderStatusChangedEvent>(
+          'order.status_changed',
+          { orderId: '42', previousStatus: 'in_transit', newStatus: 'delivered' },
+          'test'
+        ),
+        {
+          orderService: {} as OrderService,
+          inventoryService: {
+            fulfillReservations: async (orderId: number) => {
+              fulfilled.push(orderId);
+              return 1;
+            },
+          } as unknown as InventoryService,
+          deliveryService: {} as DeliveryService,
+          refundService: {} as RefundService,
+        courierDispatcher: {} as CourierDispatcher,
+        }
+      );
+
+      expect(fulfilled).toEqual([42]);
+    });
+
+    it('should dispatch a courier when the order is ready', async () => {
+      const dispatched: number[] = [];
+
+      await processEvent(
+        createEvent<OrderStatusChangedEvent>(
+          'order.status_changed',
+          { orderId: '42', previousStatus: 'picking', newStatus: 'ready' },
+          'test'
+        ),
+        {
+          orderService: {} as OrderService,
+          inventoryService: {} as InventoryService,
+          deliveryService: {} as DeliveryService,
+          refundService: {} as RefundService,
+          courierDispatcher: {
+            dispatch: async (orderId: number) => {
+              dispatched.push(orderId);
+              return null;
+            },
+          } as unknown as CourierDispatcher,
+        }
+      );
+
+      expect(dispatched).toEqual([42]);
+    });
+  });
+
+  describe('delivery events', () => {
+    function orderServiceWithStatus(
+      status: string,
+      updates: Array<[number, string]>
+    ): OrderService {
+      return {
+        getOrderById: async (orderId: number) => ({ id: orderId, status }),
+        updateOrderStatus: async (orderId: number, newStatus: string) => {
+          updates.push([orderId, newStatus]);
+        },
+      } as unknown as OrderService;
+    }
+
+    it('should mark the order delivered on delivery.completed', async () => {
+      const updates: Array<[number, string]> = [];
+
+      await processEvent(
+        createEvent<DeliveryCompletedEvent>(
+          'delivery.completed',
+          {
+            assignmentId: '8',
+            orderId: '42',
+            courierId: '3',
+            completedAt: Date.now(),
+          },
+          'test'
+        ),
+        {
+          orderService: orderServiceWithStatus('in_transit', updates),
+          inventoryService: {} as InventoryService,
+          deliveryService: {} as DeliveryService,
+          refundService: {} as RefundService,
+        courierDispatcher: {} as CourierDispatcher,
+        }
+      );
+
+      expect(updates).toEqual([[42, 'delivered']]);
+    });
+
+    it('should keep the order ready while the offer is unanswered', async () => {
+      const updates: Array<[number, string]> = [];
+
+      await processEvent(
+        createEvent<DeliveryAssignedEvent>(
+          'delivery.assigned',
+          { assignmentId: '8', orderId: '42', courierId: '3' },
+          'test'
+        ),
+        {
+          orderService: orderServiceWithStatus('ready', updates),
+          inventoryService: {} as InventoryService,
+          deliveryService: {} as DeliveryService,
+          refundService: {} as RefundService,
+          courierDispatcher: {} as CourierDispatcher,
+        }
+      );
+
+      expect(updates).toEqual([]);
+    });
+
+    it('should mark the order assigned once the courier accepts', async () => {
+      const updates: Array<[number, string]> = [];
+
+      await processEvent(
+        createEvent<DeliveryAcceptedEvent>(
+          'delivery.accepted',
+          {
+            assignmentId: '8',
+            orderId: '42',
+            courierId: '3',
+            acceptedAt: Date.now(),
+          },
+          'test'
+        ),
+        {
+          orderService: orderServiceWithStatus('ready', updates),
+          inventoryService: {} as InventoryService,
+          deliveryService: {} as DeliveryService,
+          refundService: {} as RefundService,
+          courierDispatcher: {} as CourierDispatcher,
+        }
+      );
+
+      expect(updates).toEqual([[42, 'assigned']]);
+    });
+
+    it('should apply skipped statuses when events arrive out of order', async () => {
+      const updates: Array<[number, string]> = [];
+
+      await processEvent(
+        createEvent<DeliveryPickedUpEvent>(
+          'delivery.picked_up',
+          {
+            assignmentId: '8',
+            orderId: '42',
+            courierId: '3',
+            pickedUpAt: Date.now(),
+          },
+          'test'
+        ),
+        {
+          orderService: orderServiceWithStatus('ready', updates),
+          inventoryService: {} as InventoryService,
+          deliveryService: {} as DeliveryService,
+          refundService: {} as RefundService,
+          courierDispatcher: {} as CourierDispatcher,
+        }
+      );
+
+      expect(updates).toEqual([
+        [42, 'assigned'],
+        [42, 'picked_up'],
+      ]);
+    });
+
+    it('should skip the update when the order already has the status', async () => {
+      const updates: Array<[number, string]> = [];
+
+      await processEvent(
+        createEvent<DeliveryAcceptedEvent>(
+          'delivery.accepted',
+          {
+            assignmentId: '8',
+            orderId: '42',
+            courierId: '3',
+            acceptedAt: Date.now(),
+          },
+          'test'
+        ),
+        {
+          orderService: orderServiceWithStatus('assigned', updates),
+          inventoryService: {} as InventoryService,
+          deliveryService: {} as DeliveryService,
+          refundService: {} as RefundService,
+        courierDispatcher: {} as CourierDispatcher,
+        }
+      );
+
+      expect(updates).toEqual([]);
+    });
+
+    it('should re-offer the order when a courier rejects it', async () => {
+      const dispatched: number[] = [];
+
+      await processEvent(
+        createEvent<DeliveryRejectedEvent>(
+          'delivery.rejected',
+          {
+            assignmentId: '8',
+            orderId: '42',
+            courierId: '3',
+            reason: 'offer_timeout',
+            rejectedAt: Date.now(),
+          },
+          'test'
+        ),
+        {
+          orderService: {} as OrderService,
+          inventoryService: {} as InventoryService,
+          deliveryService: {} as DeliveryService,
+          refundService: {} as RefundService,
+          courierDispatcher: {
+            dispatch: async (orderId: number) => {
+              dispatched.push(orderId);
+              return null;
+            },
+          } as unknown as CourierDispatcher,
+        }
+      );
+
+      expect(dispatched).toEqual([42]);
+    });
+  });
+
+  describe('isRetryableError', () => {
+    it('should retry lost races and transient failures', () => {
+      expect(isRetryableError(new OrderConflictError(42, 'pending'))).toBe(
+        true
+      );
+      expect(isRetryableError(new Error('connection reset'))).toBe(true);
+    });
+
+    it('should not retry out of stock failures, invalid transitions or refused refunds', () => {
+      expect(isRetryableError(new InsufficientStockError(3, 2))).toBe(false);
+      // e.g. a delivery event for an order cancelled meanwhile
+      expect(
+        isRetryableError(
+          new InvalidStatusTransitionError(42, 'cancelled', 'picked_up')
+        )
+      ).toBe(false);
+      expect(
+        isRetryableError(
+          new RefundNotAllowedError(42, 'Order was not paid through the gateway')
+        )
+      ).toBe(false);
+      expect(
+        isRetryableError(new RefundGatewayError(5, 'Unknown payment sim_1'))
+      ).toBe(false);
+    });
+  });
+});
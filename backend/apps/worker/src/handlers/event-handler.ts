@@ -6,14 +6,53 @@
  */
 
 import type { DomainEvent } from "@lokaly/events";
-import { OrderService, InventoryService, DeliveryService } from "@lokaly/domain";
+import {
+  OrderService,
+  type OrderStatus,
+  type OrderActor,
+  InventoryService,
+  DeliveryService,
+  RefundService,
+  InsufficientStockError,
+  InvalidStatusTransitionError,
+  OrderConflictError,
+  RefundNotAllowedError,
+  RefundGatewayError,
+} from "@lokaly/domain";
+import type { CourierDispatcher } from "../jobs/courier-dispatch";
 
 type Services = {
   orderService: OrderService;
   inventoryService: InventoryService;
   deliveryService: DeliveryService;
+  refundService: RefundService | null; // null: no payment gateway
+  courierDispatcher: CourierDispatcher;
 };
 
+/**
+ * Whether a failed event is worth another attempt
+ * - OrderConflictError: yes, another writer won the race; handlers re-read
+ *   the order and re-validate on the next attempt
+ * - InsufficientStockError, InvalidStatusTransitionError,
+ *   RefundNotAllowedError: no, the outcome would be the same (delivery
+ *   events handled out of order catch the order up instead)
+ * - RefundGatewayError: no, the refund is already recorded as failed and
+ *   another attempt would add one more; it is retried from the dead
+ *   letter queue or refunded by hand
+ * - Anything else: yes (database or network trouble)
+ */
+export function isRetryableError(error: Error): boolean {
+  if (error instanceof OrderConflictError) {
+    return true;
+  }
+  return !(
+    error instanceof InsufficientStockError ||
+    error instanceof InvalidStatusTransitionError ||
+    error instanceof RefundNotAllowedError ||
+    error instanceof RefundGatewayError
+  );
+}
+
 /**
  * Process a domain event
  * Routes events to appropriate handlers
@@ -35,6 +74,10 @@ export async function processEvent(
       await handleOrderCancelled(event, services);
       break;
 
+    case "payment.confirmed":
+      await handlePaymentConfirmed(event, services);
+      break;
+
     case "inventory.reserved":
       await handleInventoryReserved(event, services);
       break;
@@ -43,6 +86,17 @@ export async function processEvent(
       await handleDeliveryAssigned(event, services);
       break;
 
+    case "delivery.rejected":
+      await handleDeliveryRejected(event, services);
+      break;
+
+    case "delivery.accepted":
+    case "delivery.picked_up":
+    case "delivery.in_transit":
+    case "delivery.completed":
+      await handleDeliveryProgress(event, services);
+      break;
+
     default:
       console.log(`[Event Handler] Unhandled event type: ${event.type}`);
   }
@@ -53,28 +107,196 @@ export async function processEvent(
  * Business Logic:
  * - Reserve inventory for all items
  * - Transition order to "confirmed" status
+ * - Out of stock: release what was reserved and cancel the order
+ *   (no retry, the outcome would be the same)
+ * - Order cancelled meanwhile: release the reservations instead; already
+ *   confirmed (redelivery or a retried lost race): nothing left to do
+ * - Unpaid PIX orders stay pending, holding the reservations, until
+ *   payment.confirmed
  */
 async function handleOrderCreated(
   event: DomainEvent & { type: "order.created" },
   services: Services
 ): Promise<void> {
   const { orderService, inventoryService } = services;
+  const orderId = Number(event.payload.orderId);
 
-  // Reserve inventory for each item
-  for (const item of event.payload.items) {
-    await inventoryService.reserveInventory(
-      event.payload.orderId,
-      item.productId,
-      item.quantity
+  // Reserve inventory for each product/variant
+  const reservationIds: number[] = [];
+  try {
+    for (const line of reservationLines(event.payload.items)) {
+      const reservationId = await inventoryService.reserveInventory(
+        orderId,
+        line.productId,
+        line.quantity,
+        { productVariantId: line.productVariantId }
+      );
+      reservationIds.push(reservationId);
+    }
+  } catch (error) {
+    if (!(error instanceof InsufficientStockError)) {
+      throw error;
+    }
+
+    console.log(
+      `[Event Handler] Order ${orderId} cannot be fulfilled: ${error.message}`
     );
+    for (const reservationId of reservationIds) {
+      await inventoryService.releaseReservation(
+        reservationId,
+        "insufficient_stock"
+      );
+    }
+    await orderService.cancelOrder(orderId, error.message);
+    return;
+  }
+
+  const order = await orderService.getOrderById(orderId);
+  if (!order) {
+    throw new Error(`Order ${orderId} not found`);
+  }
+
+  if (order.status === "cancelled") {
+    for (const reservationId of reservationIds) {
+      await inventoryService.releaseReservation(
+        reservationId,
+        "order_cancelled"
+      );
+    }
+    return;
+  }
+
+  if (order.status !== "pending") {
+    return;
+  }
+
+  if (order.paymentMethod === "pix" && order.paymentStatus !== "paid") {
+    console.log(`[Event Handler] Order ${orderId} awaiting PIX payment`);
+    return;
   }
 
   // Transition order to confirmed status
-  await orderService.updateOrderStatus(
-    event.payload.orderId,
-    "confirmed",
-    "system"
+  await orderService.updateOrderStatus(orderId, "confirmed");
+}
+
+/**
+ * Handle payment.confirmed event
+ * Business Logic:
+ * - Confirm the pending order once its stock is reserved
+ * - Stock not reserved yet (order.created still running): fail so the
+ *   event is retried; order.created confirms paid orders itself
+ * - Reservations released meanwhile (expired before a late PIX payment):
+ *   reserve the stock again; out of stock, cancel the order, which
+ *   refunds it (order.cancelled)
+ * - Already confirmed or further along: nothing left to do
+ * - Cancelled meanwhile (paid after the cancellation): refund it in full
+ */
+async function handlePaymentConfirmed(
+  event: DomainEvent & { type: "payment.confirmed" },
+  services: Services
+): Promise<void> {
+  const { orderService, inventoryService } = services;
+  const orderId = Number(event.payload.orderId);
+
+  const order = await orderService.getOrderById(orderId);
+  if (!order) {
+    throw new Error(`Order ${orderId} not found`);
+  }
+
+  if (order.status === "cancelled") {
+    await refundCancelledOrder(services, orderId, order.cancellationReason);
+    return;
+  }
+
+  if (order.status !== "pending") {
+    return;
+  }
+
+  const reservations = await inventoryService.findByOrderId(orderId);
+  const lines = reservationLines(order.items);
+  const held = new Set(reservations.map(reservationKey));
+  if (lines.some((line) => !held.has(reservationKey(line)))) {
+    throw new Error(`Stock of order ${orderId} is not reserved yet`);
+  }
+
+  const reserved = new Set(
+    reservations
+      .filter((reservation) => reservation.status === "reserved")
+      .map(reservationKey)
   );
+  const released = lines.filter((line) => !reserved.has(reservationKey(line)));
+
+  try {
+    for (const line of released) {
+      await inventoryService.reserveInventory(
+        orderId,
+        line.productId,
+        line.quantity,
+        { productVariantId: line.productVariantId }
+      );
+    }
+  } catch (error) {
+    if (!(error instanceof InsufficientStockError)) {
+      throw error;
+    }
+
+    console.log(
+      `[Event Handler] Paid order ${orderId} cannot be fulfilled: ${error.message}`
+    );
+    await orderService.cancelOrder(orderId, error.message);
+    return;
+  }
+
+  await orderService.updateOrderStatus(orderId, "confirmed");
+
+  console.log(
+    `[Event Handler] Order ${orderId} paid (${event.payload.paymentMethod ?? event.payload.gateway}), confirmed`
+  );
+}
+
+type ReservationLine = {
+  productId: number;
+  productVariantId?: number;
+  quantity: number;
+};
+
+/**
+ * Quantities to reserve per product/variant
+ * Reservations are kept one per order/product/variant, so repeated lines
+ * of the same product are added up.
+ */
+function reservationLines(
+  items: Array<{
+    productId: number | string;
+    productVariantId?: number | string | null;
+    quantity: number;
+  }>
+): ReservationLine[] {
+  const lines = new Map<string, ReservationLine>();
+  for (const item of items) {
+    const line: ReservationLine = {
+      productId: Number(item.productId),
+      productVariantId: item.productVariantId
+        ? Number(item.productVariantId)
+        : undefined,
+      quantity: item.quantity,
+    };
+    const key = reservationKey(line);
+    const existing = lines.get(key);
+    if (existing) {
+      existing.quantity += line.quantity;
+    } else {
+      lines.set(key, line);
+    }
+  }
+  return [...lines.values()];
+}
+
+function reservationKey(line: {
+  productId: number;
+  productVariantId?: number | null;
+}): string {
+  return `${line.productId}:${line.productVariantId ?? ""}`;
 }
 
 /**
@@ -82,39 +304,110 @@ async function handleOrderCreated(
  * Business Logic:
  * - Trigger notifications
  * - Update related entities
+ * - Offer ready orders to a courier
+ * - Deduct reserved stock once the order is delivered
  */
 async function handleOrderStatusChanged(
   event: DomainEvent & { type: "order.status_changed" },
   services: Services
 ): Promise<void> {
+  const { inventoryService, courierDispatcher } = services;
+
   // In production, send notifications here
   console.log(
     `[Event Handler] Order ${event.payload.orderId} status changed: ${event.payload.previousStatus} -> ${event.payload.newStatus}`
   );
 
-  // Example: Auto-assign delivery when order is ready
   if (event.payload.newStatus === "ready") {
-    // In production, implement courier assignment logic
-    console.log(`[Event Handler] Order ${event.payload.orderId} is ready for delivery assignment`);
+    await courierDispatcher.dispatch(Number(event.payload.orderId));
+  }
+
+  // Delivered goods leave the warehouse: reservations become deductions
+  if (event.payload.newStatus === "delivered") {
+    await inventoryService.fulfillReservations(Number(event.payload.orderId));
   }
 }
 
 /**
  * Handle order.cancelled event
  * Business Logic:
- * - Release all inventory reservations
+ * - Release all inventory reservations still held by the order
+ * - Cancel the delivery assignment (pending offer or courier on the way)
+ * - Refund whatever was paid and not refunded yet
+ * - Idempotent: released/fulfilled reservations and closed assignments are
+ *   skipped, and releaseReservation re-checks the status under a row lock;
+ *   nothing is refunded twice
  */
 async function handleOrderCancelled(
   event: DomainEvent & { type: "order.cancelled" },
   services: Services
 ): Promise<void> {
-  const { inventoryService } = services;
+  const { inventoryService, deliveryService } = services;
+  const orderId = Number(event.payload.orderId);
+
+  const reservations = await inventoryService.findByOrderId(orderId);
+  const active = reservations.filter(
+    (reservation) => reservation.status === "reserved"
+  );
+
+  for (const reservation of active) {
+    await inventoryService.releaseReservation(
+      reservation.id,
+      "order_cancelled",
+      event.payload.cancelledBy
+    );
+  }
 
-  // In production, fetch reservations and release them
-  // For now, this is a placeholder
   console.log(
-    `[Event Handler] Order ${event.payload.orderId} cancelled, releasing inventory`
+    `[Event Handler] Order ${orderId} cancelled, released ${active.length} reservation(s)`
   );
+
+  const assignments = await deliveryService.findByOrderId(orderId);
+  for (const assignment of assignments) {
+    if (CLOSED_ASSIGNMENT_STATUSES.includes(assignment.status)) {
+      continue;
+    }
+    await deliveryService.cancel(assignment.id, "order_cancelled");
+    console.log(
+      `[Event Handler] Order ${orderId} cancelled, cancelled delivery ${assignment.id} of courier ${assignment.courierId}`
+    );
+  }
+
+  await refundCancelledOrder(services, orderId, event.payload.reason);
+}
+
+/**
+ * Assignment statuses that need no cancellation
+ */
+const CLOSED_ASSIGNMENT_STATUSES = ["rejected", "cancelled", "delivered"];
+
+/**
+ * Refund what is left of a cancelled order's payment
+ * (no-op for unpaid or already refunded orders, and without a payment
+ * gateway, when automatic refunds are off)
+ */
+async function refundCancelledOrder(
+  services: Services,
+  orderId: number,
+  reason: string | null | undefined
+): Promise<void> {
+  if (!services.refundService) {
+    console.warn(
+      `[Event Handler] Order ${orderId} cancelled, automatic refunds are off (no payment gateway)`
+    );
+    return;
+  }
+
+  const refund = await services.refundService.refundOrder(orderId, {
+    reason: "order_cancelled",
+    notes: reason ?? undefined,
+  });
+
+  if (refund) {
+    console.log(
+      `[Event Handler] Order ${orderId} cancelled, refunded ${refund.amount}`
+    );
+  }
 }
 
 /**
@@ -137,23 +430,106 @@ async function handleInventoryReserved(
 /**
  * Handle delivery.assigned event
  * Business Logic:
- * - Update order status
- * - Send notifications
+ * - Send notifications (the courier has been offered the order)
+ * - The order stays ready until the courier accepts (delivery.accepted)
  */
 async function handleDeliveryAssigned(
   event: DomainEvent & { type: "delivery.assigned" },
   services: Services
 ): Promise<void> {
-  const { orderService } = services;
+  console.log(
+    `[Event Handler] Delivery offered: Order ${event.payload.orderId} to courier ${event.payload.courierId}`
+  );
+}
 
-  await orderService.updateOrderStatus(
-    event.payload.orderId,
-    "assigned",
-    "system"
+/**
+ * Handle delivery.rejected event
+ * Business Logic:
+ * - Re-offer the order to the next ranked courier (explicit rejection
+ *   or offer timeout)
+ */
+async function handleDeliveryRejected(
+  event: DomainEvent & { type: "delivery.rejected" },
+  services: Services
+): Promise<void> {
+  console.log(
+    `[Event Handler] Courier ${event.payload.courierId} rejected order ${event.payload.orderId}: ${event.payload.reason}`
+  );
+
+  await services.courierDispatcher.dispatch(Number(event.payload.orderId));
+}
+
+/**
+ * Order status mirrored by each delivery progress event
+ */
+const DELIVERY_ORDER_STATUS = {
+  "delivery.accepted": "assigned",
+  "delivery.picked_up": "picked_up",
+  "delivery.in_transit": "in_transit",
+  "delivery.completed": "delivered",
+} as const satisfies Record<string, OrderStatus>;
+
+/**
+ * Handle delivery.accepted / delivery.picked_up / delivery.in_transit /
+ * delivery.completed
+ * Business Logic:
+ * - Move the order along with its delivery assignment
+ */
+async function handleDeliveryProgress(
+  event: DomainEvent & { type: keyof typeof DELIVERY_ORDER_STATUS },
+  services: Services
+): Promise<void> {
+  const status = DELIVERY_ORDER_STATUS[event.type];
+
+  await syncOrderStatus(
+    services.orderService,
+    Number(event.payload.orderId),
+    status,
+    { type: "courier", courierId: Number(event.payload.courierId) }
   );
 
   console.log(
-    `[Event Handler] Delivery assigned: Order ${event.payload.orderId} to courier ${event.payload.courierId}`
+    `[Event Handler] Delivery ${event.payload.assignmentId} of order ${event.payload.orderId}: ${status}`
   );
 }
 
+/**
+ * Order statuses along a delivery, in order
+ */
+const DELIVERY_PATH: OrderStatus[] = [
+  "ready",
+  "assigned",
+  "picked_up",
+  "in_transit",
+  "delivered",
+];
+
+/**
+ * Move an order along the delivery path up to the given status
+ * - Already there or further along (redelivered event): nothing to do
+ * - Steps that were skipped (events handled out of order) are applied
+ *   first, so each transition stays valid
+ * - Off the path (e.g. cancelled): updateOrderStatus rejects the transition
+ */
+async function syncOrderStatus(
+  orderService: OrderService,
+  orderId: number,
+  status: OrderStatus,
+  changedBy: OrderActor
+): Promise<void> {
+  const order = await orderService.getOrderById(orderId);
+  if (!order) {
+    throw new Error(`Order ${orderId} not found`);
+  }
+
+  const current = DELIVERY_PATH.indexOf(order.status as OrderStatus);
+  const target = DELIVERY_PATH.indexOf(status);
+  if (current === -1) {
+    await orderService.updateOrderStatus(orderId, status, changedBy);
+    return;
+  }
+
+  for (const step of DELIVERY_PATH.slice(current + 1, target + 1)) {
+    await orderService.updateOrderStatus(orderId, step, changedBy);
+  }
+}
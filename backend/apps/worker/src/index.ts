@@ -9,9 +9,12 @@
  *   - inventory reservation
  *   - order status transitions
  *   - notifications
- *   - delivery assignment
- * - Idempotent event handling
+ *   - delivery assignment (courier dispatch with offer timeouts)
+ * - Relays the transactional outbox to Redis
+ * - Releases expired inventory reservations
+ * - Idempotent event handling (processed events persisted in Postgres)
  * - Retry logic with exponential backoff
+ * - Events that exhaust their retries go to the dead letter queue
  */
 
 import { initDb, getDb } from '@lokaly/db';
@@ -20,17 +23,43 @@ import {
   OrderService,
   InventoryService,
   DeliveryService,
+  OutboxService,
+  IdempotencyService,
+  DeadLetterService,
+  CouriersService,
+  WarehousesService,
+  RefundService,
+  createPaymentGateway,
 } from '@lokaly/domain';
+import { getCache } from '@lokaly/cache';
 import { retry } from '@lokaly/utils';
 import { RedisEventConsumer } from './infra/redis-consumer';
 import { RedisEventPublisher } from './infra/redis-publisher';
-import { processEvent } from './handlers/event-handler';
+import { OutboxRelay } from './infra/outbox-relay';
+import { ReservationExpirySweeper } from './jobs/reservation-expiry';
+import { StaleRefundSweeper } from './jobs/stale-refunds';
+import { CourierDispatcher } from './jobs/courier-dispatch';
+import { processEvent, isRetryableError } from './handlers/event-handler';
 
 // Initialize services
 let orderService: OrderService;
 let inventoryService: InventoryService;
 let deliveryService: DeliveryService;
+let refundService: RefundService | null;
 let eventPublisher: RedisEventPublisher;
+let outboxRelay: OutboxRelay;
+let reservationSweeper: ReservationExpirySweeper;
+let refundSweeper: StaleRefundSweeper | null = null;
+let courierDispatcher: CourierDispatcher;
+let deadLetterService: DeadLetterService;
+
+const consumerGroup = process.env.REDIS_CONSUMER_GROUP || 'worker-group';
+const retryOptions = {
+  maxAttempts: 3,
+  initialDelay: 1000,
+  maxDelay: 10000,
+  backoffMultiplier: 2,
+};
 
 /**
  * Initialize application
@@ -43,16 +72,50 @@ async function init() {
   const db = getDb();
   // Note: Migrations should be run manually or via CI/CD, not automatically on startup
 
-  // Initialize Redis event publisher (for emitting new events)
+  // Initialize Redis event publisher (used by the outbox relay)
   eventPublisher = new RedisEventPublisher();
   await eventPublisher.connect(
     process.env.REDIS_URL || 'redis://localhost:6379'
   );
 
   // Initialize domain services
-  orderService = new OrderService(db, eventPublisher);
-  inventoryService = new InventoryService(db, eventPublisher);
-  deliveryService = new DeliveryService(db, eventPublisher);
+  orderService = new OrderService(db);
+  inventoryService = new InventoryService(db);
+  deliveryService = new DeliveryService(db);
+  deadLetterService = new DeadLetterService(db);
+
+  // Courier/warehouse lookups are cached (courier availability for 30s)
+  const cache = getCache(process.env.REDIS_URL, 300);
+
+  // Cancelled paid orders are refunded through PAYMENT_GATEWAY; with no
+  // gateway configured automatic refunds are off
+  const paymentGateway = createPaymentGateway(cache);
+  refundService = paymentGateway ? new RefundService(db, paymentGateway) : null;
+
+  // Publish events written to the outbox by every service (APIs included)
+  outboxRelay = new OutboxRelay(new OutboxService(db), eventPublisher);
+  outboxRelay.start();
+
+  reservationSweeper = new ReservationExpirySweeper(
+    inventoryService,
+    orderService
+  );
+  reservationSweeper.start();
+
+  // Refunds left pending by an interrupted gateway call are marked failed
+  if (refundService) {
+    refundSweeper = new StaleRefundSweeper(refundService);
+    refundSweeper.start();
+  }
+
+  courierDispatcher = new CourierDispatcher({
+    orderService,
+    deliveryService,
+    couriersService: new CouriersService(db, cache),
+    inventoryService,
+    warehousesService: new WarehousesService(db, cache),
+  });
+  courierDispatcher.start();
 
   console.log(`[Worker] Initialized`);
 }
@@ -61,32 +124,42 @@ async function init() {
  * Process domain events
  */
 async function handleEvent(event: DomainEvent): Promise<void> {
+  let attempts = 0;
   try {
     console.log(
       `[Worker] Processing event: ${event.type} (${event.metadata.eventId})`
     );
 
-    // Process event with retry logic
+    // Process event with retry logic; lost races on an order are retried,
+    // permanent failures go straight to the dead letter queue
     await retry(
-      () =>
-        processEvent(event, {
+      () => {
+        attempts++;
+        return processEvent(event, {
           orderService,
           inventoryService,
           deliveryService,
-        }),
-      {
-        maxAttempts: 3,
-        initialDelay: 1000,
-        maxDelay: 10000,
-        backoffMultiplier: 2,
-      }
+          refundService,
+          courierDispatcher,
+        });
+      },
+      { ...retryOptions, shouldRetry: isRetryableError }
     );
 
     console.log(`[Worker] Successfully processed event: ${event.type}`);
   } catch (error) {
     console.error(`[Worker] Failed to process event: ${event.type}`, error);
-    // In production, send to dead letter queue
-    throw error;
+
+    // Park the event so the stream can move on; if this write fails the
+    // error propagates and the message stays pending for redelivery
+    await deadLetterService.record(event, {
+      consumerGroup,
+      failureReason: error instanceof Error ? error.message : String(error),
+      attempts,
+    });
+    console.error(
+      `[Worker] Moved event to dead letter queue: ${event.metadata.eventId}`
+    );
   }
 }
 
@@ -96,7 +169,10 @@ async function handleEvent(event: DomainEvent): Promise<void> {
 await init();
 
 // Initialize Redis consumer
-const consumer = new RedisEventConsumer();
+const consumer = new RedisEventConsumer(undefined, {
+  consumerGroup,
+  idempotencyStore: new IdempotencyService(getDb()),
+});
 await consumer.connect(process.env.REDIS_URL || 'redis://localhost:6379');
 
 // Start consuming events
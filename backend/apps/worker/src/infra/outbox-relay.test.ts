@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'bun:test';
+import type { EventPublisher, OutboxService } from '@lokaly/domain';
+import { OutboxRelay } from './outbox-relay';
+
+describe('worker OutboxRelay', () => {
+  const publisher: EventPublisher = { publish: async () => {} };
+
+  it('should dispatch pending events through the publisher', async () => {
+    const calls: Array<[EventPublisher, number]> = [];
+    const outboxService = {
+      dispatchPending: async (p: EventPublisher, limit: number) => {
+        calls.push([p, limit]);
+        return { dispatched: 3, failed: 0 };
+      },
+    } as unknown as OutboxService;
+
+    const relay = new OutboxRelay(outboxService, publisher, { batchSize: 25 });
+    const dispatched = await relay.runOnce();
+
+    expect(dispatched).toBe(3);
+    expect(calls).toEqual([[publisher, 25]]);
+  });
+
+  it('should keep polling until stopped and survive errors', async () => {
+    let calls = 0;
+    const outboxService = {
+      dispatchPending: async () => {
+        calls++;
+        if (calls === 1) {
+          throw new Error('database unavailable');
+        }
+        return { dispatched: 0, failed: 0 };
+      },
+    } as unknown as OutboxService;
+
+    const relay = new OutboxRelay(outboxService, publisher, { intervalMs: 1 });
+    relay.start();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await relay.stop();
+
+    expect(calls).toBeGreaterThan(1);
+  });
+});
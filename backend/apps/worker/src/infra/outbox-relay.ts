@@ -0,0 +1,85 @@
+/**
+ * Outbox Relay
+ *
+ * Periodically publishes pending `outbox_events` rows through the
+ * EventPublisher and marks them dispatched (at-least-once delivery).
+ * Consumers dedupe on metadata.eventId, so a redelivery after a crash
+ * between publish and commit is harmless.
+ */
+
+import type { EventPublisher, OutboxService } from "@lokaly/domain";
+import { sleep } from "@lokaly/utils";
+
+export type OutboxRelayOptions = {
+  intervalMs?: number; // Pause between polls when the outbox is drained
+  batchSize?: number; // Rows published per transaction
+};
+
+export class OutboxRelay {
+  private intervalMs: number;
+  private batchSize: number;
+  private running = false;
+  private loop: Promise<void> | null = null;
+
+  constructor(
+    private outboxService: OutboxService,
+    private publisher: EventPublisher,
+    options: OutboxRelayOptions = {}
+  ) {
+    this.intervalMs =
+      options.intervalMs ?? Number(process.env.OUTBOX_POLL_INTERVAL_MS || 1000);
+    this.batchSize = options.batchSize ?? 100;
+  }
+
+  /**
+   * Publish one batch of pending events
+   * Returns how many events were dispatched
+   */
+  async runOnce(): Promise<number> {
+    const { dispatched, failed } = await this.outboxService.dispatchPending(
+      this.publisher,
+      this.batchSize
+    );
+
+    if (dispatched > 0) {
+      console.log(`[Outbox Relay] Dispatched ${dispatched} event(s)`);
+    }
+    if (failed > 0) {
+      console.error(`[Outbox Relay] Failed to publish ${failed} event(s)`);
+    }
+
+    return dispatched;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.loop = (async () => {
+      while (this.running) {
+        let dispatched = 0;
+        try {
+          dispatched = await this.runOnce();
+        } catch (error) {
+          console.error("[Outbox Relay] Error dispatching events:", error);
+        }
+
+        // Keep draining while full batches come back
+        if (dispatched < this.batchSize) {
+          await sleep(this.intervalMs);
+        }
+      }
+    })();
+
+    console.log("[Outbox Relay] Started");
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    await this.loop;
+    this.loop = null;
+    console.log("[Outbox Relay] Stopped");
+  }
+}
@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import {
+  createEvent,
+  DOMAIN_EVENTS_STREAM,
+  type DomainEvent,
+  type OrderCreatedEvent,
+} from '@lokaly/events';
+import type {
+  OrderService,
+  InventoryService,
+  DeliveryService,
+  RefundService,
+  IdempotencyStore,
+} from '@lokaly/domain';
+import { FakeRedis } from '../test-helpers/fake-redis';
+import { RedisEventConsumer } from './redis-consumer';
+import { RedisEventPublisher } from './redis-publisher';
+import type { CourierDispatcher } from '../jobs/courier-dispatch';
+import { processEvent } from '../handlers/event-handler';
+
+const GROUP = 'test-group';
+
+function orderCreated(orderId = '1'): OrderCreatedEvent {
+  return createEvent<OrderCreatedEvent>(
+    'order.created',
+    {
+      orderId,
+      customerId: '7',
+      items: [{ productId: '3', quantity: 2, price: 10 }],
+      totalAmount: 20,
+      deliveryAddress: 'Rua A, 1',
+    },
+    'test'
+  );
+}
+
+describe('worker Redis Streams transport', () => {
+  let redis: FakeRedis;
+  let publisher: RedisEventPublisher;
+  let consumer: RedisEventConsumer;
+
+  beforeEach(async () => {
+    redis = new FakeRedis();
+    publisher = new RedisEventPublisher(redis);
+    consumer = new RedisEventConsumer(redis, {
+      consumerGroup: GROUP,
+      consumerName: 'worker-a',
+      blockMs: 10,
+      claimIdleMs: 1000,
+    });
+    await publisher.connect('redis://fake');
+    await consumer.connect('redis://fake');
+  });
+
+  afterEach(async () => {
+    await consumer.disconnect();
+  });
+
+  describe('RedisEventPublisher', () => {
+    it('should XADD the serialized event to the domain-events stream', async () => {
+      const event = orderCreated();
+      await publisher.publish(event);
+
+      const entries = redis.entries(DOMAIN_EVENTS_STREAM);
+      expect(entries).toHaveLength(1);
+      expect(entries[0]!.fields[0]).toBe('event');
+      expect(JSON.parse(entries[0]!.fields[1]!)).toEqual(event);
+    });
+
+    it('should throw when publishing before connect', async () => {
+      const disconnected = new RedisEventPublisher();
+      expect(disconnected.publish(orderCreated())).rejects.toThrow(
+        'Redis publisher is not connected'
+      );
+    });
+  });
+
+  describe('RedisEventConsumer', () => {
+    it('should tolerate an existing consumer group on connect', async () => {
+      const second = new RedisEventConsumer(redis, { consumerGroup: GROUP });
+      await second.connect('redis://fake');
+    });
+
+    it('should deliver published events to the handler and ACK them', async () => {
+      const event = orderCreated();
+      await publisher.publish(event);
+
+      const received: DomainEvent[] = [];
+      const count = await consumer.poll(async (e) => {
+        received.push(e);
+      });
+
+      expect(count).toBe(1);
+      expect(received).toEqual([event]);
+      expect(redis.pending(DOMAIN_EVENTS_STREAM, GROUP).size).toBe(0);
+    });
+
+    it('should leave failed messages pending', async () => {
+      await publisher.publish(orderCreated());
+
+      await consumer.poll(async () => {
+        throw new Error('boom');
+      });
+
+      expect(redis.pending(DOMAIN_EVENTS_STREAM, GROUP).size).toBe(1);
+    });
+
+    it('should reclaim messages left pending by a dead consumer', async () => {
+      const event = orderCreated();
+      await publisher.publish(event);
+
+      // worker-a receives the message and dies before ACKing
+      await consumer.poll(async () => {
+        throw new Error('crashed');
+      });
+
+      const survivor = new RedisEventConsumer(redis, {
+        consumerGroup: GROUP,
+        consumerName: 'worker-b',
+        blockMs: 10,
+        claimIdleMs: 1000,
+      });
+
+      // Not idle long enough yet
+      const received: DomainEvent[] = [];
+      await survivor.poll(async (e) => {
+        received.push(e);
+      });
+      expect(received).toHaveLength(0);
+
+      redis.clockOffsetMs = 5000;
+      await survivor.poll(async (e) => {
+        received.push(e);
+      });
+
+      expect(received).toEqual([event]);
+      expect(redis.pending(DOMAIN_EVENTS_STREAM, GROUP).size).toBe(0);
+    });
+
+    it('should ACK duplicate events without calling the handler again', async () => {
+      const event = orderCreated();
+      await publisher.publish(event);
+      await publisher.publish(event);
+
+      let calls = 0;
+      await consumer.poll(async () => {
+        calls++;
+      });
+
+      expect(calls).toBe(1);
+      expect(redis.pending(DOMAIN_EVENTS_STREAM, GROUP).size).toBe(0);
+    });
+
+    it('should skip events already recorded in the idempotency store', async () => {
+      const event = orderCreated();
+      const marked: Array<[string, string]> = [];
+      const store: IdempotencyStore = {
+        isProcessed: async (eventId, group) =>
+          marked.some(([id, g]) => id === eventId && g === group),
+        markProcessed: async (e, group) => {
+          marked.push([e.metadata.eventId, group]);
+        },
+      };
+
+      // Simulates a restart: a fresh consumer sharing the durable store
+      const first = new RedisEventConsumer(redis, {
+        consumerGroup: GROUP,
+        blockMs: 10,
+        idempotencyStore: store,
+      });
+      let calls = 0;
+      await publisher.publish(event);
+      await first.poll(async () => {
+        calls++;
+      });
+
+      const restarted = new RedisEventConsumer(redis, {
+        consumerGroup: GROUP,
+        blockMs: 10,
+        idempotencyStore: store,
+      });
+      await publisher.publish(event);
+      await restarted.poll(async () => {
+        calls++;
+      });
+
+      expect(calls).toBe(1);
+      expect(marked).toEqual([[event.metadata.eventId, GROUP]]);
+      expect(redis.pending(DOMAIN_EVENTS_STREAM, GROUP).size).toBe(0);
+    });
+
+    it('should discard malformed messages', async () => {
+      await redis.send('XADD', [DOMAIN_EVENTS_STREAM, '*', 'event', '{oops']);
+
+      let calls = 0;
+      await consumer.poll(async () => {
+        calls++;
+      });
+
+      expect(calls).toBe(0);
+      expect(redis.pending(DOMAIN_EVENTS_STREAM, GROUP).size).toBe(0);
+    });
+
+    it('should stop consume loop on disconnect', async () => {
+      const loop = consumer.consume(async () => {});
+      await consumer.disconnect();
+      await loop;
+    });
+  });
+
+  describe('order flow end to end', () => {
+    it('should reserve inventory and confirm the order on order.created', async () => {
+      const reserved: Array<[number, number, number]> = [];
+      const statusUpdates: Array<[number, string]> = [];
+
+      const services = {
+        orderService: {
+          getOrderById: async () => ({ id: 42, status: 'pending' }),
+          updateOrderStatus: async (orderId: number, status: string) => {
+            statusUpdates.push([orderId, status]);
+          },
+        } as unknown as OrderService,
+        inventoryService: {
+          reserveInventory: async (
+            orderId: number,
+            productId: number,
+            quantity: number
+          ) => {
+            reserved.push([orderId, productId, quantity]);
+            return 1;
+          },
+        } as unknown as InventoryService,
+        deliveryService: {} as DeliveryService,
+        refundService: {} as RefundService,
+        courierDispatcher: {} as CourierDispatcher,
+      };
+
+      await publisher.publish(orderCreated('42'));
+      await consumer.poll((event) => processEvent(event, services));
+
+      expect(reserved).toEqual([[42, 3, 2]]);
+      expect(statusUpdates).toEqual([[42, 'confirmed']]);
+      expect(redis.pending(DOMAIN_EVENTS_STREAM, GROUP).size).toBe(0);
+    });
+  });
+});
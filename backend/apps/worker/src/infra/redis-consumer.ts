@@ -1,85 +1,337 @@
 /**
  * Redis Event Consumer
- * 
+ *
  * Consumes domain events from Redis streams.
  * Supports idempotent processing and reliable delivery.
+ *
+ * Delivery model:
+ * - Reads new messages through a consumer group (XREADGROUP)
+ * - ACKs only after the handler succeeds (at-least-once)
+ * - Messages left pending by a failed handler or a dead consumer are
+ *   reclaimed with XAUTOCLAIM once they have been idle long enough
+ * - Handled events are recorded in an IdempotencyStore keyed by
+ *   metadata.eventId, so redeliveries are ACKed without running the handler
  */
 
+import { RedisClient } from "bun";
 import type { DomainEvent } from "@lokaly/events";
-import { deserializeEvent } from "@lokaly/events";
+import type { IdempotencyStore } from "@lokaly/domain";
+import { DOMAIN_EVENTS_STREAM, deserializeEvent } from "@lokaly/events";
+import { sleep } from "@lokaly/utils";
+
+/**
+ * Subset of Bun.RedisClient used by the consumer
+ * Tests can inject an in-process fake with the same shape
+ */
+export type RedisStreamClient = Pick<RedisClient, "send" | "close">;
+
+export type RedisConsumerOptions = {
+  stream?: string;
+  consumerGroup?: string;
+  consumerName?: string;
+  batchSize?: number; // Messages per XREADGROUP / XAUTOCLAIM call
+  blockMs?: number; // How long XREADGROUP waits for new messages
+  claimIdleMs?: number; // Minimum idle time before a pending message is reclaimed
+  idempotencyStore?: IdempotencyStore; // Defaults to a bounded in-memory store
+};
+
+type StreamMessage = {
+  id: string;
+  fields: Record<string, string>;
+};
 
 export class RedisEventConsumer {
-  private redis: any; // Bun.redis connection
+  private redis: RedisStreamClient | null;
+  private stream: string;
   private consumerGroup: string;
   private consumerName: string;
-  private processedEvents: Set<string> = new Set(); // In-memory deduplication
+  private batchSize: number;
+  private blockMs: number;
+  private claimIdleMs: number;
+  private claimCursor = "0-0";
+  private running = false;
+  private idempotencyStore: IdempotencyStore;
 
-  constructor() {
-    this.consumerGroup = process.env.REDIS_CONSUMER_GROUP || "worker-group";
-    this.consumerName = process.env.REDIS_CONSUMER_NAME || `worker-${process.pid}`;
+  constructor(redis?: RedisStreamClient, options: RedisConsumerOptions = {}) {
+    this.redis = redis ?? null;
+    this.stream = options.stream || DOMAIN_EVENTS_STREAM;
+    this.consumerGroup =
+      options.consumerGroup ||
+      process.env.REDIS_CONSUMER_GROUP ||
+      "worker-group";
+    this.consumerName =
+      options.consumerName ||
+      process.env.REDIS_CONSUMER_NAME ||
+      `worker-${process.pid}`;
+    this.batchSize = options.batchSize ?? 10;
+    this.blockMs = options.blockMs ?? 5000;
+    this.claimIdleMs =
+      options.claimIdleMs ??
+      Number(process.env.REDIS_CLAIM_IDLE_MS || 60000);
+    this.idempotencyStore =
+      options.idempotencyStore ?? new MemoryIdempotencyStore();
   }
 
   async connect(redisUrl: string): Promise<void> {
-    // Initialize Bun.redis connection
-    // Example: this.redis = await Bun.connect({ hostname: "localhost", port: 6379 });
     console.log(`[Redis Consumer] Connecting to ${redisUrl}`);
-    
+
+    if (!this.redis) {
+      const client = new RedisClient(redisUrl);
+      await client.connect();
+      this.redis = client;
+    }
+
     // Create consumer group if it doesn't exist
-    // await this.redis.xgroup("CREATE", "domain-events", this.consumerGroup, "0", "MKSTREAM");
-    
-    console.log(`[Redis Consumer] Connected as ${this.consumerName} in group ${this.consumerGroup}`);
+    try {
+      await this.redis.send("XGROUP", [
+        "CREATE",
+        this.stream,
+        this.consumerGroup,
+        "0",
+        "MKSTREAM",
+      ]);
+    } catch (error) {
+      if (!String(error).includes("BUSYGROUP")) {
+        throw error;
+      }
+    }
+
+    console.log(
+      `[Redis Consumer] Connected as ${this.consumerName} in group ${this.consumerGroup}`
+    );
   }
 
   async consume(handler: (event: DomainEvent) => Promise<void>): Promise<void> {
-    // Continuously read from Redis stream
-    while (true) {
+    this.running = true;
+
+    // Continuously read from Redis stream until disconnected
+    while (this.running) {
       try {
-        // Read events from stream using consumer group
-        // const messages = await this.redis.xreadgroup(
-        //   "GROUP", this.consumerGroup, this.consumerName,
-        //   "COUNT", 10,
-        //   "BLOCK", 1000,
-        //   "STREAMS", "domain-events", ">"
-        // );
-
-        // For now, simulate event consumption
-        // In production, this would read from Redis stream
-        await new Promise((resolve) => setTimeout(resolve, 5000));
-        
-        // Example event processing:
-        // for (const [stream, events] of messages) {
-        //   for (const [id, fields] of events) {
-        //     const eventJson = fields[1]; // Assuming event is in second field
-        //     const event = deserializeEvent(eventJson);
-        //     
-        //     // Idempotency check
-        //     if (this.processedEvents.has(event.metadata.eventId)) {
-        //       console.log(`[Redis Consumer] Skipping duplicate event: ${event.metadata.eventId}`);
-        //       continue;
-        //     }
-        //     
-        //     try {
-        //       await handler(event);
-        //       this.processedEvents.add(event.metadata.eventId);
-        //       
-        //       // Acknowledge message
-        //       await this.redis.xack("domain-events", this.consumerGroup, id);
-        //     } catch (error) {
-        //       console.error(`[Redis Consumer] Error processing event:`, error);
-        //       // Don't ACK, will be retried
-        //     }
-        //   }
-        // }
+        await this.poll(handler);
       } catch (error) {
+        if (!this.running) {
+          break;
+        }
         console.error("[Redis Consumer] Error consuming events:", error);
-        await new Promise((resolve) => setTimeout(resolve, 5000)); // Wait before retry
+        await sleep(5000); // Wait before retry
       }
     }
   }
 
+  /**
+   * Run a single consumption cycle
+   * Reclaims stale pending messages first, then reads new ones.
+   * Returns the number of messages handed to the handler.
+   */
+  async poll(handler: (event: DomainEvent) => Promise<void>): Promise<number> {
+    const reclaimed = await this.reclaimPending();
+    // Only block waiting for new messages when there is nothing to retry
+    const fresh = await this.readNew(reclaimed.length === 0);
+    const messages = [...reclaimed, ...fresh];
+
+    for (const message of messages) {
+      await this.handleMessage(message, handler);
+    }
+
+    return messages.length;
+  }
+
   async disconnect(): Promise<void> {
-    // await this.redis.quit();
+    this.running = false;
+    this.redis?.close();
+    this.redis = null;
     console.log("[Redis Consumer] Disconnected");
   }
+
+  /**
+   * Read messages never delivered to any consumer of the group
+   */
+  private async readNew(block: boolean): Promise<StreamMessage[]> {
+    const reply = await this.client().send("XREADGROUP", [
+      "GROUP",
+      this.consumerGroup,
+      this.consumerName,
+      "COUNT",
+      String(this.batchSize),
+      ...(block ? ["BLOCK", String(this.blockMs)] : []),
+      "STREAMS",
+      this.stream,
+      ">",
+    ]);
+
+    return parseReadReply(reply, this.stream);
+  }
+
+  /**
+   * Take over messages that stayed pending longer than claimIdleMs
+   * (dead consumers, or handlers that failed and never ACKed)
+   */
+  private async reclaimPending(): Promise<StreamMessage[]> {
+    const reply = await this.client().send("XAUTOCLAIM", [
+      this.stream,
+      this.consumerGroup,
+      this.consumerName,
+      String(this.claimIdleMs),
+      this.claimCursor,
+      "COUNT",
+      String(this.batchSize),
+    ]);
+
+    if (!Array.isArray(reply)) {
+      return [];
+    }
+
+    const [nextCursor, entries] = reply as [string, unknown];
+    this.claimCursor = nextCursor || "0-0";
+
+    const messages = parseEntries(entries);
+    if (messages.length > 0) {
+      console.log(
+        `[Redis Consumer] Reclaimed ${messages.length} pending message(s)`
+      );
+    }
+
+    return messages;
+  }
+
+  private async handleMessage(
+    message: StreamMessage,
+    handler: (event: DomainEvent) => Promise<void>
+  ): Promise<void> {
+    const eventJson = message.fields.event;
+
+    let event: DomainEvent;
+    try {
+      if (!eventJson) {
+        throw new Error("Message has no event field");
+      }
+      event = deserializeEvent(eventJson);
+    } catch (error) {
+      // Poison message: retrying will never succeed, so drop it
+      console.error(
+        `[Redis Consumer] Discarding malformed message ${message.id}:`,
+        error
+      );
+      await this.ack(message.id);
+      return;
+    }
+
+    // Idempotency check
+    if (
+      await this.idempotencyStore.isProcessed(
+        event.metadata.eventId,
+        this.consumerGroup
+      )
+    ) {
+      console.log(
+        `[Redis Consumer] Skipping duplicate event: ${event.metadata.eventId}`
+      );
+      await this.ack(message.id);
+      return;
+    }
+
+    try {
+      await handler(event);
+      await this.idempotencyStore.markProcessed(event, this.consumerGroup);
+
+      // Acknowledge message
+      await this.ack(message.id);
+    } catch (error) {
+      console.error(`[Redis Consumer] Error processing event:`, error);
+      // Don't ACK, will be reclaimed and retried
+    }
+  }
+
+  private async ack(messageId: string): Promise<void> {
+    await this.client().send("XACK", [
+      this.stream,
+      this.consumerGroup,
+      messageId,
+    ]);
+  }
+
+  private client(): RedisStreamClient {
+    if (!this.redis) {
+      throw new Error("Redis consumer is not connected");
+    }
+    return this.redis;
+  }
 }
 
+/**
+ * In-memory idempotency store for tests and local development
+ * Forgets the oldest events past maxSize; use IdempotencyService in production.
+ */
+class MemoryIdempotencyStore implements IdempotencyStore {
+  private processed = new Set<string>();
+
+  constructor(private maxSize: number = 10000) {}
+
+  async isProcessed(eventId: string, consumerGroup: string): Promise<boolean> {
+    return this.processed.has(`${consumerGroup}:${eventId}`);
+  }
+
+  async markProcessed(
+    event: DomainEvent,
+    consumerGroup: string
+  ): Promise<void> {
+    this.processed.add(`${consumerGroup}:${event.metadata.eventId}`);
+
+    // Sets iterate in insertion order, so the first key is the oldest
+    if (this.processed.size > this.maxSize) {
+      const oldest = this.processed.values().next().value;
+      if (oldest !== undefined) {
+        this.processed.delete(oldest);
+      }
+    }
+  }
+}
+
+/**
+ * Parse an XREADGROUP reply
+ * RESP2 returns [[stream, entries]], RESP3 returns { stream: entries }
+ */
+function parseReadReply(reply: unknown, stream: string): StreamMessage[] {
+  if (!reply) {
+    return [];
+  }
+
+  if (Array.isArray(reply)) {
+    const match = reply.find(
+      (item) => Array.isArray(item) && item[0] === stream
+    );
+    return match ? parseEntries(match[1]) : [];
+  }
+
+  if (typeof reply === "object") {
+    return parseEntries((reply as Record<string, unknown>)[stream]);
+  }
+
+  return [];
+}
+
+/**
+ * Parse stream entries: [[id, [field, value, ...]], ...]
+ * Entries deleted from the stream come back as null and are skipped
+ */
+function parseEntries(entries: unknown): StreamMessage[] {
+  if (!Array.isArray(entries)) {
+    return [];
+  }
+
+  const messages: StreamMessage[] = [];
+  for (const entry of entries) {
+    if (!Array.isArray(entry) || !Array.isArray(entry[1])) {
+      continue;
+    }
+
+    const [id, flat] = entry as [string, string[]];
+    const fields: Record<string, string> = {};
+    for (let i = 0; i + 1 < flat.length; i += 2) {
+      fields[String(flat[i])] = String(flat[i + 1]);
+    }
+    messages.push({ id: String(id), fields });
+  }
+
+  return messages;
+}
@@ -1,28 +1,58 @@
 /**
  * Redis Event Publisher (Worker)
- * 
+ *
  * Same implementation as public-api, but used by worker to emit new events.
  */
 
+import { RedisClient } from "bun";
 import type { DomainEvent } from "@lokaly/events";
+import { DOMAIN_EVENTS_STREAM, serializeEvent } from "@lokaly/events";
 import type { EventPublisher } from "@lokaly/domain";
 
+/**
+ * Subset of Bun.RedisClient used by the publisher
+ * Tests can inject an in-process fake with the same shape
+ */
+export type RedisStreamClient = Pick<RedisClient, "send" | "close">;
+
 export class RedisEventPublisher implements EventPublisher {
-  private redis: any; // Bun.redis connection
+  private redis: RedisStreamClient | null;
+
+  constructor(redis?: RedisStreamClient) {
+    this.redis = redis ?? null;
+  }
 
   async connect(redisUrl: string): Promise<void> {
     console.log(`[Redis Publisher] Connecting to ${redisUrl}`);
-    // In production, use actual Bun.redis API
+
+    if (!this.redis) {
+      const client = new RedisClient(redisUrl);
+      await client.connect();
+      this.redis = client;
+    }
   }
 
   async publish(event: DomainEvent): Promise<void> {
-    const eventJson = JSON.stringify(event);
-    // await this.redis.xadd("domain-events", "*", "event", eventJson);
-    console.log(`[Redis Publisher] Published event: ${event.type} (${event.metadata.eventId})`);
+    if (!this.redis) {
+      throw new Error("Redis publisher is not connected");
+    }
+
+    // Using Redis Streams for reliable delivery
+    const messageId = await this.redis.send("XADD", [
+      DOMAIN_EVENTS_STREAM,
+      "*",
+      "event",
+      serializeEvent(event),
+    ]);
+
+    console.log(
+      `[Redis Publisher] Published event: ${event.type} (${event.metadata.eventId}) as ${messageId}`
+    );
   }
 
   async disconnect(): Promise<void> {
+    this.redis?.close();
+    this.redis = null;
     console.log("[Redis Publisher] Disconnected");
   }
 }
-
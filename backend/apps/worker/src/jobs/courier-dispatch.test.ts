@@ -0,0 +1,240 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import type { Courier, DeliveryAssignment } from '@lokaly/db';
+import type {
+  OrderService,
+  DeliveryService,
+  CouriersService,
+  InventoryService,
+  WarehousesService,
+  AssignDeliveryInput,
+  FindAvailableOptions,
+} from '@lokaly/domain';
+import { CourierDispatcher, rankCouriers } from './courier-dispatch';
+
+// Warehouse at Praça da Sé, São Paulo
+const warehouse = {
+  id: 1,
+  name: 'Centro',
+  address: 'Praça da Sé, 100',
+  city: 'São Paulo',
+  latitude: '-23.55030000',
+  longitude: '-46.63400000',
+};
+
+function courier(
+  id: number,
+  latitude: string | null,
+  longitude: string | null,
+  totalRating: string | null = '4.50',
+  onTimeDeliveryRate: string | null = '90.00'
+): Courier {
+  return {
+    id,
+    currentLatitude: latitude,
+    currentLongitude: longitude,
+    totalRating,
+    onTimeDeliveryRate,
+  } as Courier;
+}
+
+function assignment(
+  courierId: number,
+  status: string,
+  rejectedAt: Date | null = status === 'rejected' ? new Date() : null
+): DeliveryAssignment {
+  return {
+    id: courierId * 10,
+    orderId: 42,
+    courierId,
+    status,
+    rejectedAt,
+  } as DeliveryAssignment;
+}
+
+describe('worker courier dispatch', () => {
+  describe('rankCouriers', () => {
+    const origin = { latitude: -23.5503, longitude: -46.634 };
+
+    it('should prefer the closest courier when ratings are equal', () => {
+      const ranked = rankCouriers(
+        [
+          courier(1, '-23.58000000', '-46.66000000'), // ~4km
+          courier(2, '-23.55100000', '-46.63500000'), // ~0.1km
+        ],
+        origin,
+        { maxDistanceKm: 15 }
+      );
+
+      expect(ranked.map((entry) => entry.courier.id)).toEqual([2, 1]);
+      expect(ranked[0]!.distanceKm).toBeLessThan(0.5);
+    });
+
+    it('should let rating and on-time rate outweigh a small distance gap', () => {
+      const ranked = rankCouriers(
+        [
+          courier(1, '-23.55100000', '-46.63500000', '2.00', '40.00'),
+          courier(2, '-23.56000000', '-46.64000000', '5.00', '100.00'),
+        ],
+        origin,
+        { maxDistanceKm: 15 }
+      );
+
+      expect(ranked[0]!.courier.id).toBe(2);
+    });
+
+    it('should drop couriers beyond the maximum distance', () => {
+      const ranked = rankCouriers(
+        [courier(1, '-22.90680000', '-43.17290000')], // Rio de Janeiro
+        origin,
+        { maxDistanceKm: 15 }
+      );
+
+      expect(ranked).toEqual([]);
+    });
+
+    it('should rank couriers without a location last', () => {
+      const ranked = rankCouriers(
+        [courier(1, null, null), courier(2, '-23.56000000', '-46.64000000')],
+        origin,
+        { maxDistanceKm: 15 }
+      );
+
+      expect(ranked.map((entry) => entry.courier.id)).toEqual([2, 1]);
+      expect(ranked[1]!.distanceKm).toBeNull();
+    });
+  });
+
+  describe('CourierDispatcher', () => {
+    let orderStatus: string;
+    let history: DeliveryAssignment[];
+    let available: Courier[];
+    let queries: FindAvailableOptions[];
+    let waiting: number[];
+    let assigned: AssignDeliveryInput[];
+    let rejected: Array<[number, number, string]>;
+    let dispatcher: CourierDispatcher;
+
+    beforeEach(() => {
+      orderStatus = 'ready';
+      history = [];
+      available = [
+        courier(1, '-23.55100000', '-46.63500000'),
+        courier(2, '-23.58000000', '-46.66000000'),
+      ];
+      queries = [];
+      waiting = [];
+      assigned = [];
+      rejected = [];
+
+      dispatcher = new CourierDispatcher(
+        {
+          orderService: {
+            getOrderById: async (id: number) => ({ id, status: orderStatus }),
+          } as unknown as OrderService,
+          deliveryService: {
+            findByOrderId: async () => history,
+            assignDelivery: async (input: AssignDeliveryInput) => {
+              assigned.push(input);
+              return assignment(input.courierId, 'assigned');
+            },
+            findExpiredOffers: async () => [assignment(3, 'assigned')],
+            reject: async (id: number, courierId: number, reason: string) => {
+              rejected.push([id, courierId, reason]);
+            },
+            findOrdersAwaitingCourier: async () => waiting,
+          } as unknown as DeliveryService,
+          couriersService: {
+            findAvailable: async (options: FindAvailableOptions) => {
+              queries.push(options);
+              return available.filter(
+                (entry) => !options.excludeIds?.includes(entry.id)
+              );
+            },
+          } as unknown as CouriersService,
+          inventoryService: {
+            findByOrderId: async () => [{ id: 5, warehouseId: 1 }],
+          } as unknown as InventoryService,
+          warehousesService: {
+            findById: async () => warehouse,
+          } as unknown as WarehousesService,
+        },
+        { offerTimeoutMs: 60000, maxDistanceKm: 15 }
+      );
+    });
+
+    it('should offer the order to the best ranked courier', async () => {
+      await dispatcher.dispatch(42);
+
+      expect(assigned).toHaveLength(1);
+      expect(assigned[0]!.orderId).toBe(42);
+      expect(assigned[0]!.courierId).toBe(1);
+      expect(assigned[0]!.pickupAddress).toBe('Praça da Sé, 100, São Paulo');
+    });
+
+    it('should skip couriers that already rejected the order', async () => {
+      history = [assignment(1, 'rejected')];
+
+      await dispatcher.dispatch(42);
+
+      expect(assigned.map((input) => input.courierId)).toEqual([2]);
+      expect(queries[0]).toMatchObject({
+        excludeIds: [1],
+        near: { latitude: -23.5503, longitude: -46.634, maxDistanceKm: 15 },
+        fresh: true,
+      });
+    });
+
+    it('should ask a courier again once the decline cooldown has passed', async () => {
+      const now = new Date('2024-01-01T12:00:00Z');
+      history = [assignment(1, 'rejected', new Date('2024-01-01T11:00:00Z'))];
+      available = [courier(1, '-23.55100000', '-46.63500000')];
+
+      await dispatcher.dispatch(42, now);
+
+      expect(assigned.map((input) => input.courierId)).toEqual([1]);
+    });
+
+    it('should do nothing while an offer is open', async () => {
+      history = [assignment(1, 'rejected'), assignment(2, 'assigned')];
+
+      const result = await dispatcher.dispatch(42);
+
+      expect(result).toBeNull();
+      expect(assigned).toEqual([]);
+    });
+
+    it('should not offer orders that are no longer ready', async () => {
+      orderStatus = 'cancelled';
+
+      const result = await dispatcher.dispatch(42);
+
+      expect(result).toBeNull();
+      expect(assigned).toEqual([]);
+    });
+
+    it('should return null when every courier declined', async () => {
+      history = [assignment(1, 'rejected'), assignment(2, 'rejected')];
+
+      const result = await dispatcher.dispatch(42);
+
+      expect(result).toBeNull();
+      expect(assigned).toEqual([]);
+    });
+
+    it('should reject offers past the timeout', async () => {
+      const result = await dispatcher.runOnce();
+
+      expect(rejected).toEqual([[30, 3, 'offer_timeout']]);
+      expect(result).toEqual({ expired: 1, timedOut: 1, redispatched: 0 });
+    });
+
+    it('should offer ready orders left without an assignment', async () => {
+      waiting = [42];
+
+      const result = await dispatcher.runOnce();
+
+      expect(assigned.map((input) => input.orderId)).toEqual([42]);
+      expect(result.redispatched).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,364 @@
+/**
+ * Courier Dispatch
+ *
+ * Offers ready orders to the best available courier.
+ * - dispatch(): picks candidates from CouriersService.findAvailable, ranks
+ *   them and creates the delivery assignment (delivery.assigned)
+ * - Couriers that rejected the order (or let the offer time out) are not
+ *   offered the same order again until the decline cooldown has passed;
+ *   delivery.rejected triggers a re-offer
+ * - The periodic sweep rejects offers left unanswered past the timeout and
+ *   offers ready orders left without an assignment again (nobody was
+ *   available before, or every candidate declined)
+ *
+ * Ranking combines distance to the pickup warehouse, rating and on-time
+ * delivery rate, each normalized to 0..1 and weighted.
+ */
+
+import type {
+  OrderService,
+  DeliveryService,
+  CouriersService,
+  InventoryService,
+  WarehousesService,
+} from "@lokaly/domain";
+import type { Courier, DeliveryAssignment } from "@lokaly/db";
+import { sleep, distanceKm } from "@lokaly/utils";
+
+export type DispatchWeights = {
+  distance: number;
+  rating: number;
+  onTime: number;
+};
+
+export type GeoPoint = {
+  latitude: number;
+  longitude: number;
+};
+
+export type RankedCourier = {
+  courier: Courier;
+  distanceKm: number | null; // null when either location is unknown
+  score: number;
+};
+
+export type CourierDispatchOptions = {
+  offerTimeoutMs?: number; // Time a courier has to accept an offer
+  intervalMs?: number; // Pause between timeout sweeps
+  candidateLimit?: number; // Couriers fetched per dispatch
+  maxDistanceKm?: number; // Couriers farther away are not offered the order
+  declineCooldownMs?: number; // Before a courier who declined is asked again
+  weights?: DispatchWeights;
+};
+
+export type DispatchSweepResult = {
+  expired: number; // Offers found past the timeout
+  timedOut: number; // Offers rejected
+  redispatched: number; // Waiting orders offered to a courier
+};
+
+const DEFAULT_WEIGHTS: DispatchWeights = {
+  distance: 0.5,
+  rating: 0.3,
+  onTime: 0.2,
+};
+
+const OFFER_TIMEOUT_REASON = "offer_timeout";
+
+/**
+ * Score couriers for a pickup point, best first
+ * Business Rules:
+ * - Couriers beyond maxDistanceKm are dropped
+ * - Unknown distance scores 0 for distance; missing rating/on-time rate
+ *   score neutral (0.5) so new couriers still get offers
+ * - Ties go to the closest courier
+ */
+export function rankCouriers(
+  couriers: Courier[],
+  origin: GeoPoint | null,
+  options: { maxDistanceKm: number; weights?: DispatchWeights }
+): RankedCourier[] {
+  const weights = options.weights ?? DEFAULT_WEIGHTS;
+
+  const ranked: RankedCourier[] = [];
+  for (const courier of couriers) {
+    const location = toGeoPoint(
+      courier.currentLatitude,
+      courier.currentLongitude
+    );
+    const distance =
+      origin && location ? distanceKm(location, origin) : null;
+
+    if (distance !== null && distance > options.maxDistanceKm) {
+      continue;
+    }
+
+    const distanceScore =
+      distance === null ? 0 : 1 - distance / options.maxDistanceKm;
+    const ratingScore =
+      courier.totalRating !== null ? Number(courier.totalRating) / 5 : 0.5;
+    const onTimeScore =
+      courier.onTimeDeliveryRate !== null
+        ? Number(courier.onTimeDeliveryRate) / 100
+        : 0.5;
+
+    ranked.push({
+      courier,
+      distanceKm: distance,
+      score:
+        weights.distance * distanceScore +
+        weights.rating * ratingScore +
+        weights.onTime * onTimeScore,
+    });
+  }
+
+  return ranked.sort(
+    (a, b) =>
+      b.score - a.score ||
+      (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity)
+  );
+}
+
+function toGeoPoint(
+  latitude: string | null,
+  longitude: string | null
+): GeoPoint | null {
+  if (latitude === null || longitude === null) {
+    return null;
+  }
+  return { latitude: Number(latitude), longitude: Number(longitude) };
+}
+
+export class CourierDispatcher {
+  private offerTimeoutMs: number;
+  private intervalMs: number;
+  private candidateLimit: number;
+  private maxDistanceKm: number;
+  private declineCooldownMs: number;
+  private weights: DispatchWeights;
+  private running = false;
+  private loop: Promise<void> | null = null;
+
+  constructor(
+    private services: {
+      orderService: OrderService;
+      deliveryService: DeliveryService;
+      couriersService: CouriersService;
+      inventoryService: InventoryService;
+      warehousesService: WarehousesService;
+    },
+    options: CourierDispatchOptions = {}
+  ) {
+    this.offerTimeoutMs =
+      options.offerTimeoutMs ??
+      Number(process.env.COURIER_OFFER_TIMEOUT_MS || 120000);
+    this.intervalMs =
+      options.intervalMs ??
+      Number(process.env.COURIER_DISPATCH_INTERVAL_MS || 30000);
+    this.candidateLimit = options.candidateLimit ?? 20;
+    this.maxDistanceKm =
+      options.maxDistanceKm ??
+      Number(process.env.COURIER_DISPATCH_MAX_DISTANCE_KM || 15);
+    this.declineCooldownMs =
+      options.declineCooldownMs ??
+      Number(process.env.COURIER_DECLINE_COOLDOWN_MS || 600000);
+    this.weights = options.weights ?? DEFAULT_WEIGHTS;
+  }
+
+  /**
+   * Offer an order to the best ranked courier
+   * Idempotent: nothing happens while the order has an open assignment, or
+   * once it is no longer ready (cancelled, or already on its way).
+   * Returns the new assignment, or null when nobody can take the order.
+   */
+  async dispatch(
+    orderId: number,
+    now: Date = new Date()
+  ): Promise<DeliveryAssignment | null> {
+    const { orderService, deliveryService, couriersService } = this.services;
+
+    const order = await orderService.getOrderById(orderId);
+    if (order?.status !== "ready") {
+      return null;
+    }
+
+    const history = await deliveryService.findByOrderId(orderId);
+    if (
+      history.some(
+        (assignment) =>
+          assignment.status !== "rejected" && assignment.status !== "cancelled"
+      )
+    ) {
+      return null;
+    }
+
+    // Couriers who turned this order down recently
+    const cooldownStart = now.getTime() - this.declineCooldownMs;
+    const excluded = new Set(
+      history
+        .filter(
+          (assignment) =>
+            assignment.status === "rejected" &&
+            (assignment.rejectedAt?.getTime() ?? now.getTime()) > cooldownStart
+        )
+        .map((assignment) => assignment.courierId)
+    );
+
+    const pickup = await this.findPickup(orderId);
+    if (!pickup) {
+      console.warn(
+        `[Courier Dispatch] Order ${orderId} has no pickup warehouse, skipping`
+      );
+      return null;
+    }
+
+    // Filtered before the limit, so the closest couriers are never cut
+    const available = await couriersService.findAvailable({
+      limit: this.candidateLimit,
+      excludeIds: [...excluded],
+      near: pickup.location
+        ? { ...pickup.location, maxDistanceKm: this.maxDistanceKm }
+        : undefined,
+      fresh: true,
+    });
+    const [best] = rankCouriers(available, pickup.location, {
+      maxDistanceKm: this.maxDistanceKm,
+      weights: this.weights,
+    });
+
+    if (!best) {
+      console.warn(
+        `[Courier Dispatch] No courier available for order ${orderId} (${excluded.size} declined)`
+      );
+      return null;
+    }
+
+    const assignment = await deliveryService.assignDelivery({
+      orderId,
+      courierId: best.courier.id,
+      pickupAddress: pickup.address,
+      estimatedDistance: best.distanceKm ?? undefined,
+    });
+
+    console.log(
+      `[Courier Dispatch] Offered order ${orderId} to courier ${best.courier.id} (score ${best.score.toFixed(2)})`
+    );
+
+    return assignment;
+  }
+
+  /**
+   * Reject offers left unanswered past the timeout, then offer every ready
+   * order without an assignment (timed out just now, or stranded earlier)
+   */
+  async runOnce(now: Date = new Date()): Promise<DispatchSweepResult> {
+    const expired = await this.services.deliveryService.findExpiredOffers(
+      new Date(now.getTime() - this.offerTimeoutMs)
+    );
+    const result: DispatchSweepResult = {
+      expired: expired.length,
+      timedOut: 0,
+      redispatched: 0,
+    };
+
+    for (const offer of expired) {
+      try {
+        await this.services.deliveryService.reject(
+          offer.id,
+          offer.courierId,
+          OFFER_TIMEOUT_REASON
+        );
+        result.timedOut++;
+      } catch (error) {
+        // Typically the courier answered in the meantime
+        console.error(
+          `[Courier Dispatch] Failed to time out assignment ${offer.id}:`,
+          error
+        );
+      }
+    }
+
+    if (result.timedOut > 0) {
+      console.log(
+        `[Courier Dispatch] Timed out ${result.timedOut} unanswered offer(s)`
+      );
+    }
+
+    const waiting =
+      await this.services.deliveryService.findOrdersAwaitingCourier();
+    for (const orderId of waiting) {
+      try {
+        if (await this.dispatch(orderId, now)) {
+          result.redispatched++;
+        }
+      } catch (error) {
+        // Typically offered by a delivery.rejected handler in the meantime
+        console.error(
+          `[Courier Dispatch] Failed to offer order ${orderId}:`,
+          error
+        );
+      }
+    }
+
+    return result;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.loop = (async () => {
+      while (this.running) {
+        try {
+          await this.runOnce();
+        } catch (error) {
+          console.error("[Courier Dispatch] Error sweeping offers:", error);
+        }
+        await sleep(this.intervalMs);
+      }
+    })();
+
+    console.log(
+      `[Courier Dispatch] Started (offer timeout ${this.offerTimeoutMs}ms)`
+    );
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    await this.loop;
+    this.loop = null;
+    console.log("[Courier Dispatch] Stopped");
+  }
+
+  /**
+   * Resolve the warehouse the order's stock was reserved in
+   */
+  private async findPickup(
+    orderId: number
+  ): Promise<{ address: string; location: GeoPoint | null } | null> {
+    const reservations =
+      await this.services.inventoryService.findByOrderId(orderId);
+    const warehouseId = reservations.find(
+      (reservation) => reservation.warehouseId !== null
+    )?.warehouseId;
+
+    if (!warehouseId) {
+      return null;
+    }
+
+    const warehouse =
+      await this.services.warehousesService.findById(warehouseId);
+    if (!warehouse) {
+      return null;
+    }
+
+    return {
+      address: [warehouse.address ?? warehouse.name, warehouse.city]
+        .filter(Boolean)
+        .join(", "),
+      location: toGeoPoint(warehouse.latitude, warehouse.longitude),
+    };
+  }
+}
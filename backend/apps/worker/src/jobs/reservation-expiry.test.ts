@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import type {
+  InventoryService,
+  OrderService,
+  ExpiredReservation,
+} from '@lokaly/domain';
+import { ReservationExpirySweeper } from './reservation-expiry';
+
+function expired(reservationId: number, orderId: number): ExpiredReservation {
+  return {
+    reservationId,
+    orderId,
+    orderStatus: 'confirmed',
+    productId: 3,
+    quantity: 1,
+    expiresAt: new Date('2024-01-01T00:00:00Z'),
+  };
+}
+
+describe('worker ReservationExpirySweeper', () => {
+  let released: Array<[number, string]>;
+  let cancelled: Array<[number, string]>;
+  let inventoryService: InventoryService;
+  let orderService: OrderService;
+
+  beforeEach(() => {
+    released = [];
+    cancelled = [];
+    inventoryService = {
+      findExpiredReservations: async () => [
+        expired(1, 10),
+        expired(2, 10),
+        expired(3, 11),
+      ],
+      releaseReservation: async (id: number, reason: string) => {
+        released.push([id, reason]);
+      },
+    } as unknown as InventoryService;
+    orderService = {
+      cancelOrder: async (orderId: number, reason: string) => {
+        cancelled.push([orderId, reason]);
+      },
+    } as unknown as OrderService;
+  });
+
+  it('should release expired reservations with reason expired', async () => {
+    const sweeper = new ReservationExpirySweeper(
+      inventoryService,
+      orderService,
+      { dryRun: false, cancelOrders: false }
+    );
+
+    const result = await sweeper.runOnce();
+
+    expect(released).toEqual([
+      [1, 'expired'],
+      [2, 'expired'],
+      [3, 'expired'],
+    ]);
+    expect(cancelled).toEqual([]);
+    expect(result).toEqual({ expired: 3, released: 3, cancelledOrders: 0 });
+  });
+
+  it('should cancel each affected order once when enabled', async () => {
+    const sweeper = new ReservationExpirySweeper(
+      inventoryService,
+      orderService,
+      { dryRun: false, cancelOrders: true }
+    );
+
+    const result = await sweeper.runOnce();
+
+    expect(cancelled.map(([orderId]) => orderId)).toEqual([10, 11]);
+    expect(result.cancelledOrders).toBe(2);
+  });
+
+  it('should not change anything in dry-run mode', async () => {
+    const sweeper = new ReservationExpirySweeper(
+      inventoryService,
+      orderService,
+      { dryRun: true, cancelOrders: true }
+    );
+
+    const result = await sweeper.runOnce();
+
+    expect(released).toEqual([]);
+    expect(cancelled).toEqual([]);
+    expect(result).toEqual({ expired: 3, released: 0, cancelledOrders: 0 });
+  });
+
+  it('should keep going when a release fails', async () => {
+    inventoryService.releaseReservation = async (id: number) => {
+      if (id === 1) {
+        throw new Error('lock timeout');
+      }
+      released.push([id, 'expired']);
+    };
+    const sweeper = new ReservationExpirySweeper(
+      inventoryService,
+      orderService,
+      { dryRun: false, cancelOrders: true }
+    );
+
+    const result = await sweeper.runOnce();
+
+    expect(result.released).toBe(2);
+    expect(released.map(([id]) => id)).toEqual([2, 3]);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Reservation Expiry Sweeper
+ *
+ * Periodically releases inventory reservations past their `expiresAt`
+ * for orders still in pending/confirmed, giving the stock back.
+ * Each release emits inventory.released through InventoryService.
+ *
+ * Options:
+ * - dryRun: only log what would be released (for operations)
+ * - cancelOrders: also cancel the orders whose reservations expired
+ */
+
+import type {
+  InventoryService,
+  OrderService,
+  ExpiredReservation,
+} from "@lokaly/domain";
+import { sleep } from "@lokaly/utils";
+
+export type ReservationExpiryOptions = {
+  intervalMs?: number; // Pause between sweeps
+  batchSize?: number; // Reservations handled per sweep
+  dryRun?: boolean;
+  cancelOrders?: boolean;
+};
+
+export type SweepResult = {
+  expired: number; // Expired reservations found
+  released: number;
+  cancelledOrders: number;
+};
+
+export class ReservationExpirySweeper {
+  private intervalMs: number;
+  private batchSize: number;
+  private dryRun: boolean;
+  private cancelOrders: boolean;
+  private running = false;
+  private loop: Promise<void> | null = null;
+
+  constructor(
+    private inventoryService: InventoryService,
+    private orderService: OrderService,
+    options: ReservationExpiryOptions = {}
+  ) {
+    this.intervalMs =
+      options.intervalMs ??
+      Number(process.env.RESERVATION_SWEEP_INTERVAL_MS || 60000);
+    this.batchSize = options.batchSize ?? 100;
+    this.dryRun =
+      options.dryRun ?? process.env.RESERVATION_SWEEP_DRY_RUN === "true";
+    this.cancelOrders =
+      options.cancelOrders ??
+      process.env.RESERVATION_SWEEP_CANCEL_ORDERS === "true";
+  }
+
+  /**
+   * Run a single sweep
+   * A failing reservation is logged and skipped so one bad row does not
+   * block the rest of the batch.
+   */
+  async runOnce(now: Date = new Date()): Promise<SweepResult> {
+    const expired = await this.inventoryService.findExpiredReservations(
+      now,
+      this.batchSize
+    );
+    const result: SweepResult = {
+      expired: expired.length,
+      released: 0,
+      cancelledOrders: 0,
+    };
+
+    if (expired.length === 0) {
+      return result;
+    }
+
+    if (this.dryRun) {
+      for (const reservation of expired) {
+        console.log(
+          `[Reservation Sweeper] (dry run) Would release reservation ${reservation.reservationId} of order ${reservation.orderId} (expired ${reservation.expiresAt.toISOString()})`
+        );
+      }
+      return result;
+    }
+
+    const affectedOrders = new Map<number, ExpiredReservation>();
+    for (const reservation of expired) {
+      try {
+        await this.inventoryService.releaseReservation(
+          reservation.reservationId,
+          "expired",
+          "reservation-sweeper"
+        );
+        result.released++;
+        affectedOrders.set(reservation.orderId, reservation);
+      } catch (error) {
+        console.error(
+          `[Reservation Sweeper] Failed to release reservation ${reservation.reservationId}:`,
+          error
+        );
+      }
+    }
+
+    if (this.cancelOrders) {
+      for (const orderId of affectedOrders.keys()) {
+        try {
+          await this.orderService.cancelOrder(
+            orderId,
+            "Inventory reservation expired"
+          );
+          result.cancelledOrders++;
+        } catch (error) {
+          console.error(
+            `[Reservation Sweeper] Failed to cancel order ${orderId}:`,
+            error
+          );
+        }
+      }
+    }
+
+    console.log(
+      `[Reservation Sweeper] Released ${result.released} expired reservation(s), cancelled ${result.cancelledOrders} order(s)`
+    );
+
+    return result;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.loop = (async () => {
+      while (this.running) {
+        try {
+          await this.runOnce();
+        } catch (error) {
+          console.error("[Reservation Sweeper] Error sweeping:", error);
+        }
+        await sleep(this.intervalMs);
+      }
+    })();
+
+    console.log(
+      `[Reservation Sweeper] Started (every ${this.intervalMs}ms${
+        this.dryRun ? ", dry run" : ""
+      })`
+    );
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    await this.loop;
+    this.loop = null;
+    console.log("[Reservation Sweeper] Stopped");
+  }
+}
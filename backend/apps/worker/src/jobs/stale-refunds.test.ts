@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { RefundService, type PaymentGateway } from '@lokaly/domain';
+import { StaleRefundSweeper } from './stale-refunds';
+
+describe('worker StaleRefundSweeper', () => {
+  let cutoffs: Array<[Date, number]>;
+  let refundService: RefundService;
+
+  beforeEach(() => {
+    cutoffs = [];
+    refundService = {
+      resolveStalePending: async (olderThan: Date, limit: number) => {
+        cutoffs.push([olderThan, limit]);
+        return [
+          {
+            id: 5,
+            orderId: 42,
+            amount: '40.00',
+            transactionId: 'sim_1',
+            status: 'needs_review',
+            createdAt: new Date('2024-01-01T10:00:00Z'),
+          },
+        ];
+      },
+    } as unknown as RefundService;
+  });
+
+  it('should settle refunds pending for longer than the timeout', async () => {
+    const sweeper = new StaleRefundSweeper(refundService, {
+      timeoutMs: 15 * 60 * 1000,
+      batchSize: 20,
+    });
+
+    const resolved = await sweeper.runOnce(new Date('2024-01-01T12:00:00Z'));
+
+    expect(resolved).toBe(1);
+    expect(cutoffs).toEqual([[new Date('2024-01-01T11:45:00Z'), 20]]);
+  });
+
+  it('should do nothing when no refund is stale', async () => {
+    refundService.resolveStalePending = async () => [];
+    const sweeper = new StaleRefundSweeper(refundService);
+
+    expect(await sweeper.runOnce()).toBe(0);
+  });
+});
+
+describe('RefundService.resolveStalePending', () => {
+  const stale = {
+    id: 5,
+    orderId: 42,
+    amount: '40.00',
+    transactionId: 'sim_1',
+    status: 'pending',
+    createdAt: new Date('2024-01-01T10:00:00Z'),
+  };
+
+  // Answers the stale refund query and records status updates
+  function fakeDb(updates: unknown[]) {
+    const query = {
+      from: () => query,
+      where: () => query,
+      orderBy: () => query,
+      limit: async () => [stale],
+    };
+    return {
+      drizzle: {
+        select: () => query,
+        update: () => ({
+          set: (values: Record<string, unknown>) => ({
+            where: () => ({
+              returning: async () => {
+                updates.push(values);
+                return [{ ...stale, ...values }];
+              },
+            }),
+          }),
+        }),
+      },
+    };
+  }
+
+  it('should fail refunds the gateway never received', async () => {
+    const updates: any[] = [];
+    const lookups: string[][] = [];
+    const service = new RefundService(fakeDb(updates) as any, {
+      findRefund: async (transactionId: string, reference: string) => {
+        lookups.push([transactionId, reference]);
+        return null;
+      },
+    } as unknown as PaymentGateway);
+
+    const resolved = await service.resolveStalePending(new Date());
+
+    expect(lookups).toEqual([['sim_1', 'refund_5']]);
+    expect(updates[0].status).toBe('failed');
+    expect(resolved.map((refund) => refund.status)).toEqual(['failed']);
+  });
+
+  it('should keep holding the amount when the gateway cannot tell', async () => {
+    const updates: any[] = [];
+    const service = new RefundService(fakeDb(updates) as any, {
+      findRefund: async () => {
+        throw new Error('Gateway timeout');
+      },
+    } as unknown as PaymentGateway);
+
+    const resolved = await service.resolveStalePending(new Date());
+
+    expect(updates[0].status).toBe('needs_review');
+    expect(updates[0].failureReason).toContain('Gateway timeout');
+    expect(resolved.map((refund) => refund.status)).toEqual(['needs_review']);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Stale Refund Sweeper
+ *
+ * Periodically settles refunds still pending past the timeout by asking the
+ * gateway for them (RefundService.resolveStalePending).
+ * A refund is written as pending before the gateway call; if the process
+ * stops before the outcome is recorded, the row would keep its amount
+ * blocked forever. Refunds the gateway has become succeeded, those it never
+ * received become failed (and can be issued again), and those it cannot
+ * tell about become needs_review; admins find them in GET
+ * /api/admin/refunds?status=needs_review.
+ *
+ * Options:
+ * - timeoutMs: how long a refund may stay pending
+ */
+
+import type { RefundService } from "@lokaly/domain";
+import { sleep } from "@lokaly/utils";
+
+export type StaleRefundOptions = {
+  intervalMs?: number; // Pause between sweeps
+  timeoutMs?: number; // Pending for longer than this: ask the gateway
+  batchSize?: number; // Refunds handled per sweep
+};
+
+export class StaleRefundSweeper {
+  private intervalMs: number;
+  private timeoutMs: number;
+  private batchSize: number;
+  private running = false;
+  private loop: Promise<void> | null = null;
+
+  constructor(
+    private refundService: RefundService,
+    options: StaleRefundOptions = {}
+  ) {
+    this.intervalMs =
+      options.intervalMs ??
+      Number(process.env.REFUND_SWEEP_INTERVAL_MS || 300000);
+    this.timeoutMs =
+      options.timeoutMs ??
+      Number(process.env.REFUND_PENDING_TIMEOUT_MS || 900000);
+    this.batchSize = options.batchSize ?? 100;
+  }
+
+  /**
+   * Run a single sweep
+   * Returns the number of refunds settled.
+   */
+  async runOnce(now: Date = new Date()): Promise<number> {
+    const resolved = await this.refundService.resolveStalePending(
+      new Date(now.getTime() - this.timeoutMs),
+      this.batchSize
+    );
+
+    for (const refund of resolved) {
+      const message = `[Refund Sweeper] Refund ${refund.id} of order ${refund.orderId} (${refund.amount}) was pending since ${refund.createdAt.toISOString()}, now ${refund.status}`;
+      if (refund.status === "needs_review") {
+        console.warn(
+          `${message}; check transaction ${refund.transactionId} at the gateway`
+        );
+      } else {
+        console.log(message);
+      }
+    }
+
+    return resolved.length;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.loop = (async () => {
+      while (this.running) {
+        try {
+          await this.runOnce();
+        } catch (error) {
+          console.error("[Refund Sweeper] Error sweeping:", error);
+        }
+        await sleep(this.intervalMs);
+      }
+    })();
+
+    console.log(
+      `[Refund Sweeper] Started (every ${this.intervalMs}ms, timeout ${this.timeoutMs}ms)`
+    );
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    await this.loop;
+    this.loop = null;
+    console.log("[Refund Sweeper] Stopped");
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * In-process Fake Redis for Tests
+ * Implements the stream commands used by RedisEventPublisher and
+ * RedisEventConsumer (XADD, XGROUP, XREADGROUP, XACK, XAUTOCLAIM)
+ * with the same `send(command, args)` shape as Bun.RedisClient.
+ */
+
+type Entry = { id: string; fields: string[] };
+
+type PendingEntry = {
+  consumer: string;
+  deliveredAt: number;
+  deliveryCount: number;
+};
+
+type Group = {
+  lastDeliveredId: string;
+  pending: Map<string, PendingEntry>;
+};
+
+type Stream = {
+  entries: Entry[];
+  groups: Map<string, Group>;
+  lastId: string;
+};
+
+function compareIds(a: string, b: string): number {
+  const [aMs = 0, aSeq = 0] = a.split('-').map(Number);
+  const [bMs = 0, bSeq = 0] = b.split('-').map(Number);
+  return aMs !== bMs ? aMs - bMs : aSeq - bSeq;
+}
+
+export class FakeRedis {
+  private streams = new Map<string, Stream>();
+  private waiters = new Set<() => void>();
+  private closed = false;
+
+  /** Shift the clock used for pending idle times (simulates time passing) */
+  clockOffsetMs = 0;
+
+  async send(command: string, args: string[]): Promise<any> {
+    if (this.closed) {
+      throw new Error('Connection closed');
+    }
+
+    switch (command.toUpperCase()) {
+      case 'XADD':
+        return this.xadd(args);
+      case 'XGROUP':
+        return this.xgroup(args);
+      case 'XREADGROUP':
+        return this.xreadgroup(args);
+      case 'XACK':
+        return this.xack(args);
+      case 'XAUTOCLAIM':
+        return this.xautoclaim(args);
+      default:
+        throw new Error(`ERR unknown command '${command}'`);
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+    for (const wake of this.waiters) wake();
+  }
+
+  /** Entries currently stored in a stream */
+  entries(stream: string): Entry[] {
+    return this.streams.get(stream)?.entries ?? [];
+  }
+
+  /** Pending (delivered but not ACKed) message ids for a group */
+  pending(stream: string, group: string): Map<string, PendingEntry> {
+    return this.streams.get(stream)?.groups.get(group)?.pending ?? new Map();
+  }
+
+  private now(): number {
+    return Date.now() + this.clockOffsetMs;
+  }
+
+  private getStream(key: string, create = false): Stream | undefined {
+    let stream = this.streams.get(key);
+    if (!stream && create) {
+      stream = { entries: [], groups: new Map(), lastId: '0-0' };
+      this.streams.set(key, stream);
+    }
+    return stream;
+  }
+
+  private xadd(args: string[]): string {
+    const [key, requestedId, ...fields] = args;
+    if (!key || requestedId !== '*') {
+      throw new Error('ERR fake redis only supports XADD key * field value');
+    }
+
+    const stream = this.getStream(key, true)!;
+    const ms = Date.now();
+    const [lastMs = 0, lastSeq = 0] = stream.lastId.split('-').map(Number);
+    const id = ms > lastMs ? `${ms}-0` : `${lastMs}-${lastSeq + 1}`;
+
+    stream.entries.push({ id, fields });
+    stream.lastId = id;
+
+    for (const wake of this.waiters) wake();
+    return id;
+  }
+
+  private xgroup(args: string[]): string {
+    const [subcommand, key, group, startId, ...rest] = args;
+    if (subcommand?.toUpperCase() !== 'CREATE' || !key || !group) {
+      throw new Error('ERR fake redis only supports XGROUP CREATE');
+    }
+
+    const stream = this.getStream(key, rest.includes('MKSTREAM'));
+    if (!stream) {
+      throw new Error('ERR The XGROUP subcommand requires the key to exist');
+    }
+    if (stream.groups.has(group)) {
+      throw new Error('BUSYGROUP Consumer Group name already exists');
+    }
+
+    stream.groups.set(group, {
+      lastDeliveredId: startId === '$' ? stream.lastId : startId || '0-0',
+      pending: new Map(),
+    });
+    return 'OK';
+  }
+
+  private async xreadgroup(args: string[]): Promise<unknown> {
+    const option = (name: string) => {
+      const index = args.findIndex((arg) => arg.toUpperCase() === name);
+      return index >= 0 ? args[index + 1] : undefined;
+    };
+
+    const groupIndex = args.findIndex((arg) => arg.toUpperCase() === 'GROUP');
+    const group = args[groupIndex + 1]!;
+    const consumer = args[groupIndex + 2]!;
+    const count = Number(option('COUNT') ?? Infinity);
+    const block = option('BLOCK');
+    const key = option('STREAMS')!;
+
+    const read = () => {
+      const stream = this.getStream(key);
+      const state = stream?.groups.get(group);
+      if (!stream || !state) {
+        throw new Error(
+          `NOGROUP No such key '${key}' or consumer group '${group}'`
+        );
+      }
+
+      const delivered = stream.entries
+        .filter((entry) => compareIds(entry.id, state.lastDeliveredId) > 0)
+        .slice(0, count);
+
+      for (const entry of delivered) {
+        state.lastDeliveredId = entry.id;
+        state.pending.set(entry.id, {
+          consumer,
+          deliveredAt: this.now(),
+          deliveryCount: 1,
+        });
+      }
+
+      return delivered;
+    };
+
+    let delivered = read();
+    if (delivered.length === 0 && block !== undefined) {
+      await new Promise<void>((resolve) => {
+        const wake = () => {
+          clearTimeout(timer);
+          this.waiters.delete(wake);
+          resolve();
+        };
+        const timer = setTimeout(wake, Number(block) || 0);
+        this.waiters.add(wake);
+      });
+      if (this.closed) {
+        throw new Error('Connection closed');
+      }
+      delivered = read();
+    }
+
+    if (delivered.length === 0) {
+      return null;
+    }
+
+    return [[key, delivered.map((entry) => [entry.id, entry.fields])]];
+  }
+
+  private xack(args: string[]): number {
+    const [key, group, ...ids] = args;
+    const state = this.getStream(key!)?.groups.get(group!);
+    if (!state) return 0;
+
+    let acked = 0;
+    for (const id of ids) {
+      if (state.pending.delete(id)) acked++;
+    }
+    return acked;
+  }
+
+  private xautoclaim(args: string[]): unknown {
+    const [key, group, consumer, minIdle, start, ...rest] = args;
+    const countIndex = rest.findIndex((arg) => arg.toUpperCase() === 'COUNT');
+    const count = countIndex >= 0 ? Number(rest[countIndex + 1]) : 100;
+
+    const stream = this.getStream(key!);
+    const state = stream?.groups.get(group!);
+    if (!stream || !state) {
+      throw new Error(
+        `NOGROUP No such key '${key}' or consumer group '${group}'`
+      );
+    }
+
+    const now = this.now();
+    const candidates = [...state.pending.entries()]
+      .filter(([id]) => compareIds(id, start!) >= 0)
+      .sort(([a], [b]) => compareIds(a, b));
+
+    const claimed: Array<[string, string[]]> = [];
+    let nextCursor = '0-0';
+
+    for (const [id, entry] of candidates) {
+      if (claimed.length >= count) {
+        nextCursor = id;
+        break;
+      }
+      if (now - entry.deliveredAt < Number(minIdle)) {
+        continue;
+      }
+
+      const streamEntry = stream.entries.find((e) => e.id === id);
+      if (!streamEntry) {
+        state.pending.delete(id);
+        continue;
+      }
+
+      state.pending.set(id, {
+        consumer: consumer!,
+        deliveredAt: now,
+        deliveryCount: entry.deliveryCount + 1,
+      });
+      claimed.push([id, streamEntry.fields]);
+    }
+
+    return [nextCursor, claimed, []];
+  }
+}
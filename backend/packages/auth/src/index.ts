@@ -21,8 +21,15 @@ export type JwtPayload = {
    * Tipo de token para diferenciação de uso
    * - access: usado em Authorization: Bearer
    * - refresh: usado apenas para obter novo access
+   * - mfa_pending: senha conferida, falta o segundo fator (login em 2 etapas)
    */
-  tokenType?: 'access' | 'refresh';
+  tokenType?: 'access' | 'refresh' | 'mfa_pending';
+  /** Token id (single-use refresh tokens) */
+  jti?: string;
+  /** Session (token family) the token belongs to; see SessionService */
+  sid?: string;
+  /** Effective admin permissions (access tokens only); see permissions.ts */
+  permissions?: string[];
   iat?: number;
   exp?: number;
 };
@@ -108,6 +115,170 @@ export class JwtService {
   }
 }
 
+export type PasswordVerification = {
+  valid: boolean;
+  /**
+   * Hash stored with an outdated scheme (legacy plain value, bcrypt);
+   * callers should store a fresh hash() of the password
+   */
+  needsRehash: boolean;
+};
+
+/**
+ * Password Hashing
+ *
+ * Bun.password (argon2id by default). verify() also accepts:
+ * - bcrypt hashes (seeded accounts)
+ * - legacy rows holding the raw value the client used to send as
+ *   `passwordHash`, compared in constant time
+ * Both report needsRehash so they are upgraded on the next login.
+ */
+export class PasswordHasher {
+  constructor(
+    private options: { algorithm: 'argon2id' | 'bcrypt'; cost?: number } = {
+      algorithm: 'argon2id',
+    }
+  ) {}
+
+  async hash(password: string): Promise<string> {
+    if (this.options.algorithm === 'bcrypt') {
+      return Bun.password.hash(password, {
+        algorithm: 'bcrypt',
+        cost: this.options.cost ?? 10,
+      });
+    }
+    return Bun.password.hash(password, { algorithm: 'argon2id' });
+  }
+
+  async verify(
+    password: string,
+    storedHash: string
+  ): Promise<PasswordVerification> {
+    if (!PasswordHasher.isHashed(storedHash)) {
+      return {
+        valid: constantTimeEqual(password, storedHash),
+        needsRehash: true,
+      };
+    }
+
+    const valid = await Bun.password.verify(password, storedHash);
+    const prefix =
+      this.options.algorithm === 'bcrypt' ? '$2' : '$argon2id$';
+
+    return { valid, needsRehash: valid && !storedHash.startsWith(prefix) };
+  }
+
+  /**
+   * Whether a stored value is a real password hash (argon2/bcrypt)
+   */
+  static isHashed(value: string): boolean {
+    return /^\$(argon2(id|i|d)|2[aby])\$/.test(value);
+  }
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+  const left = new TextEncoder().encode(a);
+  const right = new TextEncoder().encode(b);
+
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    diff |= (left[i] ?? 0) ^ (right[i] ?? 0);
+  }
+  return diff === 0;
+}
+
+export const PASSWORD_MIN_LENGTH = 8;
+export const PASSWORD_MAX_LENGTH = 128;
+
+const COMMON_PASSWORDS = new Set([
+  '12345678',
+  '123456789',
+  '1234567890',
+  'password',
+  'password1',
+  'qwerty123',
+  'senha123',
+  'senha1234',
+  'admin123',
+  'abc12345',
+  'iloveyou1',
+  'lokaly123',
+]);
+
+/**
+ * Password strength rules
+ * Returns the list of violated rules (empty when the password is accepted).
+ */
+export function validatePasswordStrength(
+  password: string,
+  context: { email?: string } = {}
+): string[] {
+  const errors: string[] = [];
+
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    errors.push(
+      `Password must be at least ${PASSWORD_MIN_LENGTH} characters long`
+    );
+  }
+  if (password.length > PASSWORD_MAX_LENGTH) {
+    errors.push(
+      `Password must be at most ${PASSWORD_MAX_LENGTH} characters long`
+    );
+  }
+  if (!/[a-zA-Z]/.test(password) || !/[0-9]/.test(password)) {
+    errors.push('Password must contain letters and numbers');
+  }
+  if (COMMON_PASSWORDS.has(password.toLowerCase())) {
+    errors.push('Password is too common');
+  }
+
+  const emailName = context.email?.split('@')[0]?.toLowerCase();
+  if (
+    emailName &&
+    emailName.length >= 3 &&
+    password.toLowerCase().includes(emailName)
+  ) {
+    errors.push('Password must not contain the email address');
+  }
+
+  return errors;
+}
+
+export const PASSWORD_RESET_TTL_SECONDS = 60 * 60; // 1 hour
+export const EMAIL_VERIFICATION_TTL_SECONDS = 48 * 60 * 60; // 48 hours
+
+export type OneTimeToken = {
+  /** Raw token, only ever sent to the user (email link) */
+  token: string;
+  /** SHA-256 of the token, the only form stored in the database */
+  tokenHash: string;
+  expiresAt: Date;
+};
+
+/**
+ * One-time tokens (password reset, email verification)
+ * 256 random bits, so an unsalted SHA-256 is enough to keep a database dump
+ * from yielding usable tokens.
+ */
+export function createOneTimeToken(
+  ttlSeconds: number,
+  now: Date = new Date()
+): OneTimeToken {
+  const token = Buffer.from(
+    crypto.getRandomValues(new Uint8Array(32))
+  ).toString('base64url');
+
+  return {
+    token,
+    tokenHash: hashOneTimeToken(token),
+    expiresAt: new Date(now.getTime() + ttlSeconds * 1000),
+  };
+}
+
+export function hashOneTimeToken(token: string): string {
+  return new Bun.CryptoHasher('sha256').update(token).digest('hex');
+}
+
 /**
  * Role-Based Access Control
  */
@@ -137,8 +308,9 @@ export class RBAC {
 
   /**
    * Check if user can access admin endpoints
+   * Takes any role string, e.g. users.role as stored, and narrows it.
    */
-  static isAdmin(userRole: UserRole): boolean {
+  static isAdmin(userRole: string): userRole is 'admin' | 'super_admin' {
     return userRole === 'admin' || userRole === 'super_admin';
   }
 
@@ -158,3 +330,38 @@ export function extractToken(authHeader: string | null): string | null {
   if (!authHeader.startsWith('Bearer ')) return null;
   return authHeader.slice(7);
 }
+
+export {
+  SessionService,
+  DEFAULT_SESSION_OPTIONS,
+  MFA_CHALLENGE_TTL_SECONDS,
+  MFA_MAX_ATTEMPTS,
+  type Session,
+  type SessionCache,
+  type SessionOptions,
+  type TokenClaims,
+  type TokenPair,
+} from './sessions';
+
+export {
+  PERMISSIONS,
+  ROLE_PERMISSIONS,
+  hasPermissions,
+  isPermission,
+  parsePermissionGrants,
+  resolvePermissions,
+  type Permission,
+} from './permissions';
+
+export {
+  RECOVERY_CODE_COUNT,
+  TOTP_DIGITS,
+  TOTP_PERIOD_SECONDS,
+  buildTotpUri,
+  generateRecoveryCodes,
+  generateTotp,
+  generateTotpSecret,
+  hashRecoveryCode,
+  totpStep,
+  verifyTotp,
+} from './totp';
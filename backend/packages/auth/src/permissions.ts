@@ -0,0 +1,101 @@
+/**
+ * Permissions (admin API)
+ *
+ * - Every admin action maps to a permission of the catalogue (`resource:action`)
+ * - Each role has default permissions; super_admin has all of them
+ * - users.permissions (JSON array) grants extra permissions to one user
+ * - The effective set is embedded in access tokens (`permissions` claim)
+ */
+
+export const PERMISSIONS = [
+  'users:read',
+  'users:write',
+  'users:delete',
+  'users:permissions', // change role or permissions of a user
+  'customers:read',
+  'customers:write',
+  'couriers:read',
+  'couriers:write',
+  'couriers:verify',
+  'products:read',
+  'products:write',
+  'products:prices',
+  'orders:read',
+  'orders:write', // status transitions and internal notes
+  'orders:cancel',
+  'orders:refund', // full and partial refunds of order payments
+  'dead-letters:read',
+  'dead-letters:replay',
+  'security:manage', // 2FA requirements and other account security policies
+  'audit:read',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLE_PERMISSIONS: Record<string, readonly Permission[]> = {
+  super_admin: PERMISSIONS,
+  admin: [
+    'users:read',
+    'customers:read',
+    'customers:write',
+    'couriers:read',
+    'couriers:write',
+    'products:read',
+    'products:write',
+    'orders:read',
+    'orders:write',
+    'dead-letters:read',
+  ],
+};
+
+export function isPermission(value: unknown): value is Permission {
+  return (
+    typeof value === 'string' &&
+    (PERMISSIONS as readonly string[]).includes(value)
+  );
+}
+
+/**
+ * Parse users.permissions (JSON array); unknown entries are ignored
+ */
+export function parsePermissionGrants(
+  grants: string | null | undefined
+): Permission[] {
+  if (!grants) {
+    return [];
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(grants);
+    return Array.isArray(parsed) ? parsed.filter(isPermission) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Role defaults plus the user's own grants
+ */
+export function resolvePermissions(
+  role: string,
+  grants: string | null | undefined
+): Permission[] {
+  const effective = new Set<Permission>(ROLE_PERMISSIONS[role] ?? []);
+  for (const permission of parsePermissionGrants(grants)) {
+    effective.add(permission);
+  }
+
+  return PERMISSIONS.filter((permission) => effective.has(permission));
+}
+
+/**
+ * Whether every required permission is granted
+ */
+export function hasPermissions(
+  granted: readonly string[] | undefined,
+  required: Permission | readonly Permission[]
+): boolean {
+  const requiredList: readonly Permission[] =
+    typeof required === 'string' ? [required] : required;
+  return requiredList.every((permission) => granted?.includes(permission));
+}
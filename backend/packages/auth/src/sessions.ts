@@ -0,0 +1,297 @@
+/**
+ * Sessions (refresh-token rotation and revocation)
+ *
+ * Token state lives in Redis via CacheService:
+ * - Every login starts a session (token family); tokens carry its id (`sid`)
+ *   and their own id (`jti`)
+ * - A refresh token is single use: refreshing consumes its jti and issues a
+ *   new pair in the same session
+ * - Presenting an already consumed refresh token means it leaked: the whole
+ *   session is ended, including the tokens issued to the thief
+ * - Access tokens are only accepted while their session is alive, so logout
+ *   takes effect immediately
+ * - "Log out all sessions" revokes every session of the account started
+ *   before that moment
+ * - Accounts with two-factor authentication get a short-lived `mfa_pending`
+ *   token at login instead of a session; it allows a few code attempts
+ *   (counted atomically, before each code is checked) and is exchanged once
+ *   for a real session
+ */
+
+import type { CacheService } from '@lokaly/cache';
+import type { JwtPayload, JwtService, UserRole } from './index';
+
+export type SessionCache = Pick<
+  CacheService,
+  'get' | 'set' | 'delete' | 'getAndDelete' | 'incrementWithTtl'
+>;
+
+export type TokenClaims = {
+  userId: string;
+  role: UserRole;
+  email?: string;
+  /** Embedded in access tokens; refresh re-reads them from the account */
+  permissions?: string[];
+};
+
+export type TokenPair = {
+  accessToken: string;
+  refreshToken: string;
+};
+
+export type Session = {
+  id: string;
+  userId: string;
+  role: UserRole;
+  createdAt: number; // epoch ms
+};
+
+export type SessionOptions = {
+  accessTtlSeconds: number;
+  refreshTtlSeconds: number;
+};
+
+export const DEFAULT_SESSION_OPTIONS: SessionOptions = {
+  accessTtlSeconds: 15 * 60, // 15 minutes
+  refreshTtlSeconds: 7 * 24 * 60 * 60, // 7 days
+};
+
+export const MFA_CHALLENGE_TTL_SECONDS = 5 * 60;
+export const MFA_MAX_ATTEMPTS = 5;
+
+/**
+ * Customers, couriers and admin users live in different tables, so their
+ * ids overlap; revocations are keyed per account type
+ */
+function accountKey(account: { userId: string; role: UserRole }): string {
+  const type =
+    account.role === 'customer' || account.role === 'courier'
+      ? account.role
+      : 'user';
+  return `${type}:${account.userId}`;
+}
+
+export class SessionService {
+  constructor(
+    private jwtService: JwtService,
+    private cache: SessionCache,
+    private options: SessionOptions = DEFAULT_SESSION_OPTIONS
+  ) {}
+
+  /**
+   * Start a new session (login)
+   */
+  async start(claims: TokenClaims): Promise<TokenPair> {
+    const session: Session = {
+      id: crypto.randomUUID(),
+      userId: claims.userId,
+      role: claims.role,
+      createdAt: Date.now(),
+    };
+
+    return this.issue(session, claims);
+  }
+
+  /**
+   * Issue the next token pair of a consumed session
+   */
+  async rotate(session: Session, claims: TokenClaims): Promise<TokenPair> {
+    return this.issue(session, claims);
+  }
+
+  /**
+   * Verify an access token and that its session is still alive
+   */
+  async verifyAccessToken(token: string): Promise<JwtPayload | null> {
+    const payload = await this.jwtService.verify(token);
+    if (!payload || payload.tokenType !== 'access' || !payload.sid) {
+      return null;
+    }
+
+    const session = await this.findActive(payload.sid, payload);
+    return session ? payload : null;
+  }
+
+  /**
+   * Verify signature, expiry and type of a refresh token
+   * Does not consume it; see consume().
+   */
+  async verifyRefreshToken(token: string): Promise<JwtPayload | null> {
+    const payload = await this.jwtService.verify(token);
+    if (!payload || payload.tokenType !== 'refresh') {
+      return null;
+    }
+    return payload;
+  }
+
+  /**
+   * Consume a verified refresh token (single use)
+   * Returns null when the token was already used (ending its session),
+   * or when the session was logged out/revoked.
+   */
+  async consume(payload: JwtPayload): Promise<Session | null> {
+    if (!payload.jti || !payload.sid) {
+      return null; // Issued before sessions existed
+    }
+
+    const sessionId = await this.cache.getAndDelete<string>(
+      `sessions:refresh:${payload.jti}`
+    );
+    if (!sessionId) {
+      await this.end(payload.sid); // Reuse: kill the whole token family
+      return null;
+    }
+    if (sessionId !== payload.sid) {
+      return null;
+    }
+
+    return this.findActive(payload.sid, payload);
+  }
+
+  /**
+   * End one session (logout)
+   */
+  async end(sessionId: string): Promise<void> {
+    await this.cache.delete(`sessions:${sessionId}`);
+  }
+
+  /**
+   * End every session of an account started up to now
+   * (log out everywhere, password change)
+   */
+  async endAll(account: { userId: string; role: UserRole }): Promise<void> {
+    await this.cache.set(
+      `sessions:revoked:${accountKey(account)}`,
+      Date.now(),
+      { ttl: this.options.refreshTtlSeconds }
+    );
+  }
+
+  /**
+   * Issue an mfa_pending token (password checked, second factor missing)
+   */
+  async startMfaChallenge(claims: TokenClaims): Promise<string> {
+    const jti = crypto.randomUUID();
+    await this.cache.set(`sessions:mfa:${jti}`, 0, {
+      ttl: MFA_CHALLENGE_TTL_SECONDS,
+    });
+
+    return this.jwtService.sign(
+      {
+        userId: claims.userId,
+        role: claims.role,
+        email: claims.email,
+        tokenType: 'mfa_pending',
+        jti,
+      },
+      MFA_CHALLENGE_TTL_SECONDS
+    );
+  }
+
+  /**
+   * Verify an mfa_pending token that has not been used up yet
+   */
+  async verifyMfaChallenge(token: string): Promise<JwtPayload | null> {
+    const payload = await this.jwtService.verify(token);
+    if (!payload || payload.tokenType !== 'mfa_pending' || !payload.jti) {
+      return null;
+    }
+
+    const attempts = await this.cache.get<number>(
+      `sessions:mfa:${payload.jti}`
+    );
+    return attempts === null ? null : payload;
+  }
+
+  /**
+   * Count a code attempt, before the code is checked
+   * The counter is a Redis INCR, so parallel guesses never share a count.
+   * Returns false (and drops the challenge) once MFA_MAX_ATTEMPTS codes
+   * were tried.
+   */
+  async attemptMfaChallenge(payload: JwtPayload): Promise<boolean> {
+    const attempts = await this.cache.incrementWithTtl(
+      `sessions:mfa:attempts:${payload.jti}`,
+      MFA_CHALLENGE_TTL_SECONDS
+    );
+
+    if (attempts < 1 || attempts > MFA_MAX_ATTEMPTS) {
+      await this.cache.delete(`sessions:mfa:${payload.jti}`);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Use up the challenge after a correct code
+   * Returns false when it was already used (concurrent request).
+   */
+  async completeMfaChallenge(payload: JwtPayload): Promise<boolean> {
+    const attempts = await this.cache.getAndDelete<number>(
+      `sessions:mfa:${payload.jti}`
+    );
+    return attempts !== null;
+  }
+
+  private async findActive(
+    sessionId: string,
+    payload: JwtPayload
+  ): Promise<Session | null> {
+    const session = await this.cache.get<Session>(`sessions:${sessionId}`);
+    if (
+      !session ||
+      session.userId !== payload.userId ||
+      accountKey(session) !== accountKey(payload)
+    ) {
+      return null;
+    }
+
+    const revokedAt = await this.cache.get<number>(
+      `sessions:revoked:${accountKey(session)}`
+    );
+    if (revokedAt !== null && session.createdAt <= revokedAt) {
+      return null;
+    }
+
+    return session;
+  }
+
+  private async issue(
+    session: Session,
+    claims: TokenClaims
+  ): Promise<TokenPair> {
+    const { accessTtlSeconds, refreshTtlSeconds } = this.options;
+    const refreshJti = crypto.randomUUID();
+
+    // Sliding expiry: the session lives as long as its newest refresh token
+    await this.cache.set(`sessions:${session.id}`, session, {
+      ttl: refreshTtlSeconds,
+    });
+    await this.cache.set(`sessions:refresh:${refreshJti}`, session.id, {
+      ttl: refreshTtlSeconds,
+    });
+
+    const base = {
+      userId: claims.userId,
+      role: claims.role,
+      email: claims.email,
+      sid: session.id,
+    };
+
+    return {
+      accessToken: await this.jwtService.sign(
+        {
+          ...base,
+          tokenType: 'access',
+          jti: crypto.randomUUID(),
+          permissions: claims.permissions,
+        },
+        accessTtlSeconds
+      ),
+      refreshToken: await this.jwtService.sign(
+        { ...base, tokenType: 'refresh', jti: refreshJti },
+        refreshTtlSeconds
+      ),
+    };
+  }
+}
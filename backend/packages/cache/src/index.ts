@@ -90,6 +90,22 @@ export class CacheService {
     }
   }
 
+  /**
+   * Get and delete a key atomically (GETDEL)
+   * Lets single-use values be consumed exactly once under concurrency.
+   */
+  async getAndDelete<T>(key: string, prefix?: string): Promise<T | null> {
+    try {
+      const fullKey = this.buildKey(key, prefix);
+      const value = await this.redis.getdel(fullKey);
+      if (!value) return null;
+      return JSON.parse(value) as T;
+    } catch (error) {
+      console.error(`[Cache] Error consuming key ${key}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Delete multiple keys matching a pattern
    */
@@ -230,6 +246,29 @@ export class CacheService {
     }
   }
 
+  /**
+   * Increment a counter and (re)set its TTL in one MULTI, so concurrent
+   * increments each get their own value and the counter never outlives it
+   */
+  async incrementWithTtl(
+    key: string,
+    ttl: number,
+    prefix?: string
+  ): Promise<number> {
+    try {
+      const fullKey = this.buildKey(key, prefix);
+      const results = await this.redis
+        .multi()
+        .incr(fullKey)
+        .expire(fullKey, ttl)
+        .exec();
+      return Number(results?.[0]?.[1] ?? 0);
+    } catch (error) {
+      console.error(`[Cache] Error incrementing key ${key}:`, error);
+      return 0;
+    }
+  }
+
   /**
    * Get TTL of a key
    */
@@ -0,0 +1,31 @@
+CREATE TABLE "dead_letter_events" (
+	"id" bigint PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "dead_letter_events_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 9223372036854775807 START WITH 1 CACHE 1),
+	"event_id" text NOT NULL,
+	"consumer_group" text NOT NULL,
+	"event_type" text NOT NULL,
+	"correlation_id" text,
+	"payload" text NOT NULL,
+	"status" text NOT NULL,
+	"failure_reason" text NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_failed_at" timestamp DEFAULT now() NOT NULL,
+	"replayed_at" timestamp,
+	"discarded_at" timestamp,
+	"discard_reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "processed_events" (
+	"id" bigint PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "processed_events_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 9223372036854775807 START WITH 1 CACHE 1),
+	"event_id" text NOT NULL,
+	"consumer_group" text NOT NULL,
+	"event_type" text NOT NULL,
+	"processed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "dead_letter_events_event_consumer_idx" ON "dead_letter_events" USING btree ("event_id","consumer_group");--> statement-breakpoint
+CREATE INDEX "dead_letter_events_status_idx" ON "dead_letter_events" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "dead_letter_events_event_type_idx" ON "dead_letter_events" USING btree ("event_type");--> statement-breakpoint
+CREATE UNIQUE INDEX "processed_events_event_consumer_idx" ON "processed_events" USING btree ("event_id","consumer_group");--> statement-breakpoint
+CREATE INDEX "processed_events_processed_at_idx" ON "processed_events" USING btree ("processed_at");
\ No newline at end of file
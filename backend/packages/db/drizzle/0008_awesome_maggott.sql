@@ -0,0 +1,3 @@
+ALTER TABLE "delivery_assignments" ADD COLUMN "in_transit_at" timestamp;--> statement-breakpoint
+ALTER TABLE "delivery_assignments" ADD COLUMN "cancelled_at" timestamp;--> statement-breakpoint
+ALTER TABLE "delivery_assignments" ADD COLUMN "cancellation_reason" text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "warehouses" ADD COLUMN "latitude" numeric(10, 8);--> statement-breakpoint
+ALTER TABLE "warehouses" ADD COLUMN "longitude" numeric(11, 8);
\ No newline at end of file
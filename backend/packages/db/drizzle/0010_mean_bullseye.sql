@@ -0,0 +1 @@
+ALTER TABLE "delivery_assignments" ADD COLUMN "proof_photo_url" text;
\ No newline at end of file
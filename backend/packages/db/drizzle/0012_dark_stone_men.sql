@@ -0,0 +1 @@
+ALTER TABLE "couriers" ADD COLUMN "password_changed_at" timestamp;
\ No newline at end of file
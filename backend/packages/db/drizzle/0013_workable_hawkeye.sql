@@ -0,0 +1,7 @@
+ALTER TABLE "customers" ADD COLUMN "email_verification_expires_at" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "email_verification_token" text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "email_verification_expires_at" timestamp;--> statement-breakpoint
+CREATE INDEX "customers_password_reset_token_idx" ON "customers" USING btree ("password_reset_token");--> statement-breakpoint
+CREATE INDEX "customers_email_verification_token_idx" ON "customers" USING btree ("email_verification_token");--> statement-breakpoint
+CREATE INDEX "users_password_reset_token_idx" ON "users" USING btree ("password_reset_token");--> statement-breakpoint
+CREATE INDEX "users_email_verification_token_idx" ON "users" USING btree ("email_verification_token");
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "two_factor_requirements" (
+	"department" text PRIMARY KEY NOT NULL,
+	"required_by" bigint,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "two_factor_recovery_codes" text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "two_factor_last_used_step" integer;--> statement-breakpoint
+ALTER TABLE "two_factor_requirements" ADD CONSTRAINT "two_factor_requirements_required_by_users_id_fk" FOREIGN KEY ("required_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
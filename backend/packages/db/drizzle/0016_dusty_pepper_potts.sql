@@ -0,0 +1 @@
+CREATE INDEX "outbox_events_correlation_idx" ON "outbox_events" USING btree ("correlation_id","created_at");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "orders" ADD COLUMN "cancelled_by_customer_id" bigint;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "cancellation_source" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD CONSTRAINT "orders_cancelled_by_customer_id_customers_id_fk" FOREIGN KEY ("cancelled_by_customer_id") REFERENCES "public"."customers"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
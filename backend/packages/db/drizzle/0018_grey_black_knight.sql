@@ -0,0 +1,18 @@
+CREATE TABLE "order_number_sequences" (
+	"year" integer PRIMARY KEY NOT NULL,
+	"last_value" integer NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+-- Number the orders created before order numbers were generated, per year in creation order
+UPDATE "orders" SET "order_number" = 'ORD-' || numbered."year" || '-' || lpad(numbered."seq"::text, greatest(6, length(numbered."seq"::text)), '0')
+FROM (
+	SELECT "id", extract(year FROM "created_at")::integer AS "year", row_number() OVER (PARTITION BY extract(year FROM "created_at") ORDER BY "created_at", "id") AS "seq"
+	FROM "orders"
+	WHERE "order_number" IS NULL
+) AS numbered
+WHERE "orders"."id" = numbered."id";--> statement-breakpoint
+INSERT INTO "order_number_sequences" ("year", "last_value")
+SELECT extract(year FROM "created_at")::integer, count(*)
+FROM "orders"
+GROUP BY 1;
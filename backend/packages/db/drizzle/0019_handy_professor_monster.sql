@@ -0,0 +1,22 @@
+CREATE TABLE "order_status_history" (
+	"id" bigint PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "order_status_history_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 9223372036854775807 START WITH 1 CACHE 1),
+	"order_id" bigint NOT NULL,
+	"previous_status" text,
+	"new_status" text NOT NULL,
+	"actor_type" text NOT NULL,
+	"actor_id" bigint,
+	"reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "order_status_history" ADD CONSTRAINT "order_status_history_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "order_status_history_order_created_at_idx" ON "order_status_history" USING btree ("order_id","created_at");--> statement-breakpoint
+CREATE INDEX "order_status_history_new_status_created_at_idx" ON "order_status_history" USING btree ("new_status","created_at");--> statement-breakpoint
+-- Seed the history of existing orders with what is known: their creation and, for cancelled ones, the cancellation
+INSERT INTO "order_status_history" ("order_id", "previous_status", "new_status", "actor_type", "actor_id", "created_at")
+SELECT "id", NULL, 'pending', 'customer', "customer_id", "created_at"
+FROM "orders";--> statement-breakpoint
+INSERT INTO "order_status_history" ("order_id", "previous_status", "new_status", "actor_type", "actor_id", "reason", "created_at")
+SELECT "id", NULL, 'cancelled', coalesce("cancellation_source", 'system'), coalesce("cancelled_by", "cancelled_by_customer_id"), "cancellation_reason", coalesce("cancelled_at", "updated_at")
+FROM "orders"
+WHERE "status" = 'cancelled';
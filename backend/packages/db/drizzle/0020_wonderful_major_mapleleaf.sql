@@ -0,0 +1 @@
+CREATE INDEX "orders_payment_transaction_idx" ON "orders" USING btree ("payment_gateway","payment_transaction_id");
\ No newline at end of file
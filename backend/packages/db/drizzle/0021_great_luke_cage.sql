@@ -0,0 +1,15 @@
+CREATE TABLE "pix_charges" (
+	"id" bigint PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "pix_charges_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 9223372036854775807 START WITH 1 CACHE 1),
+	"order_id" bigint NOT NULL,
+	"gateway" text NOT NULL,
+	"txid" text NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"payload" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"paid_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "pix_charges" ADD CONSTRAINT "pix_charges_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "pix_charges_order_created_at_idx" ON "pix_charges" USING btree ("order_id","created_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "pix_charges_gateway_txid_unique" ON "pix_charges" USING btree ("gateway","txid");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "users" ADD COLUMN "account_locked_until" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "failed_login_attempts" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -27,11 +27,65 @@ export const PaymentStatus = {
   PENDING: 'pending',
   PAID: 'paid',
   FAILED: 'failed',
+  PARTIALLY_REFUNDED: 'partially_refunded',
   REFUNDED: 'refunded',
 } as const;
 
 export type PaymentStatus = (typeof PaymentStatus)[keyof typeof PaymentStatus];
 
+/**
+ * Refund Status Enum
+ */
+export const RefundStatus = {
+  PENDING: 'pending', // Sent to the gateway
+  SUCCEEDED: 'succeeded',
+  FAILED: 'failed',
+  NEEDS_REVIEW: 'needs_review', // Outcome unknown, still held against the total
+} as const;
+
+export type RefundStatus = (typeof RefundStatus)[keyof typeof RefundStatus];
+
+/**
+ * Refund Reason Enum
+ * Why money went back to the customer (refunds.reason)
+ */
+export const RefundReason = {
+  ORDER_CANCELLED: 'order_cancelled',
+  ITEM_UNAVAILABLE: 'item_unavailable', // Short-picked items
+  CUSTOMER_REQUEST: 'customer_request',
+  DUPLICATE_CHARGE: 'duplicate_charge',
+  OTHER: 'other',
+} as const;
+
+export type RefundReason = (typeof RefundReason)[keyof typeof RefundReason];
+
+/**
+ * Cancellation Source Enum
+ * Who cancelled an order (orders.cancellation_source)
+ */
+export const CancellationSource = {
+  ADMIN: 'admin',
+  CUSTOMER: 'customer',
+  SYSTEM: 'system',
+} as const;
+
+export type CancellationSource =
+  (typeof CancellationSource)[keyof typeof CancellationSource];
+
+/**
+ * Order Actor Type Enum
+ * Who changed an order's status (order_status_history.actor_type)
+ */
+export const OrderActorType = {
+  ADMIN: 'admin',
+  CUSTOMER: 'customer',
+  COURIER: 'courier',
+  SYSTEM: 'system',
+} as const;
+
+export type OrderActorType =
+  (typeof OrderActorType)[keyof typeof OrderActorType];
+
 /**
  * Payment Method Enum
  */
@@ -74,6 +128,40 @@ export const DeliveryAssignmentStatus = {
 export type DeliveryAssignmentStatus =
   (typeof DeliveryAssignmentStatus)[keyof typeof DeliveryAssignmentStatus];
 
+/**
+ * Outbox Event Status Enum
+ */
+export const OutboxEventStatus = {
+  PENDING: 'pending',
+  DISPATCHED: 'dispatched',
+} as const;
+
+export type OutboxEventStatus =
+  (typeof OutboxEventStatus)[keyof typeof OutboxEventStatus];
+
+/**
+ * Dead Letter Event Status Enum
+ */
+export const DeadLetterEventStatus = {
+  PENDING: 'pending',
+  REPLAYED: 'replayed',
+  DISCARDED: 'discarded',
+} as const;
+
+export type DeadLetterEventStatus =
+  (typeof DeadLetterEventStatus)[keyof typeof DeadLetterEventStatus];
+
+/**
+ * Audit Action Enum
+ */
+export const AuditAction = {
+  CREATE: 'create',
+  UPDATE: 'update',
+  DELETE: 'delete',
+} as const;
+
+export type AuditAction = (typeof AuditAction)[keyof typeof AuditAction];
+
 /**
  * Helper function to validate order status
  */
@@ -19,6 +19,7 @@ export type {
   // User management types
   User,
   NewUser,
+  TwoFactorRequirement,
   Customer,
   NewCustomer,
   Address,
@@ -30,6 +31,13 @@ export type {
   NewOrder,
   OrderItem,
   NewOrderItem,
+  OrderStatusHistoryEntry,
+  NewOrderStatusHistoryEntry,
+  OrderNumberSequence,
+  PixCharge,
+  NewPixCharge,
+  Refund,
+  NewRefund,
   InventoryReservation,
   NewInventoryReservation,
   DeliveryAssignment,
@@ -59,6 +67,16 @@ export type {
   NewProductPrice,
   ProductReview,
   NewProductReview,
+  // Event types
+  OutboxEvent,
+  NewOutboxEvent,
+  ProcessedEvent,
+  NewProcessedEvent,
+  DeadLetterEvent,
+  NewDeadLetterEvent,
+  // Audit types
+  AuditLogEntry,
+  NewAuditLogEntry,
 } from './schema';
 
 // Export enums for use in domain layer
@@ -74,8 +92,15 @@ export {
   OrderStatus,
   PaymentStatus,
   PaymentMethod,
+  RefundStatus,
+  RefundReason,
+  CancellationSource,
+  OrderActorType,
   InventoryReservationStatus,
   DeliveryAssignmentStatus,
+  OutboxEventStatus,
+  DeadLetterEventStatus,
+  AuditAction,
   // Catalog enums
   UnitType,
   ProductStatus,
@@ -104,8 +129,15 @@ export type {
   OrderStatus as OrderStatusType,
   PaymentStatus as PaymentStatusType,
   PaymentMethod as PaymentMethodType,
+  RefundStatus as RefundStatusType,
+  RefundReason as RefundReasonType,
+  CancellationSource as CancellationSourceType,
+  OrderActorType as OrderActorTypeType,
   InventoryReservationStatus as InventoryReservationStatusType,
   DeliveryAssignmentStatus as DeliveryAssignmentStatusType,
+  OutboxEventStatus as OutboxEventStatusType,
+  DeadLetterEventStatus as DeadLetterEventStatusType,
+  AuditAction as AuditActionType,
   UnitType as UnitTypeType,
   ProductStatus as ProductStatusType,
   ProductVariantType as ProductVariantTypeType,
@@ -295,6 +327,8 @@ export type OrderRow = {
   notes: string | null;
   cancelled_at: Date | null;
   cancelled_by: string | null;
+  cancelled_by_customer_id: string | null;
+  cancellation_source: string | null;
   cancellation_reason: string | null;
   created_at: Date;
   updated_at: Date;
@@ -354,9 +388,13 @@ export type DeliveryAssignmentRow = {
   estimated_pickup_time: Date | null;
   estimated_delivery_time: Date | null;
   actual_pickup_time: Date | null;
+  in_transit_at: Date | null;
   actual_delivery_time: Date | null;
+  cancelled_at: Date | null;
+  cancellation_reason: string | null;
   delivery_notes: string | null;
   customer_signature: string | null;
+  proof_photo_url: string | null;
   delivery_rating: number | null;
   delivery_feedback: string | null;
   created_at: Date;
@@ -50,14 +50,20 @@ export const users = pgTable(
     isActive: boolean('is_active').default(true).notNull(),
     emailVerified: boolean('email_verified').default(false).notNull(),
     emailVerifiedAt: timestamp('email_verified_at'),
+    emailVerificationToken: text('email_verification_token'), // SHA-256 of the emailed token
+    emailVerificationExpiresAt: timestamp('email_verification_expires_at'),
     // Security
     lastLoginAt: timestamp('last_login_at'),
     lastLoginIp: text('last_login_ip'),
     passwordChangedAt: timestamp('password_changed_at'),
-    passwordResetToken: text('password_reset_token'),
+    passwordResetToken: text('password_reset_token'), // SHA-256 of the emailed token
     passwordResetExpiresAt: timestamp('password_reset_expires_at'),
+    accountLockedUntil: timestamp('account_locked_until'), // For account lockout
+    failedLoginAttempts: integer('failed_login_attempts').default(0).notNull(),
     twoFactorEnabled: boolean('two_factor_enabled').default(false).notNull(),
-    twoFactorSecret: text('two_factor_secret'),
+    twoFactorSecret: text('two_factor_secret'), // Base32 TOTP secret
+    twoFactorRecoveryCodes: text('two_factor_recovery_codes'), // JSON array of SHA-256 hashes of unused recovery codes
+    twoFactorLastUsedStep: integer('two_factor_last_used_step'), // TOTP time step of the last accepted code (replay protection)
     // Metadata
     notes: text('notes'), // Internal notes about the user
     createdAt: timestamp('created_at').defaultNow().notNull(),
@@ -67,9 +73,29 @@ export const users = pgTable(
   (table) => ({
     emailIdx: index('users_email_idx').on(table.email),
     roleIdx: index('users_role_idx').on(table.role),
+    passwordResetTokenIdx: index('users_password_reset_token_idx').on(
+      table.passwordResetToken
+    ),
+    emailVerificationTokenIdx: index(
+      'users_email_verification_token_idx'
+    ).on(table.emailVerificationToken),
   })
 );
 
+/**
+ * Two-Factor Requirements Table
+ * Departments whose admin users must use two-factor authentication
+ * (set by super_admins)
+ */
+export const twoFactorRequirements = pgTable('two_factor_requirements', {
+  department: text('department').primaryKey(), // Matches users.department
+  requiredBy: bigint('required_by', { mode: 'number' }).references(
+    () => users.id,
+    { onDelete: 'set null' }
+  ),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 /**
  * Customers Table
  * Customer accounts for e-commerce platform
@@ -99,7 +125,8 @@ export const customers: any = pgTable(
     status: text('status').notNull(), // active, inactive, suspended, verified, unverified
     emailVerified: boolean('email_verified').default(false).notNull(),
     emailVerifiedAt: timestamp('email_verified_at'),
-    emailVerificationToken: text('email_verification_token'),
+    emailVerificationToken: text('email_verification_token'), // SHA-256 of the emailed token
+    emailVerificationExpiresAt: timestamp('email_verification_expires_at'),
     // Preferences
     language: text('language').default('pt-BR'),
     currency: text('currency').default('BRL'),
@@ -118,7 +145,7 @@ export const customers: any = pgTable(
     lastLoginAt: timestamp('last_login_at'),
     lastLoginIp: text('last_login_ip'),
     passwordChangedAt: timestamp('password_changed_at'),
-    passwordResetToken: text('password_reset_token'),
+    passwordResetToken: text('password_reset_token'), // SHA-256 of the emailed token
     passwordResetExpiresAt: timestamp('password_reset_expires_at'),
     accountLockedUntil: timestamp('account_locked_until'), // For account lockout
     failedLoginAttempts: integer('failed_login_attempts').default(0).notNull(),
@@ -146,6 +173,12 @@ export const customers: any = pgTable(
     referralCodeIdx: index('customers_referral_code_idx').on(
       table.referralCode
     ),
+    passwordResetTokenIdx: index('customers_password_reset_token_idx').on(
+      table.passwordResetToken
+    ),
+    emailVerificationTokenIdx: index(
+      'customers_email_verification_token_idx'
+    ).on(table.emailVerificationToken),
   })
 );
 
@@ -253,6 +286,9 @@ export const couriers = pgTable(
     // Security
     lastLoginAt: timestamp('last_login_at'),
     lastLoginIp: text('last_login_ip'),
+    accountLockedUntil: timestamp('account_locked_until'), // For account lockout
+    failedLoginAttempts: integer('failed_login_attempts').default(0).notNull(),
+    passwordChangedAt: timestamp('password_changed_at'),
     // Metadata
     notes: text('notes'), // Internal notes
     createdAt: timestamp('created_at').defaultNow().notNull(),
@@ -317,12 +353,12 @@ export const orders = pgTable(
       scale: 2,
     }).default('0.00'), // Total discount applied
     // Payment information
-    paymentStatus: text('payment_status').notNull(), // pending, paid, failed, refunded
+    paymentStatus: text('payment_status').notNull(), // pending, paid, failed, partially_refunded, refunded
     paymentMethod: text('payment_method'), // credit_card, debit_card, cash, pix, etc.
     paymentTransactionId: text('payment_transaction_id'),
     paymentGateway: text('payment_gateway'), // stripe, pagarme, mercado_pago, etc
     // Order metadata
-    orderNumber: text('order_number').unique(), // Human-readable order number (e.g., ORD-2024-001234)
+    orderNumber: text('order_number').unique(), // Human-readable order number (e.g., ORD-2024-001234), see orderNumberSequences
     notes: text('notes'), // Customer notes
     internalNotes: text('internal_notes'), // Internal staff notes
     // Cancellation
@@ -331,6 +367,10 @@ export const orders = pgTable(
       () => users.id,
       { onDelete: 'set null' }
     ), // Admin who cancelled
+    cancelledByCustomerId: bigint('cancelled_by_customer_id', {
+      mode: 'number',
+    }).references(() => customers.id, { onDelete: 'set null' }), // Customer who cancelled their own order
+    cancellationSource: text('cancellation_source'), // admin, customer, system
     cancellationReason: text('cancellation_reason'),
     // Timestamps
     createdAt: timestamp('created_at').defaultNow().notNull(),
@@ -342,6 +382,10 @@ export const orders = pgTable(
     statusIdx: index('orders_status_idx').on(table.status),
     orderNumberIdx: index('orders_order_number_idx').on(table.orderNumber),
     createdAtIdx: index('orders_created_at_idx').on(table.createdAt),
+    paymentTransactionIdx: index('orders_payment_transaction_idx').on(
+      table.paymentGateway,
+      table.paymentTransactionId
+    ),
   })
 );
 
@@ -372,6 +416,127 @@ export const orderItems = pgTable('order_items', {
   deletedAt: timestamp('deleted_at'),
 });
 
+/**
+ * Order Status History Table
+ * One row per status change of an order, written in the same transaction
+ * as the change. Source of the order timeline and of SLA metrics.
+ */
+export const orderStatusHistory = pgTable(
+  'order_status_history',
+  {
+    id: bigint('id', { mode: 'number' })
+      .primaryKey()
+      .generatedAlwaysAsIdentity(),
+    orderId: bigint('order_id', { mode: 'number' })
+      .notNull()
+      .references(() => orders.id, { onDelete: 'cascade' }),
+    previousStatus: text('previous_status'), // Null for the creation entry (or when unknown)
+    newStatus: text('new_status').notNull(),
+    actorType: text('actor_type').notNull(), // admin, customer, courier, system
+    actorId: bigint('actor_id', { mode: 'number' }), // users, customers or couriers id depending on actorType; null for system
+    reason: text('reason'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    orderCreatedAtIdx: index('order_status_history_order_created_at_idx').on(
+      table.orderId,
+      table.createdAt
+    ),
+    newStatusCreatedAtIdx: index(
+      'order_status_history_new_status_created_at_idx'
+    ).on(table.newStatus, table.createdAt),
+  })
+);
+
+/**
+ * PIX Charges Table
+ * BR Code ("copia e cola") charges issued for orders. The order's
+ * paymentTransactionId points at the current charge; a new charge is only
+ * issued once the previous one expired.
+ */
+export const pixCharges = pgTable(
+  'pix_charges',
+  {
+    id: bigint('id', { mode: 'number' })
+      .primaryKey()
+      .generatedAlwaysAsIdentity(),
+    orderId: bigint('order_id', { mode: 'number' })
+      .notNull()
+      .references(() => orders.id, { onDelete: 'cascade' }),
+    gateway: text('gateway').notNull(), // Payment gateway that issued the charge
+    txid: text('txid').notNull(), // Gateway transaction id, also in the BR Code
+    amount: decimal('amount', { precision: 10, scale: 2 }).notNull(),
+    payload: text('payload').notNull(), // BR Code (EMV) string shown as QR code / copia e cola
+    expiresAt: timestamp('expires_at').notNull(),
+    paidAt: timestamp('paid_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    orderCreatedAtIdx: index('pix_charges_order_created_at_idx').on(
+      table.orderId,
+      table.createdAt
+    ),
+    gatewayTxidUnique: uniqueIndex('pix_charges_gateway_txid_unique').on(
+      table.gateway,
+      table.txid
+    ),
+  })
+);
+
+/**
+ * Refunds Table
+ * Money given back on an order's payment, in full or in part. A row is
+ * written (pending) before the gateway is called, so concurrent refunds
+ * cannot exceed what was paid.
+ */
+export const refunds = pgTable(
+  'refunds',
+  {
+    id: bigint('id', { mode: 'number' })
+      .primaryKey()
+      .generatedAlwaysAsIdentity(),
+    orderId: bigint('order_id', { mode: 'number' })
+      .notNull()
+      .references(() => orders.id, { onDelete: 'restrict' }),
+    gateway: text('gateway').notNull(),
+    transactionId: text('transaction_id').notNull(), // Payment transaction refunded
+    gatewayRefundId: text('gateway_refund_id'), // Set once the gateway accepted it
+    amount: decimal('amount', { precision: 10, scale: 2 }).notNull(),
+    reason: text('reason').notNull(), // order_cancelled, item_unavailable, customer_request, duplicate_charge, other
+    notes: text('notes'),
+    status: text('status').notNull(), // pending, succeeded, failed, needs_review
+    failureReason: text('failure_reason'),
+    requestedBy: bigint('requested_by', { mode: 'number' }).references(
+      () => users.id,
+      { onDelete: 'set null' }
+    ), // Admin who requested it; null for automatic refunds
+    completedAt: timestamp('completed_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    orderCreatedAtIdx: index('refunds_order_created_at_idx').on(
+      table.orderId,
+      table.createdAt
+    ),
+    statusCreatedAtIdx: index('refunds_status_created_at_idx').on(
+      table.status,
+      table.createdAt
+    ),
+  })
+);
+
+/**
+ * Order Number Sequences Table
+ * One counter per year behind human-readable order numbers
+ * (ORD-2026-000042). Incremented inside the order transaction.
+ */
+export const orderNumberSequences = pgTable('order_number_sequences', {
+  year: integer('year').primaryKey(),
+  lastValue: integer('last_value').notNull(), // Last number handed out this year
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
 /**
  * Inventory Reservations Table
  * Tracks inventory reservations for orders
@@ -440,10 +605,14 @@ export const deliveryAssignments = pgTable(
     estimatedPickupTime: timestamp('estimated_pickup_time'),
     estimatedDeliveryTime: timestamp('estimated_delivery_time'),
     actualPickupTime: timestamp('actual_pickup_time'),
+    inTransitAt: timestamp('in_transit_at'),
     actualDeliveryTime: timestamp('actual_delivery_time'),
+    cancelledAt: timestamp('cancelled_at'),
+    cancellationReason: text('cancellation_reason'),
     // Delivery details
     deliveryNotes: text('delivery_notes'),
     customerSignature: text('customer_signature'), // Base64 encoded signature image
+    proofPhotoUrl: text('proof_photo_url'), // Photo taken at drop-off
     deliveryRating: integer('delivery_rating'), // 1-5 stars
     deliveryFeedback: text('delivery_feedback'),
     // Distance and route
@@ -727,6 +896,8 @@ export const warehouses = pgTable('warehouses', {
   state: text('state'),
   zipCode: text('zip_code'),
   country: text('country'),
+  latitude: decimal('latitude', { precision: 10, scale: 8 }), // Courier dispatch origin
+  longitude: decimal('longitude', { precision: 11, scale: 8 }),
   phone: text('phone'),
   email: text('email'),
   isActive: boolean('is_active').default(true).notNull(),
@@ -871,11 +1042,153 @@ export const productReviews = pgTable(
   })
 );
 
+/**
+ * ============================================
+ * EVENTS SCHEMA
+ * ============================================
+ */
+
+/**
+ * Outbox Events Table
+ * Domain events written in the same transaction as the state change.
+ * The worker relay publishes pending rows and marks them dispatched.
+ */
+export const outboxEvents = pgTable(
+  'outbox_events',
+  {
+    id: bigint('id', { mode: 'number' })
+      .primaryKey()
+      .generatedAlwaysAsIdentity(),
+    eventId: text('event_id').notNull().unique(), // DomainEvent metadata.eventId
+    eventType: text('event_type').notNull(), // order.created, inventory.reserved, etc
+    correlationId: text('correlation_id'),
+    payload: text('payload').notNull(), // Serialized DomainEvent (JSON)
+    status: text('status').notNull(), // pending, dispatched
+    attempts: integer('attempts').default(0).notNull(), // Failed publish attempts
+    lastError: text('last_error'),
+    dispatchedAt: timestamp('dispatched_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    statusIdx: index('outbox_events_status_idx').on(table.status, table.id),
+    correlationIdx: index('outbox_events_correlation_idx').on(
+      table.correlationId,
+      table.createdAt
+    ),
+  })
+);
+
+/**
+ * Processed Events Table
+ * Durable idempotency record: one row per event handled by a consumer group.
+ * Survives worker restarts, unlike an in-memory set.
+ */
+export const processedEvents = pgTable(
+  'processed_events',
+  {
+    id: bigint('id', { mode: 'number' })
+      .primaryKey()
+      .generatedAlwaysAsIdentity(),
+    eventId: text('event_id').notNull(), // DomainEvent metadata.eventId
+    consumerGroup: text('consumer_group').notNull(),
+    eventType: text('event_type').notNull(),
+    processedAt: timestamp('processed_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    eventConsumerIdx: uniqueIndex('processed_events_event_consumer_idx').on(
+      table.eventId,
+      table.consumerGroup
+    ),
+    processedAtIdx: index('processed_events_processed_at_idx').on(
+      table.processedAt
+    ),
+  })
+);
+
+/**
+ * Dead Letter Events Table
+ * Events whose handler kept failing after all retries.
+ * Admins can inspect, replay or discard them.
+ */
+export const deadLetterEvents = pgTable(
+  'dead_letter_events',
+  {
+    id: bigint('id', { mode: 'number' })
+      .primaryKey()
+      .generatedAlwaysAsIdentity(),
+    eventId: text('event_id').notNull(), // DomainEvent metadata.eventId
+    consumerGroup: text('consumer_group').notNull(),
+    eventType: text('event_type').notNull(),
+    correlationId: text('correlation_id'),
+    payload: text('payload').notNull(), // Serialized DomainEvent (JSON)
+    status: text('status').notNull(), // pending, replayed, discarded
+    failureReason: text('failure_reason').notNull(), // Last handler error
+    attempts: integer('attempts').default(0).notNull(), // Handler attempts across all deliveries
+    lastFailedAt: timestamp('last_failed_at').defaultNow().notNull(),
+    replayedAt: timestamp('replayed_at'),
+    discardedAt: timestamp('discarded_at'),
+    discardReason: text('discard_reason'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    eventConsumerIdx: uniqueIndex('dead_letter_events_event_consumer_idx').on(
+      table.eventId,
+      table.consumerGroup
+    ),
+    statusIdx: index('dead_letter_events_status_idx').on(table.status),
+    eventTypeIdx: index('dead_letter_events_event_type_idx').on(
+      table.eventType
+    ),
+  })
+);
+
+/**
+ * ============================================
+ * AUDIT SCHEMA
+ * ============================================
+ */
+
+/**
+ * Audit Log Table
+ * One row per admin mutation (create, update, delete) with what changed.
+ * Append-only: rows are never updated or deleted by the API.
+ */
+export const auditLog = pgTable(
+  'audit_log',
+  {
+    id: bigint('id', { mode: 'number' })
+      .primaryKey()
+      .generatedAlwaysAsIdentity(),
+    actorId: bigint('actor_id', { mode: 'number' }).references(
+      () => users.id,
+      { onDelete: 'set null' }
+    ),
+    action: text('action').notNull(), // create, update, delete
+    entityType: text('entity_type').notNull(), // user, customer, address, courier, product, order
+    entityId: text('entity_id').notNull(),
+    changes: text('changes'), // JSON object: field -> { before, after }
+    ipAddress: text('ip_address'),
+    userAgent: text('user_agent'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    actorIdx: index('audit_log_actor_idx').on(table.actorId, table.createdAt),
+    entityIdx: index('audit_log_entity_idx').on(
+      table.entityType,
+      table.entityId
+    ),
+    createdAtIdx: index('audit_log_created_at_idx').on(table.createdAt),
+  })
+);
+
 // Type exports for use in domain layer
 
 // User management types
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
+export type TwoFactorRequirement = typeof twoFactorRequirements.$inferSelect;
 export type Customer = typeof customers.$inferSelect;
 export type NewCustomer = typeof customers.$inferInsert;
 export type Address = typeof addresses.$inferSelect;
@@ -888,6 +1201,13 @@ export type Order = typeof orders.$inferSelect;
 export type NewOrder = typeof orders.$inferInsert;
 export type OrderItem = typeof orderItems.$inferSelect;
 export type NewOrderItem = typeof orderItems.$inferInsert;
+export type OrderStatusHistoryEntry = typeof orderStatusHistory.$inferSelect;
+export type NewOrderStatusHistoryEntry = typeof orderStatusHistory.$inferInsert;
+export type OrderNumberSequence = typeof orderNumberSequences.$inferSelect;
+export type PixCharge = typeof pixCharges.$inferSelect;
+export type NewPixCharge = typeof pixCharges.$inferInsert;
+export type Refund = typeof refunds.$inferSelect;
+export type NewRefund = typeof refunds.$inferInsert;
 export type InventoryReservation = typeof inventoryReservations.$inferSelect;
 export type NewInventoryReservation = typeof inventoryReservations.$inferInsert;
 export type DeliveryAssignment = typeof deliveryAssignments.$inferSelect;
@@ -918,3 +1238,15 @@ export type ProductPrice = typeof productPrices.$inferSelect;
 export type NewProductPrice = typeof productPrices.$inferInsert;
 export type ProductReview = typeof productReviews.$inferSelect;
 export type NewProductReview = typeof productReviews.$inferInsert;
+
+// Event types
+export type OutboxEvent = typeof outboxEvents.$inferSelect;
+export type NewOutboxEvent = typeof outboxEvents.$inferInsert;
+export type ProcessedEvent = typeof processedEvents.$inferSelect;
+export type NewProcessedEvent = typeof processedEvents.$inferInsert;
+export type DeadLetterEvent = typeof deadLetterEvents.$inferSelect;
+export type NewDeadLetterEvent = typeof deadLetterEvents.$inferInsert;
+
+// Audit types
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type NewAuditLogEntry = typeof auditLog.$inferInsert;
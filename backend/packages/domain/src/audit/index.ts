@@ -0,0 +1,178 @@
+/**
+ * Audit Log
+ *
+ * Append-only trail of admin mutations: who changed which entity, what
+ * changed (field-level before/after) and from where (IP, user agent).
+ */
+
+import type { AuditLogEntry, AuditActionType, DbConnection } from '@lokaly/db';
+import { eq, and, desc, gte, lte, sql } from 'drizzle-orm';
+import { auditLog } from '@lokaly/db/schema';
+
+/**
+ * Fields never written to the audit log in clear text
+ */
+const REDACTED_FIELDS = new Set([
+  'passwordHash',
+  'passwordResetToken',
+  'emailVerificationToken',
+  'twoFactorSecret',
+  'twoFactorRecoveryCodes',
+]);
+
+/**
+ * Fields that change on every write and carry no information
+ */
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+export const REDACTED_VALUE = '[redacted]';
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface RecordAuditInput {
+  actorId: number | null;
+  action: AuditActionType;
+  entityType: string;
+  entityId: string;
+  changes: AuditChanges | null;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface AuditLogFilters {
+  actorId?: number;
+  entityType?: string;
+  entityId?: string;
+  action?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface AuditLogFindManyOptions {
+  limit?: number;
+  offset?: number;
+  filters?: AuditLogFilters;
+}
+
+/**
+ * Field-level diff between two snapshots of an entity
+ * Business Rules:
+ * - A create has no "before" and a delete has no "after": every field is
+ *   listed
+ * - Values are compared in their JSON form (dates as ISO strings)
+ * - Secrets are listed when they change, but never with their values
+ */
+export function diffChanges(
+  before: object | null,
+  after: object | null
+): AuditChanges {
+  const previous = toJson(before);
+  const next = toJson(after);
+  const changes: AuditChanges = {};
+
+  for (const field of new Set([
+    ...Object.keys(previous),
+    ...Object.keys(next),
+  ])) {
+    if (IGNORED_FIELDS.has(field)) {
+      continue;
+    }
+
+    const beforeValue = previous[field] ?? null;
+    const afterValue = next[field] ?? null;
+    if (JSON.stringify(beforeValue) === JSON.stringify(afterValue)) {
+      continue;
+    }
+
+    changes[field] = REDACTED_FIELDS.has(field)
+      ? { before: REDACTED_VALUE, after: REDACTED_VALUE }
+      : { before: beforeValue, after: afterValue };
+  }
+
+  return changes;
+}
+
+function toJson(value: object | null): Record<string, unknown> {
+  return value ? JSON.parse(JSON.stringify(value)) : {};
+}
+
+export class AuditLogService {
+  constructor(private db: DbConnection) {}
+
+  /**
+   * Append an entry
+   */
+  async record(input: RecordAuditInput): Promise<AuditLogEntry> {
+    const result = await this.db.drizzle
+      .insert(auditLog)
+      .values({
+        actorId: input.actorId,
+        action: input.action,
+        entityType: input.entityType,
+        entityId: input.entityId,
+        changes: input.changes ? JSON.stringify(input.changes) : null,
+        ipAddress: input.ipAddress ?? null,
+        userAgent: input.userAgent ?? null,
+        createdAt: new Date(),
+      })
+      .returning();
+
+    if (!result[0]) {
+      throw new Error('Failed to record audit log entry');
+    }
+
+    return result[0];
+  }
+
+  /**
+   * Find entries, most recent first
+   */
+  async findMany(
+    options: AuditLogFindManyOptions = {}
+  ): Promise<AuditLogEntry[]> {
+    const { limit = 50, offset = 0, filters = {} } = options;
+
+    return this.db.drizzle
+      .select()
+      .from(auditLog)
+      .where(and(...this.buildConditions(filters)))
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  /**
+   * Count entries
+   */
+  async count(filters: AuditLogFilters = {}): Promise<number> {
+    const result = await this.db.drizzle
+      .select({ count: sql<number>`count(*)` })
+      .from(auditLog)
+      .where(and(...this.buildConditions(filters)));
+
+    return Number(result[0]?.count || 0);
+  }
+
+  private buildConditions(filters: AuditLogFilters) {
+    const conditions = [];
+    if (filters.actorId !== undefined) {
+      conditions.push(eq(auditLog.actorId, filters.actorId));
+    }
+    if (filters.entityType) {
+      conditions.push(eq(auditLog.entityType, filters.entityType));
+    }
+    if (filters.entityId) {
+      conditions.push(eq(auditLog.entityId, filters.entityId));
+    }
+    if (filters.action) {
+      conditions.push(eq(auditLog.action, filters.action));
+    }
+    if (filters.from) {
+      conditions.push(gte(auditLog.createdAt, filters.from));
+    }
+    if (filters.to) {
+      conditions.push(lte(auditLog.createdAt, filters.to));
+    }
+    return conditions;
+  }
+}
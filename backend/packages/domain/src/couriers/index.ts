@@ -7,8 +7,18 @@
 
 import type { DbConnection, Courier, NewCourier } from '@lokaly/db';
 import type { CacheService } from '@lokaly/cache';
-import { eq, and, desc, sql, or, like, isNull } from 'drizzle-orm';
+import {
+  eq,
+  and,
+  desc,
+  sql,
+  or,
+  like,
+  isNull,
+  notInArray,
+} from 'drizzle-orm';
 import { couriers } from '@lokaly/db/schema';
+import { failedLoginChanges, successfulLoginChanges } from '../login-lockout';
 
 export interface CouriersRepository {
   findById(id: number): Promise<Courier | null>;
@@ -19,6 +29,8 @@ export interface CouriersRepository {
   create(data: NewCourier): Promise<Courier>;
   update(id: number, data: Partial<NewCourier>): Promise<Courier | null>;
   delete(id: number): Promise<boolean>;
+  recordFailedLogin(id: number): Promise<Courier | null>;
+  recordSuccessfulLogin(id: number, ip?: string): Promise<void>;
   updateLocation(
     id: number,
     latitude: number,
@@ -46,6 +58,11 @@ export interface FindAvailableOptions {
   limit?: number;
   vehicleType?: string;
   minRating?: number;
+  excludeIds?: number[];
+  // Only couriers within maxDistanceKm (or without a known location),
+  // closest first
+  near?: { latitude: number; longitude: number; maxDistanceKm: number };
+  fresh?: boolean; // Skip the cache (dispatch)
 }
 
 export interface CourierFilters {
@@ -144,19 +161,26 @@ export class CouriersService implements CouriersRepository {
 
   /**
    * Find available couriers
-   * Cache TTL: 30 seconds (availability changes frequently)
+   * Exclusions and distance are applied before the limit. Best rated first,
+   * or closest first when `near` is given.
+   * Cache TTL: 30 seconds (availability changes frequently), unless `fresh`
    */
   async findAvailable(options: FindAvailableOptions = {}): Promise<Courier[]> {
-    const { limit = 20, vehicleType, minRating } = options;
+    const { limit = 20, vehicleType, minRating, excludeIds, near, fresh } =
+      options;
     const cacheKey = `couriers:available:${JSON.stringify({
       limit,
       vehicleType,
       minRating,
+      excludeIds,
+      near,
     })}`;
 
-    const cached = await this.cache.get<Courier[]>(cacheKey);
-    if (cached) {
-      return cached;
+    if (!fresh) {
+      const cached = await this.cache.get<Courier[]>(cacheKey);
+      if (cached) {
+        return cached;
+      }
     }
 
     const conditions = [
@@ -173,15 +197,45 @@ export class CouriersService implements CouriersRepository {
       conditions.push(sql`${couriers.totalRating} >= ${minRating}`);
     }
 
+    if (excludeIds?.length) {
+      conditions.push(notInArray(couriers.id, excludeIds));
+    }
+
+    // Haversine, in km (same formula as distanceKm in @lokaly/utils)
+    const latitude = couriers.currentLatitude;
+    const longitude = couriers.currentLongitude;
+    const distance = near
+      ? sql`6371 * 2 * asin(sqrt(
+          power(sin(radians(${latitude} - ${near.latitude}) / 2), 2) +
+          cos(radians(${near.latitude})) * cos(radians(${latitude})) *
+          power(sin(radians(${longitude} - ${near.longitude}) / 2), 2)
+        ))`
+      : null;
+    if (near && distance) {
+      conditions.push(
+        or(
+          isNull(latitude),
+          isNull(longitude),
+          sql`${distance} <= ${near.maxDistanceKm}`
+        )!
+      );
+    }
+
     const result = await this.db.drizzle
       .select()
       .from(couriers)
       .where(and(...conditions))
-      .orderBy(desc(couriers.totalRating), desc(couriers.onTimeDeliveryRate))
+      .orderBy(
+        ...(distance ? [sql`${distance} asc nulls last`] : []),
+        desc(couriers.totalRating),
+        desc(couriers.onTimeDeliveryRate)
+      )
       .limit(limit);
 
-    // Very short TTL for availability
-    await this.cache.set(cacheKey, result, { ttl: 30 });
+    if (!fresh) {
+      // Very short TTL for availability
+      await this.cache.set(cacheKey, result, { ttl: 30 });
+    }
 
     return result;
   }
@@ -531,4 +585,50 @@ export class CouriersService implements CouriersRepository {
 
     return count;
   }
+
+  /**
+   * Record a failed login attempt
+   * Locks the account once the attempt limit is reached (see login-lockout).
+   * Returns the updated courier so callers can report the lock.
+   */
+  async recordFailedLogin(id: number): Promise<Courier | null> {
+    const result = await this.db.drizzle
+      .update(couriers)
+      .set(failedLoginChanges(couriers))
+      .where(eq(couriers.id, id))
+      .returning();
+
+    const updated = result[0] || null;
+    if (updated) {
+      await this.refreshLoginCache(updated);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Record a successful login
+   * Resets the failed attempt counter and any lock.
+   */
+  async recordSuccessfulLogin(id: number, ip?: string): Promise<void> {
+    const result = await this.db.drizzle
+      .update(couriers)
+      .set(successfulLoginChanges(ip))
+      .where(eq(couriers.id, id))
+      .returning();
+
+    if (result[0]) {
+      await this.refreshLoginCache(result[0]);
+    }
+  }
+
+  /**
+   * Keep cached lookups used by login in sync with lockout state
+   */
+  private async refreshLoginCache(courier: Courier): Promise<void> {
+    await this.cache.set(`couriers:${courier.id}`, courier, { ttl: 180 });
+    await this.cache.set(`couriers:email:${courier.email}`, courier, {
+      ttl: 300,
+    });
+  }
 }
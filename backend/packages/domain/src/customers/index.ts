@@ -7,8 +7,9 @@
 
 import type { DbConnection, Customer, NewCustomer } from '@lokaly/db';
 import type { CacheService } from '@lokaly/cache';
-import { eq, and, desc, sql, or, like, isNull } from 'drizzle-orm';
+import { eq, and, desc, sql, or, like, isNull, gt } from 'drizzle-orm';
 import { customers } from '@lokaly/db/schema';
+import { failedLoginChanges, successfulLoginChanges } from '../login-lockout';
 
 export interface CustomersRepository {
   findById(id: number): Promise<Customer | null>;
@@ -19,6 +20,14 @@ export interface CustomersRepository {
   create(data: NewCustomer): Promise<Customer>;
   update(id: number, data: Partial<NewCustomer>): Promise<Customer | null>;
   delete(id: number): Promise<boolean>;
+  recordFailedLogin(id: number): Promise<Customer | null>;
+  recordSuccessfulLogin(id: number, ip?: string): Promise<void>;
+  findByPasswordResetToken(tokenHash: string): Promise<Customer | null>;
+  resetPassword(
+    tokenHash: string,
+    passwordHash: string
+  ): Promise<Customer | null>;
+  verifyEmail(tokenHash: string): Promise<Customer | null>;
   count(filters?: CustomerFilters): Promise<number>;
   search(query: string, limit?: number): Promise<Customer[]>;
 }
@@ -433,4 +442,145 @@ export class CustomersService implements CustomersRepository {
 
     return count;
   }
+
+  /**
+   * Record a failed login attempt
+   * Locks the account once the attempt limit is reached (see login-lockout).
+   * Returns the updated customer so callers can report the lock.
+   */
+  async recordFailedLogin(id: number): Promise<Customer | null> {
+    const result = await this.db.drizzle
+      .update(customers)
+      .set(failedLoginChanges(customers))
+      .where(eq(customers.id, id))
+      .returning();
+
+    const updated = result[0] || null;
+    if (updated) {
+      await this.refreshLoginCache(updated);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Record a successful login
+   * Resets the failed attempt counter and any lock.
+   */
+  async recordSuccessfulLogin(id: number, ip?: string): Promise<void> {
+    const result = await this.db.drizzle
+      .update(customers)
+      .set(successfulLoginChanges(ip))
+      .where(eq(customers.id, id))
+      .returning();
+
+    if (result[0]) {
+      await this.refreshLoginCache(result[0]);
+    }
+  }
+
+  /**
+   * Find the customer holding an unexpired password reset token
+   * (tokens are stored as SHA-256 hashes)
+   */
+  async findByPasswordResetToken(
+    tokenHash: string,
+    now: Date = new Date()
+  ): Promise<Customer | null> {
+    const result = await this.db.drizzle
+      .select()
+      .from(customers)
+      .where(
+        and(
+          eq(customers.passwordResetToken, tokenHash),
+          gt(customers.passwordResetExpiresAt, now),
+          isNull(customers.deletedAt)
+        )
+      )
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * Set a new password using a reset token
+   * The token is checked and cleared in the same UPDATE, so it works once.
+   * Also lifts any login lockout.
+   */
+  async resetPassword(
+    tokenHash: string,
+    passwordHash: string,
+    now: Date = new Date()
+  ): Promise<Customer | null> {
+    const result = await this.db.drizzle
+      .update(customers)
+      .set({
+        passwordHash,
+        passwordChangedAt: now,
+        passwordResetToken: null,
+        passwordResetExpiresAt: null,
+        failedLoginAttempts: 0,
+        accountLockedUntil: null,
+        updatedAt: now,
+      })
+      .where(
+        and(
+          eq(customers.passwordResetToken, tokenHash),
+          gt(customers.passwordResetExpiresAt, now),
+          isNull(customers.deletedAt)
+        )
+      )
+      .returning();
+
+    const updated = result[0] || null;
+    if (updated) {
+      await this.refreshLoginCache(updated);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Confirm the email address using a verification token (single use)
+   */
+  async verifyEmail(
+    tokenHash: string,
+    now: Date = new Date()
+  ): Promise<Customer | null> {
+    const result = await this.db.drizzle
+      .update(customers)
+      .set({
+        emailVerified: true,
+        emailVerifiedAt: now,
+        emailVerificationToken: null,
+        emailVerificationExpiresAt: null,
+        updatedAt: now,
+      })
+      .where(
+        and(
+          eq(customers.emailVerificationToken, tokenHash),
+          gt(customers.emailVerificationExpiresAt, now),
+          isNull(customers.deletedAt)
+        )
+      )
+      .returning();
+
+    const updated = result[0] || null;
+    if (updated) {
+      await this.refreshLoginCache(updated);
+      await this.cache.invalidateList('customers');
+    }
+
+    return updated;
+  }
+
+  /**
+   * Keep cached lookups used by login in sync with lockout state
+   */
+  private async refreshLoginCache(customer: Customer): Promise<void> {
+    await this.cache.set(`customers:${customer.id}`, customer, { ttl: 300 });
+    await this.cache.set(`customers:email:${customer.email}`, customer, {
+      ttl: 300,
+    });
+  }
 }
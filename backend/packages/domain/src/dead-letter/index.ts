@@ -0,0 +1,223 @@
+/**
+ * Dead Letter Queue
+ *
+ * Domain events whose handler kept failing after every retry are parked
+ * here with the failure reason and attempt count, so the consumer can ACK
+ * them and move on. Admins inspect them and either replay (republish the
+ * original event) or discard them.
+ */
+
+import type { DbConnection, DeadLetterEvent } from '@lokaly/db';
+import type { DomainEvent } from '@lokaly/events';
+import { serializeEvent, deserializeEvent } from '@lokaly/events';
+import type { EventPublisher } from '../order';
+import { eq, and, desc, sql } from 'drizzle-orm';
+import { deadLetterEvents, processedEvents } from '@lokaly/db/schema';
+
+export interface DeadLetterFilters {
+  status?: string;
+  eventType?: string;
+  consumerGroup?: string;
+}
+
+export interface DeadLetterFindManyOptions {
+  limit?: number;
+  offset?: number;
+  filters?: DeadLetterFilters;
+}
+
+export interface RecordFailureInput {
+  consumerGroup: string;
+  failureReason: string;
+  attempts: number;
+}
+
+export class DeadLetterService {
+  constructor(private db: DbConnection) {}
+
+  /**
+   * Park a failed event
+   * Business Rules:
+   * - One row per event and consumer group
+   * - An event that fails again after a replay reopens its existing row
+   *   and accumulates the attempt count
+   */
+  async record(
+    event: DomainEvent,
+    input: RecordFailureInput
+  ): Promise<DeadLetterEvent> {
+    const now = new Date();
+
+    const result = await this.db.drizzle
+      .insert(deadLetterEvents)
+      .values({
+        eventId: event.metadata.eventId,
+        consumerGroup: input.consumerGroup,
+        eventType: event.type,
+        correlationId: event.metadata.correlationId,
+        payload: serializeEvent(event),
+        status: 'pending',
+        failureReason: input.failureReason,
+        attempts: input.attempts,
+        lastFailedAt: now,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .onConflictDoUpdate({
+        target: [deadLetterEvents.eventId, deadLetterEvents.consumerGroup],
+        set: {
+          status: 'pending',
+          failureReason: input.failureReason,
+          attempts: sql`${deadLetterEvents.attempts} + ${input.attempts}`,
+          lastFailedAt: now,
+          discardedAt: null,
+          discardReason: null,
+          updatedAt: now,
+        },
+      })
+      .returning();
+
+    if (!result[0]) {
+      throw new Error('Failed to record dead letter event');
+    }
+
+    return result[0];
+  }
+
+  /**
+   * Find dead-lettered event by ID
+   */
+  async findById(id: number): Promise<DeadLetterEvent | null> {
+    const result = await this.db.drizzle
+      .select()
+      .from(deadLetterEvents)
+      .where(eq(deadLetterEvents.id, id))
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * Find dead-lettered events, most recent failures first
+   */
+  async findMany(
+    options: DeadLetterFindManyOptions = {}
+  ): Promise<DeadLetterEvent[]> {
+    const { limit = 50, offset = 0, filters = {} } = options;
+
+    return this.db.drizzle
+      .select()
+      .from(deadLetterEvents)
+      .where(and(...this.buildConditions(filters)))
+      .orderBy(desc(deadLetterEvents.lastFailedAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  /**
+   * Count dead-lettered events
+   */
+  async count(filters: DeadLetterFilters = {}): Promise<number> {
+    const result = await this.db.drizzle
+      .select({ count: sql<number>`count(*)` })
+      .from(deadLetterEvents)
+      .where(and(...this.buildConditions(filters)));
+
+    return Number(result[0]?.count || 0);
+  }
+
+  /**
+   * Republish the original event so consumers handle it again
+   * Business Rules:
+   * - Only pending events can be replayed
+   * - The event keeps its eventId: consumer groups that already handled it
+   *   skip it through their idempotency store
+   * - The failing group's processed marker is cleared first, since the
+   *   consumer ACKed (and recorded) the event when it was dead-lettered
+   */
+  async replay(
+    id: number,
+    publisher: EventPublisher
+  ): Promise<DeadLetterEvent | null> {
+    const entry = await this.findById(id);
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.status !== 'pending') {
+      throw new Error(
+        `Cannot replay dead letter event in status ${entry.status}`
+      );
+    }
+
+    await this.db.drizzle
+      .delete(processedEvents)
+      .where(
+        and(
+          eq(processedEvents.eventId, entry.eventId),
+          eq(processedEvents.consumerGroup, entry.consumerGroup)
+        )
+      );
+
+    await publisher.publish(deserializeEvent(entry.payload));
+
+    const result = await this.db.drizzle
+      .update(deadLetterEvents)
+      .set({
+        status: 'replayed',
+        replayedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(deadLetterEvents.id, id))
+      .returning();
+
+    return result[0] || null;
+  }
+
+  /**
+   * Give up on an event
+   * Business Rules:
+   * - Only pending events can be discarded
+   */
+  async discard(id: number, reason?: string): Promise<DeadLetterEvent | null> {
+    const entry = await this.findById(id);
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.status !== 'pending') {
+      throw new Error(
+        `Cannot discard dead letter event in status ${entry.status}`
+      );
+    }
+
+    const result = await this.db.drizzle
+      .update(deadLetterEvents)
+      .set({
+        status: 'discarded',
+        discardedAt: new Date(),
+        discardReason: reason ?? null,
+        updatedAt: new Date(),
+      })
+      .where(eq(deadLetterEvents.id, id))
+      .returning();
+
+    return result[0] || null;
+  }
+
+  private buildConditions(filters: DeadLetterFilters) {
+    const conditions = [];
+    if (filters.status) {
+      conditions.push(eq(deadLetterEvents.status, filters.status));
+    }
+    if (filters.eventType) {
+      conditions.push(eq(deadLetterEvents.eventType, filters.eventType));
+    }
+    if (filters.consumerGroup) {
+      conditions.push(
+        eq(deadLetterEvents.consumerGroup, filters.consumerGroup)
+      );
+    }
+    return conditions;
+  }
+}
@@ -1,129 +1,560 @@
 /**
  * Delivery Domain Logic
- * 
+ *
  * Handles delivery assignments and tracking.
+ *
+ * Assignment lifecycle (DeliveryAssignmentStatus):
+ *   assigned → accepted | rejected | cancelled
+ *   accepted → picked_up | cancelled
+ *   picked_up → in_transit | cancelled
+ *   in_transit → delivered | cancelled
+ * Every transition stamps its timestamp column and emits an event.
  */
 
-import type { DbConnection, DeliveryAssignmentRow } from "@lokaly/db";
+import type {
+  DbConnection,
+  DeliveryAssignment,
+  NewDeliveryAssignment,
+  DeliveryAssignmentStatusType,
+} from "@lokaly/db";
 import type {
   DeliveryAssignedEvent,
+  DeliveryAcceptedEvent,
+  DeliveryRejectedEvent,
   DeliveryPickedUpEvent,
+  DeliveryInTransitEvent,
   DeliveryCompletedEvent,
-  DomainEvent,
+  DeliveryCancelledEvent,
 } from "@lokaly/events";
-import type { EventPublisher } from "../order";
+import {
+  eq,
+  and,
+  isNull,
+  desc,
+  asc,
+  inArray,
+  lt,
+  notExists,
+} from "drizzle-orm";
+import {
+  deliveryAssignments,
+  orders,
+  couriers,
+} from "@lokaly/db/schema";
+import { enqueueEvent } from "../outbox";
+
+export type AssignDeliveryInput = {
+  orderId: number;
+  courierId: number;
+  pickupAddress: string;
+  estimatedPickupTime?: Date;
+  estimatedDeliveryTime?: Date;
+  estimatedDistance?: number; // km
+};
+
+export type CompleteDeliveryInput = {
+  deliveryNotes?: string;
+  customerSignature?: string;
+  proofPhotoUrl?: string;
+  actualDistance?: number; // km
+};
+
+/**
+ * Statuses in which an assignment still holds the order
+ */
+const ACTIVE_STATUSES: DeliveryAssignmentStatusType[] = [
+  "assigned",
+  "accepted",
+  "picked_up",
+  "in_transit",
+];
+
+const VALID_TRANSITIONS: Record<
+  DeliveryAssignmentStatusType,
+  DeliveryAssignmentStatusType[]
+> = {
+  assigned: ["accepted", "rejected", "cancelled"],
+  accepted: ["picked_up", "cancelled"],
+  picked_up: ["in_transit", "cancelled"],
+  in_transit: ["delivered", "cancelled"],
+  delivered: [],
+  rejected: [],
+  cancelled: [],
+};
+
+type DeliveryTransitionEvent =
+  | DeliveryAcceptedEvent
+  | DeliveryRejectedEvent
+  | DeliveryPickedUpEvent
+  | DeliveryInTransitEvent
+  | DeliveryCompletedEvent
+  | DeliveryCancelledEvent;
 
 /**
  * Delivery Service
  */
 export class DeliveryService {
-  constructor(
-    private db: DbConnection,
-    private eventPublisher: EventPublisher
-  ) {}
+  constructor(private db: DbConnection) {}
 
   /**
    * Assign delivery to a courier
+   * Business Rules:
+   * - An order has at most one active assignment at a time
+   * - Delivery address/instructions are copied from the order and
+   *   courier name/phone from the courier (historical records)
+   * - Emits delivery.assigned event
    */
-  async assignDelivery(
-    orderId: string,
-    courierId: string,
-    estimatedPickupTime: Date,
-    estimatedDeliveryTime: Date
-  ): Promise<string> {
-    const assignmentId = crypto.randomUUID();
-
-    await this.db.query(
-      `INSERT INTO delivery_assignments (id, order_id, courier_id, status, assigned_at, estimated_pickup_time, estimated_delivery_time)
-       VALUES (?, ?, ?, 'assigned', CURRENT_TIMESTAMP, ?, ?)`,
-      [assignmentId, orderId, courierId, estimatedPickupTime, estimatedDeliveryTime]
-    );
+  async assignDelivery(input: AssignDeliveryInput): Promise<DeliveryAssignment> {
+    return this.db.drizzle.transaction(async (tx) => {
+      // Lock the order so concurrent dispatches cannot double-assign it
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(and(eq(orders.id, input.orderId), isNull(orders.deletedAt)))
+        .limit(1)
+        .for("update");
 
-    const event: DeliveryAssignedEvent = {
-      type: "delivery.assigned",
-      payload: {
-        orderId,
-        courierId,
-        estimatedPickupTime: estimatedPickupTime.getTime(),
-        estimatedDeliveryTime: estimatedDeliveryTime.getTime(),
-      },
-      metadata: {
-        eventId: crypto.randomUUID(),
-        timestamp: Date.now(),
-        source: "delivery-service",
-        correlationId: orderId,
-      },
-    };
+      if (!order) {
+        throw new Error("Order not found");
+      }
+
+      // Cancelled while the courier was being picked
+      if (order.status !== "ready") {
+        throw new Error("Order is not ready for delivery");
+      }
+
+      const [courier] = await tx
+        .select()
+        .from(couriers)
+        .where(
+          and(eq(couriers.id, input.courierId), isNull(couriers.deletedAt))
+        )
+        .limit(1);
+
+      if (!courier) {
+        throw new Error("Courier not found");
+      }
+
+      const [active] = await tx
+        .select({ id: deliveryAssignments.id })
+        .from(deliveryAssignments)
+        .where(
+          and(
+            eq(deliveryAssignments.orderId, input.orderId),
+            inArray(deliveryAssignments.status, ACTIVE_STATUSES),
+            isNull(deliveryAssignments.deletedAt)
+          )
+        )
+        .limit(1);
+
+      if (active) {
+        throw new Error("Order already has an active delivery assignment");
+      }
+
+      const values: NewDeliveryAssignment = {
+        orderId: order.id,
+        courierId: courier.id,
+        courierName: `${courier.firstName} ${courier.lastName}`,
+        courierPhone: courier.phone,
+        status: "assigned",
+        pickupAddress: input.pickupAddress,
+        deliveryAddress: order.deliveryAddress,
+        deliveryInstructions: order.deliveryInstructions,
+        assignedAt: new Date(),
+        estimatedPickupTime: input.estimatedPickupTime,
+        estimatedDeliveryTime: input.estimatedDeliveryTime,
+        estimatedDistance: input.estimatedDistance?.toString(),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      const [assignment] = await tx
+        .insert(deliveryAssignments)
+        .values(values)
+        .returning();
+
+      if (!assignment) {
+        throw new Error("Failed to create delivery assignment");
+      }
+
+      const event: DeliveryAssignedEvent = {
+        type: "delivery.assigned",
+        payload: {
+          assignmentId: assignment.id.toString(),
+          orderId: order.id.toString(),
+          courierId: courier.id.toString(),
+          estimatedPickupTime: input.estimatedPickupTime?.getTime(),
+          estimatedDeliveryTime: input.estimatedDeliveryTime?.getTime(),
+        },
+        metadata: {
+          eventId: crypto.randomUUID(),
+          timestamp: Date.now(),
+          source: "delivery-service",
+          correlationId: order.id.toString(),
+        },
+      };
 
-    await this.eventPublisher.publish(event);
+      await enqueueEvent(tx, event);
 
-    return assignmentId;
+      return assignment;
+    });
   }
 
   /**
-   * Mark delivery as picked up
+   * Courier accepts the assignment
    */
-  async markPickedUp(orderId: string, courierId: string): Promise<void> {
-    await this.db.query(
-      `UPDATE delivery_assignments SET status = 'picked_up' WHERE order_id = ? AND courier_id = ?`,
-      [orderId, courierId]
+  async accept(
+    assignmentId: number,
+    courierId: number
+  ): Promise<DeliveryAssignment> {
+    const now = new Date();
+    return this.transition(
+      assignmentId,
+      "accepted",
+      { acceptedAt: now },
+      (assignment) => ({
+        type: "delivery.accepted",
+        payload: {
+          ...this.eventIds(assignment),
+          acceptedAt: now.getTime(),
+        },
+      }),
+      courierId
     );
+  }
 
-    const event: DeliveryPickedUpEvent = {
-      type: "delivery.picked_up",
-      payload: {
-        orderId,
-        courierId,
-        pickedUpAt: Date.now(),
-      },
-      metadata: {
-        eventId: crypto.randomUUID(),
-        timestamp: Date.now(),
-        source: "delivery-service",
-        correlationId: orderId,
-      },
-    };
+  /**
+   * Courier rejects the assignment
+   * The order is free to be offered to another courier.
+   */
+  async reject(
+    assignmentId: number,
+    courierId: number,
+    reason: string
+  ): Promise<DeliveryAssignment> {
+    const now = new Date();
+    return this.transition(
+      assignmentId,
+      "rejected",
+      { rejectedAt: now, rejectionReason: reason },
+      (assignment) => ({
+        type: "delivery.rejected",
+        payload: {
+          ...this.eventIds(assignment),
+          reason,
+          rejectedAt: now.getTime(),
+        },
+      }),
+      courierId
+    );
+  }
 
-    await this.eventPublisher.publish(event);
+  /**
+   * Mark delivery as picked up
+   */
+  async markPickedUp(
+    assignmentId: number,
+    courierId: number
+  ): Promise<DeliveryAssignment> {
+    const now = new Date();
+    return this.transition(
+      assignmentId,
+      "picked_up",
+      { actualPickupTime: now },
+      (assignment) => ({
+        type: "delivery.picked_up",
+        payload: {
+          ...this.eventIds(assignment),
+          pickedUpAt: now.getTime(),
+        },
+      }),
+      courierId
+    );
   }
 
   /**
-   * Mark delivery as completed
+   * Mark delivery as on its way to the customer
    */
-  async markCompleted(orderId: string, courierId: string): Promise<void> {
-    await this.db.query(
-      `UPDATE delivery_assignments SET status = 'completed' WHERE order_id = ? AND courier_id = ?`,
-      [orderId, courierId]
+  async markInTransit(
+    assignmentId: number,
+    courierId: number
+  ): Promise<DeliveryAssignment> {
+    const now = new Date();
+    return this.transition(
+      assignmentId,
+      "in_transit",
+      { inTransitAt: now },
+      (assignment) => ({
+        type: "delivery.in_transit",
+        payload: {
+          ...this.eventIds(assignment),
+          inTransitAt: now.getTime(),
+        },
+      }),
+      courierId
     );
+  }
 
-    const event: DeliveryCompletedEvent = {
-      type: "delivery.completed",
-      payload: {
-        orderId,
-        courierId,
-        completedAt: Date.now(),
-      },
-      metadata: {
-        eventId: crypto.randomUUID(),
-        timestamp: Date.now(),
-        source: "delivery-service",
-        correlationId: orderId,
+  /**
+   * Mark delivery as delivered
+   * Emits delivery.completed event
+   */
+  async markDelivered(
+    assignmentId: number,
+    courierId: number,
+    details: CompleteDeliveryInput = {}
+  ): Promise<DeliveryAssignment> {
+    const now = new Date();
+    return this.transition(
+      assignmentId,
+      "delivered",
+      {
+        actualDeliveryTime: now,
+        deliveryNotes: details.deliveryNotes,
+        customerSignature: details.customerSignature,
+        proofPhotoUrl: details.proofPhotoUrl,
+        actualDistance: details.actualDistance?.toString(),
       },
-    };
+      (assignment) => ({
+        type: "delivery.completed",
+        payload: {
+          ...this.eventIds(assignment),
+          completedAt: now.getTime(),
+        },
+      }),
+      courierId
+    );
+  }
+
+  /**
+   * Cancel an assignment (operations or order cancellation)
+   */
+  async cancel(
+    assignmentId: number,
+    reason: string
+  ): Promise<DeliveryAssignment> {
+    const now = new Date();
+    return this.transition(
+      assignmentId,
+      "cancelled",
+      { cancelledAt: now, cancellationReason: reason },
+      (assignment) => ({
+        type: "delivery.cancelled",
+        payload: {
+          ...this.eventIds(assignment),
+          reason,
+          cancelledAt: now.getTime(),
+        },
+      })
+    );
+  }
 
-    await this.eventPublisher.publish(event);
+  /**
+   * Get assignment by ID
+   */
+  async findById(assignmentId: number): Promise<DeliveryAssignment | null> {
+    const [assignment] = await this.db.drizzle
+      .select()
+      .from(deliveryAssignments)
+      .where(
+        and(
+          eq(deliveryAssignments.id, assignmentId),
+          isNull(deliveryAssignments.deletedAt)
+        )
+      )
+      .limit(1);
+
+    return assignment || null;
   }
 
   /**
-   * Get delivery assignment for an order
+   * Get the latest delivery assignment for an order
    */
-  async getAssignment(orderId: string): Promise<DeliveryAssignmentRow | null> {
-    const [assignment] = (await this.db.query(
-      `SELECT * FROM delivery_assignments WHERE order_id = ? ORDER BY assigned_at DESC LIMIT 1`,
-      [orderId]
-    )) as DeliveryAssignmentRow[];
+  async getAssignment(orderId: number): Promise<DeliveryAssignment | null> {
+    const [assignment] = await this.db.drizzle
+      .select()
+      .from(deliveryAssignments)
+      .where(
+        and(
+          eq(deliveryAssignments.orderId, orderId),
+          isNull(deliveryAssignments.deletedAt)
+        )
+      )
+      .orderBy(desc(deliveryAssignments.assignedAt), desc(deliveryAssignments.id))
+      .limit(1);
 
     return assignment || null;
   }
-}
 
+  /**
+   * Get every assignment of an order (offer history), oldest first
+   */
+  async findByOrderId(orderId: number): Promise<DeliveryAssignment[]> {
+    return this.db.drizzle
+      .select()
+      .from(deliveryAssignments)
+      .where(
+        and(
+          eq(deliveryAssignments.orderId, orderId),
+          isNull(deliveryAssignments.deletedAt)
+        )
+      )
+      .orderBy(asc(deliveryAssignments.id));
+  }
+
+  /**
+   * Get a courier's assignments, newest first
+   * Defaults to open ones (offered and in progress).
+   */
+  async findByCourier(
+    courierId: number,
+    statuses: DeliveryAssignmentStatusType[] = ACTIVE_STATUSES
+  ): Promise<DeliveryAssignment[]> {
+    return this.db.drizzle
+      .select()
+      .from(deliveryAssignments)
+      .where(
+        and(
+          eq(deliveryAssignments.courierId, courierId),
+          inArray(deliveryAssignments.status, statuses),
+          isNull(deliveryAssignments.deletedAt)
+        )
+      )
+      .orderBy(desc(deliveryAssignments.assignedAt));
+  }
+
+  /**
+   * Find offers (assigned, not yet accepted) made before the given time
+   */
+  async findExpiredOffers(
+    assignedBefore: Date,
+    limit: number = 100
+  ): Promise<DeliveryAssignment[]> {
+    return this.db.drizzle
+      .select()
+      .from(deliveryAssignments)
+      .where(
+        and(
+          eq(deliveryAssignments.status, "assigned"),
+          lt(deliveryAssignments.assignedAt, assignedBefore),
+          isNull(deliveryAssignments.deletedAt)
+        )
+      )
+      .orderBy(asc(deliveryAssignments.assignedAt))
+      .limit(limit);
+  }
+
+  /**
+   * Find ready orders without an open assignment (no offer waiting for an
+   * answer, no courier on the way), longest waiting first
+   */
+  async findOrdersAwaitingCourier(limit: number = 100): Promise<number[]> {
+    const open = this.db.drizzle
+      .select({ id: deliveryAssignments.id })
+      .from(deliveryAssignments)
+      .where(
+        and(
+          eq(deliveryAssignments.orderId, orders.id),
+          inArray(deliveryAssignments.status, ACTIVE_STATUSES),
+          isNull(deliveryAssignments.deletedAt)
+        )
+      );
+
+    const rows = await this.db.drizzle
+      .select({ id: orders.id })
+      .from(orders)
+      .where(
+        and(
+          eq(orders.status, "ready"),
+          isNull(orders.deletedAt),
+          notExists(open)
+        )
+      )
+      .orderBy(asc(orders.updatedAt))
+      .limit(limit);
+
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Apply a status transition atomically
+   * Business Rules:
+   * - The assignment row is locked while validating and updating
+   * - When courierId is given, the assignment must belong to that courier
+   * - The event is written to the outbox in the same transaction
+   */
+  private async transition(
+    assignmentId: number,
+    to: DeliveryAssignmentStatusType,
+    changes: Partial<NewDeliveryAssignment>,
+    buildEvent: (
+      assignment: DeliveryAssignment
+    ) => Pick<DeliveryTransitionEvent, "type" | "payload">,
+    courierId?: number
+  ): Promise<DeliveryAssignment> {
+    return this.db.drizzle.transaction(async (tx) => {
+      const [assignment] = await tx
+        .select()
+        .from(deliveryAssignments)
+        .where(
+          and(
+            eq(deliveryAssignments.id, assignmentId),
+            isNull(deliveryAssignments.deletedAt)
+          )
+        )
+        .limit(1)
+        .for("update");
+
+      if (!assignment) {
+        throw new Error("Delivery assignment not found");
+      }
+
+      if (courierId !== undefined && assignment.courierId !== courierId) {
+        throw new Error("Delivery assignment belongs to another courier");
+      }
+
+      const from = assignment.status as DeliveryAssignmentStatusType;
+      if (!VALID_TRANSITIONS[from]?.includes(to)) {
+        throw new Error(
+          `Invalid delivery status transition from ${from} to ${to}`
+        );
+      }
+
+      const [updated] = await tx
+        .update(deliveryAssignments)
+        .set({
+          ...changes,
+          status: to,
+          updatedAt: new Date(),
+        })
+        .where(eq(deliveryAssignments.id, assignmentId))
+        .returning();
+
+      if (!updated) {
+        throw new Error("Failed to update delivery assignment");
+      }
+
+      const event = {
+        ...buildEvent(updated),
+        metadata: {
+          eventId: crypto.randomUUID(),
+          timestamp: Date.now(),
+          source: "delivery-service",
+          correlationId: updated.orderId.toString(),
+        },
+      } as DeliveryTransitionEvent;
+
+      await enqueueEvent(tx, event);
+
+      return updated;
+    });
+  }
+
+  private eventIds(assignment: DeliveryAssignment) {
+    return {
+      assignmentId: assignment.id.toString(),
+      orderId: assignment.orderId.toString(),
+      courierId: assignment.courierId.toString(),
+    };
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Event Idempotency Store
+ *
+ * Durable record of which domain events each consumer group has already
+ * handled, keyed by `metadata.eventId`. Lets consumers skip redeliveries
+ * across restarts and across worker instances.
+ */
+
+import type { DbConnection } from '@lokaly/db';
+import type { DomainEvent } from '@lokaly/events';
+import { eq, and } from 'drizzle-orm';
+import { processedEvents } from '@lokaly/db/schema';
+
+export interface IdempotencyStore {
+  isProcessed(eventId: string, consumerGroup: string): Promise<boolean>;
+  markProcessed(event: DomainEvent, consumerGroup: string): Promise<void>;
+}
+
+export class IdempotencyService implements IdempotencyStore {
+  constructor(private db: DbConnection) {}
+
+  /**
+   * Check whether a consumer group already handled an event
+   */
+  async isProcessed(eventId: string, consumerGroup: string): Promise<boolean> {
+    const result = await this.db.drizzle
+      .select({ id: processedEvents.id })
+      .from(processedEvents)
+      .where(
+        and(
+          eq(processedEvents.eventId, eventId),
+          eq(processedEvents.consumerGroup, consumerGroup)
+        )
+      )
+      .limit(1);
+
+    return result.length > 0;
+  }
+
+  /**
+   * Record an event as handled by a consumer group
+   * Business Rules:
+   * - Recording the same event twice is a no-op (concurrent consumers)
+   */
+  async markProcessed(
+    event: DomainEvent,
+    consumerGroup: string
+  ): Promise<void> {
+    await this.db.drizzle
+      .insert(processedEvents)
+      .values({
+        eventId: event.metadata.eventId,
+        consumerGroup,
+        eventType: event.type,
+        processedAt: new Date(),
+      })
+      .onConflictDoNothing({
+        target: [processedEvents.eventId, processedEvents.consumerGroup],
+      });
+  }
+}
@@ -14,12 +14,102 @@
 // Export services and repositories
 export {
   OrderService,
+  OrderConflictError,
+  InvalidStatusTransitionError,
   type CreateOrderInput,
   type Order,
   type OrderStatus,
+  type OrderWithItems,
+  type OrderFilters,
+  type OrderFindManyOptions,
+  type OrderTimelineEntry,
+  type OrderActor,
+  type OrderCanceller,
+  type OrderStageMetrics,
+  type OrderStageMetricsOptions,
+  type OrderServiceOptions,
+  CUSTOMER_CANCELLABLE_STATUSES,
+  formatOrderNumber,
 } from './order';
-export { InventoryService } from './inventory';
-export { DeliveryService } from './delivery';
+export {
+  PaymentService,
+  SimulatedPaymentGateway,
+  createPaymentGateway,
+  canTransitionPayment,
+  toAmountCents,
+  buildPixPayload,
+  crc16,
+  InvalidPaymentTransitionError,
+  PaymentWebhookError,
+  PaymentAmountMismatchError,
+  PAYMENT_TRANSITIONS,
+  SIMULATOR_SOURCES,
+  SIMULATOR_SIGNATURE_HEADER,
+  type PaymentGateway,
+  type PaymentGatewayConfig,
+  type SimulatorStore,
+  type PaymentStatus,
+  type PaymentWebhookEvent,
+  type AuthorizePaymentInput,
+  type AuthorizationResult,
+  type CaptureResult,
+  type RefundResult,
+  type OrderPaymentResult,
+  type OrderPayment,
+  type PaymentServiceOptions,
+  type PixChargeInput,
+  type PixChargeResult,
+  type PixMerchant,
+  type PixPayloadInput,
+  type SimulatedWebhook,
+} from './payments';
+export {
+  RefundService,
+  RefundNotAllowedError,
+  RefundGatewayError,
+  type RefundReason,
+  type RefundStatus,
+  type RefundOrderInput,
+  type RefundFilters,
+  type RefundFindManyOptions,
+} from './refunds';
+export {
+  InventoryService,
+  InsufficientStockError,
+  type ExpiredReservation,
+} from './inventory';
+export {
+  DeliveryService,
+  type AssignDeliveryInput,
+  type CompleteDeliveryInput,
+} from './delivery';
+export {
+  OutboxService,
+  enqueueEvent,
+  type DbExecutor,
+  type DispatchResult,
+} from './outbox';
+export { IdempotencyService, type IdempotencyStore } from './idempotency';
+export {
+  DeadLetterService,
+  type DeadLetterFilters,
+  type DeadLetterFindManyOptions,
+  type RecordFailureInput,
+} from './dead-letter';
+export {
+  AuditLogService,
+  diffChanges,
+  REDACTED_VALUE,
+  type AuditChanges,
+  type AuditLogFilters,
+  type AuditLogFindManyOptions,
+  type RecordAuditInput,
+} from './audit';
+export {
+  DEFAULT_LOGIN_LOCKOUT,
+  isAccountLocked,
+  type LoginLockoutPolicy,
+} from './login-lockout';
 export { UsersService, type UsersRepository, type UserFilters } from './users';
 export {
   CustomersService,
@@ -3,34 +3,72 @@
  *
  * Handles inventory reservations and releases.
  * Emits events for async processing.
+ *
+ * Stock model (product_stock):
+ * - quantity: units physically in the warehouse
+ * - reservedQuantity: units promised to open orders
+ * - available = quantity - reservedQuantity
+ * Reserving moves units into reservedQuantity, releasing moves them back,
+ * and fulfilling (order delivered) removes them from both.
  */
 
-import type {
-  DbConnection,
-  InventoryReservation,
-  NewInventoryReservation,
-} from '@lokaly/db';
+import type { DbConnection, InventoryReservation } from '@lokaly/db';
 import type {
   InventoryReservedEvent,
   InventoryReleasedEvent,
-  DomainEvent,
 } from '@lokaly/events';
-import type { EventPublisher } from '../order';
-import { eq, and, isNull } from 'drizzle-orm';
-import { inventoryReservations } from '@lokaly/db/schema';
+import { eq, and, isNull, desc, asc, sql, lt, inArray } from 'drizzle-orm';
+import {
+  inventoryReservations,
+  productStock,
+  orders,
+} from '@lokaly/db/schema';
+import { enqueueEvent, type DbExecutor } from '../outbox';
+
+/**
+ * Thrown when no warehouse has enough available stock for a reservation
+ * Retrying will not help; callers should fail the order instead.
+ */
+export class InsufficientStockError extends Error {
+  constructor(
+    public readonly productId: number,
+    public readonly requested: number,
+    public readonly productVariantId?: number
+  ) {
+    super(
+      `Insufficient stock for product ${productId}${
+        productVariantId ? ` (variant ${productVariantId})` : ''
+      }: requested ${requested}`
+    );
+    this.name = 'InsufficientStockError';
+  }
+}
+
+export type ExpiredReservation = {
+  reservationId: number;
+  orderId: number;
+  orderStatus: string;
+  productId: number;
+  quantity: number;
+  expiresAt: Date;
+};
 
 /**
  * Inventory Service
  */
 export class InventoryService {
-  constructor(
-    private db: DbConnection,
-    private eventPublisher: EventPublisher
-  ) {}
+  constructor(private db: DbConnection) {}
 
   /**
    * Reserve inventory for an order
-   * Emits inventory.reserved event
+   * Business Rules:
+   * - Picks the warehouse with the most available stock (or the requested
+   *   one) and locks its product_stock row for the rest of the transaction
+   * - Increments reservedQuantity; throws InsufficientStockError when no
+   *   warehouse can cover the quantity
+   * - Idempotent per order/product/variant: an existing active reservation
+   *   is returned instead of reserving twice (event redelivery)
+   * - Emits inventory.reserved event
    */
   async reserveInventory(
     orderId: number,
@@ -44,104 +82,297 @@ export class InventoryService {
       reservedBy?: string;
     }
   ): Promise<number> {
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new Error('Reservation quantity must be a positive integer');
+    }
+
     const expiresAt = new Date(Date.now() + 15 * 60 * 1000); // 15 minutes
+    const variantId = options?.productVariantId;
 
-    const [reservation] = await this.db.drizzle
-      .insert(inventoryReservations)
-      .values({
-        orderId,
-        productId,
-        productVariantId: options?.productVariantId,
-        productSku: options?.productSku,
-        quantity,
-        status: 'reserved',
-        warehouseId: options?.warehouseId,
-        locationCode: options?.locationCode,
-        reservedBy: options?.reservedBy,
-        expiresAt,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .returning();
+    return this.db.drizzle.transaction(async (tx) => {
+      const [existing] = await tx
+        .select({ id: inventoryReservations.id })
+        .from(inventoryReservations)
+        .where(
+          and(
+            eq(inventoryReservations.orderId, orderId),
+            eq(inventoryReservations.productId, productId),
+            variantId
+              ? eq(inventoryReservations.productVariantId, variantId)
+              : isNull(inventoryReservations.productVariantId),
+            eq(inventoryReservations.status, 'reserved'),
+            isNull(inventoryReservations.deletedAt)
+          )
+        )
+        .limit(1);
 
-    if (!reservation) {
-      throw new Error('Failed to create inventory reservation');
-    }
+      if (existing) {
+        return existing.id;
+      }
+
+      const available = sql`${productStock.quantity} - ${productStock.reservedQuantity}`;
+      const conditions = [
+        eq(productStock.productId, productId),
+        variantId
+          ? eq(productStock.variantId, variantId)
+          : isNull(productStock.variantId),
+        isNull(productStock.deletedAt),
+        sql`${available} >= ${quantity}`,
+      ];
+      if (options?.warehouseId) {
+        conditions.push(eq(productStock.warehouseId, options.warehouseId));
+      }
+
+      // Postgres re-checks the WHERE clause after waiting on a lock, so a
+      // row drained by a concurrent reservation is skipped, not oversold
+      const [stock] = await tx
+        .select()
+        .from(productStock)
+        .where(and(...conditions))
+        .orderBy(desc(available))
+        .limit(1)
+        .for('update');
+
+      if (!stock) {
+        throw new InsufficientStockError(productId, quantity, variantId);
+      }
+
+      await tx
+        .update(productStock)
+        .set({
+          reservedQuantity: sql`${productStock.reservedQuantity} + ${quantity}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(productStock.id, stock.id));
+
+      const [reservation] = await tx
+        .insert(inventoryReservations)
+        .values({
+          orderId,
+          productId,
+          productVariantId: variantId,
+          productSku: options?.productSku,
+          quantity,
+          status: 'reserved',
+          warehouseId: stock.warehouseId,
+          locationCode: options?.locationCode ?? stock.locationCode,
+          reservedBy: options?.reservedBy,
+          expiresAt,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .returning();
+
+      if (!reservation) {
+        throw new Error('Failed to create inventory reservation');
+      }
+
+      const event: InventoryReservedEvent = {
+        type: 'inventory.reserved',
+        payload: {
+          orderId: orderId.toString(),
+          productId: productId.toString(),
+          quantity,
+          reservationId: reservation.id.toString(),
+        },
+        metadata: {
+          eventId: crypto.randomUUID(),
+          timestamp: Date.now(),
+          source: 'inventory-service',
+          correlationId: orderId.toString(),
+        },
+      };
 
-    const event: InventoryReservedEvent = {
-      type: 'inventory.reserved',
-      payload: {
-        orderId: orderId.toString(),
-        productId: productId.toString(),
-        quantity,
-        reservationId: reservation.id.toString(),
-      },
-      metadata: {
-        eventId: crypto.randomUUID(),
-        timestamp: Date.now(),
-        source: 'inventory-service',
-        correlationId: orderId.toString(),
-      },
-    };
-
-    await this.eventPublisher.publish(event);
-
-    return reservation.id;
+      await enqueueEvent(tx, event);
+
+      return reservation.id;
+    });
   }
 
   /**
    * Release inventory reservation
+   * Business Rules:
+   * - Only active (reserved) reservations give stock back
+   * - Decrements reservedQuantity on the reserved warehouse
+   * - Idempotent: released or fulfilled reservations are left untouched
    */
   async releaseReservation(
     reservationId: number,
     reason: string,
     releasedBy?: string
   ): Promise<void> {
-    const [reservation] = await this.db.drizzle
+    await this.db.drizzle.transaction(async (tx) => {
+      const [reservation] = await tx
+        .select()
+        .from(inventoryReservations)
+        .where(
+          and(
+            eq(inventoryReservations.id, reservationId),
+            isNull(inventoryReservations.deletedAt)
+          )
+        )
+        .limit(1)
+        .for('update');
+
+      if (!reservation) {
+        throw new Error('Reservation not found');
+      }
+
+      if (reservation.status !== 'reserved') {
+        return; // Idempotent
+      }
+
+      await tx
+        .update(inventoryReservations)
+        .set({
+          status: 'released',
+          releaseReason: reason,
+          releasedBy,
+          updatedAt: new Date(),
+        })
+        .where(eq(inventoryReservations.id, reservationId));
+
+      await this.adjustStock(tx, reservation, {
+        reserved: -reservation.quantity,
+      });
+
+      const event: InventoryReleasedEvent = {
+        type: 'inventory.released',
+        payload: {
+          reservationId: reservationId.toString(),
+          productId: reservation.productId.toString(),
+          quantity: reservation.quantity,
+          reason,
+        },
+        metadata: {
+          eventId: crypto.randomUUID(),
+          timestamp: Date.now(),
+          source: 'inventory-service',
+          correlationId: reservation.orderId.toString(),
+        },
+      };
+
+      await enqueueEvent(tx, event);
+    });
+  }
+
+  /**
+   * Find all reservations of an order, in every status
+   */
+  async findByOrderId(orderId: number): Promise<InventoryReservation[]> {
+    return this.db.drizzle
       .select()
       .from(inventoryReservations)
       .where(
         and(
-          eq(inventoryReservations.id, reservationId),
+          eq(inventoryReservations.orderId, orderId),
           isNull(inventoryReservations.deletedAt)
         )
       )
-      .limit(1);
+      .orderBy(asc(inventoryReservations.id));
+  }
 
-    if (!reservation) {
-      throw new Error('Reservation not found');
-    }
+  /**
+   * Find active reservations past their expiry
+   * Only orders that have not started picking (pending, confirmed) are
+   * considered; later stages own their stock until delivery or cancel.
+   */
+  async findExpiredReservations(
+    now: Date = new Date(),
+    limit: number = 100
+  ): Promise<ExpiredReservation[]> {
+    return this.db.drizzle
+      .select({
+        reservationId: inventoryReservations.id,
+        orderId: inventoryReservations.orderId,
+        orderStatus: orders.status,
+        productId: inventoryReservations.productId,
+        quantity: inventoryReservations.quantity,
+        expiresAt: inventoryReservations.expiresAt,
+      })
+      .from(inventoryReservations)
+      .innerJoin(orders, eq(orders.id, inventoryReservations.orderId))
+      .where(
+        and(
+          eq(inventoryReservations.status, 'reserved'),
+          lt(inventoryReservations.expiresAt, now),
+          isNull(inventoryReservations.deletedAt),
+          inArray(orders.status, ['pending', 'confirmed'])
+        )
+      )
+      .orderBy(asc(inventoryReservations.expiresAt))
+      .limit(limit);
+  }
+
+  /**
+   * Turn an order's reservations into stock deductions (order delivered)
+   * Business Rules:
+   * - Each active reservation removes its units from both quantity and
+   *   reservedQuantity and is marked fulfilled
+   * - Idempotent: already fulfilled reservations are skipped
+   * Returns the number of reservations fulfilled.
+   */
+  async fulfillReservations(orderId: number): Promise<number> {
+    return this.db.drizzle.transaction(async (tx) => {
+      const reservations = await tx
+        .select()
+        .from(inventoryReservations)
+        .where(
+          and(
+            eq(inventoryReservations.orderId, orderId),
+            eq(inventoryReservations.status, 'reserved'),
+            isNull(inventoryReservations.deletedAt)
+          )
+        )
+        .for('update');
+
+      for (const reservation of reservations) {
+        await tx
+          .update(inventoryReservations)
+          .set({
+            status: 'fulfilled',
+            updatedAt: new Date(),
+          })
+          .where(eq(inventoryReservations.id, reservation.id));
 
-    if (reservation.status === 'released') {
-      return; // Idempotent
+        await this.adjustStock(tx, reservation, {
+          reserved: -reservation.quantity,
+          onHand: -reservation.quantity,
+        });
+      }
+
+      return reservations.length;
+    });
+  }
+
+  /**
+   * Apply deltas to the product_stock row a reservation was taken from
+   * reservedQuantity never goes below zero.
+   */
+  private async adjustStock(
+    tx: DbExecutor,
+    reservation: InventoryReservation,
+    delta: { reserved: number; onHand?: number }
+  ): Promise<void> {
+    if (!reservation.warehouseId) {
+      return; // Reservation not taken from a stock row
     }
 
-    await this.db.drizzle
-      .update(inventoryReservations)
+    await tx
+      .update(productStock)
       .set({
-        status: 'released',
-        releaseReason: reason,
-        releasedBy,
+        reservedQuantity: sql`GREATEST(${productStock.reservedQuantity} + ${delta.reserved}, 0)`,
+        quantity: sql`${productStock.quantity} + ${delta.onHand ?? 0}`,
         updatedAt: new Date(),
       })
-      .where(eq(inventoryReservations.id, reservationId));
-
-    const event: InventoryReleasedEvent = {
-      type: 'inventory.released',
-      payload: {
-        reservationId: reservationId.toString(),
-        productId: reservation.productId.toString(),
-        quantity: reservation.quantity,
-        reason,
-      },
-      metadata: {
-        eventId: crypto.randomUUID(),
-        timestamp: Date.now(),
-        source: 'inventory-service',
-        correlationId: reservation.orderId.toString(),
-      },
-    };
-
-    await this.eventPublisher.publish(event);
+      .where(
+        and(
+          eq(productStock.productId, reservation.productId),
+          reservation.productVariantId
+            ? eq(productStock.variantId, reservation.productVariantId)
+            : isNull(productStock.variantId),
+          eq(productStock.warehouseId, reservation.warehouseId)
+        )
+      );
   }
 }
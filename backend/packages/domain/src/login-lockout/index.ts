@@ -0,0 +1,73 @@
+/**
+ * Login Lockout
+ *
+ * Brute-force protection shared by customer, courier and admin user
+ * accounts (failed_login_attempts / account_locked_until columns).
+ *
+ * Business Rules:
+ * - Every failed login increments failedLoginAttempts
+ * - Reaching maxFailedAttempts locks the account for lockoutMs; while the
+ *   counter stays at/over the limit, each new failure re-locks it
+ * - A successful login resets the counter and the lock
+ */
+
+import { sql, type SQL } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+
+export type LoginLockoutPolicy = {
+  maxFailedAttempts: number;
+  lockoutMs: number;
+};
+
+export const DEFAULT_LOGIN_LOCKOUT: LoginLockoutPolicy = {
+  maxFailedAttempts: 5,
+  lockoutMs: 15 * 60 * 1000, // 15 minutes
+};
+
+/**
+ * Whether the account is currently locked
+ * accountLockedUntil may be a string when the row comes from cache.
+ */
+export function isAccountLocked(
+  account: { accountLockedUntil: Date | string | null },
+  now: Date = new Date()
+): boolean {
+  return (
+    account.accountLockedUntil !== null &&
+    new Date(account.accountLockedUntil).getTime() > now.getTime()
+  );
+}
+
+/**
+ * Column changes for a failed login, computed atomically in SQL so
+ * concurrent attempts cannot skip the lock
+ */
+export function failedLoginChanges(
+  columns: {
+    failedLoginAttempts: AnyPgColumn;
+    accountLockedUntil: AnyPgColumn;
+  },
+  policy: LoginLockoutPolicy = DEFAULT_LOGIN_LOCKOUT,
+  now: Date = new Date()
+): { failedLoginAttempts: SQL; accountLockedUntil: SQL; updatedAt: Date } {
+  const lockedUntil = new Date(now.getTime() + policy.lockoutMs);
+
+  return {
+    failedLoginAttempts: sql`${columns.failedLoginAttempts} + 1`,
+    accountLockedUntil: sql`CASE WHEN ${columns.failedLoginAttempts} + 1 >= ${policy.maxFailedAttempts} THEN ${lockedUntil.toISOString()}::timestamp ELSE ${columns.accountLockedUntil} END`,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Column changes for a successful login
+ */
+export function successfulLoginChanges(ip?: string, now: Date = new Date()) {
+  return {
+    failedLoginAttempts: 0,
+    accountLockedUntil: null,
+    lastLoginAt: now,
+    lastLoginIp: ip ?? null,
+    updatedAt: now,
+  };
+}
@@ -3,6 +3,7 @@
  *
  * Handles order creation, status transitions, and business rules.
  * Emits events instead of calling services directly.
+ * Events are written to the outbox in the same transaction as the change.
  */
 
 import type {
@@ -11,6 +12,8 @@ import type {
   NewOrder,
   OrderItem,
   NewOrderItem,
+  OrderStatusHistoryEntry,
+  ProductPrice,
 } from '@lokaly/db';
 import type {
   OrderCreatedEvent,
@@ -18,8 +21,19 @@ import type {
   OrderCancelledEvent,
   DomainEvent,
 } from '@lokaly/events';
-import { eq, and, isNull } from 'drizzle-orm';
-import { orders, orderItems } from '@lokaly/db/schema';
+import { deserializeEvent } from '@lokaly/events';
+import { eq, and, asc, desc, gte, lte, isNull, sql } from 'drizzle-orm';
+import {
+  orders,
+  orderItems,
+  orderNumberSequences,
+  orderStatusHistory,
+  outboxEvents,
+  products,
+  productVariants,
+} from '@lokaly/db/schema';
+import { enqueueEvent, type DbExecutor } from '../outbox';
+import type { ProductPricesService } from '../product-prices';
 
 /**
  * Event Publisher Interface
@@ -40,6 +54,12 @@ export type OrderStatus =
   | 'delivered'
   | 'cancelled';
 
+/**
+ * Order creation input
+ * Prices are resolved server-side; `unitPrice`, `subtotalAmount` and
+ * `totalAmount` are what the client expects to pay and are only compared
+ * against the computed values.
+ */
 export type CreateOrderInput = {
   customerId: number;
   customerName: string;
@@ -49,14 +69,15 @@ export type CreateOrderInput = {
     productId: number;
     productVariantId?: number;
     quantity: number;
-    unitPrice: number;
-    productName: string;
+    unitPrice?: number;
+    productName?: string;
     productSku?: string;
   }>;
   deliveryAddressId?: number;
   deliveryAddress: string;
   deliveryInstructions?: string;
-  subtotalAmount: number;
+  subtotalAmount?: number;
+  totalAmount?: number;
   taxAmount?: number;
   deliveryFee?: number;
   discountAmount?: number;
@@ -68,45 +89,301 @@ export type OrderWithItems = Order & {
   items: OrderItem[];
 };
 
+/**
+ * Thrown when a status transition is not allowed from the current status
+ * Retrying will not help.
+ */
+export class InvalidStatusTransitionError extends Error {
+  constructor(
+    public readonly orderId: number,
+    public readonly fromStatus: string,
+    public readonly toStatus: string
+  ) {
+    super(`Invalid status transition from ${fromStatus} to ${toStatus}`);
+    this.name = 'InvalidStatusTransitionError';
+  }
+}
+
+/**
+ * Thrown when an order changed between being read and being updated
+ * (another request or worker won the race). Retrying re-reads the order
+ * and re-validates the change.
+ */
+export class OrderConflictError extends Error {
+  constructor(
+    public readonly orderId: number,
+    public readonly expectedStatus: string
+  ) {
+    super(
+      `Order ${orderId} was changed concurrently (expected status ${expectedStatus})`
+    );
+    this.name = 'OrderConflictError';
+  }
+}
+
+/**
+ * Who changes an order
+ */
+export type OrderActor =
+  | { type: 'admin'; userId: number }
+  | { type: 'customer'; customerId: number }
+  | { type: 'courier'; courierId: number }
+  | { type: 'system' };
+
+/**
+ * Who cancels an order (couriers cannot)
+ */
+export type OrderCanceller = Exclude<OrderActor, { type: 'courier' }>;
+
+/**
+ * Statuses in which a customer may still cancel (picking not started)
+ */
+export const CUSTOMER_CANCELLABLE_STATUSES: readonly OrderStatus[] = [
+  'pending',
+  'confirmed',
+];
+
+export interface OrderFilters {
+  status?: string;
+  paymentStatus?: string;
+  customerId?: number;
+  createdFrom?: Date;
+  createdTo?: Date;
+}
+
+export interface OrderFindManyOptions {
+  limit?: number;
+  offset?: number;
+  orderBy?: 'created_at' | 'updated_at' | 'total_amount';
+  orderDirection?: 'asc' | 'desc';
+  filters?: OrderFilters;
+}
+
+/**
+ * One domain event of an order, oldest first in a timeline
+ */
+export type OrderTimelineEntry = {
+  eventId: string;
+  type: string;
+  occurredAt: Date;
+  payload: unknown;
+};
+
+/**
+ * Time orders took to go from one status to another, in seconds
+ * Only orders that reached `toStatus` inside the requested window count.
+ */
+export type OrderStageMetrics = {
+  fromStatus: OrderStatus;
+  toStatus: OrderStatus;
+  orders: number;
+  averageSeconds: number | null;
+  medianSeconds: number | null;
+  p90Seconds: number | null;
+  maxSeconds: number | null;
+};
+
+export type OrderStageMetricsOptions = {
+  fromStatus: OrderStatus;
+  toStatus: OrderStatus;
+  from?: Date; // Window on when toStatus was reached
+  to?: Date;
+};
+
+export type OrderServiceOptions = {
+  orderNumberPrefix?: string; // e.g. ORD in ORD-2026-000042
+};
+
+type PricedItem = {
+  productId: number;
+  productVariantId?: number;
+  productName: string;
+  productSku: string;
+  quantity: number;
+  unitPrice: number;
+  subtotal: number;
+};
+
+/**
+ * Round a monetary amount to cents
+ */
+function toCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Compare monetary amounts at cent precision
+ */
+function sameAmount(a: number, b: number): boolean {
+  return Math.round(a * 100) === Math.round(b * 100);
+}
+
+/**
+ * Human-readable order number: prefix, year and the year's sequence padded
+ * to six digits (ORD-2026-000042)
+ */
+export function formatOrderNumber(
+  prefix: string,
+  year: number,
+  sequence: number
+): string {
+  return `${prefix}-${year}-${sequence.toString().padStart(6, '0')}`;
+}
+
+/**
+ * Id of the actor in order events: the admin user id, `customer:<id>` for
+ * customers, `courier:<id>` for couriers, `system` otherwise
+ */
+function actorRef(actor: OrderActor): string {
+  switch (actor.type) {
+    case 'admin':
+      return actor.userId.toString();
+    case 'customer':
+      return `customer:${actor.customerId}`;
+    case 'courier':
+      return `courier:${actor.courierId}`;
+    case 'system':
+      return 'system';
+  }
+}
+
+/**
+ * Id of the actor in its own table (users, customers or couriers)
+ */
+function actorId(actor: OrderActor): number | null {
+  switch (actor.type) {
+    case 'admin':
+      return actor.userId;
+    case 'customer':
+      return actor.customerId;
+    case 'courier':
+      return actor.courierId;
+    case 'system':
+      return null;
+  }
+}
+
+/**
+ * Pick the price that applies to a quantity
+ * Highest priority wins; ties go to the lowest price.
+ * The validity window is re-checked because cached lists can outlive it.
+ */
+function selectApplicablePrice(
+  prices: ProductPrice[],
+  quantity: number,
+  now: Date
+): ProductPrice | null {
+  const applicable = prices.filter((price) => {
+    if (!price.isActive) return false;
+    if (price.validFrom && new Date(price.validFrom) > now) return false;
+    if (price.validUntil && new Date(price.validUntil) < now) return false;
+    if (price.minQuantity && quantity < price.minQuantity) return false;
+    if (price.maxQuantity && quantity > price.maxQuantity) return false;
+    return true;
+  });
+
+  applicable.sort(
+    (a, b) =>
+      (b.priority ?? 0) - (a.priority ?? 0) ||
+      Number(a.price) - Number(b.price)
+  );
+
+  return applicable[0] || null;
+}
+
 /**
  * Order Service
  * Contains all order-related business logic
  */
 export class OrderService {
+  private orderNumberPrefix: string;
+
   constructor(
     private db: DbConnection,
-    private eventPublisher: EventPublisher
-  ) {}
+    private productPricesService?: ProductPricesService,
+    options: OrderServiceOptions = {}
+  ) {
+    this.orderNumberPrefix =
+      options.orderNumberPrefix ?? (process.env.ORDER_NUMBER_PREFIX || 'ORD');
+  }
 
   /**
    * Create a new order
    * Business Rules:
-   * - Calculate total from items
+   * - Unit prices are resolved server-side (see resolveItemPrice)
+   * - Subtotal and total are computed from the resolved prices; client
+   *   expectations that disagree are rejected
    * - Set initial status to "pending"
-   * - Emit order.created event
+   * - Assign the next order number of the year (see nextOrderNumber)
+   * - Record the creation in the status history, by the customer
+   * - Emit order.created event (outbox, same transaction)
    */
   async createOrder(input: CreateOrderInput): Promise<OrderWithItems> {
-    const totalAmount =
-      input.subtotalAmount +
-      (input.taxAmount || 0) +
-      (input.deliveryFee || 0) -
-      (input.discountAmount || 0);
-
     // Validate business rules
     if (input.items.length === 0) {
       throw new Error('Order must have at least one item');
     }
 
+    const now = new Date();
+    const pricedItems: PricedItem[] = [];
+    for (const item of input.items) {
+      if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+        throw new Error('Item quantity must be a positive integer');
+      }
+
+      const priced = await this.resolveItemPrice(item, now);
+      if (
+        item.unitPrice !== undefined &&
+        !sameAmount(item.unitPrice, priced.unitPrice)
+      ) {
+        throw new Error(
+          `Price changed for product ${item.productId}: expected ${priced.unitPrice}, got ${item.unitPrice}`
+        );
+      }
+      pricedItems.push(priced);
+    }
+
+    const subtotalAmount = toCents(
+      pricedItems.reduce((sum, item) => sum + item.subtotal, 0)
+    );
+    const totalAmount = toCents(
+      subtotalAmount +
+        (input.taxAmount || 0) +
+        (input.deliveryFee || 0) -
+        (input.discountAmount || 0)
+    );
+
+    if (
+      input.subtotalAmount !== undefined &&
+      !sameAmount(input.subtotalAmount, subtotalAmount)
+    ) {
+      throw new Error(
+        `Order subtotal mismatch: expected ${subtotalAmount}, got ${input.subtotalAmount}`
+      );
+    }
+
+    if (
+      input.totalAmount !== undefined &&
+      !sameAmount(input.totalAmount, totalAmount)
+    ) {
+      throw new Error(
+        `Order total mismatch: expected ${totalAmount}, got ${input.totalAmount}`
+      );
+    }
+
     if (totalAmount <= 0) {
       throw new Error('Order total must be greater than zero');
     }
 
     // Use transaction to ensure atomicity
     const order = await this.db.drizzle.transaction(async (tx) => {
+      const orderNumber = await this.nextOrderNumber(tx, now);
+
       // Insert order
       const [newOrder] = await tx
         .insert(orders)
         .values({
+          orderNumber,
           customerId: input.customerId,
           customerName: input.customerName,
           customerPhone: input.customerPhone,
@@ -116,7 +393,7 @@ export class OrderService {
           deliveryInstructions: input.deliveryInstructions,
           status: 'pending',
           totalAmount: totalAmount.toString(),
-          subtotalAmount: input.subtotalAmount.toString(),
+          subtotalAmount: subtotalAmount.toString(),
           taxAmount: (input.taxAmount || 0).toString(),
           deliveryFee: (input.deliveryFee || 0).toString(),
           discountAmount: (input.discountAmount || 0).toString(),
@@ -133,7 +410,7 @@ export class OrderService {
       }
 
       // Insert order items
-      const itemsToInsert: NewOrderItem[] = input.items.map((item) => ({
+      const itemsToInsert: NewOrderItem[] = pricedItems.map((item) => ({
         orderId: newOrder.id,
         productId: item.productId,
         productVariantId: item.productVariantId,
@@ -141,7 +418,7 @@ export class OrderService {
         productSku: item.productSku,
         quantity: item.quantity,
         unitPrice: item.unitPrice.toString(),
-        subtotal: (item.unitPrice * item.quantity).toString(),
+        subtotal: item.subtotal.toString(),
         createdAt: new Date(),
         updatedAt: new Date(),
       }));
@@ -151,49 +428,218 @@ export class OrderService {
         .values(itemsToInsert)
         .returning();
 
+      await this.recordStatusChange(tx, newOrder.id, null, 'pending', {
+        type: 'customer',
+        customerId: newOrder.customerId,
+      });
+
+      // Emit domain event (committed atomically with the order)
+      const event: OrderCreatedEvent = {
+        type: 'order.created',
+        payload: {
+          orderId: newOrder.id.toString(),
+          orderNumber,
+          customerId: newOrder.customerId.toString(),
+          items: insertedItems.map((item) => ({
+            productId: item.productId.toString(),
+            productVariantId: item.productVariantId?.toString(),
+            quantity: item.quantity,
+            price: Number(item.unitPrice),
+          })),
+          totalAmount: Number(newOrder.totalAmount),
+          deliveryAddress: newOrder.deliveryAddress,
+        },
+        metadata: {
+          eventId: crypto.randomUUID(),
+          timestamp: Date.now(),
+          source: 'order-service',
+          correlationId: newOrder.id.toString(),
+        },
+      };
+
+      await enqueueEvent(tx, event);
+
       return {
         ...newOrder,
         items: insertedItems,
       };
     });
 
-    // Emit domain event (async, doesn't block transaction)
-    const event: OrderCreatedEvent = {
-      type: 'order.created',
-      payload: {
-        orderId: order.id.toString(),
-        customerId: order.customerId.toString(),
-        items: order.items.map((item) => ({
-          productId: item.productId.toString(),
-          quantity: item.quantity,
-          price: Number(item.unitPrice),
-        })),
-        totalAmount: Number(order.totalAmount),
-        deliveryAddress: order.deliveryAddress,
-      },
-      metadata: {
-        eventId: crypto.randomUUID(),
-        timestamp: Date.now(),
-        source: 'order-service',
-        correlationId: order.id.toString(),
-      },
+    return order;
+  }
+
+  /**
+   * Next order number of the year
+   * The upsert locks the year's counter row until the order transaction
+   * ends, so concurrent orders get consecutive numbers and a rolled back
+   * order leaves no gap.
+   */
+  private async nextOrderNumber(tx: DbExecutor, now: Date): Promise<string> {
+    const year = now.getUTCFullYear();
+    const [sequence] = await tx
+      .insert(orderNumberSequences)
+      .values({ year, lastValue: 1, updatedAt: now })
+      .onConflictDoUpdate({
+        target: orderNumberSequences.year,
+        set: {
+          lastValue: sql`${orderNumberSequences.lastValue} + 1`,
+          updatedAt: now,
+        },
+      })
+      .returning({ lastValue: orderNumberSequences.lastValue });
+
+    if (!sequence) {
+      throw new Error('Failed to assign order number');
+    }
+
+    return formatOrderNumber(this.orderNumberPrefix, year, sequence.lastValue);
+  }
+
+  /**
+   * Resolve the unit price of an order item
+   * Business Rules:
+   * - Product (and variant, if any) must exist and be active
+   * - A variant-specific price from ProductPricesService wins
+   * - Otherwise the product's price list applies, falling back to
+   *   products.basePrice, plus the variant's priceModifier
+   * - Price lists honour priority, validity window and min/max quantity
+   * - Product name and SKU come from the catalog, not the client
+   */
+  private async resolveItemPrice(
+    item: CreateOrderInput['items'][number],
+    now: Date
+  ): Promise<PricedItem> {
+    const pricesService = this.productPricesService;
+    if (!pricesService) {
+      throw new Error('Order pricing is not configured');
+    }
+
+    const [product] = await this.db.drizzle
+      .select()
+      .from(products)
+      .where(and(eq(products.id, item.productId), isNull(products.deletedAt)))
+      .limit(1);
+
+    if (!product) {
+      throw new Error(`Product ${item.productId} not found`);
+    }
+    if (product.status !== 'active') {
+      throw new Error(`Product ${item.productId} is not available`);
+    }
+
+    let unitPrice: number | null = null;
+    let productName = product.displayName || product.name;
+    let productSku = product.sku;
+
+    if (item.productVariantId) {
+      const [variant] = await this.db.drizzle
+        .select()
+        .from(productVariants)
+        .where(
+          and(
+            eq(productVariants.id, item.productVariantId),
+            eq(productVariants.productId, product.id),
+            isNull(productVariants.deletedAt)
+          )
+        )
+        .limit(1);
+
+      if (!variant || !variant.isActive) {
+        throw new Error(
+          `Variant ${item.productVariantId} of product ${item.productId} is not available`
+        );
+      }
+
+      productName = `${productName} - ${variant.name}`;
+      productSku = variant.sku;
+
+      const variantPrice = selectApplicablePrice(
+        await pricesService.findActiveByProductId(product.id, variant.id),
+        item.quantity,
+        now
+      );
+
+      if (variantPrice) {
+        unitPrice = Number(variantPrice.price);
+      } else {
+        const basePrice = await this.resolveBasePrice(
+          pricesService,
+          product.id,
+          product.basePrice,
+          item.quantity,
+          now
+        );
+        if (basePrice !== null) {
+          unitPrice = basePrice + Number(variant.priceModifier || 0);
+        }
+      }
+    } else {
+      unitPrice = await this.resolveBasePrice(
+        pricesService,
+        product.id,
+        product.basePrice,
+        item.quantity,
+        now
+      );
+    }
+
+    if (unitPrice === null) {
+      throw new Error(`Product ${item.productId} has no price`);
+    }
+
+    unitPrice = toCents(unitPrice);
+    if (unitPrice <= 0) {
+      throw new Error(`Product ${item.productId} has an invalid price`);
+    }
+
+    return {
+      productId: product.id,
+      productVariantId: item.productVariantId,
+      productName,
+      productSku,
+      quantity: item.quantity,
+      unitPrice,
+      subtotal: toCents(unitPrice * item.quantity),
     };
+  }
+
+  /**
+   * Price of the base product: active price list, then products.basePrice
+   */
+  private async resolveBasePrice(
+    pricesService: ProductPricesService,
+    productId: number,
+    basePrice: string | null,
+    quantity: number,
+    now: Date
+  ): Promise<number | null> {
+    const price = selectApplicablePrice(
+      await pricesService.findActiveByProductId(productId),
+      quantity,
+      now
+    );
 
-    await this.eventPublisher.publish(event);
+    if (price) {
+      return Number(price.price);
+    }
 
-    return order;
+    return basePrice !== null ? Number(basePrice) : null;
   }
 
   /**
    * Update order status
    * Business Rules:
    * - Validate status transition
+   * - The update only applies if the status is still the one validated;
+   *   otherwise OrderConflictError is thrown (optimistic concurrency)
+   * - Record the change in the status history (who and why)
    * - Emit order.status_changed event
    */
   async updateOrderStatus(
     orderId: number,
     newStatus: OrderStatus,
-    changedBy?: number
+    changedBy: OrderActor = { type: 'system' },
+    reason?: string
   ): Promise<OrderWithItems> {
     const order = await this.getOrderById(orderId);
     if (!order) {
@@ -215,24 +661,59 @@ export class OrderService {
 
     const currentStatus = order.status as OrderStatus;
     if (!validTransitions[currentStatus].includes(newStatus)) {
-      throw new Error(
-        `Invalid status transition from ${currentStatus} to ${newStatus}`
-      );
+      throw new InvalidStatusTransitionError(orderId, currentStatus, newStatus);
     }
 
-    // Update in database
-    const [updatedOrder] = await this.db.drizzle
-      .update(orders)
-      .set({
-        status: newStatus,
-        updatedAt: new Date(),
-      })
-      .where(and(eq(orders.id, orderId), isNull(orders.deletedAt)))
-      .returning();
+    // Update in database and emit event atomically
+    const updatedOrder = await this.db.drizzle.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(orders)
+        .set({
+          status: newStatus,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(orders.id, orderId),
+            eq(orders.status, currentStatus),
+            isNull(orders.deletedAt)
+          )
+        )
+        .returning();
 
-    if (!updatedOrder) {
-      throw new Error('Failed to update order');
-    }
+      if (!updated) {
+        throw new OrderConflictError(orderId, currentStatus);
+      }
+
+      await this.recordStatusChange(
+        tx,
+        orderId,
+        currentStatus,
+        newStatus,
+        changedBy,
+        reason
+      );
+
+      const event: OrderStatusChangedEvent = {
+        type: 'order.status_changed',
+        payload: {
+          orderId: orderId.toString(),
+          previousStatus: currentStatus,
+          newStatus,
+          changedBy: actorRef(changedBy),
+        },
+        metadata: {
+          eventId: crypto.randomUUID(),
+          timestamp: Date.now(),
+          source: 'order-service',
+          correlationId: orderId.toString(),
+        },
+      };
+
+      await enqueueEvent(tx, event);
+
+      return updated;
+    });
 
     // Fetch items
     const items = await this.db.drizzle
@@ -242,46 +723,41 @@ export class OrderService {
         and(eq(orderItems.orderId, orderId), isNull(orderItems.deletedAt))
       );
 
-    const orderWithItems: OrderWithItems = {
+    return {
       ...updatedOrder,
       items,
     };
-
-    // Emit event
-    const event: OrderStatusChangedEvent = {
-      type: 'order.status_changed',
-      payload: {
-        orderId: orderId.toString(),
-        previousStatus: currentStatus,
-        newStatus,
-        changedBy: changedBy?.toString(),
-      },
-      metadata: {
-        eventId: crypto.randomUUID(),
-        timestamp: Date.now(),
-        source: 'order-service',
-        correlationId: orderId.toString(),
-      },
-    };
-
-    await this.eventPublisher.publish(event);
-
-    return orderWithItems;
   }
 
   /**
    * Cancel an order
+   * Business Rules:
+   * - Delivered orders cannot be cancelled; cancelling twice is a no-op
+   * - Customers can only cancel their own orders, and only while they are
+   *   pending or confirmed (before picking starts)
+   * - Who cancelled is recorded by source: admins in cancelledBy (users),
+   *   customers in cancelledByCustomerId; system cancellations have neither
+   * - The cancellation is recorded in the status history with its reason
+   * - Like status updates, it only applies if the status did not change in
+   *   the meantime (OrderConflictError)
    */
   async cancelOrder(
     orderId: number,
     reason: string,
-    cancelledBy: number
+    cancelledBy: OrderCanceller = { type: 'system' }
   ): Promise<void> {
     const order = await this.getOrderById(orderId);
     if (!order) {
       throw new Error('Order not found');
     }
 
+    if (
+      cancelledBy.type === 'customer' &&
+      order.customerId !== cancelledBy.customerId
+    ) {
+      throw new Error('Order not found');
+    }
+
     if (order.status === 'delivered') {
       throw new Error('Cannot cancel a delivered order');
     }
@@ -290,34 +766,69 @@ export class OrderService {
       return; // Idempotent
     }
 
-    // Update order with cancellation info
-    await this.db.drizzle
-      .update(orders)
-      .set({
-        status: 'cancelled',
-        cancelledAt: new Date(),
+    if (
+      cancelledBy.type === 'customer' &&
+      !CUSTOMER_CANCELLABLE_STATUSES.includes(order.status as OrderStatus)
+    ) {
+      throw new Error(
+        `Order can no longer be cancelled by the customer (status ${order.status})`
+      );
+    }
+
+    await this.db.drizzle.transaction(async (tx) => {
+      // Update order with cancellation info
+      const [cancelled] = await tx
+        .update(orders)
+        .set({
+          status: 'cancelled',
+          cancelledAt: new Date(),
+          cancelledBy: cancelledBy.type === 'admin' ? cancelledBy.userId : null,
+          cancelledByCustomerId:
+            cancelledBy.type === 'customer' ? cancelledBy.customerId : null,
+          cancellationSource: cancelledBy.type,
+          cancellationReason: reason,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(orders.id, orderId),
+            eq(orders.status, order.status),
+            isNull(orders.deletedAt)
+          )
+        )
+        .returning({ id: orders.id });
+
+      if (!cancelled) {
+        throw new OrderConflictError(orderId, order.status);
+      }
+
+      await this.recordStatusChange(
+        tx,
+        orderId,
+        order.status,
+        'cancelled',
         cancelledBy,
-        cancellationReason: reason,
-        updatedAt: new Date(),
-      })
-      .where(and(eq(orders.id, orderId), isNull(orders.deletedAt)));
-
-    const event: OrderCancelledEvent = {
-      type: 'order.cancelled',
-      payload: {
-        orderId: orderId.toString(),
-        reason,
-        cancelledBy: cancelledBy.toString(),
-      },
-      metadata: {
-        eventId: crypto.randomUUID(),
-        timestamp: Date.now(),
-        source: 'order-service',
-        correlationId: orderId.toString(),
-      },
-    };
+        reason
+      );
 
-    await this.eventPublisher.publish(event);
+      const event: OrderCancelledEvent = {
+        type: 'order.cancelled',
+        payload: {
+          orderId: orderId.toString(),
+          reason,
+          cancelledBy: actorRef(cancelledBy),
+          cancellationSource: cancelledBy.type,
+        },
+        metadata: {
+          eventId: crypto.randomUUID(),
+          timestamp: Date.now(),
+          source: 'order-service',
+          correlationId: orderId.toString(),
+        },
+      };
+
+      await enqueueEvent(tx, event);
+    });
   }
 
   /**
@@ -346,4 +857,209 @@ export class OrderService {
       items,
     };
   }
+
+  /**
+   * Get order by its human-readable number
+   */
+  async getOrderByNumber(orderNumber: string): Promise<OrderWithItems | null> {
+    const [order] = await this.db.drizzle
+      .select({ id: orders.id })
+      .from(orders)
+      .where(and(eq(orders.orderNumber, orderNumber), isNull(orders.deletedAt)))
+      .limit(1);
+
+    return order ? this.getOrderById(order.id) : null;
+  }
+
+  /**
+   * Find orders (without items), newest first by default
+   */
+  async findMany(options: OrderFindManyOptions = {}): Promise<Order[]> {
+    const {
+      limit = 50,
+      offset = 0,
+      orderBy = 'created_at',
+      orderDirection = 'desc',
+      filters = {},
+    } = options;
+
+    const column = {
+      created_at: orders.createdAt,
+      updated_at: orders.updatedAt,
+      total_amount: orders.totalAmount,
+    }[orderBy];
+
+    return this.db.drizzle
+      .select()
+      .from(orders)
+      .where(and(...this.buildConditions(filters)))
+      .orderBy(orderDirection === 'desc' ? desc(column) : asc(column))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  /**
+   * Count orders
+   */
+  async count(filters: OrderFilters = {}): Promise<number> {
+    const result = await this.db.drizzle
+      .select({ count: sql<number>`count(*)` })
+      .from(orders)
+      .where(and(...this.buildConditions(filters)));
+
+    return Number(result[0]?.count || 0);
+  }
+
+  /**
+   * Set the staff-only notes of an order
+   */
+  async updateInternalNotes(
+    orderId: number,
+    internalNotes: string | null
+  ): Promise<Order | null> {
+    const [updated] = await this.db.drizzle
+      .update(orders)
+      .set({ internalNotes, updatedAt: new Date() })
+      .where(and(eq(orders.id, orderId), isNull(orders.deletedAt)))
+      .returning();
+
+    return updated || null;
+  }
+
+  /**
+   * Domain events of an order (order, inventory and delivery), oldest first
+   * Read from the outbox, where every event is kept with the order id as
+   * its correlation id.
+   */
+  async getTimeline(orderId: number): Promise<OrderTimelineEntry[]> {
+    const rows = await this.db.drizzle
+      .select()
+      .from(outboxEvents)
+      .where(eq(outboxEvents.correlationId, orderId.toString()))
+      .orderBy(asc(outboxEvents.createdAt), asc(outboxEvents.id));
+
+    return rows.map((row) => ({
+      eventId: row.eventId,
+      type: row.eventType,
+      occurredAt: row.createdAt,
+      payload: deserializeEvent(row.payload).payload,
+    }));
+  }
+
+  /**
+   * Status changes of an order, oldest first
+   */
+  async getStatusHistory(orderId: number): Promise<OrderStatusHistoryEntry[]> {
+    return this.db.drizzle
+      .select()
+      .from(orderStatusHistory)
+      .where(eq(orderStatusHistory.orderId, orderId))
+      .orderBy(asc(orderStatusHistory.createdAt), asc(orderStatusHistory.id));
+  }
+
+  /**
+   * SLA metrics for a stage of the fulfilment, e.g. confirmed to ready
+   * Each order counts once: from the first time it entered `fromStatus` to
+   * the first time it entered `toStatus`.
+   */
+  async getStageMetrics(
+    options: OrderStageMetricsOptions
+  ): Promise<OrderStageMetrics> {
+    const { fromStatus, toStatus } = options;
+    const firstEntered = (status: OrderStatus, alias: string) =>
+      this.db.drizzle
+        .select({
+          orderId: orderStatusHistory.orderId,
+          enteredAt: sql<Date>`min(${orderStatusHistory.createdAt})`.as(
+            'entered_at'
+          ),
+        })
+        .from(orderStatusHistory)
+        .where(eq(orderStatusHistory.newStatus, status))
+        .groupBy(orderStatusHistory.orderId)
+        .as(alias);
+
+    const start = firstEntered(fromStatus, 'stage_start');
+    const end = firstEntered(toStatus, 'stage_end');
+    const seconds = sql`extract(epoch from (${end.enteredAt} - ${start.enteredAt}))`;
+
+    const conditions = [sql`${end.enteredAt} >= ${start.enteredAt}`];
+    if (options.from) {
+      conditions.push(sql`${end.enteredAt} >= ${options.from}`);
+    }
+    if (options.to) {
+      conditions.push(sql`${end.enteredAt} <= ${options.to}`);
+    }
+
+    const [row] = await this.db.drizzle
+      .select({
+        orders: sql<number>`count(*)`,
+        averageSeconds: sql<string | null>`avg(${seconds})`,
+        medianSeconds: sql<
+          string | null
+        >`percentile_cont(0.5) within group (order by ${seconds})`,
+        p90Seconds: sql<
+          string | null
+        >`percentile_cont(0.9) within group (order by ${seconds})`,
+        maxSeconds: sql<string | null>`max(${seconds})`,
+      })
+      .from(start)
+      .innerJoin(end, eq(start.orderId, end.orderId))
+      .where(and(...conditions));
+
+    const toSeconds = (value: string | null | undefined) =>
+      value === null || value === undefined ? null : Number(value);
+
+    return {
+      fromStatus,
+      toStatus,
+      orders: Number(row?.orders ?? 0),
+      averageSeconds: toSeconds(row?.averageSeconds),
+      medianSeconds: toSeconds(row?.medianSeconds),
+      p90Seconds: toSeconds(row?.p90Seconds),
+      maxSeconds: toSeconds(row?.maxSeconds),
+    };
+  }
+
+  /**
+   * Append a status change to the history (inside the change's transaction)
+   */
+  private async recordStatusChange(
+    tx: DbExecutor,
+    orderId: number,
+    previousStatus: string | null,
+    newStatus: OrderStatus,
+    actor: OrderActor,
+    reason?: string
+  ): Promise<void> {
+    await tx.insert(orderStatusHistory).values({
+      orderId,
+      previousStatus,
+      newStatus,
+      actorType: actor.type,
+      actorId: actorId(actor),
+      reason,
+      createdAt: new Date(),
+    });
+  }
+
+  private buildConditions(filters: OrderFilters) {
+    const conditions = [isNull(orders.deletedAt)];
+    if (filters.status) {
+      conditions.push(eq(orders.status, filters.status));
+    }
+    if (filters.paymentStatus) {
+      conditions.push(eq(orders.paymentStatus, filters.paymentStatus));
+    }
+    if (filters.customerId !== undefined) {
+      conditions.push(eq(orders.customerId, filters.customerId));
+    }
+    if (filters.createdFrom) {
+      conditions.push(gte(orders.createdAt, filters.createdFrom));
+    }
+    if (filters.createdTo) {
+      conditions.push(lte(orders.createdAt, filters.createdTo));
+    }
+    return conditions;
+  }
 }
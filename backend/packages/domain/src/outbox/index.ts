@@ -0,0 +1,109 @@
+/**
+ * Transactional Outbox
+ *
+ * Domain services write events to `outbox_events` inside the same
+ * transaction as the state change they describe. A relay (worker) later
+ * publishes pending rows through an EventPublisher and marks them
+ * dispatched, giving at-least-once delivery without dual writes.
+ */
+
+import type { DbConnection } from '@lokaly/db';
+import type { DomainEvent } from '@lokaly/events';
+import { serializeEvent, deserializeEvent } from '@lokaly/events';
+import type { EventPublisher } from '../order';
+import { eq, asc } from 'drizzle-orm';
+import { outboxEvents } from '@lokaly/db/schema';
+
+/**
+ * Anything that can run Drizzle queries: the root connection or a transaction
+ */
+export type DbExecutor = Pick<
+  DbConnection['drizzle'],
+  'select' | 'insert' | 'update' | 'execute'
+>;
+
+/**
+ * Append a domain event to the outbox
+ * Pass the transaction (`tx`) so the event commits together with the change.
+ */
+export async function enqueueEvent(
+  executor: DbExecutor,
+  event: DomainEvent
+): Promise<void> {
+  await executor.insert(outboxEvents).values({
+    eventId: event.metadata.eventId,
+    eventType: event.type,
+    correlationId: event.metadata.correlationId,
+    payload: serializeEvent(event),
+    status: 'pending',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+}
+
+export type DispatchResult = {
+  dispatched: number;
+  failed: number;
+};
+
+/**
+ * Outbox Service
+ * Reads and updates outbox rows on behalf of the relay
+ */
+export class OutboxService {
+  constructor(private db: DbConnection) {}
+
+  /**
+   * Publish up to `limit` pending events, oldest first
+   * Business Rules:
+   * - Rows are locked with SKIP LOCKED so concurrent relays never
+   *   publish the same event at the same time
+   * - The batch stops at the first publish failure to preserve ordering;
+   *   the failing row records the error and is retried on the next run
+   */
+  async dispatchPending(
+    publisher: EventPublisher,
+    limit: number = 100
+  ): Promise<DispatchResult> {
+    return this.db.drizzle.transaction(async (tx) => {
+      const pending = await tx
+        .select()
+        .from(outboxEvents)
+        .where(eq(outboxEvents.status, 'pending'))
+        .orderBy(asc(outboxEvents.id))
+        .limit(limit)
+        .for('update', { skipLocked: true });
+
+      const result: DispatchResult = { dispatched: 0, failed: 0 };
+
+      for (const row of pending) {
+        try {
+          await publisher.publish(deserializeEvent(row.payload));
+        } catch (error) {
+          await tx
+            .update(outboxEvents)
+            .set({
+              attempts: row.attempts + 1,
+              lastError: error instanceof Error ? error.message : String(error),
+              updatedAt: new Date(),
+            })
+            .where(eq(outboxEvents.id, row.id));
+          result.failed++;
+          break;
+        }
+
+        await tx
+          .update(outboxEvents)
+          .set({
+            status: 'dispatched',
+            dispatchedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(outboxEvents.id, row.id));
+        result.dispatched++;
+      }
+
+      return result;
+    });
+  }
+}
@@ -0,0 +1,1182 @@
+/**
+ * Payments Domain Logic
+ *
+ * Order payments behind a pluggable gateway.
+ *
+ * Architecture Decision:
+ * - The domain depends on the PaymentGateway interface only; the gateway is
+ *   chosen by configuration (PAYMENT_GATEWAY)
+ * - Amounts cross the gateway boundary in integer cents
+ * - orders.paymentStatus only moves along PAYMENT_TRANSITIONS; updates are
+ *   conditional on the status that was read (OrderConflictError otherwise)
+ * - A local simulator covers approved, declined and async-pending flows
+ *   without any payment provider
+ * - PIX charges are BR Code ("copia e cola") payloads kept in pix_charges
+ * - Becoming paid emits payment.confirmed (outbox, same transaction)
+ */
+
+import { timingSafeEqual } from 'node:crypto';
+import type {
+  DbConnection,
+  Order,
+  PaymentStatusType,
+  PixCharge,
+} from '@lokaly/db';
+import type { CacheService } from '@lokaly/cache';
+import type { PaymentConfirmedEvent } from '@lokaly/events';
+import { and, desc, eq, isNull, lt } from 'drizzle-orm';
+import {
+  inventoryReservations,
+  orders,
+  pixCharges,
+} from '@lokaly/db/schema';
+import { OrderConflictError } from '../order';
+import { enqueueEvent, type DbExecutor } from '../outbox';
+
+export type PaymentStatus = PaymentStatusType;
+
+/**
+ * Allowed paymentStatus transitions
+ * - failed → pending: a new attempt after a decline
+ * - failed → paid: an async payment confirmed after being given up on
+ * - partially_refunded stays put for further partial refunds
+ */
+export const PAYMENT_TRANSITIONS: Record<
+  PaymentStatus,
+  readonly PaymentStatus[]
+> = {
+  pending: ['paid', 'failed'],
+  failed: ['pending', 'paid'],
+  paid: ['partially_refunded', 'refunded'],
+  partially_refunded: ['refunded'],
+  refunded: [],
+};
+
+export function canTransitionPayment(
+  from: PaymentStatus,
+  to: PaymentStatus
+): boolean {
+  return PAYMENT_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Thrown when the order's payment cannot move to the requested status
+ */
+export class InvalidPaymentTransitionError extends Error {
+  constructor(
+    public readonly orderId: number,
+    public readonly fromStatus: string,
+    public readonly toStatus: string
+  ) {
+    super(
+      `Invalid payment status transition from ${fromStatus} to ${toStatus}`
+    );
+    this.name = 'InvalidPaymentTransitionError';
+  }
+}
+
+/**
+ * Thrown for webhooks that fail signature verification or cannot be parsed
+ */
+export class PaymentWebhookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentWebhookError';
+  }
+}
+
+/**
+ * Thrown for capture webhooks whose amount is not the order total; the
+ * order is left as it was
+ */
+export class PaymentAmountMismatchError extends PaymentWebhookError {
+  constructor(
+    public readonly orderId: number,
+    public readonly expectedCents: number,
+    public readonly receivedCents: number | undefined
+  ) {
+    super(
+      `Captured amount ${receivedCents ?? 'unknown'} does not match the total of order ${orderId} (${expectedCents} cents)`
+    );
+    this.name = 'PaymentAmountMismatchError';
+  }
+}
+
+export type AuthorizePaymentInput = {
+  orderId: number;
+  amountCents: number;
+  currency: 'BRL';
+  method?: string; // credit_card, debit_card, pix, ...
+  source?: string; // Card token or gateway-specific payment source
+  capture?: boolean; // Capture as soon as authorized
+};
+
+export type AuthorizationResult = {
+  transactionId: string;
+  status: 'authorized' | 'captured' | 'pending' | 'declined';
+  declineReason?: string;
+};
+
+export type CaptureResult = {
+  transactionId: string;
+  capturedCents: number;
+};
+
+export type RefundResult = {
+  refundId: string;
+  transactionId: string;
+  amountCents: number;
+};
+
+/**
+ * Asynchronous outcome reported by the gateway
+ */
+export type PaymentWebhookEvent = {
+  eventId: string;
+  type:
+    | 'payment.authorized'
+    | 'payment.captured'
+    | 'payment.declined'
+    | 'payment.refunded';
+  transactionId: string;
+  amountCents?: number;
+  occurredAt: Date;
+};
+
+export type PixChargeInput = {
+  orderId: number;
+  amountCents: number;
+  expiresAt: Date;
+  description?: string; // Shown to the payer when the gateway supports it
+};
+
+export type PixChargeResult = {
+  transactionId: string; // txid of the charge
+  payload: string; // BR Code ("copia e cola")
+  expiresAt: Date;
+};
+
+export interface PaymentGateway {
+  readonly name: string;
+  authorize(input: AuthorizePaymentInput): Promise<AuthorizationResult>;
+  /**
+   * Issue a PIX charge; it is confirmed by a payment.captured webhook
+   */
+  createPixCharge(input: PixChargeInput): Promise<PixChargeResult>;
+  /** Capture an authorized payment, optionally less than authorized */
+  capture(transactionId: string, amountCents?: number): Promise<CaptureResult>;
+  /**
+   * Refund a captured payment; `reference` is our id for the refund, to
+   * look it up later with findRefund (a repeated reference is refunded once)
+   */
+  refund(
+    transactionId: string,
+    amountCents: number,
+    reason?: string,
+    reference?: string
+  ): Promise<RefundResult>;
+  /**
+   * Refund issued with the given reference, or null when the gateway has
+   * none (the request never reached it); throws when it cannot tell
+   */
+  findRefund(
+    transactionId: string,
+    reference: string
+  ): Promise<RefundResult | null>;
+  /**
+   * Check the signature and parse the payload (header names in lower case);
+   * throws PaymentWebhookError
+   */
+  verifyWebhook(
+    rawBody: string,
+    headers: Record<string, string | undefined>
+  ): PaymentWebhookEvent;
+}
+
+/**
+ * Outcome of a payment attempt on an order
+ */
+export type OrderPaymentResult = {
+  order: Order;
+  outcome: AuthorizationResult['status'];
+  declineReason?: string;
+};
+
+/**
+ * Payment of an order as shown to its customer
+ */
+export type OrderPayment = {
+  orderId: number;
+  paymentStatus: PaymentStatus;
+  paymentMethod: string | null;
+  totalAmount: string;
+  pix: (PixCharge & { expired: boolean }) | null; // Current PIX charge
+};
+
+export type PaymentServiceOptions = {
+  pixExpiresInSeconds?: number; // Lifetime of new PIX charges
+};
+
+/**
+ * Order total in integer cents
+ */
+export function toAmountCents(amount: string | number): number {
+  return Math.round(Number(amount) * 100);
+}
+
+/**
+ * Merchant data printed in PIX BR Codes
+ */
+export type PixMerchant = {
+  key: string; // PIX key (chave) that receives the payments
+  name: string; // Up to 25 characters
+  city: string; // Up to 15 characters
+};
+
+export type PixPayloadInput = PixMerchant & {
+  amountCents: number;
+  txid: string; // Up to 25 letters and digits
+};
+
+/**
+ * CRC16-CCITT (polynomial 0x1021, initial value 0xFFFF) as 4 upper case
+ * hex digits, the checksum closing every BR Code
+ */
+export function crc16(data: string): string {
+  let crc = 0xffff;
+  for (const byte of new TextEncoder().encode(data)) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
+/**
+ * EMV field: id, two-digit length, value
+ */
+function emvField(id: string, value: string): string {
+  if (value.length > 99) {
+    throw new Error(`BR Code field ${id} is too long`);
+  }
+  return `${id}${value.length.toString().padStart(2, '0')}${value}`;
+}
+
+/**
+ * Names and cities without accents, as BR Code readers expect
+ */
+function brCodeText(value: string, maxLength: number): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .slice(0, maxLength);
+}
+
+/**
+ * Build a PIX BR Code ("copia e cola") following the EMV QR Code layout
+ * of the Banco Central: merchant account (26), amount (54), txid (62/05),
+ * closed by the CRC16 (63)
+ */
+export function buildPixPayload(input: PixPayloadInput): string {
+  if (!/^[A-Za-z0-9]{1,25}$/.test(input.txid)) {
+    throw new Error('PIX txid must have 1 to 25 letters and digits');
+  }
+  if (!Number.isInteger(input.amountCents) || input.amountCents <= 0) {
+    throw new Error('PIX amount must be a positive number of cents');
+  }
+
+  const payload = [
+    emvField('00', '01'), // Payload format indicator
+    emvField('01', '12'), // Single use
+    emvField(
+      '26',
+      emvField('00', 'br.gov.bcb.pix') + emvField('01', input.key)
+    ),
+    emvField('52', '0000'), // Merchant category code
+    emvField('53', '986'), // BRL
+    emvField('54', (input.amountCents / 100).toFixed(2)),
+    emvField('58', 'BR'),
+    emvField('59', brCodeText(input.name, 25)),
+    emvField('60', brCodeText(input.city, 15)),
+    emvField('62', emvField('05', input.txid)),
+  ].join('');
+
+  return `${payload}6304${crc16(`${payload}6304`)}`;
+}
+
+/**
+ * Payment Service
+ * Runs order payments through the configured gateway
+ */
+export class PaymentService {
+  private pixExpiresInSeconds: number;
+
+  constructor(
+    private db: DbConnection,
+    private gateway: PaymentGateway,
+    options: PaymentServiceOptions = {}
+  ) {
+    this.pixExpiresInSeconds =
+      options.pixExpiresInSeconds ??
+      Number(process.env.PIX_EXPIRES_IN_SECONDS || 900);
+  }
+
+  /**
+   * Start paying an order
+   * Business Rules:
+   * - Only unpaid orders (pending, or failed for a new attempt)
+   * - Declined: paymentStatus becomes failed
+   * - Captured right away: paid
+   * - Authorized or pending at the gateway: stays pending until captured
+   *   or confirmed by webhook
+   */
+  async authorizeOrderPayment(
+    orderId: number,
+    input: { method?: string; source?: string; capture?: boolean } = {}
+  ): Promise<OrderPaymentResult> {
+    const order = await this.getOrder(orderId);
+    const current = order.paymentStatus as PaymentStatus;
+    if (current !== 'pending' && current !== 'failed') {
+      throw new InvalidPaymentTransitionError(orderId, current, 'pending');
+    }
+
+    const result = await this.gateway.authorize({
+      orderId,
+      amountCents: toAmountCents(order.totalAmount),
+      currency: 'BRL',
+      method: input.method ?? order.paymentMethod ?? undefined,
+      source: input.source,
+      capture: input.capture,
+    });
+
+    const nextStatus: PaymentStatus =
+      result.status === 'declined'
+        ? 'failed'
+        : result.status === 'captured'
+          ? 'paid'
+          : 'pending';
+
+    const updated = await this.updatePayment(order, nextStatus, {
+      paymentTransactionId: result.transactionId,
+      paymentGateway: this.gateway.name,
+      ...(input.method && { paymentMethod: input.method }),
+    });
+
+    return {
+      order: updated,
+      outcome: result.status,
+      ...(result.declineReason && { declineReason: result.declineReason }),
+    };
+  }
+
+  /**
+   * Capture the authorized payment of an order (all of it by default)
+   */
+  async captureOrderPayment(
+    orderId: number,
+    amountCents?: number
+  ): Promise<Order> {
+    const order = await this.getOrder(orderId);
+    if (!order.paymentTransactionId) {
+      throw new Error('Order has no payment to capture');
+    }
+    if (order.paymentStatus !== 'pending') {
+      throw new InvalidPaymentTransitionError(
+        orderId,
+        order.paymentStatus,
+        'paid'
+      );
+    }
+
+    await this.gateway.capture(order.paymentTransactionId, amountCents);
+    return this.updatePayment(order, 'paid');
+  }
+
+  /**
+   * Issue a PIX charge for the order total
+   * Business Rules:
+   * - Only unpaid orders that are not cancelled
+   * - The current charge is returned while it is still payable; a new one
+   *   is only issued once it expired
+   * - The order is switched to PIX and points at the new charge
+   *   (paymentTransactionId); a failed payment goes back to pending
+   * - The order's stock reservations are held at least until the charge
+   *   expires, so a payment in time still finds its stock
+   */
+  async createPixCharge(
+    orderId: number,
+    now: Date = new Date()
+  ): Promise<PixCharge> {
+    const order = await this.getOrder(orderId);
+    if (order.status === 'cancelled') {
+      throw new Error('Cancelled orders cannot be paid');
+    }
+    const current = order.paymentStatus as PaymentStatus;
+    if (current !== 'pending' && current !== 'failed') {
+      throw new InvalidPaymentTransitionError(orderId, current, 'pending');
+    }
+
+    const existing = await this.getCurrentPixCharge(order);
+    if (existing && !existing.paidAt && existing.expiresAt > now) {
+      return existing;
+    }
+
+    const result = await this.gateway.createPixCharge({
+      orderId,
+      amountCents: toAmountCents(order.totalAmount),
+      expiresAt: new Date(now.getTime() + this.pixExpiresInSeconds * 1000),
+      description: order.orderNumber ?? undefined,
+    });
+
+    return this.db.drizzle.transaction(async (tx) => {
+      await this.applyPaymentUpdate(tx, order, 'pending', {
+        paymentMethod: 'pix',
+        paymentTransactionId: result.transactionId,
+        paymentGateway: this.gateway.name,
+      });
+
+      await tx
+        .update(inventoryReservations)
+        .set({ expiresAt: result.expiresAt, updatedAt: now })
+        .where(
+          and(
+            eq(inventoryReservations.orderId, orderId),
+            eq(inventoryReservations.status, 'reserved'),
+            lt(inventoryReservations.expiresAt, result.expiresAt),
+            isNull(inventoryReservations.deletedAt)
+          )
+        );
+
+      const [charge] = await tx
+        .insert(pixCharges)
+        .values({
+          orderId,
+          gateway: this.gateway.name,
+          txid: result.transactionId,
+          amount: order.totalAmount,
+          payload: result.payload,
+          expiresAt: result.expiresAt,
+          createdAt: now,
+        })
+        .returning();
+
+      return charge!;
+    });
+  }
+
+  /**
+   * Payment status of an order with its current PIX charge, if any
+   */
+  async getOrderPayment(
+    order: Order,
+    now: Date = new Date()
+  ): Promise<OrderPayment> {
+    const charge = await this.getCurrentPixCharge(order);
+
+    return {
+      orderId: order.id,
+      paymentStatus: order.paymentStatus as PaymentStatus,
+      paymentMethod: order.paymentMethod,
+      totalAmount: order.totalAmount,
+      pix: charge
+        ? { ...charge, expired: !charge.paidAt && charge.expiresAt <= now }
+        : null,
+    };
+  }
+
+  /**
+   * Apply a gateway webhook to the order it belongs to
+   * Redelivered webhooks are no-ops. Returns null for transactions that
+   * do not belong to any order. A capture must be for the order total,
+   * otherwise PaymentAmountMismatchError is thrown and nothing changes.
+   * Captures of PIX charges the order no longer points at are handled by
+   * handleSupersededCharge.
+   */
+  async handleWebhook(
+    rawBody: string,
+    headers: Record<string, string | undefined>
+  ): Promise<Order | null> {
+    const event = this.gateway.verifyWebhook(rawBody, headers);
+
+    const [order] = await this.db.drizzle
+      .select()
+      .from(orders)
+      .where(
+        and(
+          eq(orders.paymentGateway, this.gateway.name),
+          eq(orders.paymentTransactionId, event.transactionId),
+          isNull(orders.deletedAt)
+        )
+      )
+      .limit(1);
+
+    if (!order) {
+      return this.handleSupersededCharge(event);
+    }
+
+    const target = WEBHOOK_PAYMENT_STATUS[event.type];
+    if (!target || order.paymentStatus === target) {
+      return order;
+    }
+
+    const expectedCents = toAmountCents(order.totalAmount);
+    if (target === 'paid' && event.amountCents !== expectedCents) {
+      throw new PaymentAmountMismatchError(
+        order.id,
+        expectedCents,
+        event.amountCents
+      );
+    }
+
+    return this.updatePayment(order, target);
+  }
+
+  /**
+   * Webhook for a PIX charge that was replaced by a newer one
+   * The old BR Code can still be paid until it expires at the bank.
+   * - Captured while the order is unpaid: the order is paid through it and
+   *   points at it from then on
+   * - Captured after the order was paid through another charge: the
+   *   duplicate payment is refunded (the gateway refunds a reference once)
+   * - Anything else changes nothing
+   */
+  private async handleSupersededCharge(
+    event: PaymentWebhookEvent
+  ): Promise<Order | null> {
+    const [charge] = await this.db.drizzle
+      .select()
+      .from(pixCharges)
+      .where(
+        and(
+          eq(pixCharges.gateway, this.gateway.name),
+          eq(pixCharges.txid, event.transactionId)
+        )
+      )
+      .limit(1);
+
+    if (!charge) {
+      return null;
+    }
+
+    const [order] = await this.db.drizzle
+      .select()
+      .from(orders)
+      .where(and(eq(orders.id, charge.orderId), isNull(orders.deletedAt)))
+      .limit(1);
+
+    if (!order) {
+      return null;
+    }
+    if (WEBHOOK_PAYMENT_STATUS[event.type] !== 'paid' || charge.paidAt) {
+      return order;
+    }
+
+    const expectedCents = toAmountCents(order.totalAmount);
+    if (event.amountCents !== expectedCents) {
+      throw new PaymentAmountMismatchError(
+        order.id,
+        expectedCents,
+        event.amountCents
+      );
+    }
+
+    if (order.paymentStatus === 'pending' || order.paymentStatus === 'failed') {
+      return this.updatePayment(order, 'paid', {
+        paymentTransactionId: charge.txid,
+      });
+    }
+
+    await this.gateway.refund(
+      charge.txid,
+      expectedCents,
+      'duplicate_charge',
+      `pix_charge_${charge.id}`
+    );
+    await this.db.drizzle
+      .update(pixCharges)
+      .set({ paidAt: new Date() })
+      .where(eq(pixCharges.id, charge.id));
+    console.warn(
+      `[Payments] Order ${order.id} was already paid, refunded the payment of its superseded PIX charge ${charge.txid}`
+    );
+
+    return order;
+  }
+
+  /**
+   * PIX charge the order currently points at
+   */
+  private async getCurrentPixCharge(order: Order): Promise<PixCharge | null> {
+    if (!order.paymentTransactionId || !order.paymentGateway) {
+      return null;
+    }
+
+    const [charge] = await this.db.drizzle
+      .select()
+      .from(pixCharges)
+      .where(
+        and(
+          eq(pixCharges.orderId, order.id),
+          eq(pixCharges.gateway, order.paymentGateway),
+          eq(pixCharges.txid, order.paymentTransactionId)
+        )
+      )
+      .orderBy(desc(pixCharges.createdAt))
+      .limit(1);
+
+    return charge ?? null;
+  }
+
+  private async getOrder(orderId: number): Promise<Order> {
+    const [order] = await this.db.drizzle
+      .select()
+      .from(orders)
+      .where(and(eq(orders.id, orderId), isNull(orders.deletedAt)))
+      .limit(1);
+
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    return order;
+  }
+
+  /**
+   * Move the payment status, only from the status that was read
+   */
+  private async updatePayment(
+    order: Order,
+    to: PaymentStatus,
+    fields: PaymentFields = {}
+  ): Promise<Order> {
+    return this.db.drizzle.transaction((tx) =>
+      this.applyPaymentUpdate(tx, order, to, fields)
+    );
+  }
+
+  /**
+   * Update the payment inside the caller's transaction
+   * Becoming paid settles the PIX charge and emits payment.confirmed.
+   */
+  private async applyPaymentUpdate(
+    tx: DbExecutor,
+    order: Order,
+    to: PaymentStatus,
+    fields: PaymentFields = {}
+  ): Promise<Order> {
+    const from = order.paymentStatus as PaymentStatus;
+    if (from !== to && !canTransitionPayment(from, to)) {
+      throw new InvalidPaymentTransitionError(order.id, from, to);
+    }
+
+    const [updated] = await tx
+      .update(orders)
+      .set({ ...fields, paymentStatus: to, updatedAt: new Date() })
+      .where(
+        and(
+          eq(orders.id, order.id),
+          eq(orders.paymentStatus, from),
+          isNull(orders.deletedAt)
+        )
+      )
+      .returning();
+
+    if (!updated) {
+      throw new OrderConflictError(order.id, from);
+    }
+
+    if (to === 'paid' && from !== 'paid') {
+      const confirmedAt = new Date();
+
+      if (updated.paymentTransactionId && updated.paymentGateway) {
+        await tx
+          .update(pixCharges)
+          .set({ paidAt: confirmedAt })
+          .where(
+            and(
+              eq(pixCharges.gateway, updated.paymentGateway),
+              eq(pixCharges.txid, updated.paymentTransactionId),
+              isNull(pixCharges.paidAt)
+            )
+          );
+      }
+
+      const event: PaymentConfirmedEvent = {
+        type: 'payment.confirmed',
+        payload: {
+          orderId: order.id.toString(),
+          transactionId: updated.paymentTransactionId ?? '',
+          gateway: updated.paymentGateway ?? this.gateway.name,
+          paymentMethod: updated.paymentMethod ?? undefined,
+          amount: Number(updated.totalAmount),
+          confirmedAt: confirmedAt.getTime(),
+        },
+        metadata: {
+          eventId: crypto.randomUUID(),
+          timestamp: Date.now(),
+          source: 'payment-service',
+          correlationId: order.id.toString(),
+        },
+      };
+
+      await enqueueEvent(tx, event);
+    }
+
+    return updated;
+  }
+}
+
+type PaymentFields = Partial<
+  Pick<Order, 'paymentTransactionId' | 'paymentGateway' | 'paymentMethod'>
+>;
+
+/**
+ * paymentStatus reached by each webhook (authorizations wait for capture;
+ * refunds are recorded by RefundService when they are issued)
+ */
+const WEBHOOK_PAYMENT_STATUS: Record<
+  PaymentWebhookEvent['type'],
+  PaymentStatus | null
+> = {
+  'payment.authorized': null,
+  'payment.captured': 'paid',
+  'payment.declined': 'failed',
+  'payment.refunded': null,
+};
+
+/**
+ * Payment sources understood by the simulator
+ */
+export const SIMULATOR_SOURCES = {
+  APPROVED: 'sim_approved', // Default
+  DECLINED: 'sim_declined',
+  PENDING: 'sim_pending', // Settled later with settle()
+} as const;
+
+export const SIMULATOR_SIGNATURE_HEADER = 'x-simulator-signature';
+
+const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+/**
+ * Where the simulator keeps its transactions (Redis, through the cache), so
+ * that payments started by one process can be captured or refunded by
+ * another
+ */
+export type SimulatorStore = Pick<CacheService, 'get' | 'set'>;
+
+const SIMULATOR_KEY_PREFIX = 'payments:simulator:';
+
+type SimulatedTransaction = {
+  id: string;
+  amountCents: number;
+  status: 'authorized' | 'captured' | 'pending' | 'declined';
+  capture: boolean;
+  capturedCents: number;
+  refundedCents: number;
+  refunds?: SimulatedRefund[];
+  expiresAt?: Date; // PIX charges
+};
+
+type SimulatedRefund = {
+  refundId: string;
+  reference?: string;
+  amountCents: number;
+};
+
+/**
+ * Webhook request as the simulator would send it
+ */
+export type SimulatedWebhook = {
+  rawBody: string;
+  headers: Record<string, string>;
+};
+
+/**
+ * Local payment gateway (development and tests)
+ * Outcomes are picked by the payment source (SIMULATOR_SOURCES); pending
+ * payments and PIX charges stay open until settle() produces their signed
+ * webhook. Transactions are kept in the shared store.
+ */
+export class SimulatedPaymentGateway implements PaymentGateway {
+  readonly name = 'simulator';
+
+  constructor(
+    private webhookSecret: string,
+    private store: SimulatorStore,
+    private pixMerchant: PixMerchant = {
+      key: 'pix@lokaly.com',
+      name: 'Lokaly',
+      city: 'Sao Paulo',
+    }
+  ) {}
+
+  async authorize(input: AuthorizePaymentInput): Promise<AuthorizationResult> {
+    if (!Number.isInteger(input.amountCents) || input.amountCents <= 0) {
+      throw new Error('Payment amount must be a positive number of cents');
+    }
+
+    const source = input.source ?? SIMULATOR_SOURCES.APPROVED;
+    const capture = input.capture ?? false;
+    const transaction: SimulatedTransaction = {
+      id: `sim_${crypto.randomUUID()}`,
+      amountCents: input.amountCents,
+      status: 'authorized',
+      capture,
+      capturedCents: 0,
+      refundedCents: 0,
+    };
+
+    switch (source) {
+      case SIMULATOR_SOURCES.APPROVED:
+        if (capture) {
+          transaction.status = 'captured';
+          transaction.capturedCents = input.amountCents;
+        }
+        break;
+      case SIMULATOR_SOURCES.DECLINED:
+        transaction.status = 'declined';
+        break;
+      case SIMULATOR_SOURCES.PENDING:
+        transaction.status = 'pending';
+        break;
+      default:
+        throw new Error(`Unknown simulator payment source: ${source}`);
+    }
+
+    await this.saveTransaction(transaction);
+
+    return {
+      transactionId: transaction.id,
+      status: transaction.status,
+      ...(transaction.status === 'declined' && {
+        declineReason: 'card_declined',
+      }),
+    };
+  }
+
+  /**
+   * PIX charges are captured on payment: settle(txid, 'approved')
+   */
+  async createPixCharge(input: PixChargeInput): Promise<PixChargeResult> {
+    const transaction: SimulatedTransaction = {
+      id: `SIM${crypto.randomUUID().replace(/-/g, '').slice(0, 22)}`,
+      amountCents: input.amountCents,
+      status: 'pending',
+      capture: true,
+      capturedCents: 0,
+      refundedCents: 0,
+      expiresAt: input.expiresAt,
+    };
+
+    const payload = buildPixPayload({
+      ...this.pixMerchant,
+      amountCents: input.amountCents,
+      txid: transaction.id,
+    });
+    await this.saveTransaction(transaction);
+
+    return {
+      transactionId: transaction.id,
+      payload,
+      expiresAt: input.expiresAt,
+    };
+  }
+
+  async capture(
+    transactionId: string,
+    amountCents?: number
+  ): Promise<CaptureResult> {
+    const transaction = await this.getTransaction(transactionId);
+    if (transaction.status !== 'authorized') {
+      throw new Error(
+        `Cannot capture a ${transaction.status} payment (${transactionId})`
+      );
+    }
+
+    const captured = amountCents ?? transaction.amountCents;
+    if (captured <= 0 || captured > transaction.amountCents) {
+      throw new Error('Capture amount must be within the authorized amount');
+    }
+
+    transaction.status = 'captured';
+    transaction.capturedCents = captured;
+    await this.saveTransaction(transaction);
+    return { transactionId, capturedCents: captured };
+  }
+
+  async refund(
+    transactionId: string,
+    amountCents: number,
+    _reason?: string,
+    reference?: string
+  ): Promise<RefundResult> {
+    const transaction = await this.getTransaction(transactionId);
+    const existing = reference
+      ? transaction.refunds?.find((refund) => refund.reference === reference)
+      : undefined;
+    if (existing) {
+      return {
+        refundId: existing.refundId,
+        transactionId,
+        amountCents: existing.amountCents,
+      };
+    }
+    if (transaction.status !== 'captured') {
+      throw new Error(
+        `Cannot refund a ${transaction.status} payment (${transactionId})`
+      );
+    }
+    if (
+      amountCents <= 0 ||
+      transaction.refundedCents + amountCents > transaction.capturedCents
+    ) {
+      throw new Error('Refund amount exceeds the captured amount');
+    }
+
+    const refund: SimulatedRefund = {
+      refundId: `simref_${crypto.randomUUID()}`,
+      reference,
+      amountCents,
+    };
+    transaction.refundedCents += amountCents;
+    transaction.refunds = [...(transaction.refunds ?? []), refund];
+    await this.saveTransaction(transaction);
+    return {
+      refundId: refund.refundId,
+      transactionId,
+      amountCents,
+    };
+  }
+
+  async findRefund(
+    transactionId: string,
+    reference: string
+  ): Promise<RefundResult | null> {
+    const transaction = await this.getTransaction(transactionId);
+    const refund = transaction.refunds?.find(
+      (entry) => entry.reference === reference
+    );
+    if (!refund) {
+      return null;
+    }
+    return {
+      refundId: refund.refundId,
+      transactionId,
+      amountCents: refund.amountCents,
+    };
+  }
+
+  verifyWebhook(
+    rawBody: string,
+    headers: Record<string, string | undefined>
+  ): PaymentWebhookEvent {
+    const header = headers[SIMULATOR_SIGNATURE_HEADER];
+    const parts = new Map(
+      (header ?? '').split(',').map((part) => {
+        const [key, value] = part.split('=');
+        return [key ?? '', value ?? ''] as const;
+      })
+    );
+    const timestamp = Number(parts.get('t'));
+    const signature = parts.get('v1') ?? '';
+
+    if (!Number.isFinite(timestamp) || !signature) {
+      throw new PaymentWebhookError('Missing webhook signature');
+    }
+    if (Math.abs(Date.now() / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+      throw new PaymentWebhookError('Webhook timestamp outside tolerance');
+    }
+
+    const expected = Buffer.from(this.sign(timestamp, rawBody));
+    const received = Buffer.from(signature);
+    if (
+      expected.length !== received.length ||
+      !timingSafeEqual(expected, received)
+    ) {
+      throw new PaymentWebhookError('Invalid webhook signature');
+    }
+
+    let body: {
+      id?: string;
+      type?: PaymentWebhookEvent['type'];
+      transactionId?: string;
+      amountCents?: number;
+      createdAt?: string;
+    };
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      throw new PaymentWebhookError('Malformed webhook payload');
+    }
+    if (!body.id || !body.type || !body.transactionId) {
+      throw new PaymentWebhookError('Malformed webhook payload');
+    }
+
+    return {
+      eventId: body.id,
+      type: body.type,
+      transactionId: body.transactionId,
+      amountCents: body.amountCents,
+      occurredAt: body.createdAt ? new Date(body.createdAt) : new Date(),
+    };
+  }
+
+  /**
+   * Settle a pending payment and return the webhook announcing it
+   * Approved payments become authorized, or captured when the payment was
+   * started with `capture` (PIX charges). Expired PIX charges cannot be
+   * paid.
+   */
+  async settle(
+    transactionId: string,
+    outcome: 'approved' | 'declined'
+  ): Promise<SimulatedWebhook> {
+    const transaction = await this.getTransaction(transactionId);
+    if (transaction.status !== 'pending') {
+      throw new Error(`Payment ${transactionId} is not pending`);
+    }
+    if (
+      outcome === 'approved' &&
+      transaction.expiresAt &&
+      transaction.expiresAt <= new Date()
+    ) {
+      throw new Error(`PIX charge ${transactionId} expired`);
+    }
+
+    if (outcome === 'declined') {
+      transaction.status = 'declined';
+    } else if (transaction.capture) {
+      transaction.status = 'captured';
+      transaction.capturedCents = transaction.amountCents;
+    } else {
+      transaction.status = 'authorized';
+    }
+    await this.saveTransaction(transaction);
+
+    const type =
+      transaction.status === 'declined'
+        ? 'payment.declined'
+        : transaction.status === 'captured'
+          ? 'payment.captured'
+          : 'payment.authorized';
+    return this.webhookFor(transaction, type);
+  }
+
+  /**
+   * Signed webhook for a transaction, as the simulator would send it
+   */
+  webhookFor(
+    transaction: Pick<SimulatedTransaction, 'id' | 'amountCents'>,
+    type: PaymentWebhookEvent['type'],
+    now: Date = new Date()
+  ): SimulatedWebhook {
+    const rawBody = JSON.stringify({
+      id: `simevt_${crypto.randomUUID()}`,
+      type,
+      transactionId: transaction.id,
+      amountCents: transaction.amountCents,
+      createdAt: now.toISOString(),
+    });
+    const timestamp = Math.floor(now.getTime() / 1000);
+
+    return {
+      rawBody,
+      headers: {
+        'content-type': 'application/json',
+        [SIMULATOR_SIGNATURE_HEADER]: `t=${timestamp},v1=${this.sign(timestamp, rawBody)}`,
+      },
+    };
+  }
+
+  private sign(timestamp: number, rawBody: string): string {
+    return new Bun.CryptoHasher('sha256', this.webhookSecret)
+      .update(`${timestamp}.${rawBody}`)
+      .digest('hex');
+  }
+
+  private async getTransaction(
+    transactionId: string
+  ): Promise<SimulatedTransaction> {
+    const transaction = await this.store.get<
+      Omit<SimulatedTransaction, 'expiresAt'> & { expiresAt?: string }
+    >(`${SIMULATOR_KEY_PREFIX}${transactionId}`);
+    if (!transaction) {
+      throw new Error(`Unknown payment ${transactionId}`);
+    }
+    return {
+      ...transaction,
+      expiresAt: transaction.expiresAt
+        ? new Date(transaction.expiresAt)
+        : undefined,
+    };
+  }
+
+  /**
+   * Kept without expiry: a payment can be refunded long after it was made
+   */
+  private async saveTransaction(
+    transaction: SimulatedTransaction
+  ): Promise<void> {
+    await this.store.set(
+      `${SIMULATOR_KEY_PREFIX}${transaction.id}`,
+      transaction,
+      { ttl: 0 }
+    );
+  }
+}
+
+export type PaymentGatewayConfig = {
+  gateway?: string; // simulator
+  webhookSecret?: string;
+  environment?: string; // NODE_ENV
+  pixKey?: string;
+  pixMerchantName?: string;
+  pixMerchantCity?: string;
+};
+
+/**
+ * Build the payment gateway selected by configuration
+ * Defaults to PAYMENT_GATEWAY / PAYMENT_WEBHOOK_SECRET / NODE_ENV and the
+ * PIX_* merchant settings. The simulator keeps its transactions in the
+ * shared cache, so every process sees the same payments.
+ * Returns null, and payments stay turned off, without a webhook secret (a
+ * known secret lets anyone sign a capture webhook) and for the simulator in
+ * production; services keep running without payment routes or refunds.
+ */
+export function createPaymentGateway(
+  cache: SimulatorStore,
+  config: PaymentGatewayConfig = {
+    gateway: process.env.PAYMENT_GATEWAY,
+    webhookSecret: process.env.PAYMENT_WEBHOOK_SECRET,
+    environment: process.env.NODE_ENV,
+    pixKey: process.env.PIX_KEY,
+    pixMerchantName: process.env.PIX_MERCHANT_NAME,
+    pixMerchantCity: process.env.PIX_MERCHANT_CITY,
+  }
+): PaymentGateway | null {
+  if (!config.webhookSecret) {
+    console.warn(
+      '[Payments] PAYMENT_WEBHOOK_SECRET is not set, payments are turned off'
+    );
+    return null;
+  }
+
+  switch (config.gateway ?? 'simulator') {
+    case 'simulator':
+      if (config.environment === 'production') {
+        console.warn(
+          '[Payments] The payment simulator is not used in production and no other gateway is configured (PAYMENT_GATEWAY), payments are turned off'
+        );
+        return null;
+      }
+      return new SimulatedPaymentGateway(config.webhookSecret, cache, {
+        key: config.pixKey ?? 'pix@lokaly.com',
+        name: config.pixMerchantName ?? 'Lokaly',
+        city: config.pixMerchantCity ?? 'Sao Paulo',
+      });
+    default:
+      throw new Error(`Unknown payment gateway: ${config.gateway}`);
+  }
+}
@@ -0,0 +1,485 @@
+/**
+ * Refunds Domain Logic
+ *
+ * Money given back on an order's payment through the payment gateway,
+ * in full (cancelled orders) or in part (short-picked items, goodwill).
+ *
+ * Architecture Decision:
+ * - The refund row is written (pending) under a lock on the order before
+ *   the gateway is called, so concurrent refunds never exceed the total
+ * - The gateway call happens outside any transaction; its outcome is
+ *   recorded afterwards (succeeded, or failed with the gateway's reason)
+ * - Succeeded refunds move orders.paymentStatus to partially_refunded or
+ *   refunded and emit payment.refunded (outbox, same transaction)
+ * - Refunds are sent with our id as their gateway reference
+ * - A refund whose outcome was never recorded (process stopped during the
+ *   gateway call) stays pending and holds its amount; after a timeout,
+ *   resolveStalePending asks the gateway for it by reference
+ */
+
+import type {
+  DbConnection,
+  Order,
+  Refund,
+  RefundReasonType,
+  RefundStatusType,
+} from '@lokaly/db';
+import type { PaymentRefundedEvent } from '@lokaly/events';
+import { and, desc, eq, inArray, isNull, lt, sql } from 'drizzle-orm';
+import { orders, refunds } from '@lokaly/db/schema';
+import { enqueueEvent } from '../outbox';
+import {
+  canTransitionPayment,
+  toAmountCents,
+  type PaymentGateway,
+  type PaymentStatus,
+  type RefundResult,
+} from '../payments';
+
+export type RefundReason = RefundReasonType;
+export type RefundStatus = RefundStatusType;
+
+/**
+ * Payment statuses that still have money to give back
+ */
+const REFUNDABLE_PAYMENT_STATUSES: readonly PaymentStatus[] = [
+  'paid',
+  'partially_refunded',
+];
+
+/**
+ * Refund statuses that count against the order total: money that left, or
+ * may have left
+ */
+const HELD_REFUND_STATUSES: RefundStatus[] = [
+  'pending',
+  'succeeded',
+  'needs_review',
+];
+
+/**
+ * Thrown when the order's payment cannot be refunded as requested
+ * (not paid, not through this gateway, or more than what is left)
+ */
+export class RefundNotAllowedError extends Error {
+  constructor(
+    public readonly orderId: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'RefundNotAllowedError';
+  }
+}
+
+/**
+ * Thrown when the gateway rejected the refund; the refund is kept as
+ * failed with the gateway's reason
+ */
+export class RefundGatewayError extends Error {
+  constructor(
+    public readonly refundId: number,
+    message: string
+  ) {
+    super(`Refund ${refundId} failed at the payment gateway: ${message}`);
+    this.name = 'RefundGatewayError';
+  }
+}
+
+export interface RefundOrderInput {
+  amount?: number; // BRL; everything that is left when omitted
+  reason: RefundReason;
+  notes?: string;
+  requestedBy?: number; // Admin user id; omitted for automatic refunds
+}
+
+export interface RefundFilters {
+  orderId?: number;
+  status?: string;
+  reason?: string;
+}
+
+export interface RefundFindManyOptions {
+  limit?: number;
+  offset?: number;
+  filters?: RefundFilters;
+}
+
+/**
+ * Refund Service
+ * Refunds order payments through the configured gateway
+ */
+export class RefundService {
+  constructor(
+    private db: DbConnection,
+    private gateway: PaymentGateway
+  ) {}
+
+  /**
+   * Refund (part of) the payment of an order
+   * Business Rules:
+   * - Only paid or partially refunded orders, paid through this gateway
+   * - Pending, succeeded and needs_review refunds count against the order
+   *   total
+   * - Without an amount, refunds whatever is left; returns null when
+   *   nothing is (unpaid or already refunded), so automatic refunds can
+   *   run more than once
+   * - An explicit amount must be positive and within what is left
+   * - Gateway failure: the refund is kept as failed and
+   *   RefundGatewayError is thrown
+   */
+  async refundOrder(
+    orderId: number,
+    input: RefundOrderInput
+  ): Promise<Refund | null> {
+    const pending = await this.db.drizzle.transaction(async (tx) => {
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(and(eq(orders.id, orderId), isNull(orders.deletedAt)))
+        .limit(1)
+        .for('update');
+
+      if (!order) {
+        throw new Error('Order not found');
+      }
+
+      const paymentStatus = order.paymentStatus as PaymentStatus;
+      const remainingCents = REFUNDABLE_PAYMENT_STATUSES.includes(
+        paymentStatus
+      )
+        ? toAmountCents(order.totalAmount) -
+          (await this.refundedCents(tx, orderId, HELD_REFUND_STATUSES))
+        : 0;
+
+      if (input.amount === undefined && remainingCents <= 0) {
+        return null;
+      }
+      this.assertRefundable(order, input.amount, remainingCents);
+
+      const amountCents =
+        input.amount === undefined
+          ? remainingCents
+          : toAmountCents(input.amount);
+      const now = new Date();
+
+      const [refund] = await tx
+        .insert(refunds)
+        .values({
+          orderId,
+          gateway: order.paymentGateway!,
+          transactionId: order.paymentTransactionId!,
+          amount: (amountCents / 100).toFixed(2),
+          reason: input.reason,
+          notes: input.notes ?? null,
+          status: 'pending',
+          requestedBy: input.requestedBy ?? null,
+          createdAt: now,
+          updatedAt: now,
+        })
+        .returning();
+
+      return refund!;
+    });
+
+    if (!pending) {
+      return null;
+    }
+
+    let gatewayRefundId: string;
+    try {
+      const result = await this.gateway.refund(
+        pending.transactionId,
+        toAmountCents(pending.amount),
+        input.reason,
+        this.reference(pending)
+      );
+      gatewayRefundId = result.refundId;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.closePending(pending, 'failed', message);
+      throw new RefundGatewayError(pending.id, message);
+    }
+
+    return this.completeRefund(pending, gatewayRefundId);
+  }
+
+  /**
+   * Settle refunds pending since before `olderThan` with the gateway
+   * Their gateway call never reported back; each one is looked up by
+   * reference:
+   * - Found: succeeded, as if the call had returned
+   * - Not found: failed, the amount can be refunded again
+   * - The gateway cannot tell: needs_review, still holding the amount
+   *   until someone checks the gateway (a new refund could pay twice)
+   * Meant to run long after any gateway call would have timed out.
+   * Returns the refunds settled, with their new status.
+   */
+  async resolveStalePending(
+    olderThan: Date,
+    limit: number = 100
+  ): Promise<Refund[]> {
+    const stale = await this.db.drizzle
+      .select()
+      .from(refunds)
+      .where(
+        and(eq(refunds.status, 'pending'), lt(refunds.createdAt, olderThan))
+      )
+      .orderBy(refunds.createdAt)
+      .limit(limit);
+
+    const resolved: Refund[] = [];
+    for (const pending of stale) {
+      let found: RefundResult | null;
+      try {
+        found = await this.gateway.findRefund(
+          pending.transactionId,
+          this.reference(pending)
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const refund = await this.closePending(
+          pending,
+          'needs_review',
+          `Could not check the refund with the payment gateway: ${message}`
+        );
+        if (refund) {
+          resolved.push(refund);
+        }
+        continue;
+      }
+
+      const refund = found
+        ? await this.completeRefund(pending, found.refundId)
+        : await this.closePending(
+            pending,
+            'failed',
+            'The payment gateway never received the refund'
+          );
+      if (refund) {
+        resolved.push(refund);
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Find refund by ID
+   */
+  async findById(id: number): Promise<Refund | null> {
+    const result = await this.db.drizzle
+      .select()
+      .from(refunds)
+      .where(eq(refunds.id, id))
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * Find refunds, newest first
+   */
+  async findMany(options: RefundFindManyOptions = {}): Promise<Refund[]> {
+    const { limit = 50, offset = 0, filters = {} } = options;
+
+    return this.db.drizzle
+      .select()
+      .from(refunds)
+      .where(and(...this.buildConditions(filters)))
+      .orderBy(desc(refunds.createdAt), desc(refunds.id))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  /**
+   * Count refunds
+   */
+  async count(filters: RefundFilters = {}): Promise<number> {
+    const result = await this.db.drizzle
+      .select({ count: sql<number>`count(*)` })
+      .from(refunds)
+      .where(and(...this.buildConditions(filters)));
+
+    return Number(result[0]?.count || 0);
+  }
+
+  /**
+   * Record the gateway's acceptance and move the order's payment status
+   * (nothing changes when the refund was settled meanwhile)
+   */
+  private async completeRefund(
+    pending: Refund,
+    gatewayRefundId: string
+  ): Promise<Refund> {
+    return this.db.drizzle.transaction(async (tx) => {
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, pending.orderId))
+        .limit(1)
+        .for('update');
+
+      const completedAt = new Date();
+      const [refund] = await tx
+        .update(refunds)
+        .set({
+          status: 'succeeded',
+          gatewayRefundId,
+          completedAt,
+          updatedAt: completedAt,
+        })
+        .where(and(eq(refunds.id, pending.id), eq(refunds.status, 'pending')))
+        .returning();
+
+      if (!refund) {
+        const [current] = await tx
+          .select()
+          .from(refunds)
+          .where(eq(refunds.id, pending.id))
+          .limit(1);
+        return current!;
+      }
+
+      const totalRefundedCents = await this.refundedCents(
+        tx,
+        pending.orderId,
+        ['succeeded']
+      );
+      const from = order!.paymentStatus as PaymentStatus;
+      const to: 'partially_refunded' | 'refunded' =
+        totalRefundedCents >= toAmountCents(order!.totalAmount)
+          ? 'refunded'
+          : 'partially_refunded';
+
+      if (from !== to && canTransitionPayment(from, to)) {
+        await tx
+          .update(orders)
+          .set({ paymentStatus: to, updatedAt: completedAt })
+          .where(eq(orders.id, pending.orderId));
+      }
+
+      const event: PaymentRefundedEvent = {
+        type: 'payment.refunded',
+        payload: {
+          orderId: pending.orderId.toString(),
+          refundId: pending.id.toString(),
+          transactionId: pending.transactionId,
+          gateway: pending.gateway,
+          amount: Number(pending.amount),
+          totalRefunded: totalRefundedCents / 100,
+          reason: pending.reason,
+          paymentStatus: to,
+          refundedAt: completedAt.getTime(),
+        },
+        metadata: {
+          eventId: crypto.randomUUID(),
+          timestamp: Date.now(),
+          source: 'refund-service',
+          correlationId: pending.orderId.toString(),
+        },
+      };
+
+      await enqueueEvent(tx, event);
+
+      return refund!;
+    });
+  }
+
+  /**
+   * Close a refund that is still pending without it succeeding; null when
+   * it was settled meanwhile
+   */
+  private async closePending(
+    pending: Refund,
+    status: 'failed' | 'needs_review',
+    failureReason: string
+  ): Promise<Refund | null> {
+    const now = new Date();
+    const [refund] = await this.db.drizzle
+      .update(refunds)
+      .set({ status, failureReason, completedAt: now, updatedAt: now })
+      .where(and(eq(refunds.id, pending.id), eq(refunds.status, 'pending')))
+      .returning();
+
+    return refund ?? null;
+  }
+
+  /**
+   * Our reference for a refund at the gateway
+   */
+  private reference(refund: Pick<Refund, 'id'>): string {
+    return `refund_${refund.id}`;
+  }
+
+  private assertRefundable(
+    order: Order,
+    amount: number | undefined,
+    remainingCents: number
+  ): void {
+    const paymentStatus = order.paymentStatus as PaymentStatus;
+    if (!REFUNDABLE_PAYMENT_STATUSES.includes(paymentStatus)) {
+      throw new RefundNotAllowedError(
+        order.id,
+        `Cannot refund an order with payment status ${paymentStatus}`
+      );
+    }
+    if (
+      !order.paymentTransactionId ||
+      order.paymentGateway !== this.gateway.name
+    ) {
+      throw new RefundNotAllowedError(
+        order.id,
+        'Order was not paid through the payment gateway'
+      );
+    }
+    if (amount !== undefined) {
+      const amountCents = toAmountCents(amount);
+      if (amountCents <= 0) {
+        throw new RefundNotAllowedError(
+          order.id,
+          'Refund amount must be positive'
+        );
+      }
+      if (amountCents > remainingCents) {
+        throw new RefundNotAllowedError(
+          order.id,
+          `Refund amount exceeds what is left to refund (${(remainingCents / 100).toFixed(2)})`
+        );
+      }
+    }
+  }
+
+  /**
+   * Sum of the order's refunds in the given statuses, in cents
+   */
+  private async refundedCents(
+    tx: Pick<DbConnection['drizzle'], 'select'>,
+    orderId: number,
+    statuses: RefundStatus[]
+  ): Promise<number> {
+    const [row] = await tx
+      .select({
+        total: sql<string>`coalesce(sum(${refunds.amount}), 0)`,
+      })
+      .from(refunds)
+      .where(
+        and(eq(refunds.orderId, orderId), inArray(refunds.status, statuses))
+      );
+
+    return toAmountCents(row?.total ?? 0);
+  }
+
+  private buildConditions(filters: RefundFilters) {
+    const conditions = [];
+    if (filters.orderId !== undefined) {
+      conditions.push(eq(refunds.orderId, filters.orderId));
+    }
+    if (filters.status) {
+      conditions.push(eq(refunds.status, filters.status));
+    }
+    if (filters.reason) {
+      conditions.push(eq(refunds.reason, filters.reason));
+    }
+    return conditions;
+  }
+}
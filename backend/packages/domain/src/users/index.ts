@@ -3,12 +3,26 @@
  *
  * CRUD operations for admin/staff users with Redis caching.
  * Strategic cache invalidation on mutations.
+ *
+ * Two-factor authentication:
+ * - A TOTP code is accepted only for a time step after the last accepted one
+ * - Recovery codes are stored hashed and removed when used
+ * - super_admins can require 2FA for every user of a department
+ *
+ * Failed logins lock the account like customer and courier accounts
+ * (see login-lockout).
  */
 
-import type { DbConnection, User, NewUser } from '@lokaly/db';
+import type {
+  DbConnection,
+  User,
+  NewUser,
+  TwoFactorRequirement,
+} from '@lokaly/db';
 import type { CacheService } from '@lokaly/cache';
-import { eq, and, desc, sql, isNull } from 'drizzle-orm';
-import { users } from '@lokaly/db/schema';
+import { eq, and, or, lt, desc, sql, isNull, gt } from 'drizzle-orm';
+import { users, twoFactorRequirements } from '@lokaly/db/schema';
+import { failedLoginChanges, successfulLoginChanges } from '../login-lockout';
 
 export interface UsersRepository {
   findById(id: number): Promise<User | null>;
@@ -18,6 +32,20 @@ export interface UsersRepository {
   update(id: number, data: Partial<NewUser>): Promise<User | null>;
   delete(id: number): Promise<boolean>;
   count(filters?: UserFilters): Promise<number>;
+  findByPasswordResetToken(tokenHash: string): Promise<User | null>;
+  resetPassword(tokenHash: string, passwordHash: string): Promise<User | null>;
+  verifyEmail(tokenHash: string): Promise<User | null>;
+  recordFailedLogin(id: number): Promise<User | null>;
+  recordSuccessfulLogin(id: number, ip?: string): Promise<void>;
+  recordTotpUse(id: number, step: number): Promise<boolean>;
+  useRecoveryCode(id: number, codeHash: string): Promise<boolean>;
+  isTwoFactorRequired(department: string | null): Promise<boolean>;
+  listTwoFactorRequirements(): Promise<TwoFactorRequirement[]>;
+  requireTwoFactor(
+    department: string,
+    requiredBy: number
+  ): Promise<TwoFactorRequirement>;
+  removeTwoFactorRequirement(department: string): Promise<boolean>;
 }
 
 export interface UsersFindManyOptions {
@@ -312,4 +340,264 @@ export class UsersService implements UsersRepository {
 
     return count;
   }
+
+  /**
+   * Find the user holding an unexpired password reset token
+   * (tokens are stored as SHA-256 hashes)
+   */
+  async findByPasswordResetToken(
+    tokenHash: string,
+    now: Date = new Date()
+  ): Promise<User | null> {
+    const result = await this.db.drizzle
+      .select()
+      .from(users)
+      .where(
+        and(
+          eq(users.passwordResetToken, tokenHash),
+          gt(users.passwordResetExpiresAt, now),
+          isNull(users.deletedAt)
+        )
+      )
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * Set a new password using a reset token
+   * The token is checked and cleared in the same UPDATE, so it works once.
+   */
+  async resetPassword(
+    tokenHash: string,
+    passwordHash: string,
+    now: Date = new Date()
+  ): Promise<User | null> {
+    const result = await this.db.drizzle
+      .update(users)
+      .set({
+        passwordHash,
+        passwordChangedAt: now,
+        passwordResetToken: null,
+        passwordResetExpiresAt: null,
+        failedLoginAttempts: 0,
+        accountLockedUntil: null,
+        updatedAt: now,
+      })
+      .where(
+        and(
+          eq(users.passwordResetToken, tokenHash),
+          gt(users.passwordResetExpiresAt, now),
+          isNull(users.deletedAt)
+        )
+      )
+      .returning();
+
+    const updated = result[0] || null;
+    if (updated) {
+      await this.refreshCache(updated);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Confirm the email address using a verification token (single use)
+   */
+  async verifyEmail(
+    tokenHash: string,
+    now: Date = new Date()
+  ): Promise<User | null> {
+    const result = await this.db.drizzle
+      .update(users)
+      .set({
+        emailVerified: true,
+        emailVerifiedAt: now,
+        emailVerificationToken: null,
+        emailVerificationExpiresAt: null,
+        updatedAt: now,
+      })
+      .where(
+        and(
+          eq(users.emailVerificationToken, tokenHash),
+          gt(users.emailVerificationExpiresAt, now),
+          isNull(users.deletedAt)
+        )
+      )
+      .returning();
+
+    const updated = result[0] || null;
+    if (updated) {
+      await this.refreshCache(updated);
+      await this.cache.invalidateList('users');
+    }
+
+    return updated;
+  }
+
+  /**
+   * Record a failed login attempt
+   * Locks the account once the attempt limit is reached (see login-lockout).
+   * Returns the updated user so callers can report the lock.
+   */
+  async recordFailedLogin(id: number): Promise<User | null> {
+    const result = await this.db.drizzle
+      .update(users)
+      .set(failedLoginChanges(users))
+      .where(eq(users.id, id))
+      .returning();
+
+    const updated = result[0] || null;
+    if (updated) {
+      await this.refreshCache(updated);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Record a successful login
+   * Resets the failed attempt counter and any lock.
+   */
+  async recordSuccessfulLogin(id: number, ip?: string): Promise<void> {
+    const result = await this.db.drizzle
+      .update(users)
+      .set(successfulLoginChanges(ip))
+      .where(eq(users.id, id))
+      .returning();
+
+    if (result[0]) {
+      await this.refreshCache(result[0]);
+    }
+  }
+
+  /**
+   * Accept a TOTP time step for the user (replay protection)
+   * Returns false when a code of this step or a later one was already used.
+   */
+  async recordTotpUse(id: number, step: number): Promise<boolean> {
+    const result = await this.db.drizzle
+      .update(users)
+      .set({ twoFactorLastUsedStep: step, updatedAt: new Date() })
+      .where(
+        and(
+          eq(users.id, id),
+          or(
+            isNull(users.twoFactorLastUsedStep),
+            lt(users.twoFactorLastUsedStep, step)
+          )
+        )
+      )
+      .returning();
+
+    const updated = result[0] || null;
+    if (updated) {
+      await this.refreshCache(updated);
+    }
+
+    return updated !== null;
+  }
+
+  /**
+   * Use up a recovery code (by hash)
+   * The UPDATE only applies if the list did not change since it was read, so
+   * a code cannot be used twice concurrently.
+   */
+  async useRecoveryCode(id: number, codeHash: string): Promise<boolean> {
+    const result = await this.db.drizzle
+      .select({ codes: users.twoFactorRecoveryCodes })
+      .from(users)
+      .where(and(eq(users.id, id), isNull(users.deletedAt)))
+      .limit(1);
+
+    const stored = result[0]?.codes;
+    if (!stored) {
+      return false;
+    }
+
+    const codes: string[] = JSON.parse(stored);
+    if (!codes.includes(codeHash)) {
+      return false;
+    }
+
+    const updated = await this.db.drizzle
+      .update(users)
+      .set({
+        twoFactorRecoveryCodes: JSON.stringify(
+          codes.filter((code) => code !== codeHash)
+        ),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(users.id, id), eq(users.twoFactorRecoveryCodes, stored)))
+      .returning();
+
+    if (!updated[0]) {
+      return false;
+    }
+
+    await this.refreshCache(updated[0]);
+    return true;
+  }
+
+  /**
+   * Whether users of a department must use two-factor authentication
+   */
+  async isTwoFactorRequired(department: string | null): Promise<boolean> {
+    if (!department) {
+      return false;
+    }
+
+    const result = await this.db.drizzle
+      .select({ department: twoFactorRequirements.department })
+      .from(twoFactorRequirements)
+      .where(eq(twoFactorRequirements.department, department))
+      .limit(1);
+
+    return result.length > 0;
+  }
+
+  async listTwoFactorRequirements(): Promise<TwoFactorRequirement[]> {
+    return this.db.drizzle
+      .select()
+      .from(twoFactorRequirements)
+      .orderBy(twoFactorRequirements.department);
+  }
+
+  /**
+   * Require two-factor authentication for a department (idempotent)
+   */
+  async requireTwoFactor(
+    department: string,
+    requiredBy: number
+  ): Promise<TwoFactorRequirement> {
+    await this.db.drizzle
+      .insert(twoFactorRequirements)
+      .values({ department, requiredBy })
+      .onConflictDoNothing();
+
+    const result = await this.db.drizzle
+      .select()
+      .from(twoFactorRequirements)
+      .where(eq(twoFactorRequirements.department, department))
+      .limit(1);
+
+    return result[0]!;
+  }
+
+  async removeTwoFactorRequirement(department: string): Promise<boolean> {
+    const result = await this.db.drizzle
+      .delete(twoFactorRequirements)
+      .where(eq(twoFactorRequirements.department, department))
+      .returning();
+
+    return result.length > 0;
+  }
+
+  /**
+   * Re-cache the by-id and by-email lookups after a targeted update
+   */
+  private async refreshCache(user: User): Promise<void> {
+    await this.cache.set(`users:${user.id}`, user, { ttl: 300 });
+    await this.cache.set(`users:email:${user.email}`, user, { ttl: 300 });
+  }
 }
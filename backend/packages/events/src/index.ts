@@ -11,6 +11,12 @@
  * - This allows replacing Redis with RabbitMQ/SQS without changing domain logic
  */
 
+/**
+ * Redis stream that carries every domain event
+ * Publishers append to it, the worker consumes it through a consumer group
+ */
+export const DOMAIN_EVENTS_STREAM = "domain-events";
+
 export type EventMetadata = {
   eventId: string;
   timestamp: number;
@@ -27,9 +33,11 @@ export type OrderCreatedEvent = BaseEvent & {
   type: "order.created";
   payload: {
     orderId: string;
+    orderNumber?: string; // Human-readable number quoted to customers (ORD-2026-000042)
     customerId: string;
     items: Array<{
       productId: string;
+      productVariantId?: string;
       quantity: number;
       price: number;
     }>;
@@ -53,7 +61,36 @@ export type OrderCancelledEvent = BaseEvent & {
   payload: {
     orderId: string;
     reason: string;
-    cancelledBy: string;
+    cancelledBy: string; // Admin user id, "customer:<id>" or "system"
+    cancellationSource?: "admin" | "customer" | "system";
+  };
+};
+
+// Payment Domain Events
+export type PaymentConfirmedEvent = BaseEvent & {
+  type: "payment.confirmed";
+  payload: {
+    orderId: string;
+    transactionId: string;
+    gateway: string;
+    paymentMethod?: string; // pix, credit_card, ...
+    amount: number;
+    confirmedAt: number;
+  };
+};
+
+export type PaymentRefundedEvent = BaseEvent & {
+  type: "payment.refunded";
+  payload: {
+    orderId: string;
+    refundId: string;
+    transactionId: string;
+    gateway: string;
+    amount: number; // This refund
+    totalRefunded: number; // All refunds of the order so far
+    reason: string; // order_cancelled, item_unavailable, ...
+    paymentStatus: "partially_refunded" | "refunded";
+    refundedAt: number;
   };
 };
 
@@ -104,43 +141,94 @@ export type PickingCompletedEvent = BaseEvent & {
 export type DeliveryAssignedEvent = BaseEvent & {
   type: "delivery.assigned";
   payload: {
+    assignmentId: string;
+    orderId: string;
+    courierId: string;
+    estimatedPickupTime?: number;
+    estimatedDeliveryTime?: number;
+  };
+};
+
+export type DeliveryAcceptedEvent = BaseEvent & {
+  type: "delivery.accepted";
+  payload: {
+    assignmentId: string;
     orderId: string;
     courierId: string;
-    estimatedPickupTime: number;
-    estimatedDeliveryTime: number;
+    acceptedAt: number;
+  };
+};
+
+export type DeliveryRejectedEvent = BaseEvent & {
+  type: "delivery.rejected";
+  payload: {
+    assignmentId: string;
+    orderId: string;
+    courierId: string;
+    reason: string;
+    rejectedAt: number;
   };
 };
 
 export type DeliveryPickedUpEvent = BaseEvent & {
   type: "delivery.picked_up";
   payload: {
+    assignmentId: string;
     orderId: string;
     courierId: string;
     pickedUpAt: number;
   };
 };
 
+export type DeliveryInTransitEvent = BaseEvent & {
+  type: "delivery.in_transit";
+  payload: {
+    assignmentId: string;
+    orderId: string;
+    courierId: string;
+    inTransitAt: number;
+  };
+};
+
 export type DeliveryCompletedEvent = BaseEvent & {
   type: "delivery.completed";
   payload: {
+    assignmentId: string;
     orderId: string;
     courierId: string;
     completedAt: number;
   };
 };
 
+export type DeliveryCancelledEvent = BaseEvent & {
+  type: "delivery.cancelled";
+  payload: {
+    assignmentId: string;
+    orderId: string;
+    courierId: string;
+    reason: string;
+    cancelledAt: number;
+  };
+};
+
 // Union type for all events
 export type DomainEvent =
   | OrderCreatedEvent
   | OrderStatusChangedEvent
   | OrderCancelledEvent
+  | PaymentConfirmedEvent
+  | PaymentRefundedEvent
   | InventoryReservedEvent
   | InventoryReleasedEvent
   | PickingStartedEvent
   | PickingCompletedEvent
   | DeliveryAssignedEvent
+  | DeliveryAcceptedEvent
+  | DeliveryRejectedEvent
   | DeliveryPickedUpEvent
-  | DeliveryCompletedEvent;
+  | DeliveryInTransitEvent
+  | DeliveryCompletedEvent
+  | DeliveryCancelledEvent;
 
 /**
  * Event Factory
@@ -0,0 +1,138 @@
+/**
+ * Mailer Package
+ *
+ * Transactional email delivery behind a pluggable interface.
+ *
+ * Architecture Decision:
+ * - Apps depend on the Mailer interface only; the transport is chosen by
+ *   configuration (MAILER_TRANSPORT)
+ * - Local transports: console (logs every message) and file (appends JSON
+ *   lines, so tests and local setups can read the links that were sent)
+ * - A real provider (SMTP, SES, ...) plugs in as another Mailer
+ */
+
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Logs messages instead of sending them (development)
+ */
+export class ConsoleMailer implements Mailer {
+  async send(message: MailMessage): Promise<void> {
+    console.log(
+      `[Mailer] To: ${message.to}\n[Mailer] Subject: ${message.subject}\n${message.text}`
+    );
+  }
+}
+
+/**
+ * Appends each message as a JSON line to a local file
+ */
+export class FileMailer implements Mailer {
+  constructor(private filePath: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await appendFile(
+      this.filePath,
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + '\n'
+    );
+  }
+}
+
+export type MailerConfig = {
+  transport?: string; // console | file
+  filePath?: string;
+};
+
+/**
+ * Build the mailer selected by configuration
+ * Defaults to MAILER_TRANSPORT / MAILER_FILE_PATH.
+ */
+export function createMailer(
+  config: MailerConfig = {
+    transport: process.env.MAILER_TRANSPORT,
+    filePath: process.env.MAILER_FILE_PATH,
+  }
+): Mailer {
+  switch (config.transport ?? 'console') {
+    case 'console':
+      return new ConsoleMailer();
+    case 'file':
+      return new FileMailer(config.filePath ?? 'tmp/mail/outbox.jsonl');
+    default:
+      throw new Error(`Unknown mailer transport: ${config.transport}`);
+  }
+}
+
+/**
+ * Account emails (password reset, email verification)
+ *
+ * Links point to the front-end app at `appUrl`, which posts the token back
+ * to the API.
+ */
+export class AccountEmails {
+  constructor(private mailer: Mailer, private appUrl: string) {}
+
+  async sendPasswordReset(
+    recipient: { email: string; firstName: string },
+    token: string,
+    expiresAt: Date
+  ): Promise<void> {
+    const link = `${this.appUrl}/reset-password?token=${encodeURIComponent(
+      token
+    )}`;
+
+    await this.mailer.send({
+      to: recipient.email,
+      subject: 'Redefinição de senha - Lokaly',
+      text: [
+        `Olá, ${recipient.firstName}!`,
+        '',
+        'Recebemos um pedido para redefinir a sua senha. Para escolher uma nova senha, acesse:',
+        link,
+        '',
+        `O link vale até ${formatDateTime(expiresAt)} e só pode ser usado uma vez.`,
+        'Se você não pediu a redefinição, ignore este email; a sua senha continua a mesma.',
+      ].join('\n'),
+    });
+  }
+
+  async sendEmailVerification(
+    recipient: { email: string; firstName: string },
+    token: string,
+    expiresAt: Date
+  ): Promise<void> {
+    const link = `${this.appUrl}/verify-email?token=${encodeURIComponent(
+      token
+    )}`;
+
+    await this.mailer.send({
+      to: recipient.email,
+      subject: 'Confirme o seu email - Lokaly',
+      text: [
+        `Olá, ${recipient.firstName}!`,
+        '',
+        'Confirme o seu endereço de email acessando:',
+        link,
+        '',
+        `O link vale até ${formatDateTime(expiresAt)}.`,
+      ].join('\n'),
+    });
+  }
+}
+
+function formatDateTime(date: Date): string {
+  return date.toLocaleString('pt-BR', { timeZone: 'America/Sao_Paulo' });
+}
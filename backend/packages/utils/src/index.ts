@@ -13,6 +13,7 @@ export function sleep(ms: number): Promise<void> {
 
 /**
  * Retry logic with exponential backoff
+ * Errors rejected by `shouldRetry` are rethrown at once (permanent failures).
  */
 export async function retry<T>(
   fn: () => Promise<T>,
@@ -21,6 +22,7 @@ export async function retry<T>(
     initialDelay?: number;
     maxDelay?: number;
     backoffMultiplier?: number;
+    shouldRetry?: (error: Error) => boolean;
   } = {}
 ): Promise<T> {
   const {
@@ -28,6 +30,7 @@ export async function retry<T>(
     initialDelay = 1000,
     maxDelay = 10000,
     backoffMultiplier = 2,
+    shouldRetry = () => true,
   } = options;
 
   let lastError: Error | null = null;
@@ -38,7 +41,7 @@ export async function retry<T>(
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
 
-      if (attempt === maxAttempts) {
+      if (attempt === maxAttempts || !shouldRetry(lastError)) {
         throw lastError;
       }
 
@@ -78,3 +81,24 @@ export function isError(error: unknown): error is Error {
   return error instanceof Error;
 }
 
+
+/**
+ * Great-circle distance between two coordinates in kilometers (haversine)
+ */
+export function distanceKm(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+): number {
+  const earthRadiusKm = 6371;
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(dLng / 2) ** 2;
+
+  return 2 * earthRadiusKm * Math.asin(Math.sqrt(a));
+}